@@ -0,0 +1,95 @@
+import { getCacheDirectoryPath } from '../../lib/config/index.js';
+import { ResponseCache } from '../../lib/cache/responseCache.js';
+
+const BYTES_PER_KILOBYTE = 1024;
+
+/**
+ * Parses the cache command arguments.
+ * Expected formats:
+ * - list → list all cached responses
+ * - clear [--expired] → remove all (or only expired) cached responses
+ */
+const parseCacheArguments = (
+  argumentsList: string[],
+): { action: 'list' | 'clear'; expiredOnly: boolean } => {
+  if (argumentsList.length === 0) {
+    throw new Error('Usage: cache <action>\nActions:\n  list\n  clear [--expired]');
+  }
+
+  const action = argumentsList[0];
+
+  if (action === 'list') {
+    return { action: 'list', expiredOnly: false };
+  }
+
+  if (action === 'clear') {
+    return { action: 'clear', expiredOnly: argumentsList.includes('--expired') };
+  }
+
+  throw new Error(`Unknown cache action: ${action}. Valid actions: list, clear`);
+};
+
+/**
+ * Lists all cached responses with their window, size and expiry.
+ */
+const handleListAction = async (cache: ResponseCache): Promise<void> => {
+  const entries = await cache.list();
+
+  console.log(`Cache directory: ${cache.getDirectoryPath()}`);
+  if (entries.length === 0) {
+    console.log('No cached responses.');
+    return;
+  }
+
+  console.log('Cached responses:');
+  for (const entry of entries) {
+    const window = `${entry.key.from.slice(0, 10)} → ${entry.key.to.slice(0, 10)}`;
+    const expiry = entry.expired
+      ? 'expired'
+      : entry.expiresAt === null
+        ? 'immutable'
+        : `expires ${entry.expiresAt}`;
+    const size = (entry.sizeBytes / BYTES_PER_KILOBYTE).toFixed(1);
+    console.log(
+      `  ${entry.key.connector} (${entry.key.account}) ${entry.key.method} ${window}: ${entry.contributionCount} contributions, ${size} KB, ${expiry}`,
+    );
+  }
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  console.log(
+    `\nTotal: ${entries.length} entries, ${(totalSize / BYTES_PER_KILOBYTE).toFixed(1)} KB`,
+  );
+};
+
+/**
+ * Removes all (or only expired) cached responses.
+ */
+const handleClearAction = async (cache: ResponseCache, expiredOnly: boolean): Promise<void> => {
+  const removed = await cache.clear({ expiredOnly });
+  console.log(`✓ Removed ${removed} ${expiredOnly ? 'expired ' : ''}cached response(s)`);
+};
+
+/**
+ * Handles the cache command by inspecting or clearing the on-disk response cache.
+ * Supports two actions:
+ * - list: Display all cached responses
+ * - clear [--expired]: Remove cached responses
+ */
+export const handleCacheCommand = async (argumentsList: string[]): Promise<void> => {
+  try {
+    const { action, expiredOnly } = parseCacheArguments(argumentsList);
+    const cache = new ResponseCache(getCacheDirectoryPath());
+
+    switch (action) {
+      case 'list':
+        await handleListAction(cache);
+        break;
+      case 'clear':
+        await handleClearAction(cache, expiredOnly);
+        break;
+    }
+  } catch (error) {
+    console.error('Error managing cache:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+};
@@ -0,0 +1,55 @@
+import { parseRange } from '../../lib/time/dateRanges.js';
+import { createWorkTimeFormatter } from '../../formatters/index.js';
+import { initializeConnectors, initializeStoredConnectors } from '../../lib/initialization.js';
+import { writeOutput } from '../io/output.js';
+import { loadConfiguration } from '../../lib/config/index.js';
+import {
+  assertCompleteReport,
+  generateWorkTimeReport,
+} from '../../lib/services/reportGenerator.js';
+import type { CliArguments } from '../types.js';
+import { logProgress } from '../../lib/progress.js';
+
+/**
+ * Estimates work time per day and project from contribution timestamps and writes it.
+ * Session gap and padding come from the command line or the workTime configuration.
+ *
+ * @param cliArguments - Parsed CLI arguments
+ */
+export const runWorkTimeReport = async (cliArguments: CliArguments): Promise<void> => {
+  // Create the formatter first, so an unsupported format fails before anything is fetched
+  const formatter = createWorkTimeFormatter(cliArguments.output);
+
+  // Initialize all available connectors, or the synced ones when offline
+  const connectors = cliArguments.offline
+    ? await initializeStoredConnectors()
+    : await initializeConnectors({ useCache: !cliArguments.noCache });
+  const configuration = await loadConfiguration();
+  const { from, to } = parseRange(
+    cliArguments.from,
+    cliArguments.to,
+    cliArguments.lastweek,
+    cliArguments.lastmonth,
+  );
+
+  logProgress(
+    `Estimating work time from ${from.format('YYYY-MM-DD')} to ${to.format('YYYY-MM-DD')}...\n`,
+  );
+
+  const report = await generateWorkTimeReport(connectors, configuration, from, to, {
+    sessionGapMinutes: cliArguments.sessionGapMinutes,
+    sessionPaddingMinutes: cliArguments.sessionPaddingMinutes,
+  });
+  if (cliArguments.strict) {
+    assertCompleteReport(report);
+  }
+
+  // Format data
+  const result = formatter.format(report.entries, {
+    withLinks: false,
+    warnings: report.warnings,
+  });
+
+  // Write output as git-contributions-<from>-<to>.hours.<ext>
+  await writeOutput(result, cliArguments.output, from, to, 'hours');
+};
@@ -1,10 +1,13 @@
 import { parseRange } from '../../lib/time/dateRanges.js';
-import { createFormatter } from '../../formatters/index.js';
-import { initializeConnectors } from '../../lib/initialization.js';
-import { writeOutput } from '../io/output.js';
+import { compileReportTemplate, createFormatter } from '../../formatters/index.js';
+import { formatWarningsFooter } from '../../formatters/shared.js';
+import { initializeConnectors, initializeStoredConnectors } from '../../lib/initialization.js';
+import { streamOutput, writeOutput } from '../io/output.js';
+import { loadTemplate } from '../io/template.js';
 import { loadConfiguration } from '../../lib/config/index.js';
-import { generateReport } from '../../lib/services/reportGenerator.js';
+import { assertCompleteReport, generateReport } from '../../lib/services/reportGenerator.js';
 import type { CliArguments } from '../types.js';
+import { logProgress } from '../../lib/progress.js';
 
 /**
  * Fetches contributions, formats them, and writes output.
@@ -14,8 +17,15 @@ import type { CliArguments } from '../types.js';
  * @param cliArguments - Parsed CLI arguments
  */
 export const runContributionReport = async (cliArguments: CliArguments): Promise<void> => {
-  // Initialize all available connectors
-  const connectors = await initializeConnectors();
+  // Compile the template first, so a broken template fails before anything is fetched
+  const template = cliArguments.templateFile
+    ? compileReportTemplate(await loadTemplate(cliArguments.templateFile))
+    : undefined;
+
+  // Initialize all available connectors, or the synced ones when offline
+  const connectors = cliArguments.offline
+    ? await initializeStoredConnectors()
+    : await initializeConnectors({ useCache: !cliArguments.noCache });
   const configuration = await loadConfiguration();
   const { from, to } = parseRange(
     cliArguments.from,
@@ -24,19 +34,34 @@ export const runContributionReport = async (cliArguments: CliArguments): Promise
     cliArguments.lastmonth,
   );
 
-  console.log(
+  logProgress(
     `Generating all-commits report from ${from.format('YYYY-MM-DD')} to ${to.format('YYYY-MM-DD')}...\n`,
   );
 
   // Generate report using service layer
-  const contributions = await generateReport(connectors, configuration, from, to);
+  const report = await generateReport(connectors, configuration, from, to);
+  if (cliArguments.strict) {
+    assertCompleteReport(report);
+  }
 
   // Format data
   const formatter = createFormatter(cliArguments.output);
-  const result = formatter.format(contributions, {
+  const result = formatter.format(report.contributions, {
     withLinks: cliArguments.withLinks,
+    warnings: report.warnings,
+    groupBy: cliArguments.groupBy,
+    calendarEvents: cliArguments.calendarEvents,
+    template,
+    range: { from: from.format('YYYY-MM-DD'), to: to.format('YYYY-MM-DD') },
+    workTime: configuration.workTime,
+    tempo: configuration.tempo,
   });
 
-  // Write output
-  await writeOutput(result.content, cliArguments.output, from, to);
+  // Write output; line-based output is streamed, with warnings on stderr to keep it parseable
+  if (result.lines) {
+    await streamOutput(result.lines, cliArguments.outputFile);
+    formatWarningsFooter(report.warnings).forEach((line) => console.error(line));
+    return;
+  }
+  await writeOutput(result, cliArguments.output, from, to);
 };
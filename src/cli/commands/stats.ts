@@ -0,0 +1,51 @@
+import { parseRange } from '../../lib/time/dateRanges.js';
+import { createSummaryFormatter } from '../../formatters/index.js';
+import { initializeConnectors, initializeStoredConnectors } from '../../lib/initialization.js';
+import { writeOutput } from '../io/output.js';
+import { loadConfiguration } from '../../lib/config/index.js';
+import { assertCompleteReport, generateReport } from '../../lib/services/reportGenerator.js';
+import { summarizeContributions } from '../../lib/services/contributionStats.js';
+import type { CliArguments } from '../types.js';
+import { logProgress } from '../../lib/progress.js';
+
+/**
+ * Fetches contributions and writes summary statistics instead of the individual contributions.
+ * Aggregates the same contributions as the default report.
+ *
+ * @param cliArguments - Parsed CLI arguments
+ */
+export const runStatsReport = async (cliArguments: CliArguments): Promise<void> => {
+  // Create the formatter first, so an unsupported format fails before anything is fetched
+  const formatter = createSummaryFormatter(cliArguments.output);
+
+  // Initialize all available connectors, or the synced ones when offline
+  const connectors = cliArguments.offline
+    ? await initializeStoredConnectors()
+    : await initializeConnectors({ useCache: !cliArguments.noCache });
+  const configuration = await loadConfiguration();
+  const { from, to } = parseRange(
+    cliArguments.from,
+    cliArguments.to,
+    cliArguments.lastweek,
+    cliArguments.lastmonth,
+  );
+
+  logProgress(
+    `Generating statistics from ${from.format('YYYY-MM-DD')} to ${to.format('YYYY-MM-DD')}...\n`,
+  );
+
+  const report = await generateReport(connectors, configuration, from, to);
+  if (cliArguments.strict) {
+    assertCompleteReport(report);
+  }
+
+  // Aggregate and format
+  const summary = summarizeContributions(report.contributions);
+  const result = formatter.format(summary, {
+    withLinks: false,
+    warnings: report.warnings,
+  });
+
+  // Write output next to the report files, as git-contributions-<from>-<to>.stats.<ext>
+  await writeOutput(result, cliArguments.output, from, to, 'stats');
+};
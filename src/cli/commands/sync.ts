@@ -0,0 +1,44 @@
+import dayjs from 'dayjs';
+import { initializeConnectors } from '../../lib/initialization.js';
+import { getStoreDirectoryPath } from '../../lib/config/index.js';
+import { ContributionStore } from '../../lib/store/contributionStore.js';
+import { syncContributions } from '../../lib/services/contributionSync.js';
+import { ValidationError } from '../../lib/errors/validationError.js';
+import type { CliArguments } from '../types.js';
+
+/**
+ * Fetches contributions newer than the last sync from every connector into the local store.
+ * Bypasses the response cache, as the sync window always reaches up to now.
+ *
+ * @param cliArguments - Parsed CLI arguments (from: optional re-sync start date)
+ */
+export const runSync = async (cliArguments: CliArguments): Promise<void> => {
+  let from: dayjs.Dayjs | undefined;
+  if (cliArguments.from) {
+    from = dayjs(cliArguments.from);
+    if (!from.isValid()) {
+      throw new ValidationError(`Invalid sync start date: ${cliArguments.from}`, [
+        'Use the YYYY-MM-DD format, e.g. git-activity-tracer sync 2025-01-01',
+      ]);
+    }
+  }
+
+  const connectors = await initializeConnectors({ useCache: false });
+  const store = new ContributionStore(getStoreDirectoryPath());
+
+  const results = await syncContributions(connectors, store, { from });
+
+  for (const result of results) {
+    if (result.error) {
+      console.warn(`✗ ${result.connector}: ${result.error}`);
+    } else {
+      console.log(
+        `✓ ${result.connector}: ${result.contributionCount} contributions from ${result.from.slice(0, 10)} to ${result.to.slice(0, 10)}`,
+      );
+    }
+    for (const warning of result.warnings ?? []) {
+      console.warn(`  ⚠ ${warning}`);
+    }
+  }
+  console.log(`\nStore: ${store.getDirectoryPath()}`);
+};
@@ -0,0 +1,67 @@
+import { parseRange } from '../../lib/time/dateRanges.js';
+import { createTimesheetFormatter } from '../../formatters/index.js';
+import { initializeConnectors, initializeStoredConnectors } from '../../lib/initialization.js';
+import { writeOutput } from '../io/output.js';
+import { loadConfiguration } from '../../lib/config/index.js';
+import {
+  assertCompleteReport,
+  generateWorkTimeReport,
+} from '../../lib/services/reportGenerator.js';
+import {
+  buildCountTimesheet,
+  buildHoursTimesheet,
+  parseRoundingRule,
+} from '../../lib/services/timesheet.js';
+import type { CliArguments } from '../types.js';
+import { logProgress } from '../../lib/progress.js';
+
+/**
+ * Builds a day × project ID timesheet of estimated hours (or contribution counts) and writes it.
+ * Repositories without a project ID mapping are reported separately instead of being booked.
+ *
+ * @param cliArguments - Parsed CLI arguments
+ */
+export const runTimesheetReport = async (cliArguments: CliArguments): Promise<void> => {
+  // Create the formatter first, so an unsupported format fails before anything is fetched
+  const formatter = createTimesheetFormatter(cliArguments.output);
+
+  const configuration = await loadConfiguration();
+  // Validate the rounding rule before fetching anything
+  const rounding = parseRoundingRule(cliArguments.rounding ?? configuration.timesheet?.rounding);
+
+  // Initialize all available connectors, or the synced ones when offline
+  const connectors = cliArguments.offline
+    ? await initializeStoredConnectors()
+    : await initializeConnectors({ useCache: !cliArguments.noCache });
+  const { from, to } = parseRange(
+    cliArguments.from,
+    cliArguments.to,
+    cliArguments.lastweek,
+    cliArguments.lastmonth,
+  );
+
+  logProgress(
+    `Generating timesheet from ${from.format('YYYY-MM-DD')} to ${to.format('YYYY-MM-DD')}...\n`,
+  );
+
+  const report = await generateWorkTimeReport(connectors, configuration, from, to, {
+    sessionGapMinutes: cliArguments.sessionGapMinutes,
+    sessionPaddingMinutes: cliArguments.sessionPaddingMinutes,
+  });
+  if (cliArguments.strict) {
+    assertCompleteReport(report);
+  }
+
+  const timesheet = cliArguments.counts
+    ? buildCountTimesheet(report.contributions, from, to, configuration.workTime?.timeZone)
+    : buildHoursTimesheet(report.entries, from, to, rounding);
+
+  // Format data
+  const result = formatter.format(timesheet, {
+    withLinks: false,
+    warnings: report.warnings,
+  });
+
+  // Write output as git-contributions-<from>-<to>.timesheet.<ext>
+  await writeOutput(result, cliArguments.output, from, to, 'timesheet');
+};
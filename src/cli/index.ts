@@ -1,9 +1,16 @@
 import { parseCliArguments } from './parser.js';
 import { handleShowConfigCommand } from './commands/showConfig.js';
 import { handleProjectIdCommand } from './commands/projectId.js';
+import { handleCacheCommand } from './commands/cache.js';
 import { runContributionReport } from './commands/report.js';
 import { runAllCommitsReport } from './commands/allCommits.js';
+import { runStatsReport } from './commands/stats.js';
+import { runWorkTimeReport } from './commands/hours.js';
+import { runTimesheetReport } from './commands/timesheet.js';
+import { runSync } from './commands/sync.js';
+import { sendProgressToStderr } from '../lib/progress.js';
 import { handleError } from './errorHandler.js';
+import { ValidationError } from '../lib/errors/validationError.js';
 
 /**
  * Main CLI entry point.
@@ -12,13 +19,36 @@ import { handleError } from './errorHandler.js';
  * Handles:
  * - config: Display configuration and exit
  * - project-id: Manage repository project ID mappings
+ * - cache: Inspect and clear the on-disk response cache
  * - all-commits: Show all commits from all branches
+ * - stats: Summarize contributions by day, week, repository, project ID and type
+ * - hours: Estimate work time per day and project
+ * - timesheet: Hours or contribution counts per day and project ID
+ * - sync: Fetch new contributions into the local store
  * - default: Run contribution report
  */
 export const main = async () => {
   try {
     const cliArguments = parseCliArguments();
 
+    const streamed = cliArguments.output === 'ndjson' || cliArguments.output === 'template';
+    if (cliArguments.outputFile && !streamed) {
+      throw new ValidationError('--output is only available for the ndjson and template formats', [
+        'Use --format ndjson --output <file> or --format template --output <file>',
+        'Other formats are written to git-contributions-<from>-<to> files in the current directory',
+      ]);
+    }
+    if ((cliArguments.output === 'template') !== Boolean(cliArguments.templateFile)) {
+      throw new ValidationError('--format template and --template <file> are used together', [
+        'Render contributions through a template with --format template --template <file>',
+      ]);
+    }
+
+    // ndjson and template output go to stdout, so progress messages must not end up in it
+    if (streamed && !cliArguments.outputFile) {
+      sendProgressToStderr();
+    }
+
     if (cliArguments.showConfig) {
       await handleShowConfigCommand();
       return;
@@ -29,11 +59,36 @@ export const main = async () => {
       return;
     }
 
+    if (cliArguments.cacheCommand) {
+      await handleCacheCommand(cliArguments.cacheArgs ?? []);
+      return;
+    }
+
     if (cliArguments.commandType === 'all-commits') {
       await runAllCommitsReport(cliArguments);
       return;
     }
 
+    if (cliArguments.commandType === 'stats') {
+      await runStatsReport(cliArguments);
+      return;
+    }
+
+    if (cliArguments.commandType === 'hours') {
+      await runWorkTimeReport(cliArguments);
+      return;
+    }
+
+    if (cliArguments.commandType === 'timesheet') {
+      await runTimesheetReport(cliArguments);
+      return;
+    }
+
+    if (cliArguments.commandType === 'sync') {
+      await runSync(cliArguments);
+      return;
+    }
+
     await runContributionReport(cliArguments);
   } catch (error) {
     handleError(error);
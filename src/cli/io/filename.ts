@@ -2,19 +2,41 @@ import type { Dayjs } from 'dayjs';
 import type { FileOutputFormat } from '../types.js';
 
 /**
- * Generates a filename for file-based outputs (JSON, CSV).
+ * File extension per output format; import formats for other tools are CSV files
+ * named after the tool, so they are not mistaken for the plain CSV report.
+ */
+const FILE_EXTENSIONS: Record<FileOutputFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  xlsx: 'xlsx',
+  tempo: 'tempo.csv',
+  toggl: 'toggl.csv',
+  harvest: 'harvest.csv',
+  clockify: 'clockify.csv',
+  markdown: 'md',
+  html: 'html',
+  ics: 'ics',
+  ndjson: 'ndjson',
+  template: 'txt',
+};
+
+/**
+ * Generates a filename for file-based outputs (JSON, CSV, XLSX, Markdown, HTML, iCalendar, time tracker CSV).
  *
  * @param fromDate - Start date
  * @param toDate - End date
- * @param format - Output format (json or csv)
- * @returns Filename in format: git-contributions-YYYY-MM-DD-YYYY-MM-DD.ext
+ * @param format - Output format, determines the extension
+ * @param suffix - Optional suffix for additional files, e.g. "warnings"
+ * @returns Filename in format: git-contributions-YYYY-MM-DD-YYYY-MM-DD[.suffix].ext
  */
 export const generateOutputFilename = (
   fromDate: Dayjs,
   toDate: Dayjs,
   format: FileOutputFormat,
+  suffix?: string,
 ): string => {
   const fromFormatted = fromDate.format('YYYY-MM-DD');
   const toFormatted = toDate.format('YYYY-MM-DD');
-  return `git-contributions-${fromFormatted}-${toFormatted}.${format}`;
+  const extension = suffix ? `${suffix}.${FILE_EXTENSIONS[format]}` : FILE_EXTENSIONS[format];
+  return `git-contributions-${fromFormatted}-${toFormatted}.${extension}`;
 };
@@ -1,41 +1,93 @@
-import { promises as fs } from 'fs';
+import { createWriteStream, promises as fs } from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import type { Dayjs } from 'dayjs';
-import type { OutputFormat } from '../../types.js';
+import type { FormatterResult, OutputFormat } from '../../types.js';
 import { generateOutputFilename } from './filename.js';
+import { logProgress } from '../../lib/progress.js';
 
 /**
  * Writes formatted output to console or file based on output format.
  *
  * For console output: writes to stdout
- * For file output: writes to current directory and logs filename
+ * For file output: writes to current directory and logs filename,
+ * together with any sidecar files of the formatter result
  *
- * @param content - Formatted content to write
+ * @param result - Formatted content and sidecars to write
  * @param outputFormat - Target output format
  * @param fromDate - Start date for filename generation
  * @param toDate - End date for filename generation
+ * @param suffix - Optional filename suffix, e.g. "stats" for summary statistics
  */
 export const writeOutput = async (
-  content: string,
+  result: FormatterResult,
   outputFormat: OutputFormat,
   fromDate: Dayjs,
   toDate: Dayjs,
+  suffix?: string,
 ): Promise<void> => {
   try {
     if (outputFormat === 'console') {
-      console.log(content);
+      console.log(result.content);
       return;
     }
 
     // File-based output
-    const filename = generateOutputFilename(fromDate, toDate, outputFormat);
+    const filename = generateOutputFilename(fromDate, toDate, outputFormat, suffix);
     const filepath = path.resolve(process.cwd(), filename);
 
-    await fs.writeFile(filepath, content, 'utf-8');
-    console.log(`Output written to: ${filename}`);
+    await fs.writeFile(filepath, result.data ?? result.content, 'utf-8');
+    logProgress(`Output written to: ${filename}`);
+
+    for (const sidecar of result.sidecars ?? []) {
+      const sidecarFilename = generateOutputFilename(
+        fromDate,
+        toDate,
+        sidecar.format ?? outputFormat,
+        suffix ? `${suffix}.${sidecar.suffix}` : sidecar.suffix,
+      );
+      await fs.writeFile(path.resolve(process.cwd(), sidecarFilename), sidecar.content, 'utf-8');
+      logProgress(`Output written to: ${sidecarFilename}`);
+    }
   } catch (error) {
     throw new Error(
       `Failed to write output: ${error instanceof Error ? error.message : String(error)}`,
     );
   }
 };
+
+/**
+ * Streams output lines to stdout, or to a file when a path is given, one line at a time.
+ * Stops quietly when stdout is closed early, e.g. when piped into head.
+ *
+ * @param lines - Output lines, without line breaks
+ * @param filePath - Optional file to write instead of stdout
+ */
+export const streamOutput = async (lines: Iterable<string>, filePath?: string): Promise<void> => {
+  const source = Readable.from(
+    (function* () {
+      for (const line of lines) {
+        yield `${line}\n`;
+      }
+    })(),
+  );
+
+  try {
+    if (!filePath) {
+      // stdout is not ended, it belongs to the process
+      await pipeline(source, process.stdout, { end: false });
+      return;
+    }
+
+    await pipeline(source, createWriteStream(path.resolve(process.cwd(), filePath), 'utf-8'));
+    logProgress(`Output written to: ${filePath}`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EPIPE') {
+      return;
+    }
+    throw new Error(
+      `Failed to write output: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+};
@@ -0,0 +1,21 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ValidationError } from '../../lib/errors/validationError.js';
+
+/**
+ * Reads the template file of the template format.
+ *
+ * @param filePath - Template file, relative to the current directory
+ * @returns The template text
+ * @throws ValidationError when the file cannot be read
+ */
+export const loadTemplate = async (filePath: string): Promise<string> => {
+  try {
+    return await fs.readFile(path.resolve(process.cwd(), filePath), 'utf-8');
+  } catch (error) {
+    throw new ValidationError(
+      `Cannot read template ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      ['Check the path given with --template, relative paths start at the current directory'],
+    );
+  }
+};
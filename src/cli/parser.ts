@@ -1,8 +1,8 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import type { OutputFormat } from '../types.js';
+import type { CalendarEvents, OutputFormat, ReportGrouping } from '../types.js';
 import type { CliArguments } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -41,6 +41,14 @@ const parseDateRangeArguments = (
   return { from, to, lastweek, lastmonth };
 };
 
+/**
+ * Parses a number of minutes given on the command line.
+ * Invalid values are kept as NaN and rejected where the setting is validated.
+ */
+const parseMinutesOption = (value: string | undefined): number | undefined => {
+  return value === undefined ? undefined : Number(value);
+};
+
 /**
  * Parses command-line arguments using commander.
  * Returns strongly-typed, validated CLI arguments.
@@ -56,8 +64,27 @@ export const parseCliArguments = (): CliArguments => {
     .version(packageJson.version)
     .argument('[from]', 'Start date (YYYY-MM-DD or preset: last-week, last-month, this-week)')
     .argument('[to]', 'End date (YYYY-MM-DD)')
-    .option('-f, --format <type>', 'Output format', 'console')
+    .option(
+      '-f, --format <type>',
+      'Output format: console, json, ndjson, csv, markdown, html, ics, template, tempo, toggl, harvest or clockify',
+      'console',
+    )
     .option('-l, --with-links', 'Include URLs in output', false)
+    .addOption(
+      new Option('--group-by <grouping>', 'Sections of markdown output')
+        .choices(['day', 'repository'])
+        .default('day'),
+    )
+    .addOption(
+      new Option('--calendar-events <events>', 'Events of ics output')
+        .choices(['session', 'contribution'])
+        .default('session'),
+    )
+    .option('--template <file>', 'Template file of the template format')
+    .option('-o, --output <file>', 'File to write ndjson or template output to instead of stdout')
+    .option('--no-cache', 'Bypass the on-disk response cache')
+    .option('--offline', 'Answer from the local contribution store (see sync)', false)
+    .option('--strict', 'Exit with an error when the report data is incomplete', false)
     .action(() => {
       // Default action - handled by the absence of subcommands
     });
@@ -88,6 +115,35 @@ export const parseCliArguments = (): CliArguments => {
       // Handled in main CLI logic
     });
 
+  // Cache management subcommand
+  const cacheCommand = program
+    .command('cache')
+    .description('Inspect and clear the on-disk response cache');
+
+  cacheCommand
+    .command('list')
+    .description('List cached responses')
+    .action(() => {
+      // Handled in main CLI logic
+    });
+
+  cacheCommand
+    .command('clear')
+    .description('Remove cached responses')
+    .option('--expired', 'Only remove expired responses', false)
+    .action(() => {
+      // Handled in main CLI logic
+    });
+
+  // Sync command - fetch new contributions into the local store
+  program
+    .command('sync')
+    .description('Fetch contributions since the last sync into the local store')
+    .argument('[from]', 'Re-sync from this date (YYYY-MM-DD) instead of the last sync')
+    .action(() => {
+      // Handled in main CLI logic
+    });
+
   // Config command
   program
     .command('config')
@@ -102,13 +158,80 @@ export const parseCliArguments = (): CliArguments => {
     .description('Show all commits from all branches within date range')
     .argument('[from]', 'Start date (YYYY-MM-DD or preset: last-week, last-month, this-week)')
     .argument('[to]', 'End date (YYYY-MM-DD)')
-    .option('-f, --format <type>', 'Output format', 'console')
+    .option(
+      '-f, --format <type>',
+      'Output format: console, json, ndjson, csv, markdown, html, ics, template, tempo, toggl, harvest or clockify',
+      'console',
+    )
     .option('-l, --with-links', 'Include URLs in output', false)
+    .addOption(
+      new Option('--group-by <grouping>', 'Sections of markdown output')
+        .choices(['day', 'repository'])
+        .default('day'),
+    )
+    .addOption(
+      new Option('--calendar-events <events>', 'Events of ics output')
+        .choices(['session', 'contribution'])
+        .default('session'),
+    )
+    .option('--template <file>', 'Template file of the template format')
+    .option('-o, --output <file>', 'File to write ndjson or template output to instead of stdout')
+    .option('--no-cache', 'Bypass the on-disk response cache')
+    .option('--offline', 'Answer from the local contribution store (see sync)', false)
+    .option('--strict', 'Exit with an error when the report data is incomplete', false)
     .action((from, to, options) => {
       // Arguments are captured by Commander.js and passed to the action callback
       // The parsing of these arguments is handled after program.parse()
     });
 
+  // Stats command - summary statistics of the contribution report
+  program
+    .command('stats')
+    .description('Summarize contributions by day, week, repository, project ID and type')
+    .argument('[from]', 'Start date (YYYY-MM-DD or preset: last-week, last-month, this-week)')
+    .argument('[to]', 'End date (YYYY-MM-DD)')
+    .option('-f, --format <type>', 'Output format', 'console')
+    .option('--no-cache', 'Bypass the on-disk response cache')
+    .option('--offline', 'Answer from the local contribution store (see sync)', false)
+    .option('--strict', 'Exit with an error when the report data is incomplete', false)
+    .action(() => {
+      // Handled in main CLI logic
+    });
+
+  // Hours command - estimated work time per day and project
+  program
+    .command('hours')
+    .description('Estimate work time per day and project from contribution timestamps')
+    .argument('[from]', 'Start date (YYYY-MM-DD or preset: last-week, last-month, this-week)')
+    .argument('[to]', 'End date (YYYY-MM-DD)')
+    .option('-f, --format <type>', 'Output format', 'console')
+    .option('--no-cache', 'Bypass the on-disk response cache')
+    .option('--offline', 'Answer from the local contribution store (see sync)', false)
+    .option('--strict', 'Exit with an error when the report data is incomplete', false)
+    .option('--session-gap <minutes>', 'Longest pause within a work session (default: 120)')
+    .option('--session-padding <minutes>', 'Time counted before a session (default: 30)')
+    .action(() => {
+      // Handled in main CLI logic
+    });
+
+  // Timesheet command - day × project ID matrix for billing
+  program
+    .command('timesheet')
+    .description('Timesheet of hours (or contribution counts) per day and project ID')
+    .argument('[from]', 'Start date (YYYY-MM-DD or preset: last-week, last-month, this-week)')
+    .argument('[to]', 'End date (YYYY-MM-DD)')
+    .option('-f, --format <type>', 'Output format: console, json, csv or xlsx', 'console')
+    .option('--no-cache', 'Bypass the on-disk response cache')
+    .option('--offline', 'Answer from the local contribution store (see sync)', false)
+    .option('--strict', 'Exit with an error when the report data is incomplete', false)
+    .option('--counts', 'Count contributions instead of estimating hours', false)
+    .option('--rounding <rule>', 'Round every cell: <minutes>[:up|down|nearest] or none')
+    .option('--session-gap <minutes>', 'Longest pause within a work session (default: 120)')
+    .option('--session-padding <minutes>', 'Time counted before a session (default: 30)')
+    .action(() => {
+      // Handled in main CLI logic
+    });
+
   program.parse(process.argv);
 
   const options = program.opts();
@@ -131,6 +254,28 @@ export const parseCliArguments = (): CliArguments => {
     };
   }
 
+  // Handle cache subcommand
+  if (commandName === 'cache') {
+    return {
+      output: 'console',
+      withLinks: false,
+      showConfig: false,
+      cacheCommand: true,
+      cacheArgs: args.slice(1),
+    };
+  }
+
+  // Handle sync command
+  if (commandName === 'sync') {
+    return {
+      commandType: 'sync',
+      from: args[1],
+      output: 'console',
+      withLinks: false,
+      showConfig: false,
+    };
+  }
+
   // Handle config command
   if (commandName === 'config') {
     return {
@@ -149,8 +294,76 @@ export const parseCliArguments = (): CliArguments => {
       commandType: 'all-commits',
       ...dateRange,
       withLinks: options.withLinks,
+      groupBy: options.groupBy as ReportGrouping,
+      calendarEvents: options.calendarEvents as CalendarEvents,
+      outputFile: options.output,
+      templateFile: options.template,
+      output: (options.format as OutputFormat) ?? 'console',
+      showConfig: false,
+      noCache: options.cache === false,
+      offline: options.offline,
+      strict: options.strict,
+    };
+  }
+
+  // Handle stats command
+  if (commandName === 'stats') {
+    const subArgs = args.slice(1);
+    const dateRange = parseDateRangeArguments(subArgs);
+
+    return {
+      commandType: 'stats',
+      ...dateRange,
+      withLinks: false,
+      output: (options.format as OutputFormat) ?? 'console',
+      showConfig: false,
+      noCache: options.cache === false,
+      offline: options.offline,
+      strict: options.strict,
+    };
+  }
+
+  // Handle hours command
+  if (commandName === 'hours') {
+    // Session options only exist on the hours command, so its own operands and options are used
+    const hoursCommand = program.commands.find((command) => command.name() === 'hours')!;
+    const dateRange = parseDateRangeArguments(hoursCommand.args);
+    const hoursOptions = hoursCommand.opts();
+
+    return {
+      commandType: 'hours',
+      ...dateRange,
+      withLinks: false,
+      output: (options.format as OutputFormat) ?? 'console',
+      showConfig: false,
+      noCache: options.cache === false,
+      offline: options.offline,
+      strict: options.strict,
+      sessionGapMinutes: parseMinutesOption(hoursOptions.sessionGap),
+      sessionPaddingMinutes: parseMinutesOption(hoursOptions.sessionPadding),
+    };
+  }
+
+  // Handle timesheet command
+  if (commandName === 'timesheet') {
+    // Timesheet options only exist on the timesheet command, so its own operands and options are used
+    const timesheetCommand = program.commands.find((command) => command.name() === 'timesheet')!;
+    const dateRange = parseDateRangeArguments(timesheetCommand.args);
+    const timesheetOptions = timesheetCommand.opts();
+
+    return {
+      commandType: 'timesheet',
+      ...dateRange,
+      withLinks: false,
       output: (options.format as OutputFormat) ?? 'console',
       showConfig: false,
+      noCache: options.cache === false,
+      offline: options.offline,
+      strict: options.strict,
+      sessionGapMinutes: parseMinutesOption(timesheetOptions.sessionGap),
+      sessionPaddingMinutes: parseMinutesOption(timesheetOptions.sessionPadding),
+      counts: timesheetOptions.counts,
+      rounding: timesheetOptions.rounding,
     };
   }
 
@@ -161,7 +374,14 @@ export const parseCliArguments = (): CliArguments => {
   return {
     ...dateRange,
     withLinks: options.withLinks,
+    groupBy: options.groupBy as ReportGrouping,
+    calendarEvents: options.calendarEvents as CalendarEvents,
+    outputFile: options.output,
+    templateFile: options.template,
     output: (options.format as OutputFormat) ?? 'console',
     showConfig: false,
+    noCache: options.cache === false,
+    offline: options.offline,
+    strict: options.strict,
   };
 };
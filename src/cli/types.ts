@@ -1,4 +1,4 @@
-import type { OutputFormat } from '../types.js';
+import type { CalendarEvents, OutputFormat, ReportGrouping } from '../types.js';
 
 /**
  * File output formats (excludes console output).
@@ -9,8 +9,8 @@ export type FileOutputFormat = Exclude<OutputFormat, 'console'>;
  * Parsed and validated CLI arguments.
  */
 export interface CliArguments {
-  /** Command type: 'report' (default) or 'all-commits' */
-  commandType?: 'report' | 'all-commits';
+  /** Command type: 'report' (default), 'all-commits', 'stats', 'hours', 'timesheet' or 'sync' */
+  commandType?: 'report' | 'all-commits' | 'stats' | 'hours' | 'timesheet' | 'sync';
   /** Start date in YYYY-MM-DD format, or undefined for default (Monday of current week) */
   from?: string;
   /** End date in YYYY-MM-DD format, or undefined for default (today) */
@@ -24,4 +24,28 @@ export interface CliArguments {
   showConfig: boolean;
   projectIdCommand?: boolean;
   projectIdArgs?: string[];
+  cacheCommand?: boolean;
+  cacheArgs?: string[];
+  /** Bypass the on-disk response cache */
+  noCache?: boolean;
+  /** Answer from the local contribution store instead of the platforms */
+  offline?: boolean;
+  /** Sections of markdown output: per day or per repository */
+  groupBy?: ReportGrouping;
+  /** Calendar events of ics output: per work session or per contribution */
+  calendarEvents?: CalendarEvents;
+  /** File to write ndjson or template output to, stdout when omitted */
+  outputFile?: string;
+  /** Template file of the template format */
+  templateFile?: string;
+  /** Fail instead of writing a report when connectors reported incomplete data */
+  strict?: boolean;
+  /** Longest pause within a work session, in minutes (hours and timesheet commands) */
+  sessionGapMinutes?: number;
+  /** Time counted before a session, in minutes (hours and timesheet commands) */
+  sessionPaddingMinutes?: number;
+  /** Count contributions instead of estimating hours (timesheet command) */
+  counts?: boolean;
+  /** Rounding rule for timesheet cells, e.g. "15:up" (timesheet command) */
+  rounding?: string;
 }
@@ -0,0 +1,633 @@
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../types.js';
+import type { AzureDevOpsConfiguration, Configuration } from '../lib/config/index.js';
+import type { Connector } from './types.js';
+import type { HttpClient, QueryParameters } from '../lib/http/httpClient.js';
+import { createHttpClient } from '../lib/http/httpClient.js';
+import { HttpError } from '../lib/errors/httpError.js';
+import { deduplicateContributions } from '../lib/services/contributionDeduplicator.js';
+import type {
+  AzureDevOpsCommit,
+  AzureDevOpsConnectionData,
+  AzureDevOpsList,
+  AzureDevOpsProject,
+  AzureDevOpsPullRequest,
+  AzureDevOpsPush,
+  AzureDevOpsPushedRepository,
+  AzureDevOpsRepository,
+  AzureDevOpsThread,
+  DateRange,
+  DateRangeTimestamps,
+} from './azureDevOps.types.js';
+import { logProgress } from '../lib/progress.js';
+
+export type { Contribution, ContributionType } from '../types.js';
+
+const DEFAULT_AZURE_DEVOPS_HOST = 'https://dev.azure.com';
+const API_VERSION = '7.1';
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+
+interface AzureDevOpsUser {
+  id: string;
+  login: string;
+  email?: string;
+}
+
+/**
+ * Paging parameter names differ between endpoints (searchCriteria.$top vs $top).
+ */
+interface PagingParameters {
+  top: string;
+  skip: string;
+}
+
+const SEARCH_CRITERIA_PAGING: PagingParameters = {
+  top: 'searchCriteria.$top',
+  skip: 'searchCriteria.$skip',
+};
+const PAGING: PagingParameters = { top: '$top', skip: '$skip' };
+
+const stripBranchPrefix = (refName: string | undefined): string | undefined =>
+  refName?.replace(/^refs\/heads\//, '');
+
+/**
+ * Builds the organization URL, e.g. https://dev.azure.com/my-org.
+ */
+const getOrganizationUrl = (azureDevOpsConfiguration: AzureDevOpsConfiguration): string => {
+  const trimmedHost = azureDevOpsConfiguration.host?.trim() || DEFAULT_AZURE_DEVOPS_HOST;
+  const host = /^https?:\/\//i.test(trimmedHost) ? trimmedHost : `https://${trimmedHost}`;
+  return `${host.replace(/\/+$/, '')}/${encodeURIComponent(azureDevOpsConfiguration.organization)}`;
+};
+
+/**
+ * Azure DevOps connector - fetches contributions from Azure DevOps Repos.
+ * Supports commits, pull requests, and pull request votes (as reviews).
+ *
+ * Scope is configured via the azureDevOps section of the configuration
+ * (organization and optionally a list of projects). Repositories are discovered
+ * from the user's pushes and pull requests within the date range.
+ *
+ * Repositories are reported as "{project}/{repository}".
+ *
+ * Note: This connector USES the baseBranches configuration in fetchContributions().
+ * Use fetchAllCommits() to get commits from all branches the user pushed to.
+ */
+export class AzureDevOpsConnector implements Connector {
+  private http: HttpClient;
+  private configuration: Configuration;
+  private azureDevOpsConfiguration: AzureDevOpsConfiguration;
+  private organizationUrl: string;
+  private user: AzureDevOpsUser | null = null;
+  private warnings: string[] = [];
+
+  constructor(http: HttpClient, configuration: Configuration) {
+    if (!http) {
+      throw new Error('HTTP client is required.');
+    }
+    if (!configuration.azureDevOps?.organization) {
+      throw new Error(
+        'No Azure DevOps organization configured. Add "azureDevOps": { "organization": "..." } to the configuration file.',
+      );
+    }
+    this.http = http;
+    this.configuration = configuration;
+    this.azureDevOpsConfiguration = configuration.azureDevOps;
+    this.organizationUrl = getOrganizationUrl(configuration.azureDevOps);
+  }
+
+  getPlatformName(): string {
+    return 'Azure DevOps';
+  }
+
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
+  async getUserLogin(): Promise<string> {
+    return (await this.getUser()).login;
+  }
+
+  /**
+   * Gets the authenticated user from the organization's connection data.
+   * Cached after the first call.
+   */
+  private async getUser(): Promise<AzureDevOpsUser> {
+    if (this.user === null) {
+      const connectionData =
+        await this.http.get<AzureDevOpsConnectionData>('/_apis/connectionData');
+      const identity = connectionData?.authenticatedUser;
+      const account = identity?.properties?.Account?.$value;
+      const login = account ?? identity?.providerDisplayName;
+
+      if (!identity?.id || !login) {
+        throw new Error('Unable to determine authenticated user from Azure DevOps.');
+      }
+
+      this.user = {
+        id: identity.id,
+        login,
+        email: account?.includes('@') ? account : undefined,
+      };
+    }
+    return this.user;
+  }
+
+  private formatLogTimestamp(): string {
+    return new Date().toISOString().substring(11, 23); // HH:mm:ss.SSS
+  }
+
+  /**
+   * Parses ISO date strings to timestamps for efficient range checking.
+   * @throws {Error} If date strings are invalid
+   */
+  private parseDateRangeTimestamps(dateRange: DateRange): DateRangeTimestamps {
+    const fromTimestamp = Date.parse(dateRange.from);
+    const toTimestamp = Date.parse(dateRange.to);
+
+    if (Number.isNaN(fromTimestamp) || Number.isNaN(toTimestamp)) {
+      throw new Error('Invalid date range provided');
+    }
+
+    return { fromTimestamp, toTimestamp };
+  }
+
+  private isWithinRange(
+    timestamp: string | undefined,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): timestamp is string {
+    if (!timestamp) return false;
+    const parsedTimestamp = Date.parse(timestamp);
+    return (
+      !Number.isNaN(parsedTimestamp) &&
+      parsedTimestamp >= dateRangeTimestamps.fromTimestamp &&
+      parsedTimestamp <= dateRangeTimestamps.toTimestamp
+    );
+  }
+
+  /**
+   * Logs a warning and records it for the report, as the results are then partial.
+   */
+  private warn(message: string, error: unknown): void {
+    const warning = `${message}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`[${this.formatLogTimestamp()}] Warning: ${warning}`);
+    this.warnings.push(warning);
+  }
+
+  /**
+   * Collects list results across $top/$skip pages.
+   */
+  private async collectPages<T>(
+    path: string,
+    query: QueryParameters,
+    paging: PagingParameters,
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await this.http.get<AzureDevOpsList<T>>(path, {
+        ...query,
+        'api-version': API_VERSION,
+        [paging.top]: PAGE_SIZE,
+        [paging.skip]: page * PAGE_SIZE,
+      });
+      const pageItems = response?.value ?? [];
+      items.push(...pageItems);
+
+      if (pageItems.length < PAGE_SIZE) break;
+    }
+
+    return items;
+  }
+
+  private projectPath(project: string): string {
+    return `/${encodeURIComponent(project)}`;
+  }
+
+  private repositoryPath(project: string, repositoryId: string): string {
+    return `${this.projectPath(project)}/_apis/git/repositories/${encodeURIComponent(repositoryId)}`;
+  }
+
+  private repositoryName(project: string, repository: AzureDevOpsRepository): string {
+    return `${project}/${repository.name ?? repository.id}`;
+  }
+
+  private repositoryWebUrl(project: string, repository: AzureDevOpsRepository): string {
+    return (
+      repository.webUrl ??
+      `${this.organizationUrl}/${encodeURIComponent(project)}/_git/${encodeURIComponent(repository.name ?? '')}`
+    );
+  }
+
+  /**
+   * Returns the configured projects, or all projects of the organization.
+   */
+  private async listProjects(): Promise<string[]> {
+    if (this.azureDevOpsConfiguration.projects?.length) {
+      return this.azureDevOpsConfiguration.projects;
+    }
+
+    const projects = await this.collectPages<AzureDevOpsProject>('/_apis/projects', {}, PAGING);
+    return projects.map((project) => project.name).filter((name): name is string => !!name);
+  }
+
+  /**
+   * Fetches pushes by the user within the date range for every repository of the project.
+   * Repositories without pushes are omitted. Returns empty array on error (best-effort).
+   */
+  private async fetchPushedRepositories(
+    project: string,
+    user: AzureDevOpsUser,
+    dateRange: DateRange,
+  ): Promise<AzureDevOpsPushedRepository[]> {
+    try {
+      return await this.listPushedRepositories(project, user, dateRange);
+    } catch (error) {
+      this.warn(`Failed to fetch Azure DevOps pushes for ${project}`, error);
+      return [];
+    }
+  }
+
+  private async listPushedRepositories(
+    project: string,
+    user: AzureDevOpsUser,
+    dateRange: DateRange,
+  ): Promise<AzureDevOpsPushedRepository[]> {
+    const repositoryList = await this.http.get<AzureDevOpsList<AzureDevOpsRepository>>(
+      `${this.projectPath(project)}/_apis/git/repositories`,
+      { 'api-version': API_VERSION },
+    );
+    const repositories = (repositoryList?.value ?? []).filter(
+      (repository) => repository.id && !repository.isDisabled,
+    );
+
+    const results = await Promise.all(
+      repositories.map(async (repository) => {
+        const pushes = await this.collectPages<AzureDevOpsPush>(
+          `${this.repositoryPath(project, repository.id!)}/pushes`,
+          {
+            'searchCriteria.pusherId': user.id,
+            'searchCriteria.fromDate': dateRange.from,
+            'searchCriteria.toDate': dateRange.to,
+            'searchCriteria.includeRefUpdates': true,
+          },
+          SEARCH_CRITERIA_PAGING,
+        );
+        return { repository, pushes };
+      }),
+    );
+
+    return results.filter((result) => result.pushes.length > 0);
+  }
+
+  /**
+   * Fetches commits on a branch authored by the user within the date range.
+   * Returns empty array if the branch does not exist.
+   */
+  private async fetchBranchCommits(
+    project: string,
+    repository: AzureDevOpsRepository,
+    branch: string,
+    user: AzureDevOpsUser,
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    let commits: AzureDevOpsCommit[];
+    try {
+      commits = await this.collectPages<AzureDevOpsCommit>(
+        `${this.repositoryPath(project, repository.id!)}/commits`,
+        {
+          'searchCriteria.itemVersion.version': branch,
+          'searchCriteria.itemVersion.versionType': 'branch',
+          'searchCriteria.fromDate': dateRange.from,
+          'searchCriteria.toDate': dateRange.to,
+        },
+        SEARCH_CRITERIA_PAGING,
+      );
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    const userEmail = user.email?.toLowerCase();
+    const webUrl = this.repositoryWebUrl(project, repository);
+
+    return commits
+      .filter((commit) => !!userEmail && commit.author?.email?.toLowerCase() === userEmail)
+      .map((commit): Contribution | null => {
+        const timestamp = commit.committer?.date ?? commit.author?.date;
+        if (!this.isWithinRange(timestamp, dateRangeTimestamps)) return null;
+
+        return {
+          type: 'commit',
+          timestamp,
+          text: commit.comment?.split('\n')[0].trim() || undefined,
+          url: commit.commitId ? `${webUrl}/commit/${commit.commitId}` : commit.remoteUrl,
+          repository: this.repositoryName(project, repository),
+          target: branch,
+        };
+      })
+      .filter((item): item is Contribution => item !== null);
+  }
+
+  /**
+   * Fetches commits from the selected branches of each pushed repository.
+   * Branches are read in order; a commit on several branches is reported on the first.
+   */
+  private async fetchCommits(
+    project: string,
+    pushedRepositories: AzureDevOpsPushedRepository[],
+    selectBranches: (pushes: AzureDevOpsPush[]) => string[],
+    user: AzureDevOpsUser,
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const repositoryResults = await Promise.all(
+      pushedRepositories.map(async ({ repository, pushes }) => {
+        const contributions: Contribution[] = [];
+        try {
+          for (const branch of selectBranches(pushes)) {
+            contributions.push(
+              ...(await this.fetchBranchCommits(
+                project,
+                repository,
+                branch,
+                user,
+                dateRange,
+                dateRangeTimestamps,
+              )),
+            );
+          }
+        } catch (error) {
+          this.warn(
+            `Failed to fetch commits for ${this.repositoryName(project, repository)}`,
+            error,
+          );
+        }
+        // Commit URLs are unique, so deduplication keeps the first branch per commit
+        return deduplicateContributions(contributions);
+      }),
+    );
+
+    return repositoryResults.flat();
+  }
+
+  /**
+   * Searches pull requests of a project by creator or reviewer.
+   */
+  private async searchPullRequests(
+    project: string,
+    criteria: QueryParameters,
+  ): Promise<AzureDevOpsPullRequest[]> {
+    return this.collectPages<AzureDevOpsPullRequest>(
+      `${this.projectPath(project)}/_apis/git/pullrequests`,
+      { 'searchCriteria.status': 'all', ...criteria },
+      PAGING,
+    );
+  }
+
+  private pullRequestUrl(project: string, pullRequest: AzureDevOpsPullRequest): string | undefined {
+    if (!pullRequest.repository || pullRequest.pullRequestId === undefined) return undefined;
+    return `${this.repositoryWebUrl(project, pullRequest.repository)}/pullrequest/${pullRequest.pullRequestId}`;
+  }
+
+  /**
+   * Fetches pull requests created by the user within the date range.
+   * Returns empty array on error (best-effort).
+   */
+  private async fetchPullRequestContributions(
+    project: string,
+    user: AzureDevOpsUser,
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    try {
+      const pullRequests = await this.searchPullRequests(project, {
+        'searchCriteria.creatorId': user.id,
+        'searchCriteria.queryTimeRangeType': 'created',
+        'searchCriteria.minTime': dateRange.from,
+        'searchCriteria.maxTime': dateRange.to,
+      });
+
+      return pullRequests
+        .filter((pullRequest) => this.isWithinRange(pullRequest.creationDate, dateRangeTimestamps))
+        .map(
+          (pullRequest): Contribution => ({
+            type: 'pr',
+            timestamp: pullRequest.creationDate!,
+            text: pullRequest.title,
+            url: this.pullRequestUrl(project, pullRequest),
+            repository: pullRequest.repository
+              ? this.repositoryName(project, pullRequest.repository)
+              : undefined,
+            target: stripBranchPrefix(pullRequest.targetRefName),
+          }),
+        );
+    } catch (error) {
+      this.warn(`Failed to fetch Azure DevOps pull requests for ${project}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetches the user's votes on pull requests within the date range as reviews.
+   * Vote timestamps come from the pull request's vote update threads.
+   * Returns empty array on error (best-effort).
+   */
+  private async fetchReviewContributions(
+    project: string,
+    user: AzureDevOpsUser,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    let pullRequests: AzureDevOpsPullRequest[];
+    try {
+      pullRequests = await this.searchPullRequests(project, {
+        'searchCriteria.reviewerId': user.id,
+      });
+    } catch (error) {
+      this.warn(`Failed to fetch Azure DevOps reviews for ${project}`, error);
+      return [];
+    }
+
+    const votedPullRequests = pullRequests.filter((pullRequest) =>
+      pullRequest.reviewers?.some((reviewer) => reviewer.id === user.id && !!reviewer.vote),
+    );
+
+    const results = await Promise.all(
+      votedPullRequests.map(async (pullRequest) => {
+        const repository = pullRequest.repository;
+        if (!repository?.id || pullRequest.pullRequestId === undefined) return [];
+
+        let threads: AzureDevOpsThread[];
+        try {
+          const threadList = await this.http.get<AzureDevOpsList<AzureDevOpsThread>>(
+            `${this.repositoryPath(project, repository.id)}/pullRequests/${pullRequest.pullRequestId}/threads`,
+            { 'api-version': API_VERSION },
+          );
+          threads = threadList?.value ?? [];
+        } catch (error) {
+          this.warn(
+            `Failed to fetch votes for ${this.repositoryName(project, repository)}!${pullRequest.pullRequestId}`,
+            error,
+          );
+          return [];
+        }
+
+        return threads
+          .filter(
+            (thread) =>
+              thread.properties?.CodeReviewThreadType?.$value === 'VoteUpdate' &&
+              thread.comments?.[0]?.author?.id === user.id &&
+              Number(thread.properties?.CodeReviewVoteResult?.$value ?? 0) !== 0 &&
+              this.isWithinRange(thread.publishedDate, dateRangeTimestamps),
+          )
+          .map(
+            (thread): Contribution => ({
+              type: 'review',
+              timestamp: thread.publishedDate!,
+              text: 'review',
+              url: this.pullRequestUrl(project, pullRequest),
+              repository: this.repositoryName(project, repository),
+              target: stripBranchPrefix(pullRequest.targetRefName),
+            }),
+          );
+      }),
+    );
+
+    return results.flat();
+  }
+
+  /**
+   * Fetches all contributions for the authenticated user within the date range.
+   * Combines base branch commits, created pull requests and pull request votes.
+   */
+  async fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const startTime = Date.now();
+    const user = await this.getUser();
+
+    const dateRange: DateRange = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+    const dateRangeTimestamps = this.parseDateRangeTimestamps(dateRange);
+
+    logProgress(`[${this.formatLogTimestamp()}] Fetching contributions from Azure DevOps...`);
+
+    const projects = await this.listProjects();
+    const projectResults = await Promise.all(
+      projects.map(async (project) => {
+        const pushedRepositories = await this.fetchPushedRepositories(project, user, dateRange);
+
+        return [
+          ...(await this.fetchCommits(
+            project,
+            pushedRepositories,
+            () => this.configuration.baseBranches,
+            user,
+            dateRange,
+            dateRangeTimestamps,
+          )),
+          ...(await this.fetchPullRequestContributions(
+            project,
+            user,
+            dateRange,
+            dateRangeTimestamps,
+          )),
+          ...(await this.fetchReviewContributions(project, user, dateRangeTimestamps)),
+        ];
+      }),
+    );
+    const allContributions = projectResults.flat();
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    logProgress(
+      `[${this.formatLogTimestamp()}] Azure DevOps: found ${allContributions.length} contributions (took ${duration}s)`,
+    );
+
+    return deduplicateContributions(allContributions);
+  }
+
+  /**
+   * Fetches all commits from every branch the user pushed to within the date range.
+   * Base branches are read first so shared commits are attributed to them.
+   */
+  async fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const user = await this.getUser();
+
+    const dateRange: DateRange = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+    const dateRangeTimestamps = this.parseDateRangeTimestamps(dateRange);
+    const baseBranches = new Set(this.configuration.baseBranches);
+
+    const projects = await this.listProjects();
+    const projectResults = await Promise.all(
+      projects.map(async (project) => {
+        const pushedRepositories = await this.fetchPushedRepositories(project, user, dateRange);
+
+        return this.fetchCommits(
+          project,
+          pushedRepositories,
+          (pushes) => {
+            const branches = Array.from(
+              new Set(
+                pushes
+                  .flatMap((push) => push.refUpdates ?? [])
+                  .map((refUpdate) => refUpdate.name)
+                  .filter((name): name is string => !!name?.startsWith('refs/heads/'))
+                  .map((name) => stripBranchPrefix(name)!),
+              ),
+            );
+            return [
+              ...branches.filter((branch) => baseBranches.has(branch)),
+              ...branches.filter((branch) => !baseBranches.has(branch)),
+            ];
+          },
+          user,
+          dateRange,
+          dateRangeTimestamps,
+        );
+      }),
+    );
+
+    return deduplicateContributions(projectResults.flat());
+  }
+}
+
+/**
+ * Factory function to create an Azure DevOps connector instance.
+ *
+ * @param token - Azure DevOps personal access token
+ * @param configuration - Application configuration (uses azureDevOps and baseBranches)
+ * @throws Error if token or azureDevOps.organization is missing
+ */
+export const createAzureDevOpsConnector = (
+  token?: string,
+  configuration?: Configuration,
+): AzureDevOpsConnector => {
+  if (token === undefined || token === null) {
+    throw new Error(
+      'AZURE_DEVOPS_TOKEN environment variable is missing. To create a personal access token see https://learn.microsoft.com/azure/devops/organizations/accounts/use-personal-access-tokens-to-authenticate',
+    );
+  }
+  if (token.trim() === '') {
+    throw new Error('A non-empty Azure DevOps token string is required.');
+  }
+  if (!configuration?.azureDevOps?.organization) {
+    throw new Error(
+      'No Azure DevOps organization configured. Add "azureDevOps": { "organization": "..." } to the configuration file.',
+    );
+  }
+
+  // Personal access tokens are sent as basic auth with an empty username
+  const http = createHttpClient({
+    baseUrl: getOrganizationUrl(configuration.azureDevOps),
+    headers: { Authorization: `Basic ${Buffer.from(`:${token}`).toString('base64')}` },
+  });
+  return new AzureDevOpsConnector(http, configuration);
+};
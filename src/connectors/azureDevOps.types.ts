@@ -0,0 +1,95 @@
+/**
+ * Azure DevOps-specific types for API responses and data structures.
+ */
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DateRangeTimestamps {
+  fromTimestamp: number;
+  toTimestamp: number;
+}
+
+/**
+ * List responses wrap their items in a value array.
+ */
+export interface AzureDevOpsList<T> {
+  count?: number;
+  value?: T[];
+}
+
+// Connection data API response types
+export interface AzureDevOpsIdentity {
+  id?: string;
+  displayName?: string;
+  uniqueName?: string;
+  providerDisplayName?: string;
+  properties?: {
+    Account?: { $value?: string };
+  };
+}
+
+export interface AzureDevOpsConnectionData {
+  authenticatedUser?: AzureDevOpsIdentity;
+}
+
+// Project and repository API response types
+export interface AzureDevOpsProject {
+  id?: string;
+  name?: string;
+}
+
+export interface AzureDevOpsRepository {
+  id?: string;
+  name?: string;
+  webUrl?: string;
+  defaultBranch?: string;
+  isDisabled?: boolean;
+  project?: AzureDevOpsProject;
+}
+
+// Push API response types
+export interface AzureDevOpsPush {
+  pushId?: number;
+  date?: string;
+  pushedBy?: AzureDevOpsIdentity;
+  refUpdates?: Array<{ name?: string }>;
+}
+
+/**
+ * Repository with the user's pushes in the date range.
+ */
+export interface AzureDevOpsPushedRepository {
+  repository: AzureDevOpsRepository;
+  pushes: AzureDevOpsPush[];
+}
+
+// Commit API response types
+export interface AzureDevOpsCommit {
+  commitId?: string;
+  comment?: string;
+  author?: { name?: string; email?: string; date?: string };
+  committer?: { name?: string; email?: string; date?: string };
+  remoteUrl?: string;
+}
+
+// Pull request API response types
+export interface AzureDevOpsPullRequest {
+  pullRequestId?: number;
+  title?: string;
+  creationDate?: string;
+  targetRefName?: string;
+  createdBy?: AzureDevOpsIdentity;
+  repository?: AzureDevOpsRepository;
+  reviewers?: Array<AzureDevOpsIdentity & { vote?: number }>;
+}
+
+// Pull request thread API response types (votes are recorded as system threads)
+export interface AzureDevOpsThread {
+  id?: number;
+  publishedDate?: string;
+  properties?: Record<string, { $value?: string } | undefined>;
+  comments?: Array<{ author?: AzureDevOpsIdentity; publishedDate?: string }>;
+}
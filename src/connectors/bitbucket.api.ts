@@ -0,0 +1,433 @@
+import type { HttpClient, QueryParameters } from '../lib/http/httpClient.js';
+import { HttpError } from '../lib/errors/httpError.js';
+import type {
+  BitbucketApi,
+  BitbucketApproval,
+  BitbucketCommit,
+  BitbucketPullRequest,
+  BitbucketUser,
+  BitbucketCloudActivity,
+  BitbucketCloudBranch,
+  BitbucketCloudCommit,
+  BitbucketCloudPage,
+  BitbucketCloudPullRequest,
+  BitbucketCloudRepository,
+  BitbucketCloudUser,
+  BitbucketDataCenterActivity,
+  BitbucketDataCenterBranch,
+  BitbucketDataCenterCommit,
+  BitbucketDataCenterPage,
+  BitbucketDataCenterPullRequest,
+  BitbucketDataCenterRepository,
+  BitbucketDataCenterUser,
+  DateRange,
+} from './bitbucket.types.js';
+
+/**
+ * Maximum number of pages fetched per listing (mirrors the GitLab connector's maxPages).
+ */
+const MAX_PAGES = 10;
+
+const CLOUD_PAGE_LENGTH = 100;
+const DATA_CENTER_PAGE_LIMIT = 100;
+const DATA_CENTER_API_PREFIX = '/rest/api/1.0';
+
+const PULL_REQUEST_STATES = ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'];
+
+/**
+ * Converts an ISO string or epoch milliseconds to an ISO timestamp.
+ * Returns undefined for missing or unparsable values.
+ */
+const toIsoTimestamp = (value: string | number | undefined): string | undefined => {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const isOlderThan = (timestamp: string | number | undefined, dateRange: DateRange): boolean => {
+  const isoTimestamp = toIsoTimestamp(timestamp);
+  return isoTimestamp !== undefined && Date.parse(isoTimestamp) < Date.parse(dateRange.from);
+};
+
+const isNotFound = (error: unknown): boolean => error instanceof HttpError && error.status === 404;
+
+/**
+ * Bitbucket Cloud (bitbucket.org) REST API 2.0.
+ * Pagination follows the absolute "next" links returned with every page.
+ */
+export class BitbucketCloudApi implements BitbucketApi {
+  constructor(private http: HttpClient) {
+    if (!http) {
+      throw new Error('HTTP client is required.');
+    }
+  }
+
+  getPlatformName(): string {
+    return 'Bitbucket';
+  }
+
+  /**
+   * Collects items across pages. Stops before the first item for which isPastRange returns true
+   * (listings are requested newest first).
+   */
+  private async collectPages<T>(
+    path: string,
+    query: QueryParameters,
+    isPastRange: (item: T) => boolean = () => false,
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page = await this.http.get<BitbucketCloudPage<T>>(path, query);
+
+    for (let pageCount = 1; ; pageCount++) {
+      for (const item of page.values ?? []) {
+        if (isPastRange(item)) return items;
+        items.push(item);
+      }
+
+      if (!page.next || pageCount >= MAX_PAGES) return items;
+      page = await this.http.get<BitbucketCloudPage<T>>(page.next);
+    }
+  }
+
+  async getCurrentUser(): Promise<BitbucketUser> {
+    const user = await this.http.get<BitbucketCloudUser>('/user');
+    const username = user?.username ?? user?.nickname ?? user?.display_name;
+    if (!user?.uuid || !username) {
+      throw new Error('Unable to determine authenticated user from Bitbucket.');
+    }
+    return { id: user.uuid, username };
+  }
+
+  async listActiveRepositories(_user: BitbucketUser, dateRange: DateRange): Promise<string[]> {
+    const repositories = await this.collectPages<BitbucketCloudRepository>('/repositories', {
+      role: 'member',
+      q: `updated_on>=${dateRange.from}`,
+      sort: '-updated_on',
+      pagelen: CLOUD_PAGE_LENGTH,
+    });
+
+    return repositories
+      .map((repository) => repository.full_name)
+      .filter((name): name is string => !!name);
+  }
+
+  async listBranches(repository: string, dateRange: DateRange): Promise<string[]> {
+    const branches = await this.collectPages<BitbucketCloudBranch>(
+      `/repositories/${repository}/refs/branches`,
+      { sort: '-target.date', pagelen: CLOUD_PAGE_LENGTH },
+      (branch) => isOlderThan(branch.target?.date, dateRange),
+    );
+
+    return branches.map((branch) => branch.name).filter((name): name is string => !!name);
+  }
+
+  async listBranchCommits(
+    repository: string,
+    branch: string,
+    user: BitbucketUser,
+    dateRange: DateRange,
+  ): Promise<BitbucketCommit[]> {
+    let commits: BitbucketCloudCommit[];
+    try {
+      commits = await this.collectPages<BitbucketCloudCommit>(
+        `/repositories/${repository}/commits/${encodeURIComponent(branch)}`,
+        { pagelen: CLOUD_PAGE_LENGTH },
+        (commit) => isOlderThan(commit.date, dateRange),
+      );
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    return commits
+      .filter((commit) => commit.author?.user?.uuid === user.id)
+      .map((commit): BitbucketCommit | null => {
+        const timestamp = toIsoTimestamp(commit.date);
+        if (!commit.hash || !timestamp) return null;
+        return {
+          hash: commit.hash,
+          timestamp,
+          message: commit.message ?? '',
+          url: commit.links?.html?.href,
+        };
+      })
+      .filter((commit): commit is BitbucketCommit => commit !== null);
+  }
+
+  async listAuthoredPullRequests(
+    user: BitbucketUser,
+    _dateRange: DateRange,
+  ): Promise<BitbucketPullRequest[]> {
+    const pullRequests = await this.collectPages<BitbucketCloudPullRequest>(
+      `/pullrequests/${encodeURIComponent(user.id)}`,
+      { state: PULL_REQUEST_STATES, pagelen: 50 },
+    );
+
+    return pullRequests
+      .map((pullRequest): BitbucketPullRequest | null => {
+        const createdAt = toIsoTimestamp(pullRequest.created_on);
+        const repository = pullRequest.destination?.repository?.full_name;
+        if (!createdAt || !repository) return null;
+        return {
+          title: pullRequest.title,
+          url: pullRequest.links?.html?.href,
+          createdAt,
+          repository,
+          targetBranch: pullRequest.destination?.branch?.name,
+        };
+      })
+      .filter((pullRequest): pullRequest is BitbucketPullRequest => pullRequest !== null);
+  }
+
+  async listApprovals(
+    user: BitbucketUser,
+    repositories: string[],
+    dateRange: DateRange,
+  ): Promise<BitbucketApproval[]> {
+    const results = await Promise.all(
+      repositories.map(async (repository) => {
+        const activities = await this.collectPages<BitbucketCloudActivity>(
+          `/repositories/${repository}/pullrequests/activity`,
+          { pagelen: 50 },
+          (activity) =>
+            isOlderThan(
+              activity.approval?.date ?? activity.update?.date ?? activity.comment?.created_on,
+              dateRange,
+            ),
+        );
+
+        return activities
+          .filter((activity) => activity.approval?.user?.uuid === user.id)
+          .map((activity): BitbucketApproval | null => {
+            const approvedAt = toIsoTimestamp(activity.approval?.date);
+            if (!approvedAt) return null;
+            return {
+              approvedAt,
+              url: activity.pull_request?.links?.html?.href,
+              repository,
+            };
+          })
+          .filter((approval): approval is BitbucketApproval => approval !== null);
+      }),
+    );
+
+    return results.flat();
+  }
+}
+
+/**
+ * Bitbucket Data Center / Server REST API 1.0.
+ * Repositories are identified as PROJECT/repository.
+ */
+export class BitbucketDataCenterApi implements BitbucketApi {
+  private host: string;
+
+  constructor(
+    private http: HttpClient,
+    host: string,
+    private username: string,
+  ) {
+    if (!http) {
+      throw new Error('HTTP client is required.');
+    }
+    if (!username || username.trim() === '') {
+      throw new Error('A Bitbucket Data Center username is required.');
+    }
+    this.host = host.replace(/\/+$/, '');
+  }
+
+  getPlatformName(): string {
+    return 'Bitbucket Data Center';
+  }
+
+  /**
+   * Collects items across start/limit pages. Stops before the first item for which
+   * isPastRange returns true (listings are requested newest first).
+   */
+  private async collectPages<T>(
+    path: string,
+    query: QueryParameters,
+    isPastRange: (item: T) => boolean = () => false,
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let start = 0;
+
+    for (let pageCount = 1; ; pageCount++) {
+      const page = await this.http.get<BitbucketDataCenterPage<T>>(
+        `${DATA_CENTER_API_PREFIX}${path}`,
+        { ...query, start, limit: DATA_CENTER_PAGE_LIMIT },
+      );
+
+      for (const item of page.values ?? []) {
+        if (isPastRange(item)) return items;
+        items.push(item);
+      }
+
+      if (page.isLastPage !== false || page.nextPageStart === undefined || pageCount >= MAX_PAGES) {
+        return items;
+      }
+      start = page.nextPageStart;
+    }
+  }
+
+  private repositoryPath(repository: string): string {
+    const [projectKey, slug] = repository.split('/');
+    return `/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(slug)}`;
+  }
+
+  private repositoryName(repository?: BitbucketDataCenterRepository): string | undefined {
+    if (!repository?.project?.key || !repository.slug) return undefined;
+    return `${repository.project.key}/${repository.slug}`;
+  }
+
+  async getCurrentUser(): Promise<BitbucketUser> {
+    const user = await this.http.get<BitbucketDataCenterUser>(
+      `${DATA_CENTER_API_PREFIX}/users/${encodeURIComponent(this.username)}`,
+    );
+    if (!user?.name) {
+      throw new Error('Unable to determine authenticated user from Bitbucket Data Center.');
+    }
+    return { id: user.slug ?? user.name, username: user.name, email: user.emailAddress };
+  }
+
+  async listActiveRepositories(_user: BitbucketUser, _dateRange: DateRange): Promise<string[]> {
+    const repositories = await this.collectPages<BitbucketDataCenterRepository>(
+      '/profile/recent/repos',
+      {},
+    );
+
+    return repositories
+      .map((repository) => this.repositoryName(repository))
+      .filter((name): name is string => !!name);
+  }
+
+  async listBranches(repository: string, _dateRange: DateRange): Promise<string[]> {
+    const branches = await this.collectPages<BitbucketDataCenterBranch>(
+      `${this.repositoryPath(repository)}/branches`,
+      { orderBy: 'MODIFICATION' },
+    );
+
+    return branches.map((branch) => branch.displayId).filter((name): name is string => !!name);
+  }
+
+  private isAuthoredBy(commit: BitbucketDataCenterCommit, user: BitbucketUser): boolean {
+    const author = commit.author;
+    if (!author) return false;
+    if (author.name === user.username || author.slug === user.id) return true;
+    return (
+      !!user.email &&
+      !!author.emailAddress &&
+      author.emailAddress.toLowerCase() === user.email.toLowerCase()
+    );
+  }
+
+  async listBranchCommits(
+    repository: string,
+    branch: string,
+    user: BitbucketUser,
+    dateRange: DateRange,
+  ): Promise<BitbucketCommit[]> {
+    let commits: BitbucketDataCenterCommit[];
+    try {
+      commits = await this.collectPages<BitbucketDataCenterCommit>(
+        `${this.repositoryPath(repository)}/commits`,
+        { until: `refs/heads/${branch}` },
+        (commit) => isOlderThan(commit.committerTimestamp, dateRange),
+      );
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    return commits
+      .filter((commit) => this.isAuthoredBy(commit, user))
+      .map((commit): BitbucketCommit | null => {
+        const timestamp = toIsoTimestamp(commit.committerTimestamp ?? commit.authorTimestamp);
+        if (!commit.id || !timestamp) return null;
+        return {
+          hash: commit.id,
+          timestamp,
+          message: commit.message ?? '',
+          url: `${this.host}${this.repositoryPath(repository)}/commits/${commit.id}`,
+        };
+      })
+      .filter((commit): commit is BitbucketCommit => commit !== null);
+  }
+
+  private async listDashboardPullRequests(
+    role: 'AUTHOR' | 'REVIEWER',
+  ): Promise<BitbucketDataCenterPullRequest[]> {
+    return this.collectPages<BitbucketDataCenterPullRequest>('/dashboard/pull-requests', {
+      role,
+      state: 'ALL',
+      order: 'NEWEST',
+    });
+  }
+
+  async listAuthoredPullRequests(
+    _user: BitbucketUser,
+    _dateRange: DateRange,
+  ): Promise<BitbucketPullRequest[]> {
+    const pullRequests = await this.listDashboardPullRequests('AUTHOR');
+
+    return pullRequests
+      .map((pullRequest): BitbucketPullRequest | null => {
+        const createdAt = toIsoTimestamp(pullRequest.createdDate);
+        const repository = this.repositoryName(pullRequest.toRef?.repository);
+        if (!createdAt || !repository) return null;
+        return {
+          title: pullRequest.title,
+          url: pullRequest.links?.self?.[0]?.href,
+          createdAt,
+          repository,
+          targetBranch: pullRequest.toRef?.displayId,
+        };
+      })
+      .filter((pullRequest): pullRequest is BitbucketPullRequest => pullRequest !== null);
+  }
+
+  /**
+   * Finds approvals via the reviewer dashboard and each pull request's activity stream.
+   * Only pull requests updated within the date range are inspected.
+   */
+  async listApprovals(
+    user: BitbucketUser,
+    _repositories: string[],
+    dateRange: DateRange,
+  ): Promise<BitbucketApproval[]> {
+    const reviewedPullRequests = (await this.listDashboardPullRequests('REVIEWER')).filter(
+      (pullRequest) => !isOlderThan(pullRequest.updatedDate, dateRange),
+    );
+
+    const results = await Promise.all(
+      reviewedPullRequests.map(async (pullRequest) => {
+        const repository = this.repositoryName(pullRequest.toRef?.repository);
+        if (!repository || pullRequest.id === undefined) return [];
+
+        const activities = await this.collectPages<BitbucketDataCenterActivity>(
+          `${this.repositoryPath(repository)}/pull-requests/${pullRequest.id}/activities`,
+          {},
+          (activity) => isOlderThan(activity.createdDate, dateRange),
+        );
+
+        return activities
+          .filter(
+            (activity) => activity.action === 'APPROVED' && activity.user?.name === user.username,
+          )
+          .map((activity): BitbucketApproval | null => {
+            const approvedAt = toIsoTimestamp(activity.createdDate);
+            if (!approvedAt) return null;
+            return {
+              approvedAt,
+              url: pullRequest.links?.self?.[0]?.href,
+              repository,
+              targetBranch: pullRequest.toRef?.displayId,
+            };
+          })
+          .filter((approval): approval is BitbucketApproval => approval !== null);
+      }),
+    );
+
+    return results.flat();
+  }
+}
@@ -0,0 +1,372 @@
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../types.js';
+import type { Configuration } from '../lib/config/index.js';
+import type { Connector } from './types.js';
+import { deduplicateContributions } from '../lib/services/contributionDeduplicator.js';
+import { createHttpClient } from '../lib/http/httpClient.js';
+import { BitbucketCloudApi, BitbucketDataCenterApi } from './bitbucket.api.js';
+import type {
+  BitbucketApi,
+  BitbucketPullRequest,
+  BitbucketUser,
+  DateRange,
+  DateRangeTimestamps,
+} from './bitbucket.types.js';
+import { logProgress } from '../lib/progress.js';
+
+export type { Contribution, ContributionType } from '../types.js';
+
+const BITBUCKET_CLOUD_API_URL = 'https://api.bitbucket.org/2.0';
+const BITBUCKET_CLOUD_HOSTS = new Set(['bitbucket.org', 'api.bitbucket.org']);
+
+/**
+ * Bitbucket connector - fetches contributions from Bitbucket Cloud or Bitbucket Data Center.
+ * Supports commits, pull requests, and pull request approvals (as reviews).
+ *
+ * The flavor-specific REST calls live in BitbucketCloudApi / BitbucketDataCenterApi;
+ * this class applies date filtering, branch selection and mapping to contributions.
+ *
+ * Note: This connector USES the baseBranches configuration in fetchContributions().
+ * Repositories are discovered from recent repository activity and the user's pull requests.
+ */
+export class BitbucketConnector implements Connector {
+  private api: BitbucketApi;
+  private configuration: Configuration;
+  private user: BitbucketUser | null = null;
+  private warnings: string[] = [];
+
+  constructor(api: BitbucketApi, configuration: Configuration) {
+    if (!api) {
+      throw new Error('Bitbucket API instance is required.');
+    }
+    this.api = api;
+    this.configuration = configuration;
+  }
+
+  getPlatformName(): string {
+    return this.api.getPlatformName();
+  }
+
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
+  async getUserLogin(): Promise<string> {
+    return (await this.getUser()).username;
+  }
+
+  /**
+   * Gets the authenticated user. Cached after the first call.
+   */
+  private async getUser(): Promise<BitbucketUser> {
+    if (this.user === null) {
+      this.user = await this.api.getCurrentUser();
+    }
+    return this.user;
+  }
+
+  private formatLogTimestamp(): string {
+    return new Date().toISOString().substring(11, 23); // HH:mm:ss.SSS
+  }
+
+  /**
+   * Parses ISO date strings to timestamps for efficient range checking.
+   * @throws {Error} If date strings are invalid
+   */
+  private parseDateRangeTimestamps(dateRange: DateRange): DateRangeTimestamps {
+    const fromTimestamp = Date.parse(dateRange.from);
+    const toTimestamp = Date.parse(dateRange.to);
+
+    if (Number.isNaN(fromTimestamp) || Number.isNaN(toTimestamp)) {
+      throw new Error('Invalid date range provided');
+    }
+
+    return { fromTimestamp, toTimestamp };
+  }
+
+  private isWithinRange(timestamp: string, dateRangeTimestamps: DateRangeTimestamps): boolean {
+    const parsedTimestamp = Date.parse(timestamp);
+    return (
+      !Number.isNaN(parsedTimestamp) &&
+      parsedTimestamp >= dateRangeTimestamps.fromTimestamp &&
+      parsedTimestamp <= dateRangeTimestamps.toTimestamp
+    );
+  }
+
+  /**
+   * Logs a warning and records it for the report, as the results are then partial.
+   */
+  private warn(message: string, error: unknown): void {
+    const warning = `${message}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`[${this.formatLogTimestamp()}] Warning: ${warning}`);
+    this.warnings.push(warning);
+  }
+
+  /**
+   * Fetches pull requests authored by the user and created within the date range.
+   * Returns empty array on error (best-effort).
+   */
+  private async fetchPullRequests(
+    user: BitbucketUser,
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<BitbucketPullRequest[]> {
+    try {
+      const pullRequests = await this.api.listAuthoredPullRequests(user, dateRange);
+      return pullRequests.filter((pullRequest) =>
+        this.isWithinRange(pullRequest.createdAt, dateRangeTimestamps),
+      );
+    } catch (error) {
+      this.warn('Failed to fetch Bitbucket pull requests', error);
+      return [];
+    }
+  }
+
+  /**
+   * Discovers repositories to scan for commits: recently active repositories
+   * plus repositories the user opened pull requests against.
+   */
+  private async discoverRepositories(
+    user: BitbucketUser,
+    dateRange: DateRange,
+    pullRequests: BitbucketPullRequest[],
+  ): Promise<string[]> {
+    let activeRepositories: string[] = [];
+    try {
+      activeRepositories = await this.api.listActiveRepositories(user, dateRange);
+    } catch (error) {
+      this.warn('Failed to list Bitbucket repositories', error);
+    }
+
+    return Array.from(
+      new Set([
+        ...activeRepositories,
+        ...pullRequests.map((pullRequest) => pullRequest.repository),
+      ]),
+    );
+  }
+
+  /**
+   * Fetches the user's commits on the selected branches of each repository.
+   * A commit found on several branches is reported once, on the first branch.
+   */
+  private async fetchCommits(
+    repositories: string[],
+    selectBranches: (repository: string) => Promise<string[]>,
+    user: BitbucketUser,
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const repositoryResults = await Promise.all(
+      repositories.map(async (repository) => {
+        const commitsByHash = new Map<string, Contribution>();
+
+        try {
+          for (const branch of await selectBranches(repository)) {
+            const commits = await this.api.listBranchCommits(repository, branch, user, dateRange);
+
+            for (const commit of commits) {
+              if (commitsByHash.has(commit.hash)) continue;
+              if (!this.isWithinRange(commit.timestamp, dateRangeTimestamps)) continue;
+
+              commitsByHash.set(commit.hash, {
+                type: 'commit',
+                timestamp: commit.timestamp,
+                text: commit.message.split('\n')[0].trim() || undefined,
+                url: commit.url,
+                repository,
+                target: branch,
+              });
+            }
+          }
+        } catch (error) {
+          this.warn(`Failed to fetch commits for ${repository}`, error);
+        }
+
+        return Array.from(commitsByHash.values());
+      }),
+    );
+
+    return repositoryResults.flat();
+  }
+
+  /**
+   * Fetches pull request approvals by the user within the date range as reviews.
+   * Returns empty array on error (best-effort).
+   */
+  private async fetchReviewContributions(
+    user: BitbucketUser,
+    repositories: string[],
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    try {
+      const approvals = await this.api.listApprovals(user, repositories, dateRange);
+      return approvals
+        .filter((approval) => this.isWithinRange(approval.approvedAt, dateRangeTimestamps))
+        .map(
+          (approval): Contribution => ({
+            type: 'review',
+            timestamp: approval.approvedAt,
+            text: 'review',
+            url: approval.url,
+            repository: approval.repository,
+            target: approval.targetBranch,
+          }),
+        );
+    } catch (error) {
+      this.warn('Failed to fetch Bitbucket approvals', error);
+      return [];
+    }
+  }
+
+  private toPullRequestContributions(pullRequests: BitbucketPullRequest[]): Contribution[] {
+    return pullRequests.map(
+      (pullRequest): Contribution => ({
+        type: 'pr',
+        timestamp: pullRequest.createdAt,
+        text: pullRequest.title,
+        url: pullRequest.url,
+        repository: pullRequest.repository,
+        target: pullRequest.targetBranch,
+      }),
+    );
+  }
+
+  /**
+   * Fetches commits on base branches, authored pull requests and approvals.
+   */
+  async fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const startTime = Date.now();
+    const user = await this.getUser();
+
+    const dateRange: DateRange = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+    const dateRangeTimestamps = this.parseDateRangeTimestamps(dateRange);
+
+    logProgress(
+      `[${this.formatLogTimestamp()}] Fetching contributions from ${this.getPlatformName()}...`,
+    );
+
+    const pullRequests = await this.fetchPullRequests(user, dateRange, dateRangeTimestamps);
+    const repositories = await this.discoverRepositories(user, dateRange, pullRequests);
+
+    const allContributions: Contribution[] = [
+      ...(await this.fetchCommits(
+        repositories,
+        async () => this.configuration.baseBranches,
+        user,
+        dateRange,
+        dateRangeTimestamps,
+      )),
+      ...this.toPullRequestContributions(pullRequests),
+      ...(await this.fetchReviewContributions(user, repositories, dateRange, dateRangeTimestamps)),
+    ];
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    logProgress(
+      `[${this.formatLogTimestamp()}] ${this.getPlatformName()}: found ${allContributions.length} contributions (took ${duration}s)`,
+    );
+
+    return deduplicateContributions(allContributions);
+  }
+
+  /**
+   * Fetches commits from ALL branches of the discovered repositories.
+   * Base branches are read first so shared commits are attributed to them.
+   */
+  async fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const user = await this.getUser();
+
+    const dateRange: DateRange = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+    const dateRangeTimestamps = this.parseDateRangeTimestamps(dateRange);
+
+    const pullRequests = await this.fetchPullRequests(user, dateRange, dateRangeTimestamps);
+    const repositories = await this.discoverRepositories(user, dateRange, pullRequests);
+    const baseBranches = new Set(this.configuration.baseBranches);
+
+    const contributions = await this.fetchCommits(
+      repositories,
+      async (repository) => {
+        const branches = await this.api.listBranches(repository, dateRange);
+        return [
+          ...branches.filter((branch) => baseBranches.has(branch)),
+          ...branches.filter((branch) => !baseBranches.has(branch)),
+        ];
+      },
+      user,
+      dateRange,
+      dateRangeTimestamps,
+    );
+
+    return deduplicateContributions(contributions);
+  }
+}
+
+/**
+ * Factory function to create a Bitbucket connector instance.
+ * Without a host (or with bitbucket.org) Bitbucket Cloud is used, otherwise Bitbucket Data Center.
+ *
+ * @param token - Bitbucket Cloud app password / access token, or Data Center HTTP access token
+ * @param configuration - Application configuration (uses baseBranches)
+ * @param options - BITBUCKET_HOST and BITBUCKET_USERNAME values
+ * @throws Error if token is missing or Data Center is used without a username
+ */
+export const createBitbucketConnector = (
+  token?: string,
+  configuration?: Configuration,
+  options: { host?: string; username?: string } = {},
+): BitbucketConnector => {
+  if (token === undefined || token === null) {
+    throw new Error(
+      'BITBUCKET_TOKEN environment variable is missing. To create a Bitbucket token see https://support.atlassian.com/bitbucket-cloud/docs/access-tokens/',
+    );
+  }
+  if (token.trim() === '') {
+    throw new Error('A non-empty Bitbucket token string is required.');
+  }
+
+  // Use provided configuration or defaults
+  const finalConfiguration: Configuration = configuration ?? {
+    baseBranches: ['main', 'master', 'develop', 'development'],
+  };
+
+  const trimmedHost = options.host?.trim();
+  const host =
+    trimmedHost && !/^https?:\/\//i.test(trimmedHost) ? `https://${trimmedHost}` : trimmedHost;
+  const isCloud = !host || BITBUCKET_CLOUD_HOSTS.has(new URL(host).hostname);
+
+  if (isCloud) {
+    // Username + app password use basic auth; access tokens are sent as bearer tokens
+    const authorization = options.username
+      ? `Basic ${Buffer.from(`${options.username}:${token}`).toString('base64')}`
+      : `Bearer ${token}`;
+    const http = createHttpClient({
+      baseUrl: BITBUCKET_CLOUD_API_URL,
+      headers: { Authorization: authorization },
+    });
+    return new BitbucketConnector(new BitbucketCloudApi(http), finalConfiguration);
+  }
+
+  if (!options.username) {
+    throw new Error(
+      'BITBUCKET_USERNAME environment variable is required for Bitbucket Data Center (BITBUCKET_HOST).',
+    );
+  }
+
+  const http = createHttpClient({
+    baseUrl: host,
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return new BitbucketConnector(
+    new BitbucketDataCenterApi(http, host, options.username),
+    finalConfiguration,
+  );
+};
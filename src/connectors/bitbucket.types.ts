@@ -0,0 +1,194 @@
+/**
+ * Bitbucket-specific types for API responses and data structures.
+ * Bitbucket Cloud (api.bitbucket.org/2.0) and Bitbucket Data Center (/rest/api/1.0)
+ * have different APIs; both are normalized behind BitbucketApi.
+ */
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DateRangeTimestamps {
+  fromTimestamp: number;
+  toTimestamp: number;
+}
+
+// Normalized types shared by both Bitbucket flavors
+
+export interface BitbucketUser {
+  /** Stable identifier: account UUID (Cloud) or user slug (Data Center) */
+  id: string;
+  username: string;
+  email?: string;
+}
+
+export interface BitbucketCommit {
+  hash: string;
+  timestamp: string;
+  message: string;
+  url?: string;
+}
+
+export interface BitbucketPullRequest {
+  title?: string;
+  url?: string;
+  createdAt: string;
+  repository: string;
+  targetBranch?: string;
+}
+
+export interface BitbucketApproval {
+  approvedAt: string;
+  url?: string;
+  repository: string;
+  targetBranch?: string;
+}
+
+/**
+ * Flavor-specific access to Bitbucket. All timestamps are ISO 8601 strings.
+ * Implementations may stop paginating early once results are older than the date range,
+ * but the connector still filters every result by date.
+ */
+export interface BitbucketApi {
+  getPlatformName(): string;
+  getCurrentUser(): Promise<BitbucketUser>;
+  /** Repositories (full names like workspace/repository or PROJECT/repository) with recent activity */
+  listActiveRepositories(user: BitbucketUser, dateRange: DateRange): Promise<string[]>;
+  /** Branch names of a repository that may contain commits in the date range */
+  listBranches(repository: string, dateRange: DateRange): Promise<string[]>;
+  /** Commits on a branch authored by the user; empty if the branch does not exist */
+  listBranchCommits(
+    repository: string,
+    branch: string,
+    user: BitbucketUser,
+    dateRange: DateRange,
+  ): Promise<BitbucketCommit[]>;
+  listAuthoredPullRequests(
+    user: BitbucketUser,
+    dateRange: DateRange,
+  ): Promise<BitbucketPullRequest[]>;
+  listApprovals(
+    user: BitbucketUser,
+    repositories: string[],
+    dateRange: DateRange,
+  ): Promise<BitbucketApproval[]>;
+}
+
+// Bitbucket Cloud API response types
+
+export interface BitbucketCloudPage<T> {
+  values?: T[];
+  next?: string;
+}
+
+export interface BitbucketCloudUser {
+  uuid?: string;
+  username?: string;
+  nickname?: string;
+  account_id?: string;
+  display_name?: string;
+}
+
+export interface BitbucketCloudLinks {
+  html?: { href?: string };
+}
+
+export interface BitbucketCloudRepository {
+  full_name?: string;
+  updated_on?: string;
+  links?: BitbucketCloudLinks;
+}
+
+export interface BitbucketCloudCommit {
+  hash?: string;
+  date?: string;
+  message?: string;
+  author?: {
+    raw?: string;
+    user?: BitbucketCloudUser;
+  };
+  links?: BitbucketCloudLinks;
+}
+
+export interface BitbucketCloudBranch {
+  name?: string;
+  target?: { date?: string };
+}
+
+export interface BitbucketCloudPullRequest {
+  id?: number;
+  title?: string;
+  created_on?: string;
+  links?: BitbucketCloudLinks;
+  destination?: {
+    branch?: { name?: string };
+    repository?: { full_name?: string };
+  };
+}
+
+export interface BitbucketCloudActivity {
+  approval?: {
+    date?: string;
+    user?: BitbucketCloudUser;
+  };
+  update?: { date?: string };
+  comment?: { created_on?: string };
+  pull_request?: {
+    id?: number;
+    title?: string;
+    links?: BitbucketCloudLinks;
+  };
+}
+
+// Bitbucket Data Center API response types
+
+export interface BitbucketDataCenterPage<T> {
+  values?: T[];
+  isLastPage?: boolean;
+  nextPageStart?: number;
+}
+
+export interface BitbucketDataCenterUser {
+  name?: string;
+  slug?: string;
+  emailAddress?: string;
+  displayName?: string;
+}
+
+export interface BitbucketDataCenterRepository {
+  slug?: string;
+  project?: { key?: string };
+}
+
+export interface BitbucketDataCenterCommit {
+  id?: string;
+  message?: string;
+  author?: BitbucketDataCenterUser;
+  authorTimestamp?: number;
+  committerTimestamp?: number;
+}
+
+export interface BitbucketDataCenterBranch {
+  displayId?: string;
+}
+
+export interface BitbucketDataCenterPullRequest {
+  id?: number;
+  title?: string;
+  createdDate?: number;
+  updatedDate?: number;
+  toRef?: {
+    displayId?: string;
+    repository?: BitbucketDataCenterRepository;
+  };
+  links?: {
+    self?: Array<{ href?: string }>;
+  };
+}
+
+export interface BitbucketDataCenterActivity {
+  action?: string;
+  createdDate?: number;
+  user?: BitbucketDataCenterUser;
+}
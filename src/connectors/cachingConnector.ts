@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../types.js';
+import type { CacheKey, ResponseCache } from '../lib/cache/responseCache.js';
+import type { Connector } from './types.js';
+import { logProgress } from '../lib/progress.js';
+
+const MILLISECONDS_PER_MINUTE = 60 * 1000;
+const DEFAULT_TTL_MINUTES = 15;
+
+/**
+ * Hashes the connector settings, so changing them does not serve responses fetched before.
+ */
+const hashSettings = (settings: unknown): string =>
+  createHash('sha256')
+    .update(JSON.stringify(settings ?? null))
+    .digest('hex')
+    .slice(0, 16);
+
+/**
+ * Connector decorator that caches responses on disk.
+ * Responses are keyed by platform name, user login, connector settings and date window.
+ * Ranges ending before today never change and are cached without expiry;
+ * ranges reaching into today expire after the configured TTL.
+ * Responses fetched with warnings are incomplete and not cached.
+ */
+export class CachingConnector implements Connector {
+  private connector: Connector;
+  private cache: ResponseCache;
+  private ttlMilliseconds: number;
+  private settings: string;
+  private account: Promise<string> | undefined;
+  private warnings: string[] = [];
+
+  /**
+   * @param options.settings - Configuration the connector's responses depend on,
+   *   such as base branches, host and account scope
+   */
+  constructor(
+    connector: Connector,
+    cache: ResponseCache,
+    options: { ttlMinutes?: number; settings?: unknown } = {},
+  ) {
+    this.connector = connector;
+    this.cache = cache;
+    this.ttlMilliseconds = (options.ttlMinutes ?? DEFAULT_TTL_MINUTES) * MILLISECONDS_PER_MINUTE;
+    this.settings = hashSettings(options.settings);
+  }
+
+  getPlatformName(): string {
+    return this.connector.getPlatformName();
+  }
+
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
+  getUserLogin(): Promise<string> {
+    this.account ??= this.connector.getUserLogin();
+    return this.account;
+  }
+
+  fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    return this.withCache('fetchContributions', from, to, () =>
+      this.connector.fetchContributions(from, to),
+    );
+  }
+
+  fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    return this.withCache('fetchAllCommits', from, to, () =>
+      this.connector.fetchAllCommits(from, to),
+    );
+  }
+
+  async fetchMergedPullRequests(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const fetchMergedPullRequests = this.connector.fetchMergedPullRequests?.bind(this.connector);
+    if (!fetchMergedPullRequests) {
+      return [];
+    }
+    return this.withCache('fetchMergedPullRequests', from, to, () =>
+      fetchMergedPullRequests(from, to),
+    );
+  }
+
+  private async withCache(
+    method: CacheKey['method'],
+    from: Dayjs,
+    to: Dayjs,
+    fetch: () => Promise<Contribution[]>,
+  ): Promise<Contribution[]> {
+    const key: CacheKey = {
+      connector: this.getPlatformName(),
+      account: await this.getUserLogin(),
+      settings: this.settings,
+      method,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+
+    const cached = await this.cache.get(key);
+    if (cached) {
+      logProgress(`Using cached ${method} response for ${key.connector}`);
+      return cached;
+    }
+
+    const contributions = await fetch();
+    const warnings = this.connector.takeWarnings?.() ?? [];
+    if (warnings.length > 0) {
+      this.warnings.push(...warnings);
+      return contributions;
+    }
+
+    const isPastRange = to.isBefore(dayjs().startOf('day'));
+    try {
+      await this.cache.set(key, contributions, isPastRange ? null : this.ttlMilliseconds);
+    } catch (error) {
+      console.warn(
+        `Warning: Failed to write response cache: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return contributions;
+  }
+}
@@ -0,0 +1,582 @@
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../types.js';
+import type { Configuration } from '../lib/config/index.js';
+import type { Connector } from './types.js';
+import type { HttpClient, QueryParameters } from '../lib/http/httpClient.js';
+import { createHttpClient } from '../lib/http/httpClient.js';
+import { HttpError } from '../lib/errors/httpError.js';
+import { deduplicateContributions } from '../lib/services/contributionDeduplicator.js';
+import { RequestScheduler, describeRequestFailures } from '../lib/http/requestScheduler.js';
+import type {
+  GiteaActivity,
+  GiteaBranch,
+  GiteaCommit,
+  GiteaIssue,
+  GiteaPullRequest,
+  GiteaReview,
+  GiteaUser,
+  DateRange,
+  DateRangeTimestamps,
+} from './gitea.types.js';
+import { logProgress } from '../lib/progress.js';
+
+export type { Contribution, ContributionType } from '../types.js';
+
+const DEFAULT_GITEA_HOST = 'https://gitea.com';
+const PAGE_LIMIT = 50;
+const MAX_PAGES = 10;
+
+type AuthenticatedGiteaUser = GiteaUser & { login: string };
+
+/**
+ * Review states counted as reviews (pending reviews are drafts and not yet visible).
+ */
+const SUBMITTED_REVIEW_STATES = new Set(['APPROVED', 'REQUEST_CHANGES', 'COMMENT']);
+
+/**
+ * Gitea connector - fetches contributions from Gitea and Forgejo instances.
+ * Supports commits, pull requests, and pull request reviews.
+ *
+ * Repositories are discovered from the user's activity feed and pull requests;
+ * commits are then read per branch via the repository commits API.
+ *
+ * Note: This connector USES the baseBranches configuration in fetchContributions().
+ * Use fetchAllCommits() to get commits from all branches.
+ *
+ * All API calls run through a RequestScheduler, which caps concurrency and retries
+ * rate limited (Retry-After) and transient failures.
+ */
+export class GiteaConnector implements Connector {
+  private http: HttpClient;
+  private configuration: Configuration;
+  private scheduler: RequestScheduler;
+  private user: AuthenticatedGiteaUser | null = null;
+  private warnings: string[] = [];
+
+  constructor(
+    http: HttpClient,
+    configuration: Configuration,
+    options: { scheduler?: RequestScheduler } = {},
+  ) {
+    if (!http) {
+      throw new Error('HTTP client is required.');
+    }
+    this.http = http;
+    this.configuration = configuration;
+    this.scheduler = options.scheduler ?? new RequestScheduler();
+  }
+
+  getPlatformName(): string {
+    return 'Gitea';
+  }
+
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
+  async getUserLogin(): Promise<string> {
+    return (await this.getUser()).login;
+  }
+
+  /**
+   * Gets the authenticated user. Cached after the first call.
+   */
+  private async getUser(): Promise<AuthenticatedGiteaUser> {
+    if (this.user === null) {
+      const user = await this.get<GiteaUser>('/user');
+      if (!user?.login) {
+        throw new Error('Unable to determine authenticated user login from Gitea.');
+      }
+      this.user = { ...user, login: user.login };
+    }
+    return this.user;
+  }
+
+  private formatLogTimestamp(): string {
+    return new Date().toISOString().substring(11, 23); // HH:mm:ss.SSS
+  }
+
+  /**
+   * Parses ISO date strings to timestamps for efficient range checking.
+   * @throws {Error} If date strings are invalid
+   */
+  private parseDateRangeTimestamps(dateRange: DateRange): DateRangeTimestamps {
+    const fromTimestamp = Date.parse(dateRange.from);
+    const toTimestamp = Date.parse(dateRange.to);
+
+    if (Number.isNaN(fromTimestamp) || Number.isNaN(toTimestamp)) {
+      throw new Error('Invalid date range provided');
+    }
+
+    return { fromTimestamp, toTimestamp };
+  }
+
+  private isWithinRange(
+    timestamp: string | undefined,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): timestamp is string {
+    if (!timestamp) return false;
+    const parsedTimestamp = Date.parse(timestamp);
+    return (
+      !Number.isNaN(parsedTimestamp) &&
+      parsedTimestamp >= dateRangeTimestamps.fromTimestamp &&
+      parsedTimestamp <= dateRangeTimestamps.toTimestamp
+    );
+  }
+
+  private isBeforeRange(
+    timestamp: string | undefined,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): boolean {
+    return !!timestamp && Date.parse(timestamp) < dateRangeTimestamps.fromTimestamp;
+  }
+
+  /**
+   * Sends a GET request through the scheduler.
+   */
+  private get<T>(path: string, query?: QueryParameters): Promise<T> {
+    return this.scheduler.schedule(`GET ${path}`, () => this.http.get<T>(path, query));
+  }
+
+  /**
+   * Logs a warning and records it for the report, as the results are then partial.
+   */
+  private warn(message: string, error?: unknown): void {
+    const warning =
+      error === undefined
+        ? message
+        : `${message}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`[${this.formatLogTimestamp()}] Warning: ${warning}`);
+    this.warnings.push(warning);
+  }
+
+  /**
+   * Warns when requests failed after retries, as the results are then partial.
+   */
+  private reportPartialResults(): void {
+    const failures = this.scheduler.takeFailures();
+    if (failures.length > 0) {
+      this.warn(`Gitea results are incomplete, ${describeRequestFailures(failures)}`);
+    }
+  }
+
+  /**
+   * Collects items across page/limit pages. Stops before the first item for which
+   * isPastRange returns true (listings are newest first). Items beyond MAX_PAGES are
+   * left out with a warning.
+   */
+  private async collectPages<T>(
+    path: string,
+    query: QueryParameters,
+    isPastRange: (item: T) => boolean = () => false,
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const pageItems = await this.get<T[]>(path, { ...query, page, limit: PAGE_LIMIT });
+      if (!Array.isArray(pageItems)) return items;
+
+      for (const item of pageItems) {
+        if (isPastRange(item)) return items;
+        items.push(item);
+      }
+
+      if (pageItems.length < PAGE_LIMIT) return items;
+    }
+
+    this.warn(`Gitea results of ${path} are incomplete, only the first ${items.length} were read`);
+    return items;
+  }
+
+  /**
+   * Fetches the user's activity feed within the date range.
+   * Returns empty array on error (best-effort).
+   */
+  private async fetchActivities(
+    login: string,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<GiteaActivity[]> {
+    try {
+      const activities = await this.collectPages<GiteaActivity>(
+        `/users/${encodeURIComponent(login)}/activities/feeds`,
+        { 'only-performed-by': true },
+        (activity) => this.isBeforeRange(activity.created, dateRangeTimestamps),
+      );
+      return activities.filter((activity) =>
+        this.isWithinRange(activity.created, dateRangeTimestamps),
+      );
+    } catch (error) {
+      this.warn('Failed to fetch Gitea activity feed', error);
+      return [];
+    }
+  }
+
+  /**
+   * Searches pull requests the user created or reviewed, updated since the range start.
+   * Returns empty array on error (best-effort).
+   */
+  private async searchPullRequests(
+    filter: 'created' | 'reviewed',
+    dateRange: DateRange,
+  ): Promise<GiteaIssue[]> {
+    try {
+      return await this.collectPages<GiteaIssue>('/repos/issues/search', {
+        type: 'pulls',
+        state: 'all',
+        [filter]: true,
+        since: dateRange.from,
+      });
+    } catch (error) {
+      this.warn(`Failed to search Gitea pull requests (${filter})`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetches the base branch of a pull request. Returns undefined on error, with a warning.
+   */
+  private async fetchPullRequestBaseBranch(
+    repository: string,
+    number: number,
+  ): Promise<string | undefined> {
+    try {
+      const pullRequest = await this.get<GiteaPullRequest>(`/repos/${repository}/pulls/${number}`);
+      return pullRequest?.base?.ref;
+    } catch (error) {
+      this.warn(`Failed to fetch the base branch of ${repository}#${number}`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Extracts pull request contributions created within the date range.
+   */
+  private async extractPullRequestContributions(
+    pullRequests: GiteaIssue[],
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const contributions: Contribution[] = [];
+
+    for (const pullRequest of pullRequests) {
+      if (!this.isWithinRange(pullRequest.created_at, dateRangeTimestamps)) continue;
+
+      const repository = pullRequest.repository?.full_name;
+      const target =
+        repository && pullRequest.number !== undefined
+          ? await this.fetchPullRequestBaseBranch(repository, pullRequest.number)
+          : undefined;
+
+      contributions.push({
+        type: 'pr',
+        timestamp: pullRequest.created_at,
+        text: pullRequest.title,
+        url: pullRequest.html_url,
+        repository,
+        target,
+      });
+    }
+
+    return contributions;
+  }
+
+  /**
+   * Extracts review contributions submitted by the user within the date range.
+   */
+  private async extractReviewContributions(
+    pullRequests: GiteaIssue[],
+    login: string,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const results = await Promise.all(
+      pullRequests.map(async (pullRequest) => {
+        const repository = pullRequest.repository?.full_name;
+        if (!repository || pullRequest.number === undefined) return [];
+
+        let reviews: GiteaReview[];
+        try {
+          reviews = await this.collectPages<GiteaReview>(
+            `/repos/${repository}/pulls/${pullRequest.number}/reviews`,
+            {},
+          );
+        } catch (error) {
+          this.warn(`Failed to fetch reviews for ${repository}#${pullRequest.number}`, error);
+          return [];
+        }
+
+        const ownReviews = reviews.filter(
+          (review) =>
+            review.user?.login === login &&
+            SUBMITTED_REVIEW_STATES.has(review.state ?? '') &&
+            this.isWithinRange(review.submitted_at, dateRangeTimestamps),
+        );
+        if (ownReviews.length === 0) return [];
+
+        const target = await this.fetchPullRequestBaseBranch(repository, pullRequest.number);
+
+        return ownReviews.map(
+          (review): Contribution => ({
+            type: 'review',
+            timestamp: review.submitted_at!,
+            text: 'review',
+            url: review.html_url ?? pullRequest.html_url,
+            repository,
+            target,
+          }),
+        );
+      }),
+    );
+
+    return results.flat();
+  }
+
+  /**
+   * Determines repositories with activity in the date range from the activity feed
+   * and the user's pull requests.
+   */
+  private discoverRepositories(activities: GiteaActivity[], pullRequests: GiteaIssue[]): string[] {
+    const repositories = [
+      ...activities.map((activity) => activity.repo?.full_name),
+      ...pullRequests.map((pullRequest) => pullRequest.repository?.full_name),
+    ].filter((name): name is string => !!name);
+
+    return Array.from(new Set(repositories));
+  }
+
+  private isAuthoredBy(commit: GiteaCommit, user: GiteaUser): boolean {
+    if (commit.author?.login && commit.author.login === user.login) return true;
+    const email = commit.commit?.author?.email;
+    return !!email && !!user.email && email.toLowerCase() === user.email.toLowerCase();
+  }
+
+  /**
+   * Fetches commits on a branch authored by the user within the date range.
+   * Returns empty array if the branch does not exist.
+   */
+  private async fetchBranchCommits(
+    repository: string,
+    branch: string,
+    user: GiteaUser,
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    let commits: GiteaCommit[];
+    try {
+      commits = await this.collectPages<GiteaCommit>(
+        `/repos/${repository}/commits`,
+        {
+          sha: branch,
+          since: dateRange.from,
+          until: dateRange.to,
+          stat: false,
+          verification: false,
+          files: false,
+        },
+        (commit) => this.isBeforeRange(commit.commit?.committer?.date, dateRangeTimestamps),
+      );
+    } catch (error) {
+      if (error instanceof HttpError && (error.status === 404 || error.status === 422)) {
+        return [];
+      }
+      throw error;
+    }
+
+    return commits
+      .filter((commit) => this.isAuthoredBy(commit, user))
+      .map((commit): Contribution | null => {
+        const timestamp = commit.commit?.committer?.date ?? commit.created;
+        if (!this.isWithinRange(timestamp, dateRangeTimestamps)) return null;
+
+        return {
+          type: 'commit',
+          timestamp,
+          text: commit.commit?.message?.split('\n')[0].trim() || undefined,
+          url: commit.html_url,
+          repository,
+          target: branch,
+        };
+      })
+      .filter((item): item is Contribution => item !== null);
+  }
+
+  /**
+   * Fetches commits from the selected branches of each repository.
+   * Branches are read in order; a commit on several branches is reported on the first.
+   */
+  private async fetchRepositoryCommits(
+    repositories: string[],
+    selectBranches: (repository: string) => Promise<string[]>,
+    user: GiteaUser,
+    dateRange: DateRange,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const repositoryResults = await Promise.all(
+      repositories.map(async (repository) => {
+        const contributions: Contribution[] = [];
+        try {
+          for (const branch of await selectBranches(repository)) {
+            contributions.push(
+              ...(await this.fetchBranchCommits(
+                repository,
+                branch,
+                user,
+                dateRange,
+                dateRangeTimestamps,
+              )),
+            );
+          }
+        } catch (error) {
+          this.warn(`Failed to fetch commits for ${repository}`, error);
+        }
+        // Commit URLs are unique, so deduplication keeps the first branch per commit
+        return deduplicateContributions(contributions);
+      }),
+    );
+
+    return repositoryResults.flat();
+  }
+
+  /**
+   * Lists branches whose latest commit is not older than the date range.
+   */
+  private async fetchActiveBranches(
+    repository: string,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<string[]> {
+    const branches = await this.collectPages<GiteaBranch>(`/repos/${repository}/branches`, {});
+    return branches
+      .filter((branch) => !this.isBeforeRange(branch.commit?.timestamp, dateRangeTimestamps))
+      .map((branch) => branch.name)
+      .filter((name): name is string => !!name);
+  }
+
+  /**
+   * Fetches all contributions for the authenticated user within the date range.
+   * Combines base branch commits, created pull requests and submitted reviews.
+   */
+  async fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const startTime = Date.now();
+    const user = await this.getUser();
+
+    const dateRange: DateRange = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+    const dateRangeTimestamps = this.parseDateRangeTimestamps(dateRange);
+
+    logProgress(`[${this.formatLogTimestamp()}] Fetching contributions from Gitea...`);
+
+    const [activities, createdPullRequests, reviewedPullRequests] = await Promise.all([
+      this.fetchActivities(user.login, dateRangeTimestamps),
+      this.searchPullRequests('created', dateRange),
+      this.searchPullRequests('reviewed', dateRange),
+    ]);
+
+    const repositories = this.discoverRepositories(activities, createdPullRequests);
+
+    const allContributions: Contribution[] = [
+      ...(await this.fetchRepositoryCommits(
+        repositories,
+        async () => this.configuration.baseBranches,
+        user,
+        dateRange,
+        dateRangeTimestamps,
+      )),
+      ...(await this.extractPullRequestContributions(createdPullRequests, dateRangeTimestamps)),
+      ...(await this.extractReviewContributions(
+        reviewedPullRequests,
+        user.login,
+        dateRangeTimestamps,
+      )),
+    ];
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    logProgress(
+      `[${this.formatLogTimestamp()}] Gitea: found ${allContributions.length} contributions (took ${duration}s)`,
+    );
+
+    this.reportPartialResults();
+    return deduplicateContributions(allContributions);
+  }
+
+  /**
+   * Fetches all commits from ALL branches of repositories with activity in the date range.
+   * Base branches are read first so shared commits are attributed to them.
+   */
+  async fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const user = await this.getUser();
+
+    const dateRange: DateRange = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+    const dateRangeTimestamps = this.parseDateRangeTimestamps(dateRange);
+
+    const [activities, createdPullRequests] = await Promise.all([
+      this.fetchActivities(user.login, dateRangeTimestamps),
+      this.searchPullRequests('created', dateRange),
+    ]);
+
+    const repositories = this.discoverRepositories(activities, createdPullRequests);
+    const baseBranches = new Set(this.configuration.baseBranches);
+
+    const contributions = await this.fetchRepositoryCommits(
+      repositories,
+      async (repository) => {
+        const branches = await this.fetchActiveBranches(repository, dateRangeTimestamps);
+        return [
+          ...branches.filter((branch) => baseBranches.has(branch)),
+          ...branches.filter((branch) => !baseBranches.has(branch)),
+        ];
+      },
+      user,
+      dateRange,
+      dateRangeTimestamps,
+    );
+
+    this.reportPartialResults();
+    return deduplicateContributions(contributions);
+  }
+}
+
+/**
+ * Factory function to create a Gitea connector instance.
+ * Works with any Gitea or Forgejo instance; without a host gitea.com is used.
+ *
+ * @param token - Gitea / Forgejo access token
+ * @param configuration - Application configuration (uses baseBranches)
+ * @param options - GITEA_HOST value
+ * @throws Error if token is missing
+ */
+export const createGiteaConnector = (
+  token?: string,
+  configuration?: Configuration,
+  options: { host?: string } = {},
+): GiteaConnector => {
+  if (token === undefined || token === null) {
+    throw new Error(
+      'GITEA_TOKEN environment variable is missing. To create a Gitea token see https://docs.gitea.com/development/api-usage#generating-and-listing-api-tokens',
+    );
+  }
+  if (token.trim() === '') {
+    throw new Error('A non-empty Gitea token string is required.');
+  }
+
+  // Use provided configuration or defaults
+  const finalConfiguration: Configuration = configuration ?? {
+    baseBranches: ['main', 'master', 'develop', 'development'],
+  };
+
+  const trimmedHost = options.host?.trim() || DEFAULT_GITEA_HOST;
+  const host = (/^https?:\/\//i.test(trimmedHost) ? trimmedHost : `https://${trimmedHost}`).replace(
+    /\/+$/,
+    '',
+  );
+
+  const http = createHttpClient({
+    baseUrl: `${host}/api/v1`,
+    headers: { Authorization: `token ${token}` },
+  });
+  return new GiteaConnector(http, finalConfiguration);
+};
@@ -0,0 +1,95 @@
+/**
+ * Gitea-specific types for API responses and data structures.
+ * Forgejo serves the same API, so these types apply to both.
+ */
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DateRangeTimestamps {
+  fromTimestamp: number;
+  toTimestamp: number;
+}
+
+// User API response types
+export interface GiteaUser {
+  id?: number;
+  login?: string;
+  email?: string;
+  full_name?: string;
+}
+
+export interface GiteaRepository {
+  id?: number;
+  full_name?: string;
+  html_url?: string;
+  default_branch?: string;
+}
+
+// Activity feed API response types
+export interface GiteaActivity {
+  id?: number;
+  op_type?: string;
+  created?: string;
+  ref_name?: string;
+  content?: string;
+  act_user?: GiteaUser;
+  repo?: GiteaRepository;
+}
+
+// Commit API response types
+export interface GiteaCommit {
+  sha?: string;
+  html_url?: string;
+  created?: string;
+  commit?: {
+    message?: string;
+    author?: { name?: string; email?: string; date?: string };
+    committer?: { name?: string; email?: string; date?: string };
+  };
+  author?: GiteaUser | null;
+}
+
+export interface GiteaBranch {
+  name?: string;
+  commit?: {
+    id?: string;
+    timestamp?: string;
+  };
+}
+
+// Issue search API response types (pull requests are issues with pull_request set)
+export interface GiteaIssue {
+  id?: number;
+  number?: number;
+  title?: string;
+  html_url?: string;
+  created_at?: string;
+  updated_at?: string;
+  user?: GiteaUser;
+  repository?: {
+    full_name?: string;
+    owner?: string;
+    name?: string;
+  };
+  pull_request?: {
+    merged?: boolean;
+    merged_at?: string | null;
+  } | null;
+}
+
+export interface GiteaPullRequest {
+  number?: number;
+  base?: { ref?: string };
+}
+
+// Pull request review API response types
+export interface GiteaReview {
+  id?: number;
+  user?: GiteaUser;
+  state?: string;
+  submitted_at?: string;
+  html_url?: string;
+}
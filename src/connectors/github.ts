@@ -1,8 +1,9 @@
 import { Octokit } from '@octokit/rest';
 import type { Dayjs } from 'dayjs';
-import type { Contribution } from '../types.js';
+import type { Contribution, DiffStats, PullRequestState } from '../types.js';
 import type { Connector } from './types.js';
 import { deduplicateContributions } from '../lib/services/contributionDeduplicator.js';
+import { RequestScheduler, describeRequestFailures } from '../lib/http/requestScheduler.js';
 import type {
   GraphQLResponse,
   GraphQLErrorResponse,
@@ -12,10 +13,80 @@ import type {
   GraphQLCommitRepoWithHistory,
   GraphQLPRNode,
   GraphQLReviewNode,
+  GraphQLIssueNode,
+  GraphQLIssueCommentNode,
+  GraphQLIssueCommentsResponse,
+  GraphQLPageInfo,
 } from './github.types.js';
+import { logProgress } from '../lib/progress.js';
 
 export type { Contribution, ContributionType } from '../types.js';
 
+const GITHUB_WEB_HOST = 'github.com';
+const GITHUB_API_URL = 'https://api.github.com';
+
+interface GitHubEndpoints {
+  /** Base URL for REST calls (Octokit baseUrl) */
+  restBaseUrl: string;
+  /** Base URL that POST /graphql is resolved against */
+  graphqlBaseUrl: string;
+  /** Host of web URLs returned by the API, used to extract repository names */
+  webHost: string;
+}
+
+/**
+ * Resolves API endpoints for github.com or a GitHub Enterprise Server host.
+ * GHES serves REST under /api/v3 and GraphQL under /api/graphql.
+ * Accepts a host name (as in GH_HOST) or a URL, optionally ending in /api/v3.
+ */
+const resolveGitHubEndpoints = (host?: string): GitHubEndpoints => {
+  const trimmedHost = host?.trim();
+  if (!trimmedHost) {
+    return {
+      restBaseUrl: GITHUB_API_URL,
+      graphqlBaseUrl: GITHUB_API_URL,
+      webHost: GITHUB_WEB_HOST,
+    };
+  }
+
+  const url = new URL(/^https?:\/\//i.test(trimmedHost) ? trimmedHost : `https://${trimmedHost}`);
+  if (url.host === GITHUB_WEB_HOST || url.host === 'api.github.com') {
+    return {
+      restBaseUrl: GITHUB_API_URL,
+      graphqlBaseUrl: GITHUB_API_URL,
+      webHost: GITHUB_WEB_HOST,
+    };
+  }
+
+  const origin = `${url.protocol}//${url.host}`;
+  return {
+    restBaseUrl: `${origin}/api/v3`,
+    graphqlBaseUrl: `${origin}/api`,
+    webHost: url.host,
+  };
+};
+
+/**
+ * Maps GitHub pull request state to the platform-agnostic state.
+ */
+const toPullRequestState = (
+  state: 'OPEN' | 'CLOSED' | 'MERGED' | undefined,
+  isDraft: boolean | undefined,
+): PullRequestState | undefined => {
+  switch (state) {
+    case 'OPEN':
+      return isDraft ? 'draft' : 'open';
+    case 'MERGED':
+      return 'merged';
+    case 'CLOSED':
+      return 'closed';
+    default:
+      return undefined;
+  }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 const QUERY = `
 query($login: String!, $from: DateTime!, $to: DateTime!) {
   user(login: $login) {
@@ -34,6 +105,9 @@ query($login: String!, $from: DateTime!, $to: DateTime!) {
                     messageHeadline
                     message
                     url
+                    additions
+                    deletions
+                    changedFilesIfAvailable
                     author {
                       name
                       email
@@ -57,6 +131,13 @@ query($login: String!, $from: DateTime!, $to: DateTime!) {
             title
             url
             baseRefName
+            additions
+            deletions
+            changedFiles
+            state
+            isDraft
+            mergedAt
+            closedAt
           }
         }
       }
@@ -71,6 +152,18 @@ query($login: String!, $from: DateTime!, $to: DateTime!) {
           }
         }
       }
+      issueContributions(first: 100) {
+        nodes {
+          occurredAt
+          issue {
+            title
+            url
+          }
+        }
+        pageInfo {
+          hasNextPage
+        }
+      }
     }
   }
 }`;
@@ -88,6 +181,9 @@ query($owner: String!, $name: String!, $branch: String!, $cursor: String, $from:
               messageHeadline
               message
               url
+              additions
+              deletions
+              changedFilesIfAvailable
               author {
                 name
                 email
@@ -105,6 +201,55 @@ query($owner: String!, $name: String!, $branch: String!, $cursor: String, $from:
   }
 }`;
 
+/**
+ * Pages of comments read; comments beyond them are reported with a warning.
+ */
+const COMMENTS_PER_PAGE = 100;
+const MAX_COMMENT_PAGES = 10;
+
+/**
+ * Issue and pull request conversation comments, most recently updated first.
+ * Inline review comments are covered by pullRequestReviewContributions.
+ */
+const ISSUE_COMMENTS_QUERY = `
+query($login: String!, $cursor: String) {
+  user(login: $login) {
+    issueComments(first: ${COMMENTS_PER_PAGE}, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) {
+      nodes {
+        createdAt
+        updatedAt
+        url
+        issue {
+          title
+          url
+        }
+        pullRequest {
+          title
+          url
+          baseRefName
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+}`;
+
+/**
+ * Builds diff statistics, omitting values the API did not return.
+ */
+const toDiffStats = (
+  additions?: number | null,
+  deletions?: number | null,
+  changedFiles?: number | null,
+): DiffStats => ({
+  ...(typeof additions === 'number' ? { additions } : {}),
+  ...(typeof deletions === 'number' ? { deletions } : {}),
+  ...(typeof changedFiles === 'number' ? { changedFiles } : {}),
+});
+
 const isGraphQLErrorResponse = (x: unknown): x is GraphQLErrorResponse => {
   return (
     !!x &&
@@ -129,25 +274,55 @@ const extractPayloadFromGraphQLResponse = (raw: unknown): GraphQLResponse | null
  * GitHub's GraphQL contributionsCollection API automatically provides commits
  * from the default branch, and fetchAllCommits() intentionally fetches from
  * all branches without filtering.
+ *
+ * For GitHub Enterprise Server pass the instance host; REST calls then go to
+ * {host}/api/v3 and GraphQL calls to {host}/api/graphql.
+ *
+ * All Octokit requests run through a RequestScheduler, which caps concurrency
+ * and retries rate limited and transient failures.
  */
 export class GitHubConnector implements Connector {
   private octokit: Octokit;
+  private endpoints: GitHubEndpoints;
+  private scheduler: RequestScheduler;
+  private warnings: string[] = [];
+
+  constructor(
+    octokitOrToken: Octokit | string,
+    options: { host?: string; scheduler?: RequestScheduler } = {},
+  ) {
+    this.endpoints = resolveGitHubEndpoints(options.host);
+    this.scheduler = options.scheduler ?? new RequestScheduler();
 
-  constructor(octokitOrToken: Octokit | string) {
     if (typeof octokitOrToken === 'string') {
       if (!octokitOrToken || octokitOrToken.trim() === '') {
         throw new Error('A non-empty GitHub token string is required.');
       }
-      this.octokit = new Octokit({ auth: octokitOrToken });
+      this.octokit = new Octokit({ auth: octokitOrToken, baseUrl: this.endpoints.restBaseUrl });
     } else if (!octokitOrToken) {
       throw new Error('Octokit instance or token string is required.');
     } else {
       this.octokit = octokitOrToken;
     }
+
+    // Injected test doubles may not provide request hooks
+    this.octokit.hook?.wrap('request', (request, requestOptions) =>
+      this.scheduler.schedule(`${requestOptions.method} ${requestOptions.url}`, async () => {
+        const response = await request(requestOptions);
+        this.scheduler.observeHeaders(response.headers);
+        return response;
+      }),
+    );
+  }
+
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
   }
 
   getPlatformName(): string {
-    return 'GitHub';
+    return this.endpoints.webHost === GITHUB_WEB_HOST ? 'GitHub' : 'GitHub Enterprise';
   }
 
   async getUserLogin(): Promise<string> {
@@ -170,6 +345,7 @@ export class GitHubConnector implements Connector {
 
     try {
       const response = await this.octokit.request('POST /graphql', {
+        baseUrl: this.endpoints.graphqlBaseUrl,
         query: QUERY,
         variables,
       });
@@ -208,7 +384,9 @@ export class GitHubConnector implements Connector {
 
   private extractRepositoryFromUrl(url?: string): string | undefined {
     if (!url) return undefined;
-    const match = url.match(/github\.com\/([^/?#]+\/[^/?#]+)/);
+    const match = url.match(
+      new RegExp(`${escapeRegExp(this.endpoints.webHost)}/([^/?#]+/[^/?#]+)`),
+    );
     return match?.[1];
   }
 
@@ -228,6 +406,7 @@ export class GitHubConnector implements Connector {
     while (hasNextPage) {
       try {
         const response = await this.octokit.request('POST /graphql', {
+          baseUrl: this.endpoints.graphqlBaseUrl,
           query: PAGINATED_COMMIT_QUERY,
           variables: {
             owner,
@@ -242,7 +421,7 @@ export class GitHubConnector implements Connector {
         const rawData = (response as GraphQLApiResponse).data;
 
         if (isGraphQLErrorResponse(rawData)) {
-          console.warn(`Warning: Failed to paginate commits for ${repositoryName}/${branch}`);
+          this.warn(`Failed to paginate commits for ${repositoryName}/${branch}`);
           break;
         }
 
@@ -258,6 +437,9 @@ export class GitHubConnector implements Connector {
                       messageHeadline?: string;
                       message?: string;
                       url?: string;
+                      additions?: number;
+                      deletions?: number;
+                      changedFilesIfAvailable?: number | null;
                       author?: {
                         name?: string;
                         email?: string;
@@ -295,6 +477,7 @@ export class GitHubConnector implements Connector {
             url: commit.url,
             repository: repositoryName,
             target: branch,
+            ...toDiffStats(commit.additions, commit.deletions, commit.changedFilesIfAvailable),
           });
         }
 
@@ -303,9 +486,7 @@ export class GitHubConnector implements Connector {
 
         if (hasNextPage && !cursor) break;
       } catch (error) {
-        console.warn(
-          `Warning: Error paginating commits for ${repositoryName}/${branch}: ${error instanceof Error ? error.message : String(error)}`,
-        );
+        this.warn(`Error paginating commits for ${repositoryName}/${branch}`, error);
         break;
       }
     }
@@ -362,6 +543,7 @@ export class GitHubConnector implements Connector {
           url: commit.url,
           repository: repositoryName,
           target: branchName,
+          ...toDiffStats(commit.additions, commit.deletions, commit.changedFilesIfAvailable),
         });
       }
 
@@ -414,6 +596,17 @@ export class GitHubConnector implements Connector {
           url: pullRequest.pullRequest?.url,
           repository: this.extractRepositoryFromUrl(pullRequest.pullRequest?.url),
           target: pullRequest.pullRequest?.baseRefName,
+          ...toDiffStats(
+            pullRequest.pullRequest?.additions,
+            pullRequest.pullRequest?.deletions,
+            pullRequest.pullRequest?.changedFiles,
+          ),
+          state: toPullRequestState(
+            pullRequest.pullRequest?.state,
+            pullRequest.pullRequest?.isDraft,
+          ),
+          mergedAt: pullRequest.pullRequest?.mergedAt ?? undefined,
+          closedAt: pullRequest.pullRequest?.closedAt ?? undefined,
         });
       }
     }
@@ -440,6 +633,99 @@ export class GitHubConnector implements Connector {
     return contributions;
   }
 
+  private extractIssueContributions(issueNodes: GraphQLIssueNode[]): Contribution[] {
+    const contributions: Contribution[] = [];
+
+    for (const issue of issueNodes) {
+      if (issue && typeof issue.occurredAt === 'string') {
+        contributions.push({
+          type: 'issue',
+          timestamp: issue.occurredAt,
+          text: issue.issue?.title,
+          url: issue.issue?.url,
+          repository: this.extractRepositoryFromUrl(issue.issue?.url),
+        });
+      }
+    }
+
+    return contributions;
+  }
+
+  /**
+   * Fetches issue and pull request comments written within the date range.
+   * Pages are read until comments were last updated before the range start, up to
+   * MAX_COMMENT_PAGES; a warning notes when comments are left unread.
+   * Returns the comments read so far on error (best-effort).
+   */
+  private async fetchCommentContributions(
+    login: string,
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const contributions: Contribution[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_COMMENT_PAGES; page++) {
+      let nodes: GraphQLIssueCommentNode[];
+      let pageInfo: GraphQLPageInfo | undefined;
+      try {
+        const response = await this.octokit.request('POST /graphql', {
+          baseUrl: this.endpoints.graphqlBaseUrl,
+          query: ISSUE_COMMENTS_QUERY,
+          variables: { login, cursor },
+        });
+
+        const rawData = (response as GraphQLApiResponse | undefined)?.data;
+        if (isGraphQLErrorResponse(rawData)) {
+          const messages = (rawData.errors ?? []).map((error) => error.message).join(', ');
+          throw new Error(messages);
+        }
+
+        const payload = (rawData as { data?: GraphQLIssueCommentsResponse } | undefined)?.data;
+        nodes = payload?.user?.issueComments?.nodes ?? [];
+        pageInfo = payload?.user?.issueComments?.pageInfo;
+      } catch (error) {
+        this.warn('Failed to fetch GitHub comments', error);
+        return contributions;
+      }
+
+      for (const comment of nodes) {
+        if (!comment || typeof comment.createdAt !== 'string') continue;
+        const createdTimestamp = Date.parse(comment.createdAt);
+        if (
+          Number.isNaN(createdTimestamp) ||
+          createdTimestamp < dateRangeTimestamps.fromTimestamp ||
+          createdTimestamp > dateRangeTimestamps.toTimestamp
+        ) {
+          continue;
+        }
+
+        const parent = comment.pullRequest ?? comment.issue;
+        contributions.push({
+          type: 'comment',
+          timestamp: comment.createdAt,
+          text: parent?.title,
+          url: parent?.url ?? comment.url,
+          repository: this.extractRepositoryFromUrl(parent?.url ?? comment.url),
+          target: comment.pullRequest?.baseRefName,
+        });
+      }
+
+      // Ordered by last update: once a page ends before the range, older pages cannot match
+      const lastUpdatedAt = nodes[nodes.length - 1]?.updatedAt;
+      const reachedOlderComments =
+        !!lastUpdatedAt && Date.parse(lastUpdatedAt) < dateRangeTimestamps.fromTimestamp;
+      if (reachedOlderComments || !pageInfo?.hasNextPage || !pageInfo.endCursor) {
+        return contributions;
+      }
+      cursor = pageInfo.endCursor;
+    }
+
+    this.warn(
+      `GitHub comments are incomplete, only the latest ${MAX_COMMENT_PAGES * COMMENTS_PER_PAGE} comments were read`,
+    );
+    return contributions;
+  }
+
   private deduplicateContributions(contributions: Contribution[]): Contribution[] {
     return deduplicateContributions(contributions);
   }
@@ -453,7 +739,7 @@ export class GitHubConnector implements Connector {
       to: to.toISOString(),
     };
 
-    console.log(`[${this.formatLogTimestamp()}] Fetching contributions from GitHub...`);
+    logProgress(`[${this.formatLogTimestamp()}] Fetching contributions from GitHub...`);
 
     const contributionsCollection = await this.fetchGraphQLContributions(login, dateRange);
     const dateRangeTimestamps = this.parseDateRangeTimestamps(dateRange);
@@ -481,20 +767,103 @@ export class GitHubConnector implements Connector {
           contributionsCollection.pullRequestReviewContributions?.nodes ?? [],
         ),
       );
+
+      allContributions.push(
+        ...this.extractIssueContributions(contributionsCollection.issueContributions?.nodes ?? []),
+      );
+      if (contributionsCollection.issueContributions?.pageInfo?.hasNextPage) {
+        this.warn('GitHub issues are incomplete, only the first 100 opened in the range were read');
+      }
+
+      allContributions.push(...(await this.fetchCommentContributions(login, dateRangeTimestamps)));
     }
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-    console.log(
+    logProgress(
       `[${this.formatLogTimestamp()}] GitHub: found ${allContributions.length} contributions (took ${duration}s)`,
     );
+    this.reportPartialResults();
 
     return this.deduplicateContributions(allContributions);
   }
 
+  /**
+   * Searches the user's pull requests merged within the date range, whenever they were opened.
+   * Returns empty array on error (best-effort).
+   */
+  async fetchMergedPullRequests(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const dateRangeTimestamps = this.parseDateRangeTimestamps({
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    // The search syntax takes ISO 8601 timestamps without milliseconds
+    const toSearchTimestamp = (date: Dayjs): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    try {
+      const items = await this.octokit.paginate(this.octokit.rest.search.issuesAndPullRequests, {
+        q: `is:pr author:@me merged:${toSearchTimestamp(from)}..${toSearchTimestamp(to)}`,
+        per_page: 100,
+      });
+
+      return items
+        .map((item): Contribution | null => {
+          const mergedAt = item.pull_request?.merged_at;
+          if (!mergedAt) return null;
+
+          const mergedTimestamp = Date.parse(mergedAt);
+          if (
+            mergedTimestamp < dateRangeTimestamps.fromTimestamp ||
+            mergedTimestamp > dateRangeTimestamps.toTimestamp
+          ) {
+            return null;
+          }
+
+          return {
+            type: 'pr',
+            timestamp: item.created_at,
+            text: item.title,
+            url: item.html_url,
+            repository: this.extractRepositoryFromUrl(item.html_url),
+            state: 'merged',
+            mergedAt,
+            closedAt: item.closed_at ?? undefined,
+          };
+        })
+        .filter((item): item is Contribution => item !== null);
+    } catch (error) {
+      this.warn('Failed to search merged GitHub pull requests', error);
+      return [];
+    } finally {
+      this.reportPartialResults();
+    }
+  }
+
   private formatLogTimestamp(): string {
     return new Date().toISOString().substring(11, 23); // HH:mm:ss.SSS
   }
 
+  /**
+   * Logs a warning and records it for the report, as the results are then partial.
+   */
+  private warn(message: string, error?: unknown): void {
+    const warning =
+      error === undefined
+        ? message
+        : `${message}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`[${this.formatLogTimestamp()}] Warning: ${warning}`);
+    this.warnings.push(warning);
+  }
+
+  /**
+   * Warns when requests failed after retries, as the results are then partial.
+   */
+  private reportPartialResults(): void {
+    const failures = this.scheduler.takeFailures();
+    if (failures.length > 0) {
+      this.warn(`GitHub results are incomplete, ${describeRequestFailures(failures)}`);
+    }
+  }
+
   private async fetchBranchCommits(
     owner: string,
     repository: string,
@@ -532,6 +901,7 @@ export class GitHubConnector implements Connector {
         })
         .filter((item): item is Contribution => item !== null);
     } catch (branchError) {
+      this.warn(`Failed to fetch commits of ${repositoryName} (${branchName})`, branchError);
       return [];
     }
   }
@@ -544,7 +914,7 @@ export class GitHubConnector implements Connector {
     dateRange: DateRange,
     repositoryName: string,
   ): Promise<Contribution[]> {
-    console.log(
+    logProgress(
       `[${this.formatLogTimestamp()}] ${repositoryName}: processing ${branches.length} branches in parallel...`,
     );
 
@@ -555,7 +925,7 @@ export class GitHubConnector implements Connector {
     const branchResults = await Promise.all(branchCommitPromises);
     const branchContributions = branchResults.flat();
 
-    console.log(
+    logProgress(
       `[${this.formatLogTimestamp()}] ${repositoryName}: found ${branchContributions.length} commits from active branches`,
     );
 
@@ -611,6 +981,10 @@ export class GitHubConnector implements Connector {
         })
         .filter((item): item is Contribution => item !== null);
     } catch (pullRequestError) {
+      this.warn(
+        `Failed to fetch commits of ${repositoryName} pull request #${pullRequest.number}`,
+        pullRequestError,
+      );
       return [];
     }
   }
@@ -653,7 +1027,7 @@ export class GitHubConnector implements Connector {
       dateRangeTimestamps,
     );
 
-    console.log(
+    logProgress(
       `[${this.formatLogTimestamp()}] ${repositoryName}: processing ${userMergedPRs.length} merged PRs in parallel...`,
     );
 
@@ -671,7 +1045,7 @@ export class GitHubConnector implements Connector {
     const pullRequestResults = await Promise.all(pullRequestCommitPromises);
     const pullRequestContributions = pullRequestResults.flat();
 
-    console.log(
+    logProgress(
       `[${this.formatLogTimestamp()}] ${repositoryName}: found ${pullRequestContributions.length} commits from merged PRs`,
     );
 
@@ -689,14 +1063,14 @@ export class GitHubConnector implements Connector {
     const repositoryContributions: Contribution[] = [];
 
     try {
-      console.log(`[${this.formatLogTimestamp()}] ${repositoryName}: fetching branches...`);
+      logProgress(`[${this.formatLogTimestamp()}] ${repositoryName}: fetching branches...`);
       const branchesPromise = this.octokit.paginate(this.octokit.rest.repos.listBranches, {
         owner,
         repo: repository,
         per_page: 100,
       });
 
-      console.log(`[${this.formatLogTimestamp()}] ${repositoryName}: fetching merged PRs...`);
+      logProgress(`[${this.formatLogTimestamp()}] ${repositoryName}: fetching merged PRs...`);
       const pullRequestsPromise = this.octokit.paginate(this.octokit.rest.pulls.list, {
         owner,
         repo: repository,
@@ -728,16 +1102,14 @@ export class GitHubConnector implements Connector {
       );
       repositoryContributions.push(...pullRequestContributions);
     } catch (error) {
-      console.warn(
-        `[${this.formatLogTimestamp()}] Warning: Failed to process ${repositoryName}: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      this.warn(`Failed to process ${repositoryName}`, error);
     }
 
     return repositoryContributions;
   }
 
   private async discoverRepositories(login: string, dateRange: DateRange): Promise<string[]> {
-    console.log(`[${this.formatLogTimestamp()}] Discovering repositories...`);
+    logProgress(`[${this.formatLogTimestamp()}] Discovering repositories...`);
     const contributionsCollection = await this.fetchGraphQLContributions(login, dateRange);
 
     if (!contributionsCollection?.commitContributionsByRepository) {
@@ -748,7 +1120,7 @@ export class GitHubConnector implements Connector {
       .map((item) => item.repository?.nameWithOwner)
       .filter((name): name is string => !!name);
 
-    console.log(
+    logProgress(
       `[${this.formatLogTimestamp()}] Found ${repositories.length} repositories to check`,
     );
 
@@ -787,33 +1159,30 @@ export class GitHubConnector implements Connector {
       const contributions = allRepositoryResults.flat();
 
       const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-      console.log(
+      logProgress(
         `[${this.formatLogTimestamp()}] Total commits collected: ${contributions.length} (took ${duration}s)`,
       );
+      this.reportPartialResults();
 
       return this.deduplicateContributions(contributions);
     } catch (error) {
-      if (error && typeof error === 'object' && 'status' in error) {
-        const status = (error as { status: number }).status;
-        if (status === 401) {
-          console.warn(
-            `[${this.formatLogTimestamp()}] Warning: GitHub API authentication failed. Check your token.`,
-          );
-        } else if (status === 403) {
-          console.warn(
-            `[${this.formatLogTimestamp()}] Warning: GitHub API rate limit exceeded or access forbidden.`,
-          );
-        } else {
-          console.warn(
-            `[${this.formatLogTimestamp()}] Warning: Error fetching commits from GitHub API: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      } else {
-        console.warn(
-          `[${this.formatLogTimestamp()}] Warning: Error fetching commits from GitHub API: ${error instanceof Error ? error.message : String(error)}`,
+      const status =
+        error && typeof error === 'object' && 'status' in error
+          ? (error as { status: number }).status
+          : undefined;
+      if (status === 401) {
+        this.warn(
+          'GitHub API authentication failed, no commits could be fetched. Check your token.',
         );
+      } else if (status === 403) {
+        this.warn(
+          'GitHub API rate limit exceeded or access forbidden, no commits could be fetched.',
+        );
+      } else {
+        this.warn('Error fetching commits from GitHub API', error);
       }
 
+      this.reportPartialResults();
       return this.deduplicateContributions([]);
     }
   }
@@ -823,10 +1192,14 @@ export class GitHubConnector implements Connector {
  * Factory function to create a GitHub connector instance.
  *
  * @param token - GitHub personal access token
+ * @param options - GitHub Enterprise Server host (GH_HOST); github.com when omitted
  * @returns GitHubConnector instance
  * @throws Error if token is missing or empty
  */
-export const createGitHubConnector = (token?: string): GitHubConnector => {
+export const createGitHubConnector = (
+  token?: string,
+  options: { host?: string } = {},
+): GitHubConnector => {
   if (token === undefined || token === null) {
     throw new Error(
       'GH_TOKEN environment variable is missing. To create a GitHub token see README or https://github.com/settings/tokens',
@@ -836,5 +1209,5 @@ export const createGitHubConnector = (token?: string): GitHubConnector => {
     throw new Error('A non-empty GitHub token string is required.');
   }
 
-  return new GitHubConnector(token);
+  return new GitHubConnector(token, options);
 };
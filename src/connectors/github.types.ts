@@ -16,6 +16,9 @@ export type GraphQLCommitHistoryNode = {
   messageHeadline?: string;
   message?: string;
   url?: string;
+  additions?: number;
+  deletions?: number;
+  changedFilesIfAvailable?: number | null;
   author?: GraphQLCommitAuthor;
 };
 
@@ -49,6 +52,13 @@ export type GraphQLPRNode = {
     title?: string;
     url?: string;
     baseRefName?: string;
+    additions?: number;
+    deletions?: number;
+    changedFiles?: number;
+    state?: 'OPEN' | 'CLOSED' | 'MERGED';
+    isDraft?: boolean;
+    mergedAt?: string | null;
+    closedAt?: string | null;
   };
 };
 
@@ -62,12 +72,43 @@ export type GraphQLReviewNode = {
   };
 };
 
+export type GraphQLIssueNode = {
+  occurredAt?: string;
+  issue?: {
+    title?: string;
+    url?: string;
+  };
+};
+
+export type GraphQLCommentParent = {
+  title?: string;
+  url?: string;
+};
+
+export type GraphQLIssueCommentNode = {
+  createdAt?: string;
+  updatedAt?: string;
+  url?: string;
+  issue?: GraphQLCommentParent;
+  pullRequest?: GraphQLCommentParent & { baseRefName?: string };
+};
+
+export type GraphQLIssueCommentsResponse = {
+  user?: {
+    issueComments?: {
+      nodes?: GraphQLIssueCommentNode[];
+      pageInfo?: GraphQLPageInfo;
+    };
+  };
+};
+
 export type GraphQLResponse = {
   user?: {
     contributionsCollection?: {
       commitContributionsByRepository?: GraphQLCommitRepoWithHistory[];
       pullRequestContributions?: { nodes?: GraphQLPRNode[] };
       pullRequestReviewContributions?: { nodes?: GraphQLReviewNode[] };
+      issueContributions?: { nodes?: GraphQLIssueNode[]; pageInfo?: GraphQLPageInfo };
     };
   };
 };
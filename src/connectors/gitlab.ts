@@ -1,20 +1,94 @@
-import { Gitlab } from '@gitbeaker/rest';
+import { Gitlab, Users } from '@gitbeaker/rest';
 import type { Dayjs } from 'dayjs';
-import type { Contribution } from '../types.js';
+import type { Contribution, DiffStats, PullRequestState } from '../types.js';
 import type { Configuration } from '../lib/config/index.js';
 import type { Connector } from './types.js';
 import { deduplicateContributions } from '../lib/services/contributionDeduplicator.js';
+import { RequestScheduler, describeRequestFailures } from '../lib/http/requestScheduler.js';
 import type {
   GitLabUser,
   GitLabEvent,
   GitLabMergeRequest,
   GitLabProject,
+  GitLabPushData,
+  GitLabCommit,
   DateRange,
   DateRangeTimestamps,
 } from './gitlab.types.js';
 
 export type { Contribution, ContributionType } from '../types.js';
 
+/**
+ * Issue event actions reported as issue contributions.
+ * Opening needs no label; other actions prefix the issue title.
+ */
+const ISSUE_ACTION_LABELS = new Map<string, string | undefined>([
+  ['opened', undefined],
+  ['closed', 'Closed'],
+  ['reopened', 'Reopened'],
+]);
+
+/**
+ * Maps a GitLab merge request to the platform-agnostic pull request state.
+ * Locked merge requests are in transition and reported as open.
+ */
+const toPullRequestState = (mergeRequest: GitLabMergeRequest): PullRequestState | undefined => {
+  switch (mergeRequest.state) {
+    case 'opened':
+    case 'locked':
+      return mergeRequest.draft || mergeRequest.work_in_progress ? 'draft' : 'open';
+    case 'merged':
+      return 'merged';
+    case 'closed':
+      return 'closed';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Web URL path segments of commentable parents, by note noteable_type.
+ */
+const NOTEABLE_URL_PATHS: Record<string, string> = {
+  MergeRequest: 'merge_requests',
+  Issue: 'issues',
+};
+
+const REQUEST_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+/**
+ * Pages of commits read for the diff statistics of one push; larger pushes are reported
+ * with a warning, as their statistics are then too low.
+ */
+const PUSH_COMMITS_PER_PAGE = 100;
+const PUSH_COMMIT_PAGES = 10;
+
+type GitlabRequester = InstanceType<typeof Users>['requester'];
+
+/**
+ * Creates a Gitlab client that passes the headers of every response (each page of a list too)
+ * to the scheduler, so requests pause once RateLimit-Remaining reaches 0 instead of after a 429.
+ * Its requesterFn wraps the default requester of @gitbeaker/rest, built for the same options.
+ */
+const createObservedGitlab = (
+  token: string,
+  host: string | undefined,
+  scheduler: RequestScheduler,
+): InstanceType<typeof Gitlab> => {
+  const { requester } = new Users({ token, host });
+  const observedRequester = Object.fromEntries(
+    REQUEST_METHODS.map((method) => [
+      method,
+      async (...args: Parameters<GitlabRequester['get']>) => {
+        const response = await requester[method](...args);
+        scheduler.observeHeaders(response.headers);
+        return response;
+      },
+    ]),
+  ) as unknown as GitlabRequester;
+  return new Gitlab({ token, host, requesterFn: () => observedRequester });
+};
+
 /**
  * GitLab connector - fetches contributions from GitLab API.
  * Supports commits, merge requests, and MR reviews/approvals.
@@ -23,21 +97,36 @@ export type { Contribution, ContributionType } from '../types.js';
  * commits in fetchContributions(). Only push events to configured base
  * branches (main, master, develop, etc.) are included in standard reports.
  * Use fetchAllCommits() to get commits from all branches.
+ *
+ * All API calls run through a RequestScheduler, which caps concurrency, pauses when the
+ * RateLimit-* headers report an exhausted budget and retries rate limited (Retry-After)
+ * and transient failures. RateLimit-* headers are read from clients the connector creates
+ * from a token; a passed Gitlab instance is used as is.
  */
 export class GitLabConnector implements Connector {
   private gitlab: InstanceType<typeof Gitlab>;
   private configuration: Configuration;
+  private scheduler: RequestScheduler;
   private userId: number | null = null;
-
-  constructor(gitlabOrToken: InstanceType<typeof Gitlab> | string, configuration: Configuration) {
+  /** Lower-cased email addresses of the user, to tell their commits in a push from others */
+  private userEmails = new Set<string>();
+  private warnings: string[] = [];
+
+  constructor(
+    gitlabOrToken: InstanceType<typeof Gitlab> | string,
+    configuration: Configuration,
+    options: { scheduler?: RequestScheduler; host?: string } = {},
+  ) {
+    this.scheduler = options.scheduler ?? new RequestScheduler();
     if (typeof gitlabOrToken === 'string') {
       if (!gitlabOrToken || gitlabOrToken.trim() === '') {
         throw new Error('A non-empty GitLab token string is required.');
       }
-      this.gitlab = new Gitlab({
-        token: gitlabOrToken,
-        host: process.env.GITLAB_HOST,
-      });
+      this.gitlab = createObservedGitlab(
+        gitlabOrToken,
+        options.host ?? process.env.GITLAB_HOST,
+        this.scheduler,
+      );
     } else if (!gitlabOrToken) {
       throw new Error('Gitlab instance or token string is required.');
     } else {
@@ -50,12 +139,20 @@ export class GitLabConnector implements Connector {
     return 'GitLab';
   }
 
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
   /**
    * Gets the authenticated user's username from GitLab.
    * Caches the user ID for later use.
    */
   async getUserLogin(): Promise<string> {
-    const user = (await this.gitlab.Users.showCurrentUser()) as GitLabUser;
+    const user = (await this.scheduler.schedule('GET /user', () =>
+      this.gitlab.Users.showCurrentUser(),
+    )) as GitLabUser;
     if (!user?.username) {
       throw new Error('Unable to determine authenticated user username from GitLab.');
     }
@@ -63,6 +160,7 @@ export class GitLabConnector implements Connector {
     if (user.id) {
       this.userId = user.id;
     }
+    this.rememberUserEmails(user);
     return user.username;
   }
 
@@ -73,14 +171,26 @@ export class GitLabConnector implements Connector {
     if (this.userId !== null) {
       return this.userId;
     }
-    const user = (await this.gitlab.Users.showCurrentUser()) as GitLabUser;
+    const user = (await this.scheduler.schedule('GET /user', () =>
+      this.gitlab.Users.showCurrentUser(),
+    )) as GitLabUser;
     if (!user?.id) {
       throw new Error('Unable to determine authenticated user ID from GitLab.');
     }
     this.userId = user.id;
+    this.rememberUserEmails(user);
     return user.id;
   }
 
+  /**
+   * Remembers the email addresses GitLab knows for the user, including the commit email.
+   */
+  private rememberUserEmails(user: GitLabUser): void {
+    for (const email of [user.email, user.commit_email, user.public_email]) {
+      if (email) this.userEmails.add(email.toLowerCase());
+    }
+  }
+
   /**
    * Parses ISO date strings to timestamps for efficient range checking.
    * @throws {Error} If date strings are invalid
@@ -107,18 +217,42 @@ export class GitLabConnector implements Connector {
     return match?.[1];
   }
 
+  /**
+   * Logs a warning and records it for the report, as the results are then partial.
+   */
+  private warn(message: string, error?: unknown): void {
+    const warning =
+      error === undefined
+        ? message
+        : `${message}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`Warning: ${warning}`);
+    this.warnings.push(warning);
+  }
+
+  /**
+   * Warns when requests failed after retries, as the results are then partial.
+   */
+  private reportPartialResults(): void {
+    const failures = this.scheduler.takeFailures();
+    if (failures.length > 0) {
+      this.warn(`GitLab results are incomplete, ${describeRequestFailures(failures)}`);
+    }
+  }
+
   /**
    * Fetches user events from GitLab Events API.
    * Returns empty array on error (best-effort).
    */
   private async fetchEventsApiData(userId: number, dateRange: DateRange): Promise<GitLabEvent[]> {
     try {
-      const events = (await this.gitlab.Users.allEvents(userId, {
-        after: dateRange.from.split('T')[0],
-        before: dateRange.to.split('T')[0],
-        perPage: 100,
-        maxPages: 10,
-      })) as GitLabEvent[];
+      const events = (await this.scheduler.schedule('GET /users/:id/events', () =>
+        this.gitlab.Users.allEvents(userId, {
+          after: dateRange.from.split('T')[0],
+          before: dateRange.to.split('T')[0],
+          perPage: 100,
+          maxPages: 10,
+        }),
+      )) as GitLabEvent[];
 
       if (!Array.isArray(events)) {
         return [];
@@ -126,14 +260,17 @@ export class GitLabConnector implements Connector {
 
       return events;
     } catch (error) {
-      // Log warnings for authentication or rate limit errors
-      if (error && typeof error === 'object' && 'response' in error) {
-        const response = (error as { response: { status: number } }).response;
-        if (response.status === 401) {
-          console.warn('Warning: GitLab Events API authentication failed. Check your token.');
-        } else if (response.status === 403) {
-          console.warn('Warning: GitLab Events API rate limit exceeded or access forbidden.');
-        }
+      // Name authentication and rate limit errors explicitly
+      const status =
+        error && typeof error === 'object' && 'response' in error
+          ? (error as { response: { status: number } }).response.status
+          : undefined;
+      if (status === 401) {
+        this.warn('GitLab Events API authentication failed. Check your token.');
+      } else if (status === 403) {
+        this.warn('GitLab Events API rate limit exceeded or access forbidden.');
+      } else {
+        this.warn('Failed to fetch GitLab events', error);
       }
       return [];
     }
@@ -147,13 +284,15 @@ export class GitLabConnector implements Connector {
     dateRange: DateRange,
   ): Promise<GitLabMergeRequest[]> {
     try {
-      const mergeRequests = (await this.gitlab.MergeRequests.all({
-        authorId: userId,
-        createdAfter: dateRange.from,
-        createdBefore: dateRange.to,
-        perPage: 100,
-        maxPages: 10,
-      })) as GitLabMergeRequest[];
+      const mergeRequests = (await this.scheduler.schedule('GET /merge_requests', () =>
+        this.gitlab.MergeRequests.all({
+          authorId: userId,
+          createdAfter: dateRange.from,
+          createdBefore: dateRange.to,
+          perPage: 100,
+          maxPages: 10,
+        }),
+      )) as GitLabMergeRequest[];
 
       if (!Array.isArray(mergeRequests)) {
         return [];
@@ -161,9 +300,41 @@ export class GitLabConnector implements Connector {
 
       return mergeRequests;
     } catch (error) {
-      console.warn(
-        `Warning: Failed to fetch merge requests: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      this.warn('Failed to fetch merge requests', error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetches merge requests of the user merged within the date range, whenever they were created.
+   * GitLab filters on the last update only, which is at or after the merge.
+   */
+  private async fetchMergedMergeRequests(
+    userId: number,
+    dateRange: DateRange,
+  ): Promise<GitLabMergeRequest[]> {
+    const { fromTimestamp, toTimestamp } = this.parseDateRangeTimestamps(dateRange);
+    try {
+      const mergeRequests = (await this.scheduler.schedule('GET /merge_requests', () =>
+        this.gitlab.MergeRequests.all({
+          authorId: userId,
+          state: 'merged',
+          updatedAfter: dateRange.from,
+          perPage: 100,
+          maxPages: 10,
+        }),
+      )) as GitLabMergeRequest[];
+
+      if (!Array.isArray(mergeRequests)) {
+        return [];
+      }
+
+      return mergeRequests.filter((mergeRequest) => {
+        const mergedTimestamp = mergeRequest?.merged_at ? Date.parse(mergeRequest.merged_at) : NaN;
+        return mergedTimestamp >= fromTimestamp && mergedTimestamp <= toTimestamp;
+      });
+    } catch (error) {
+      this.warn('Failed to fetch merged merge requests', error);
       return [];
     }
   }
@@ -173,13 +344,104 @@ export class GitLabConnector implements Connector {
    */
   private async fetchProject(projectId: number): Promise<GitLabProject | null> {
     try {
-      const project = (await this.gitlab.Projects.show(projectId)) as GitLabProject;
+      const project = (await this.scheduler.schedule(`GET /projects/${projectId}`, () =>
+        this.gitlab.Projects.show(projectId),
+      )) as GitLabProject;
       return project || null;
     } catch (error) {
+      this.warn(`Failed to fetch project ${projectId}, its contributions are skipped`, error);
       return null;
     }
   }
 
+  /**
+   * Fetches diff statistics of the user's own commits in a push (commit_from..commit_to),
+   * matched by author email, as a push can carry commits of others (e.g. merged branches).
+   * Pushes that create a branch only carry commit_to, so that commit's stats are used.
+   * GitLab commit stats have no file count. Returns empty stats on error, with a warning.
+   */
+  private async fetchPushDiffStats(
+    projectId: number,
+    pushData: GitLabPushData,
+  ): Promise<DiffStats> {
+    const commitTo = pushData.commit_to;
+    if (!commitTo) return {};
+
+    try {
+      const commits = pushData.commit_from
+        ? ((await this.scheduler.schedule(`GET /projects/${projectId}/repository/commits`, () =>
+            this.gitlab.Commits.all(projectId, {
+              refName: `${pushData.commit_from}..${commitTo}`,
+              withStats: true,
+              perPage: PUSH_COMMITS_PER_PAGE,
+              maxPages: PUSH_COMMIT_PAGES,
+            }),
+          )) as GitLabCommit[])
+        : [
+            (await this.scheduler.schedule(
+              `GET /projects/${projectId}/repository/commits/${commitTo}`,
+              () => this.gitlab.Commits.show(projectId, commitTo),
+            )) as GitLabCommit,
+          ];
+
+      if (commits.length >= PUSH_COMMITS_PER_PAGE * PUSH_COMMIT_PAGES) {
+        this.warn(
+          `Diff statistics of a push to project ${projectId} only cover its first ${commits.length} commits`,
+        );
+      }
+
+      const stats = commits
+        .filter((commit) => this.userEmails.has(commit?.author_email?.toLowerCase() ?? ''))
+        .map((commit) => commit.stats)
+        .filter((commitStats) => !!commitStats);
+      if (stats.length === 0) return {};
+
+      return {
+        additions: stats.reduce((sum, commitStats) => sum + (commitStats.additions ?? 0), 0),
+        deletions: stats.reduce((sum, commitStats) => sum + (commitStats.deletions ?? 0), 0),
+      };
+    } catch (error) {
+      this.warn(`Failed to fetch diff statistics of a push to project ${projectId}`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Adds diff statistics, once fetched, to a contribution.
+   */
+  private async addDiffStats(
+    contribution: Contribution,
+    diffStats: Promise<DiffStats>,
+  ): Promise<Contribution> {
+    return { ...contribution, ...(await diffStats) };
+  }
+
+  /**
+   * Fetches the number of changed files of a merge request (changes_count).
+   * The list API omits it, so the merge request is fetched individually.
+   * Returns empty stats on error, with a warning.
+   */
+  private async fetchMergeRequestDiffStats(mergeRequest: GitLabMergeRequest): Promise<DiffStats> {
+    const { project_id: projectId, iid } = mergeRequest;
+    if (projectId === undefined || iid === undefined) return {};
+
+    try {
+      const details = (await this.scheduler.schedule(
+        `GET /projects/${projectId}/merge_requests/${iid}`,
+        () => this.gitlab.MergeRequests.show(projectId, iid),
+      )) as GitLabMergeRequest;
+      // changes_count is a string and is capped, e.g. "1000+"
+      const changedFiles = Number.parseInt(details?.changes_count ?? '', 10);
+      return Number.isNaN(changedFiles) ? {} : { changedFiles };
+    } catch (error) {
+      this.warn(
+        `Failed to fetch changed files of merge request !${iid} in project ${projectId}`,
+        error,
+      );
+      return {};
+    }
+  }
+
   /**
    * Extracts commit contributions from push events.
    * Filters by date range and base branch references from configuration.
@@ -191,7 +453,8 @@ export class GitLabConnector implements Connector {
     events: GitLabEvent[],
     dateRangeTimestamps: DateRangeTimestamps,
   ): Promise<Contribution[]> {
-    const contributions: Contribution[] = [];
+    // Diff statistics are fetched in parallel, the scheduler caps the concurrent requests
+    const contributions: Array<Promise<Contribution> | Contribution> = [];
 
     // Build base branch references from configuration
     const baseBranchReferences = new Set(
@@ -236,17 +499,22 @@ export class GitLabConnector implements Connector {
         projectPath = project?.path_with_namespace;
       }
 
-      contributions.push({
+      const contribution: Contribution = {
         type: 'commit',
         timestamp: createdAt,
         text: commitTitle,
         url: undefined, // Push events don't include commit URLs
         repository: projectPath,
         target: branchName,
-      });
+      };
+      contributions.push(
+        projectId && event.push_data
+          ? this.addDiffStats(contribution, this.fetchPushDiffStats(projectId, event.push_data))
+          : contribution,
+      );
     }
 
-    return contributions;
+    return Promise.all(contributions);
   }
 
   /**
@@ -254,8 +522,10 @@ export class GitLabConnector implements Connector {
    */
   private async extractMergeRequestContributions(
     mergeRequests: GitLabMergeRequest[],
+    withDiffStats = true,
   ): Promise<Contribution[]> {
-    const contributions: Contribution[] = [];
+    // Diff statistics are fetched in parallel, the scheduler caps the concurrent requests
+    const contributions: Array<Promise<Contribution> | Contribution> = [];
 
     // Cache projects to avoid repeated API calls
     const projectCache = new Map<number, GitLabProject | null>();
@@ -279,17 +549,25 @@ export class GitLabConnector implements Connector {
         projectPath = this.extractProjectFromUrl(mergeRequest.web_url);
       }
 
-      contributions.push({
+      const contribution: Contribution = {
         type: 'pr', // Use 'pr' type for merge requests to maintain consistency
         timestamp: mergeRequest.created_at,
         text: mergeRequest.title,
         url: mergeRequest.web_url,
         repository: projectPath,
         target: mergeRequest.target_branch,
-      });
+        state: toPullRequestState(mergeRequest),
+        mergedAt: mergeRequest.merged_at ?? undefined,
+        closedAt: mergeRequest.closed_at ?? undefined,
+      };
+      contributions.push(
+        withDiffStats
+          ? this.addDiffStats(contribution, this.fetchMergeRequestDiffStats(mergeRequest))
+          : contribution,
+      );
     }
 
-    return contributions;
+    return Promise.all(contributions);
   }
 
   /**
@@ -342,6 +620,123 @@ export class GitLabConnector implements Connector {
     return contributions;
   }
 
+  /**
+   * Extracts issue contributions from issue events (opened, closed, reopened).
+   * Closing and reopening are noted in the text, e.g. "Closed: Fix login".
+   */
+  private async extractIssueContributions(
+    events: GitLabEvent[],
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const contributions: Contribution[] = [];
+
+    // Cache projects to avoid repeated API calls
+    const projectCache = new Map<number, GitLabProject | null>();
+
+    for (const event of events) {
+      if (!event || typeof event !== 'object') continue;
+      if (event.target_type !== 'Issue') continue;
+      if (!ISSUE_ACTION_LABELS.has(event.action_name ?? '')) continue;
+
+      const createdAt = event.created_at;
+      if (typeof createdAt !== 'string') continue;
+
+      const createdTimestamp = Date.parse(createdAt);
+      if (Number.isNaN(createdTimestamp)) continue;
+
+      if (
+        createdTimestamp < dateRangeTimestamps.fromTimestamp ||
+        createdTimestamp > dateRangeTimestamps.toTimestamp
+      ) {
+        continue;
+      }
+
+      // Get project for repository name and issue URL
+      let project: GitLabProject | null | undefined;
+      const projectId = event.project_id;
+      if (projectId) {
+        if (!projectCache.has(projectId)) {
+          projectCache.set(projectId, await this.fetchProject(projectId));
+        }
+        project = projectCache.get(projectId);
+      }
+
+      const actionLabel = ISSUE_ACTION_LABELS.get(event.action_name ?? '');
+      const title = event.target_title;
+
+      contributions.push({
+        type: 'issue',
+        timestamp: createdAt,
+        text: actionLabel && title ? `${actionLabel}: ${title}` : title,
+        url:
+          project?.web_url && event.target_iid !== undefined
+            ? `${project.web_url}/-/issues/${event.target_iid}`
+            : undefined,
+        repository: project?.path_with_namespace,
+      });
+    }
+
+    return contributions;
+  }
+
+  /**
+   * Extracts comment contributions from 'commented on' events (MR discussions and issue notes).
+   * The text and URL point to the commented merge request or issue.
+   */
+  private async extractCommentContributions(
+    events: GitLabEvent[],
+    dateRangeTimestamps: DateRangeTimestamps,
+  ): Promise<Contribution[]> {
+    const contributions: Contribution[] = [];
+
+    // Cache projects to avoid repeated API calls
+    const projectCache = new Map<number, GitLabProject | null>();
+
+    for (const event of events) {
+      if (!event || typeof event !== 'object') continue;
+      if (event.action_name !== 'commented on') continue;
+
+      const createdAt = event.created_at;
+      if (typeof createdAt !== 'string') continue;
+
+      const createdTimestamp = Date.parse(createdAt);
+      if (Number.isNaN(createdTimestamp)) continue;
+
+      if (
+        createdTimestamp < dateRangeTimestamps.fromTimestamp ||
+        createdTimestamp > dateRangeTimestamps.toTimestamp
+      ) {
+        continue;
+      }
+
+      // Get project for repository name and parent URL
+      let project: GitLabProject | null | undefined;
+      const projectId = event.project_id;
+      if (projectId) {
+        if (!projectCache.has(projectId)) {
+          projectCache.set(projectId, await this.fetchProject(projectId));
+        }
+        project = projectCache.get(projectId);
+      }
+
+      const parentPath = NOTEABLE_URL_PATHS[event.note?.noteable_type ?? ''];
+      const parentIid = event.note?.noteable_iid;
+
+      contributions.push({
+        type: 'comment',
+        timestamp: createdAt,
+        text: event.target_title,
+        url:
+          project?.web_url && parentPath && parentIid !== undefined
+            ? `${project.web_url}/-/${parentPath}/${parentIid}`
+            : undefined,
+        repository: project?.path_with_namespace,
+      });
+    }
+
+    return contributions;
+  }
+
   /**
    * Deduplicates contributions by composite key: type|timestamp|url|text|repository|target.
    */
@@ -351,7 +746,7 @@ export class GitLabConnector implements Connector {
 
   /**
    * Fetches all contributions for the authenticated user within the date range.
-   * Combines Events API (commits, reviews) and Merge Requests API.
+   * Combines Events API (commits, reviews, issues, comments) and Merge Requests API.
    */
   async fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
     const userId = await this.getUserId();
@@ -376,13 +771,37 @@ export class GitLabConnector implements Connector {
     // Extract reviews from approval events
     allContributions.push(...this.extractReviewContributions(events, dateRangeTimestamps));
 
+    // Extract issues from issue events
+    allContributions.push(...(await this.extractIssueContributions(events, dateRangeTimestamps)));
+
+    // Extract comments from note events
+    allContributions.push(...(await this.extractCommentContributions(events, dateRangeTimestamps)));
+
     // Fetch and extract merge requests
     const mergeRequests = await this.fetchMergeRequests(userId, dateRange);
     allContributions.push(...(await this.extractMergeRequestContributions(mergeRequests)));
 
+    this.reportPartialResults();
     return this.deduplicateContributions(allContributions);
   }
 
+  /**
+   * Fetches the merge requests of the authenticated user merged within the date range,
+   * including those created before it. Diff statistics are not fetched, as merge events
+   * do not carry them.
+   */
+  async fetchMergedPullRequests(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const userId = await this.getUserId();
+    const mergeRequests = await this.fetchMergedMergeRequests(userId, {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    const contributions = await this.extractMergeRequestContributions(mergeRequests, false);
+
+    this.reportPartialResults();
+    return contributions;
+  }
+
   /**
    * Fetches all commits from ALL branches using GitLab Events API.
    * Unlike fetchContributions which filters by base branches,
@@ -401,8 +820,10 @@ export class GitLabConnector implements Connector {
 
     try {
       // Fetch all events (not filtered by base branches)
-      const events = (await this.gitlab.Events.all({ userId, maxPages: 10 })) as GitLabEvent[];
-      const contributions: Contribution[] = [];
+      const events = (await this.scheduler.schedule('GET /events', () =>
+        this.gitlab.Events.all({ userId, maxPages: 10 }),
+      )) as GitLabEvent[];
+      const contributions: Array<Promise<Contribution> | Contribution> = [];
 
       // Cache projects to avoid repeated API calls
       const projectCache = new Map<number, GitLabProject | null>();
@@ -445,20 +866,26 @@ export class GitLabConnector implements Connector {
 
         const repositoryName = project.path_with_namespace;
 
-        contributions.push({
+        const contribution: Contribution = {
           type: 'commit',
           timestamp: createdAt,
           text: commitTitle,
           repository: repositoryName,
           target: branchName,
-        });
+        };
+        contributions.push(
+          event.push_data
+            ? this.addDiffStats(contribution, this.fetchPushDiffStats(projectId, event.push_data))
+            : contribution,
+        );
       }
 
-      return this.deduplicateContributions(contributions);
+      const commits = await Promise.all(contributions);
+      this.reportPartialResults();
+      return this.deduplicateContributions(commits);
     } catch (error) {
-      console.warn(
-        `Warning: Error fetching commits from GitLab Events API: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      this.warn('Error fetching commits from GitLab Events API', error);
+      this.reportPartialResults();
       return [];
     }
   }
@@ -466,10 +893,15 @@ export class GitLabConnector implements Connector {
 
 /**
  * Factory function to create a GitLab connector instance.
+ *
+ * @param token - GitLab personal access token
+ * @param configuration - Application configuration (uses baseBranches)
+ * @param options - Instance URL (defaults to GITLAB_HOST, then gitlab.com)
  */
 export const createGitLabConnector = (
   token?: string,
   configuration?: Configuration,
+  options: { host?: string } = {},
 ): GitLabConnector => {
   if (token === undefined || token === null) {
     throw new Error(
@@ -485,5 +917,5 @@ export const createGitLabConnector = (
     baseBranches: ['main', 'master', 'develop', 'development'],
   };
 
-  return new GitLabConnector(token, finalConfiguration);
+  return new GitLabConnector(token, finalConfiguration, { host: options.host });
 };
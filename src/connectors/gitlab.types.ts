@@ -18,6 +18,8 @@ export interface GitLabUser {
   username?: string;
   name?: string;
   email?: string;
+  commit_email?: string;
+  public_email?: string;
 }
 
 // Event API response types
@@ -26,6 +28,7 @@ export interface GitLabPushData {
   ref?: string;
   ref_type?: string;
   action?: string;
+  commit_from?: string | null;
   commit_to?: string;
   commit_title?: string;
 }
@@ -52,6 +55,7 @@ export interface GitLabEvent {
     id?: number;
     body?: string;
     noteable_type?: string;
+    noteable_iid?: number;
   };
 }
 
@@ -66,6 +70,11 @@ export interface GitLabCommit {
   author_name?: string;
   author_email?: string;
   web_url?: string;
+  stats?: {
+    additions?: number;
+    deletions?: number;
+    total?: number;
+  };
 }
 
 // Merge Request API response types
@@ -79,6 +88,10 @@ export interface GitLabMergeRequest {
   updated_at?: string;
   merged_at?: string;
   closed_at?: string;
+  draft?: boolean;
+  work_in_progress?: boolean;
+  /** Number of changed files; only returned for single merge requests (e.g. "1000+") */
+  changes_count?: string;
   target_branch?: string;
   source_branch?: string;
   web_url?: string;
@@ -0,0 +1,49 @@
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../types.js';
+import type { Connector } from './types.js';
+
+/**
+ * Connector decorator for configured accounts.
+ * Stamps the account label on every contribution and includes it in the platform name,
+ * so several accounts of the same platform can be told apart in reports and logs.
+ */
+export class LabeledConnector implements Connector {
+  private connector: Connector;
+  private label: string;
+
+  constructor(connector: Connector, label: string) {
+    if (!label || label.trim() === '') {
+      throw new Error('A non-empty account label is required.');
+    }
+    this.connector = connector;
+    this.label = label.trim();
+  }
+
+  getPlatformName(): string {
+    return `${this.connector.getPlatformName()} (${this.label})`;
+  }
+
+  getUserLogin(): Promise<string> {
+    return this.connector.getUserLogin();
+  }
+
+  takeWarnings(): string[] {
+    return this.connector.takeWarnings?.() ?? [];
+  }
+
+  async fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    return this.withLabel(await this.connector.fetchContributions(from, to));
+  }
+
+  async fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    return this.withLabel(await this.connector.fetchAllCommits(from, to));
+  }
+
+  async fetchMergedPullRequests(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    return this.withLabel((await this.connector.fetchMergedPullRequests?.(from, to)) ?? []);
+  }
+
+  private withLabel(contributions: Contribution[]): Contribution[] {
+    return contributions.map((contribution) => ({ ...contribution, account: this.label }));
+  }
+}
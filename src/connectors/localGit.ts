@@ -0,0 +1,468 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../types.js';
+import type { Configuration } from '../lib/config/index.js';
+import type { Connector } from './types.js';
+import { deduplicateContributions } from '../lib/services/contributionDeduplicator.js';
+import type {
+  DateRange,
+  GitCommandRunner,
+  LocalGitCommit,
+  LocalRepository,
+} from './localGit.types.js';
+import { logProgress } from '../lib/progress.js';
+
+export type { Contribution, ContributionType } from '../types.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Maximum directory depth searched below each configured directory.
+ * Keeps discovery fast when a directory like ~/code is configured.
+ */
+const MAX_DISCOVERY_DEPTH = 4;
+
+/**
+ * Directories never descended into during discovery.
+ */
+const SKIPPED_DIRECTORY_NAMES = new Set(['node_modules']);
+
+/**
+ * git log output uses ASCII unit/record separators so commit subjects can contain anything.
+ */
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+const LOG_FORMAT = `--format=%H${FIELD_SEPARATOR}%cI${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%s${RECORD_SEPARATOR}`;
+
+const GIT_OUTPUT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Default runner: executes the git binary found on PATH.
+ */
+const runGitCommand: GitCommandRunner = async (workingDirectory, gitArguments) => {
+  const { stdout } = await execFileAsync('git', gitArguments, {
+    cwd: workingDirectory,
+    maxBuffer: GIT_OUTPUT_MAX_BUFFER,
+  });
+  return stdout;
+};
+
+/**
+ * Expands a leading ~ to the user's home directory.
+ */
+const expandHomeDirectory = (directory: string): string => {
+  if (directory === '~') return os.homedir();
+  if (directory.startsWith('~/')) return path.join(os.homedir(), directory.slice(2));
+  return directory;
+};
+
+/**
+ * Parses a git remote URL (https, ssh or scp-like) into host and repository path.
+ * Returns null for local path remotes such as /srv/mirrors/repository.git.
+ */
+const parseRemoteUrl = (remoteUrl: string): { host: string; repositoryPath: string } | null => {
+  const match = remoteUrl
+    .trim()
+    .match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/i);
+  if (!match) return null;
+  return { host: match[1].toLowerCase(), repositoryPath: match[2].replace(/^\/+/, '') };
+};
+
+/**
+ * Local git connector - reads commits straight from repositories on disk.
+ * Useful for internal repositories that only exist as on-prem mirrors or local clones.
+ *
+ * Repositories are discovered below the configured localRepositoryDirectories.
+ * Commits are attributed to the user by author email (configuration.authorEmails,
+ * falling back to the repository's git user.email).
+ *
+ * Note: This connector USES the baseBranches configuration in fetchContributions().
+ * fetchAllCommits() walks every local and remote-tracking ref.
+ */
+export class LocalGitConnector implements Connector {
+  private configuration: Configuration;
+  private runGit: GitCommandRunner;
+  private warnings: string[] = [];
+
+  constructor(configuration: Configuration, runGit: GitCommandRunner = runGitCommand) {
+    if (!configuration) {
+      throw new Error('Configuration is required.');
+    }
+    this.configuration = configuration;
+    this.runGit = runGit;
+  }
+
+  getPlatformName(): string {
+    return 'Local Git';
+  }
+
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
+  /**
+   * Returns the configured author emails, or the global git user.email.
+   */
+  async getUserLogin(): Promise<string> {
+    const configuredEmails = this.configuration.authorEmails ?? [];
+    if (configuredEmails.length > 0) {
+      return configuredEmails.join(', ');
+    }
+
+    const email = await this.readGitUserEmail(os.homedir());
+    if (!email) {
+      throw new Error(
+        'Unable to determine author email. Set "authorEmails" in the configuration file or git config user.email.',
+      );
+    }
+    return email;
+  }
+
+  private formatLogTimestamp(): string {
+    return new Date().toISOString().substring(11, 23); // HH:mm:ss.SSS
+  }
+
+  /**
+   * Logs a warning and records it for the report, as the results are then partial.
+   */
+  private warn(message: string): void {
+    console.warn(`[${this.formatLogTimestamp()}] Warning: ${message}`);
+    this.warnings.push(message);
+  }
+
+  private async readGitUserEmail(workingDirectory: string): Promise<string | undefined> {
+    try {
+      const output = await this.runGit(workingDirectory, ['config', '--get', 'user.email']);
+      return output.trim() || undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolves the author emails used to attribute commits in a repository.
+   */
+  private async resolveAuthorEmails(repository: LocalRepository): Promise<string[]> {
+    const configuredEmails = this.configuration.authorEmails ?? [];
+    if (configuredEmails.length > 0) {
+      return configuredEmails;
+    }
+
+    const email = await this.readGitUserEmail(repository.path);
+    return email ? [email] : [];
+  }
+
+  private async isGitRepository(directory: string): Promise<boolean> {
+    // Working tree: .git directory, or .git file for worktrees and submodules
+    try {
+      await fs.stat(path.join(directory, '.git'));
+      return true;
+    } catch (error) {
+      // Not a working tree, check for a bare repository (e.g. a mirror clone)
+    }
+
+    try {
+      const [head, objects, refs] = await Promise.all([
+        fs.stat(path.join(directory, 'HEAD')),
+        fs.stat(path.join(directory, 'objects')),
+        fs.stat(path.join(directory, 'refs')),
+      ]);
+      return head.isFile() && objects.isDirectory() && refs.isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Recursively finds git repositories below a directory.
+   * Does not descend into repositories (nested repositories are ignored).
+   */
+  private async findRepositoryPaths(directory: string, depth: number): Promise<string[]> {
+    if (await this.isGitRepository(directory)) {
+      return [directory];
+    }
+
+    if (depth >= MAX_DISCOVERY_DEPTH) {
+      return [];
+    }
+
+    let entries: Array<{ name: string; isDirectory(): boolean }>;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      return [];
+    }
+
+    const subdirectories = entries.filter(
+      (entry) =>
+        entry.isDirectory() &&
+        !entry.name.startsWith('.') &&
+        !SKIPPED_DIRECTORY_NAMES.has(entry.name),
+    );
+
+    const results = await Promise.all(
+      subdirectories.map((entry) =>
+        this.findRepositoryPaths(path.join(directory, entry.name), depth + 1),
+      ),
+    );
+    return results.flat();
+  }
+
+  /**
+   * Determines the repository name from the origin remote.
+   * Falls back to the directory name when there is no usable remote.
+   */
+  private async describeRepository(repositoryPath: string): Promise<LocalRepository> {
+    const fallbackName = path.basename(repositoryPath).replace(/\.git$/, '');
+
+    let remoteUrl = '';
+    try {
+      remoteUrl = await this.runGit(repositoryPath, ['config', '--get', 'remote.origin.url']);
+    } catch (error) {
+      // No origin remote configured
+    }
+
+    const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+    if (!remote) {
+      return { path: repositoryPath, name: fallbackName };
+    }
+
+    return {
+      path: repositoryPath,
+      name: remote.repositoryPath,
+      webUrl:
+        remote.host === 'github.com' ? `https://github.com/${remote.repositoryPath}` : undefined,
+    };
+  }
+
+  /**
+   * Discovers all repositories below the configured directories.
+   */
+  private async discoverRepositories(): Promise<LocalRepository[]> {
+    const directories = (this.configuration.localRepositoryDirectories ?? []).map((directory) =>
+      path.resolve(expandHomeDirectory(directory)),
+    );
+
+    const repositoryPaths = (
+      await Promise.all(directories.map((directory) => this.findRepositoryPaths(directory, 0)))
+    ).flat();
+
+    const uniquePaths = Array.from(new Set(repositoryPaths));
+    return Promise.all(
+      uniquePaths.map((repositoryPath) => this.describeRepository(repositoryPath)),
+    );
+  }
+
+  /**
+   * Lists local branches and remote-tracking branches (excluding symbolic HEAD refs).
+   */
+  private async listReferences(repository: LocalRepository): Promise<string[]> {
+    const output = await this.runGit(repository.path, [
+      'for-each-ref',
+      '--format=%(refname)',
+      'refs/heads',
+      'refs/remotes',
+    ]);
+
+    return output
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((reference) => reference !== '' && !reference.endsWith('/HEAD'));
+  }
+
+  /**
+   * Converts a full ref name to its branch name.
+   * refs/heads/main → main, refs/remotes/origin/main → main
+   */
+  private toBranchName(reference: string): string {
+    if (reference.startsWith('refs/heads/')) {
+      return reference.slice('refs/heads/'.length);
+    }
+    if (reference.startsWith('refs/remotes/')) {
+      return reference.slice('refs/remotes/'.length).split('/').slice(1).join('/');
+    }
+    return reference;
+  }
+
+  private parseLogOutput(output: string): LocalGitCommit[] {
+    return output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.trim())
+      .filter((record) => record !== '')
+      .map((record): LocalGitCommit | null => {
+        const [sha, committedDate, authorEmail, subject] = record.split(FIELD_SEPARATOR);
+        if (!sha || !committedDate) return null;
+        return { sha, committedDate, authorEmail: authorEmail ?? '', subject: subject ?? '' };
+      })
+      .filter((commit): commit is LocalGitCommit => commit !== null);
+  }
+
+  /**
+   * Reads commits on a single ref authored by one of the given emails within the date range.
+   */
+  private async fetchReferenceCommits(
+    repository: LocalRepository,
+    reference: string,
+    authorEmails: string[],
+    dateRange: DateRange,
+  ): Promise<LocalGitCommit[]> {
+    const output = await this.runGit(repository.path, [
+      'log',
+      reference,
+      `--since=${dateRange.from}`,
+      `--until=${dateRange.to}`,
+      '--regexp-ignore-case',
+      '--fixed-strings',
+      ...authorEmails.map((email) => `--author=${email}`),
+      LOG_FORMAT,
+    ]);
+
+    const normalizedEmails = new Set(authorEmails.map((email) => email.toLowerCase()));
+    return this.parseLogOutput(output).filter((commit) =>
+      normalizedEmails.has(commit.authorEmail.toLowerCase()),
+    );
+  }
+
+  /**
+   * Reads commits from the given refs of a repository.
+   * A commit reachable from several refs is reported once, on the first ref it was found.
+   */
+  private async fetchRepositoryCommits(
+    repository: LocalRepository,
+    references: string[],
+    dateRange: DateRange,
+  ): Promise<Contribution[]> {
+    try {
+      const authorEmails = await this.resolveAuthorEmails(repository);
+      if (authorEmails.length === 0) {
+        this.warn(
+          `No author email for ${repository.name}, skipping. Set "authorEmails" in the configuration file.`,
+        );
+        return [];
+      }
+
+      const commitsBySha = new Map<string, Contribution>();
+
+      for (const reference of references) {
+        const commits = await this.fetchReferenceCommits(
+          repository,
+          reference,
+          authorEmails,
+          dateRange,
+        );
+
+        for (const commit of commits) {
+          if (commitsBySha.has(commit.sha)) continue;
+
+          commitsBySha.set(commit.sha, {
+            type: 'commit',
+            timestamp: new Date(commit.committedDate).toISOString(),
+            text: commit.subject.trim() || undefined,
+            url: repository.webUrl ? `${repository.webUrl}/commit/${commit.sha}` : undefined,
+            repository: repository.name,
+            target: this.toBranchName(reference),
+          });
+        }
+      }
+
+      return Array.from(commitsBySha.values());
+    } catch (error) {
+      this.warn(
+        `Failed to read ${repository.path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Reads commits from every discovered repository, using selectReferences to pick the refs.
+   */
+  private async fetchCommits(
+    from: Dayjs,
+    to: Dayjs,
+    selectReferences: (references: string[]) => string[],
+  ): Promise<Contribution[]> {
+    const startTime = Date.now();
+    const dateRange: DateRange = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+
+    logProgress(`[${this.formatLogTimestamp()}] Scanning local repositories...`);
+    const repositories = await this.discoverRepositories();
+    logProgress(
+      `[${this.formatLogTimestamp()}] Found ${repositories.length} local repositories to check`,
+    );
+
+    const repositoryResults = await Promise.all(
+      repositories.map(async (repository) => {
+        let references: string[];
+        try {
+          references = selectReferences(await this.listReferences(repository));
+        } catch (error) {
+          this.warn(
+            `Failed to list refs of ${repository.path}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          return [];
+        }
+        return this.fetchRepositoryCommits(repository, references, dateRange);
+      }),
+    );
+
+    const contributions = repositoryResults.flat();
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    logProgress(
+      `[${this.formatLogTimestamp()}] Local Git: found ${contributions.length} commits (took ${duration}s)`,
+    );
+
+    return deduplicateContributions(contributions);
+  }
+
+  /**
+   * Fetches commits on the configured base branches (local or remote-tracking).
+   */
+  async fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const baseBranches = new Set(this.configuration.baseBranches);
+
+    return this.fetchCommits(from, to, (references) =>
+      references.filter((reference) => baseBranches.has(this.toBranchName(reference))),
+    );
+  }
+
+  /**
+   * Fetches commits from every local and remote-tracking branch.
+   * Base branches are read first so shared commits are attributed to them.
+   */
+  async fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    const baseBranches = new Set(this.configuration.baseBranches);
+
+    return this.fetchCommits(from, to, (references) => [
+      ...references.filter((reference) => baseBranches.has(this.toBranchName(reference))),
+      ...references.filter((reference) => !baseBranches.has(this.toBranchName(reference))),
+    ]);
+  }
+}
+
+/**
+ * Factory function to create a local git connector instance.
+ *
+ * @param configuration - Application configuration with localRepositoryDirectories
+ * @returns LocalGitConnector instance
+ * @throws Error if no local repository directories are configured
+ */
+export const createLocalGitConnector = (configuration: Configuration): LocalGitConnector => {
+  if (!configuration?.localRepositoryDirectories?.length) {
+    throw new Error(
+      'No local repository directories configured. Add "localRepositoryDirectories" to the configuration file.',
+    );
+  }
+
+  return new LocalGitConnector(configuration);
+};
@@ -0,0 +1,33 @@
+/**
+ * Local git-specific types for repository discovery and git command output.
+ */
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Executes a git command in the given working directory and resolves with its stdout.
+ * Injected into LocalGitConnector so tests can stand in for the git binary.
+ */
+export type GitCommandRunner = (
+  workingDirectory: string,
+  gitArguments: string[],
+) => Promise<string>;
+
+export interface LocalRepository {
+  /** Absolute path to the working tree (or bare repository) */
+  path: string;
+  /** Repository name used in reports, e.g. owner/repository from the origin remote */
+  name: string;
+  /** Web URL of the repository when the origin remote points to github.com */
+  webUrl?: string;
+}
+
+export interface LocalGitCommit {
+  sha: string;
+  committedDate: string;
+  authorEmail: string;
+  subject: string;
+}
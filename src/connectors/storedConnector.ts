@@ -0,0 +1,54 @@
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../types.js';
+import type { ContributionStore, ConnectorSyncState } from '../lib/store/contributionStore.js';
+import type { Connector } from './types.js';
+
+/**
+ * Connector answering from the local contribution store instead of the network.
+ * One instance represents one synced connector; ranges outside the synced
+ * coverage are answered with what is stored and a warning.
+ */
+export class StoredConnector implements Connector {
+  private store: ContributionStore;
+  private name: string;
+  private syncState: ConnectorSyncState;
+  private warnings: string[] = [];
+
+  constructor(store: ContributionStore, name: string, syncState: ConnectorSyncState) {
+    this.store = store;
+    this.name = name;
+    this.syncState = syncState;
+  }
+
+  getPlatformName(): string {
+    return `${this.name} [offline]`;
+  }
+
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
+  async getUserLogin(): Promise<string> {
+    return this.syncState.login;
+  }
+
+  async fetchContributions(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    this.warnIfNotCovered(from, to);
+    return this.store.query(this.name, 'contributions', from.toISOString(), to.toISOString());
+  }
+
+  async fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]> {
+    this.warnIfNotCovered(from, to);
+    return this.store.query(this.name, 'allCommits', from.toISOString(), to.toISOString());
+  }
+
+  private warnIfNotCovered(from: Dayjs, to: Dayjs): void {
+    if (from.isBefore(this.syncState.syncedFrom) || to.isAfter(this.syncState.syncedTo)) {
+      const warning = `${this.name} is only synced from ${this.syncState.syncedFrom} to ${this.syncState.syncedTo}; results for this range may be incomplete.`;
+      console.warn(`Warning: ${warning}`);
+      this.warnings.push(warning);
+    }
+  }
+}
@@ -3,7 +3,8 @@ import type { Contribution } from '../types.js';
 
 /**
  * Generic connector interface for fetching contributions from different platforms.
- * Implementations: GitHubConnector, GitLabConnector
+ * Implementations: GitHubConnector, GitLabConnector, LocalGitConnector, BitbucketConnector, GiteaConnector,
+ * AzureDevOpsConnector
  */
 export interface Connector {
   /**
@@ -23,6 +24,16 @@ export interface Connector {
    */
   fetchAllCommits(from: Dayjs, to: Dayjs): Promise<Contribution[]>;
 
+  /**
+   * Fetches the pull/merge requests of the authenticated user merged within the date range,
+   * including those opened before it. Used to emit merge events; connectors without it
+   * only report merges of the pull requests returned by fetchContributions.
+   * @param from - Start date of the range
+   * @param to - End date of the range
+   * @returns Array of 'pr' contributions with mergedAt set
+   */
+  fetchMergedPullRequests?(from: Dayjs, to: Dayjs): Promise<Contribution[]>;
+
   /**
    * Gets the authenticated user's login/username.
    * @returns User login/username
@@ -34,6 +45,13 @@ export interface Connector {
    * Used for logging and debugging.
    */
   getPlatformName(): string;
+
+  /**
+   * Returns and clears the warnings recorded while fetching.
+   * Connectors that continue with partial results after errors report what is missing here.
+   * @returns Warning messages (may be empty)
+   */
+  takeWarnings?(): string[];
 }
 
-export type ConnectorType = 'github' | 'gitlab';
+export type ConnectorType = 'github' | 'gitlab' | 'local' | 'bitbucket' | 'gitea' | 'azure-devops';
@@ -2,13 +2,15 @@ import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc.js';
 import type { Contribution, FormatterOptions, FormatterResult } from '../types.js';
 import type { Formatter } from './types.js';
+import { formatWarningsFooter } from './shared.js';
 
 dayjs.extend(utc);
 
 export class ConsoleFormatter implements Formatter {
   format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    const footer = formatWarningsFooter(options.warnings);
     if (contributions.length === 0) {
-      return { content: 'No contributions found in this range' };
+      return { content: ['No contributions found in this range', ...footer].join('\n') };
     }
 
     const sorted = [...contributions].sort(
@@ -28,6 +30,9 @@ export class ConsoleFormatter implements Formatter {
       for (const contribution of list) {
         const timestamp = dayjs.utc(contribution.timestamp).format('HH:mm:ss');
         const parts = [contribution.type, timestamp];
+        if (contribution.account) {
+          parts.push(`@${contribution.account}`);
+        }
         if (contribution.repository) {
           parts.push(`[${contribution.repository}]`);
         }
@@ -37,6 +42,18 @@ export class ConsoleFormatter implements Formatter {
         if (contribution.target) {
           parts.push(`(${contribution.target})`);
         }
+        if (contribution.tickets) {
+          parts.push(
+            contribution.tickets
+              .map((ticket) =>
+                options.withLinks && ticket.url ? `${ticket.key} (${ticket.url})` : ticket.key,
+              )
+              .join(', '),
+          );
+        }
+        if (contribution.type === 'pr' && contribution.state) {
+          parts.push(`<${contribution.state}>`);
+        }
         if (contribution.text) {
           parts.push(contribution.text);
         }
@@ -47,6 +64,8 @@ export class ConsoleFormatter implements Formatter {
       }
     }
 
+    lines.push(...footer);
+
     return { content: lines.join('\n') };
   }
 }
@@ -1,5 +1,6 @@
 import type { Contribution, FormatterOptions, FormatterResult } from '../types.js';
 import type { Formatter } from './types.js';
+import { createWarningsSidecar, escapeCsvField } from './shared.js';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc.js';
 
@@ -13,8 +14,41 @@ export class CsvFormatter implements Formatter {
 
     const lines: string[] = [];
 
+    // Account column only when contributions come from labeled accounts
+    const includeAccount = sorted.some((contribution) => contribution.account);
+
+    // Diff statistic columns only when at least one contribution has them
+    const includeDiffStats = sorted.some(
+      (contribution) =>
+        contribution.additions !== undefined ||
+        contribution.deletions !== undefined ||
+        contribution.changedFiles !== undefined,
+    );
+
+    // Pull request lifecycle columns only when at least one contribution has a state
+    const includeState = sorted.some((contribution) => contribution.state);
+
+    // Ticket columns only when at least one contribution references a ticket
+    const includeTickets = sorted.some((contribution) => contribution.tickets);
+
     // Header row
-    const headers = ['type', 'timestamp', 'date', 'repository', 'target', 'projectId', 'text'];
+    const headers = ['type', 'timestamp', 'date', 'repository', 'target', 'projectId'];
+    if (includeAccount) {
+      headers.push('account');
+    }
+    if (includeDiffStats) {
+      headers.push('additions', 'deletions', 'changedFiles');
+    }
+    if (includeState) {
+      headers.push('state', 'mergedAt', 'closedAt');
+    }
+    if (includeTickets) {
+      headers.push('tickets');
+      if (options.withLinks) {
+        headers.push('ticketUrls');
+      }
+    }
+    headers.push('text');
     if (options.withLinks) {
       headers.push('url');
     }
@@ -23,17 +57,45 @@ export class CsvFormatter implements Formatter {
     // Data rows
     for (const contribution of sorted) {
       const row = [
-        this.escapeCsvField(contribution.type),
-        this.escapeCsvField(contribution.timestamp),
-        this.escapeCsvField(dayjs.utc(contribution.timestamp).format('YYYY-MM-DD')),
-        this.escapeCsvField(contribution.repository ?? ''),
-        this.escapeCsvField(contribution.target ?? ''),
-        this.escapeCsvField(contribution.projectId ?? ''),
-        this.escapeCsvField(contribution.text ?? ''),
+        escapeCsvField(contribution.type),
+        escapeCsvField(contribution.timestamp),
+        escapeCsvField(dayjs.utc(contribution.timestamp).format('YYYY-MM-DD')),
+        escapeCsvField(contribution.repository ?? ''),
+        escapeCsvField(contribution.target ?? ''),
+        escapeCsvField(contribution.projectId ?? ''),
       ];
 
+      if (includeAccount) {
+        row.push(escapeCsvField(contribution.account ?? ''));
+      }
+      if (includeDiffStats) {
+        row.push(
+          escapeCsvField(contribution.additions?.toString() ?? ''),
+          escapeCsvField(contribution.deletions?.toString() ?? ''),
+          escapeCsvField(contribution.changedFiles?.toString() ?? ''),
+        );
+      }
+      if (includeState) {
+        row.push(
+          escapeCsvField(contribution.state ?? ''),
+          escapeCsvField(contribution.mergedAt ?? ''),
+          escapeCsvField(contribution.closedAt ?? ''),
+        );
+      }
+      if (includeTickets) {
+        // Space separated, as keys and URLs contain no spaces
+        const tickets = contribution.tickets ?? [];
+        row.push(escapeCsvField(tickets.map((ticket) => ticket.key).join(' ')));
+        if (options.withLinks) {
+          row.push(
+            escapeCsvField(tickets.flatMap((ticket) => (ticket.url ? [ticket.url] : [])).join(' ')),
+          );
+        }
+      }
+      row.push(escapeCsvField(contribution.text ?? ''));
+
       if (options.withLinks) {
-        row.push(this.escapeCsvField(contribution.url ?? ''));
+        row.push(escapeCsvField(contribution.url ?? ''));
       }
 
       lines.push(row.join(','));
@@ -41,13 +103,7 @@ export class CsvFormatter implements Formatter {
 
     return {
       content: lines.join('\n'),
+      sidecars: createWarningsSidecar(options.warnings),
     };
   }
-
-  private escapeCsvField(field: string): string {
-    if (field.includes(',') || field.includes('"') || field.includes('\n')) {
-      return `"${field.replace(/"/g, '""')}"`;
-    }
-    return field;
-  }
 }
@@ -0,0 +1,211 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import isoWeek from 'dayjs/plugin/isoWeek.js';
+import type {
+  Contribution,
+  FormatterOptions,
+  FormatterResult,
+  ReportWarning,
+  SummaryBucket,
+} from '../types.js';
+import type { Formatter } from './types.js';
+import { summarizeContributions } from '../lib/services/contributionStats.js';
+
+dayjs.extend(utc);
+dayjs.extend(isoWeek);
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Links a label when the URL is an http(s) URL, so contribution data cannot inject scripts.
+ */
+const createLink = (label: string, url: string | undefined, withLinks: boolean): string =>
+  withLinks && url && /^https?:\/\//.test(url)
+    ? `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`
+    : escapeHtml(label);
+
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; }
+.muted { color: #59636e; }
+.warnings { background: #fff8c5; border: 1px solid #d4a72c; border-radius: 6px; padding: 0.75rem 1rem; }
+.heatmap { display: grid; grid-template-rows: repeat(7, 12px); grid-auto-flow: column; grid-auto-columns: 12px; gap: 3px; }
+.day { border-radius: 2px; background: #eff2f5; cursor: pointer; }
+.day.outside { background: transparent; cursor: default; }
+.level-1 { background: #9be9a8; } .level-2 { background: #40c463; } .level-3 { background: #30a14e; } .level-4 { background: #216e39; }
+.breakdowns { display: flex; flex-wrap: wrap; gap: 2rem; }
+table { border-collapse: collapse; font-size: 0.9rem; }
+th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #d1d9e0; vertical-align: top; }
+td.count { text-align: right; }
+.bar { display: inline-block; height: 0.6rem; background: #40c463; border-radius: 2px; }
+.filters { display: flex; gap: 0.5rem; margin-bottom: 0.75rem; }
+`;
+
+/**
+ * Filters the contribution table by text and type; clicking a heatmap day searches for it.
+ */
+const SCRIPT = `
+const search = document.getElementById('search');
+const type = document.getElementById('type');
+const rows = [...document.querySelectorAll('#contributions tbody tr')];
+const shown = document.getElementById('shown');
+const apply = () => {
+  const query = search.value.toLowerCase();
+  let count = 0;
+  for (const row of rows) {
+    const visible = (!type.value || row.dataset.type === type.value) && row.textContent.toLowerCase().includes(query);
+    row.hidden = !visible;
+    if (visible) count++;
+  }
+  shown.textContent = count;
+};
+search.addEventListener('input', apply);
+type.addEventListener('change', apply);
+for (const day of document.querySelectorAll('.day[data-date]')) {
+  day.addEventListener('click', () => { search.value = day.dataset.date; apply(); });
+}
+`;
+
+/**
+ * GitHub-style calendar: a column per ISO week, a row per weekday, shaded by contribution count.
+ */
+const createHeatmap = (days: SummaryBucket[], from: string, to: string): string => {
+  const counts = new Map(days.map((bucket) => [bucket.key, bucket.count]));
+  const maximum = Math.max(1, ...counts.values());
+  const cells: string[] = [];
+
+  const last = dayjs.utc(to).isoWeekday(7);
+  for (let day = dayjs.utc(from).isoWeekday(1); !day.isAfter(last); day = day.add(1, 'day')) {
+    const date = day.format('YYYY-MM-DD');
+    if (date < from || date > to) {
+      cells.push('<div class="day outside"></div>');
+      continue;
+    }
+    const count = counts.get(date) ?? 0;
+    const level = count === 0 ? 0 : Math.min(4, Math.ceil((count / maximum) * 4));
+    cells.push(
+      `<div class="day level-${level}" data-date="${date}" title="${date}: ${count} contribution(s)"></div>`,
+    );
+  }
+
+  return `<div class="heatmap">${cells.join('')}</div>`;
+};
+
+const createBreakdown = (title: string, buckets: SummaryBucket[], total: number): string => {
+  const rows = buckets.map(
+    (bucket) =>
+      `<tr><td>${escapeHtml(bucket.key)}</td><td class="count">${bucket.count}</td>` +
+      `<td><span class="bar" style="width: ${Math.round((bucket.count / total) * 120)}px"></span></td></tr>`,
+  );
+  return (
+    `<section><h2>${escapeHtml(title)}</h2><table><thead><tr><th>${escapeHtml(title)}</th>` +
+    `<th>Count</th><th></th></tr></thead><tbody>${rows.join('')}</tbody></table></section>`
+  );
+};
+
+const createContributionRow = (contribution: Contribution, withLinks: boolean): string => {
+  const timestamp = dayjs.utc(contribution.timestamp);
+  const tickets = (contribution.tickets ?? [])
+    .map((ticket) => createLink(ticket.key, ticket.url, withLinks))
+    .join(', ');
+  const title = contribution.text?.split('\n')[0].trim() || contribution.type;
+  const cells = [
+    escapeHtml(timestamp.format('YYYY-MM-DD')),
+    escapeHtml(timestamp.format('HH:mm')),
+    escapeHtml(contribution.type),
+    escapeHtml(
+      [contribution.repository, contribution.account && `@${contribution.account}`]
+        .filter(Boolean)
+        .join(' '),
+    ),
+    escapeHtml(contribution.projectId ?? ''),
+    tickets,
+    createLink(title, contribution.url, withLinks),
+  ];
+  return `<tr data-type="${escapeHtml(contribution.type)}">${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`;
+};
+
+const createWarnings = (warnings: ReportWarning[] = []): string => {
+  if (warnings.length === 0) {
+    return '';
+  }
+  const items = warnings.map(
+    (warning) => `<li>[${escapeHtml(warning.source)}] ${escapeHtml(warning.message)}</li>`,
+  );
+  return (
+    `<div class="warnings"><strong>⚠ Incomplete data (${warnings.length} warning(s))</strong>` +
+    `<ul>${items.join('')}</ul></div>`
+  );
+};
+
+/**
+ * Single-file HTML report that works offline (inline styles and script, no external assets):
+ * an activity heatmap, breakdowns per repository and type and a filterable contribution table.
+ * Days are in UTC; the heatmap covers the reported range, or the days with activity without one.
+ */
+export class HtmlFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    const sorted = [...contributions].sort(
+      (a, b) => dayjs(a.timestamp).valueOf() - dayjs(b.timestamp).valueOf(),
+    );
+    const { total, buckets } = summarizeContributions(sorted);
+    const from =
+      options.range?.from ?? total?.firstActivity.slice(0, 10) ?? dayjs.utc().format('YYYY-MM-DD');
+    const to = options.range?.to ?? total?.lastActivity.slice(0, 10) ?? from;
+    const title = `Contributions ${from} to ${to}`;
+
+    const body = [`<h1>${escapeHtml(title)}</h1>`];
+    body.push(
+      `<p class="muted">${sorted.length} contributions on ${total?.activeDays ?? 0} active day(s), in UTC</p>`,
+    );
+    body.push(createWarnings(options.warnings));
+    body.push('<h2>Activity</h2>', createHeatmap(buckets.day, from, to));
+
+    if (total) {
+      body.push(
+        '<div class="breakdowns">',
+        createBreakdown('Repository', buckets.repository, total.count),
+        createBreakdown('Type', buckets.type, total.count),
+        '</div>',
+      );
+    }
+
+    const typeOptions = buckets.type.map(
+      (bucket) => `<option value="${escapeHtml(bucket.key)}">${escapeHtml(bucket.key)}</option>`,
+    );
+    body.push(
+      '<h2>Contributions (<span id="shown">' + sorted.length + '</span>)</h2>',
+      '<div class="filters"><input id="search" type="search" placeholder="Filter">' +
+        `<select id="type"><option value="">All types</option>${typeOptions.join('')}</select></div>`,
+      '<table id="contributions"><thead><tr><th>Date</th><th>Time</th><th>Type</th>' +
+        '<th>Repository</th><th>Project ID</th><th>Tickets</th><th>Title</th></tr></thead><tbody>',
+      ...sorted.map((contribution) => createContributionRow(contribution, options.withLinks)),
+      '</tbody></table>',
+    );
+
+    const content = [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>${STYLE}</style>`,
+      '</head>',
+      '<body>',
+      ...body.filter((part) => part !== ''),
+      `<script>${SCRIPT}</script>`,
+      '</body>',
+      '</html>',
+    ].join('\n');
+
+    return { content };
+  }
+}
@@ -0,0 +1,167 @@
+import { createHash } from 'crypto';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import type { Contribution, FormatterOptions, FormatterResult } from '../types.js';
+import type { Formatter } from './types.js';
+import type { WorkSession } from '../lib/services/workTimeEstimator.js';
+import { estimateWorkSessions, resolveWorkTimeOptions } from '../lib/services/workTimeEstimator.js';
+import { createWarningsSidecar } from './shared.js';
+
+dayjs.extend(utc);
+
+/**
+ * Longest content line in octets before it is folded (RFC 5545, section 3.1).
+ */
+const MAX_LINE_OCTETS = 75;
+
+interface CalendarEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description: string;
+  url?: string;
+}
+
+/**
+ * Escapes a TEXT value: backslashes, separators and line breaks.
+ */
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Splits a content line into lines of at most 75 octets; continuation lines start with a space.
+ */
+const foldLine = (line: string): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of line) {
+    const size = Buffer.byteLength(character);
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += character;
+    octets += size;
+  }
+  lines.push(current);
+  return lines;
+};
+
+const formatDateTime = (timestamp: string | number): string =>
+  dayjs.utc(timestamp).format('YYYYMMDD[T]HHmmss[Z]');
+
+const createUid = (parts: unknown[]): string =>
+  `${createHash('sha256').update(JSON.stringify(parts)).digest('hex').slice(0, 32)}@git-activity-tracer`;
+
+/**
+ * Describes where a contribution happened: repository {projectId}.
+ */
+const describeLocation = (contribution: Contribution): string =>
+  [contribution.repository, contribution.projectId && `{${contribution.projectId}}`]
+    .filter(Boolean)
+    .join(' ');
+
+const describeContribution = (contribution: Contribution): string => {
+  const title = contribution.text?.split('\n')[0].trim();
+  const location = describeLocation(contribution);
+  return [contribution.type, location && `[${location}]`, title].filter(Boolean).join(' ');
+};
+
+const toSessionEvent = (session: WorkSession, withLinks: boolean): CalendarEvent => {
+  const contributions = session.contributions.map(({ contribution }) => contribution);
+  const locations = [...new Set(contributions.map(describeLocation).filter(Boolean))];
+  const lines = contributions.map((contribution) => {
+    const line = `${dayjs.utc(contribution.timestamp).format('HH:mm')} ${describeContribution(contribution)}`;
+    return withLinks && contribution.url ? `${line} ${contribution.url}` : line;
+  });
+
+  // Later contributions extend the session end, so the UID rests on how the session begins
+  const [first] = contributions;
+  return {
+    uid: createUid(['session', first?.url ?? session.start]),
+    start: session.start,
+    end: session.end,
+    summary: `${locations.join(', ') || 'Work'}: ${contributions.length} contribution(s)`,
+    description: lines.join('\n'),
+  };
+};
+
+const toContributionEvent = (
+  contribution: Contribution,
+  minutes: number,
+  withLinks: boolean,
+): CalendarEvent => ({
+  uid: createUid([
+    contribution.type,
+    contribution.timestamp,
+    contribution.repository,
+    contribution.text,
+  ]),
+  start: dayjs.utc(contribution.timestamp).subtract(minutes, 'minute').toISOString(),
+  end: contribution.timestamp,
+  summary: describeContribution(contribution),
+  description: contribution.text ?? '',
+  url: withLinks ? contribution.url : undefined,
+});
+
+/**
+ * iCalendar export of contribution activity, to compare calendars with actual coding time.
+ *
+ * By default every work session (see the hours command) is an event listing its contributions;
+ * with calendarEvents set to contribution, every contribution is an event spanning the work time
+ * attributed to it. Merge events are left out, as they are not work sessions of their own.
+ * Times are in UTC and events are stamped with their end, so repeated exports are identical
+ * and calendar clients update events by UID instead of duplicating them.
+ */
+export class IcsFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    const sessions = estimateWorkSessions(contributions, resolveWorkTimeOptions(options.workTime));
+    const events =
+      options.calendarEvents === 'contribution'
+        ? sessions.flatMap((session) =>
+            session.contributions.map(({ contribution, minutes }) =>
+              toContributionEvent(contribution, minutes, options.withLinks),
+            ),
+          )
+        : sessions.map((session) => toSessionEvent(session, options.withLinks));
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//git-activity-tracer//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Contributions',
+    ];
+    for (const event of events) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${formatDateTime(event.end)}`,
+        `DTSTART:${formatDateTime(event.start)}`,
+        `DTEND:${formatDateTime(event.end)}`,
+        `SUMMARY:${escapeText(event.summary)}`,
+      );
+      if (event.description) {
+        lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+      }
+      if (event.url) {
+        lines.push(`URL:${event.url}`);
+      }
+      lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+    }
+    lines.push('END:VCALENDAR');
+
+    return {
+      content: lines.flatMap(foldLine).join('\r\n') + '\r\n',
+      // A calendar has no place for warnings, so they go to a CSV next to it
+      sidecars: createWarningsSidecar(options.warnings)?.map((sidecar) => ({
+        ...sidecar,
+        format: 'csv' as const,
+      })),
+    };
+  }
+}
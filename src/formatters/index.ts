@@ -3,11 +3,50 @@ import type { Formatter } from './types.js';
 import { ConsoleFormatter } from './console.js';
 import { JsonFormatter } from './json.js';
 import { CsvFormatter } from './csv.js';
+import { MarkdownFormatter } from './markdown.js';
+import { HtmlFormatter } from './html.js';
+import { IcsFormatter } from './ics.js';
+import { NdjsonFormatter } from './ndjson.js';
+import { TemplateFormatter } from './template.js';
+import { TempoFormatter } from './tempo.js';
+import { ClockifyFormatter, HarvestFormatter, TogglFormatter } from './timeTrackers.js';
 
 export { ConsoleFormatter } from './console.js';
 export { JsonFormatter } from './json.js';
 export { CsvFormatter } from './csv.js';
-export type { Formatter } from './types.js';
+export { MarkdownFormatter } from './markdown.js';
+export { HtmlFormatter } from './html.js';
+export { IcsFormatter } from './ics.js';
+export { NdjsonFormatter } from './ndjson.js';
+export { TemplateFormatter, compileReportTemplate } from './template.js';
+export { TempoFormatter } from './tempo.js';
+export type { TempoWorklog } from './tempo.js';
+export { TogglFormatter, HarvestFormatter, ClockifyFormatter } from './timeTrackers.js';
+export {
+  ConsoleSummaryFormatter,
+  JsonSummaryFormatter,
+  CsvSummaryFormatter,
+  createSummaryFormatter,
+} from './summary.js';
+export {
+  ConsoleWorkTimeFormatter,
+  JsonWorkTimeFormatter,
+  CsvWorkTimeFormatter,
+  createWorkTimeFormatter,
+} from './workTime.js';
+export {
+  ConsoleTimesheetFormatter,
+  JsonTimesheetFormatter,
+  CsvTimesheetFormatter,
+  XlsxTimesheetFormatter,
+  createTimesheetFormatter,
+} from './timesheet.js';
+export type {
+  Formatter,
+  SummaryFormatter,
+  TimesheetFormatter,
+  WorkTimeFormatter,
+} from './types.js';
 
 export const createFormatter = (format: OutputFormat): Formatter => {
   switch (format) {
@@ -17,6 +56,26 @@ export const createFormatter = (format: OutputFormat): Formatter => {
       return new JsonFormatter();
     case 'csv':
       return new CsvFormatter();
+    case 'markdown':
+      return new MarkdownFormatter();
+    case 'html':
+      return new HtmlFormatter();
+    case 'ics':
+      return new IcsFormatter();
+    case 'ndjson':
+      return new NdjsonFormatter();
+    case 'template':
+      return new TemplateFormatter();
+    case 'tempo':
+      return new TempoFormatter();
+    case 'toggl':
+      return new TogglFormatter();
+    case 'harvest':
+      return new HarvestFormatter();
+    case 'clockify':
+      return new ClockifyFormatter();
+    case 'xlsx':
+      throw new Error('The xlsx format is only available for the timesheet command');
     default:
       throw new Error(`Unknown output format: ${format}`);
   }
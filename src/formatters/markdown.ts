@@ -0,0 +1,156 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import type {
+  Contribution,
+  FormatterOptions,
+  FormatterResult,
+  ReportGrouping,
+  ReportWarning,
+} from '../types.js';
+import type { Formatter } from './types.js';
+import { TYPE_ORDER } from './shared.js';
+import { groupBy } from '../lib/services/contributionStats.js';
+
+dayjs.extend(utc);
+
+/**
+ * Section of contributions without a repository when grouping by repository.
+ */
+const NO_REPOSITORY_LABEL = '(no repository)';
+
+/**
+ * Escapes characters that Markdown would render as formatting, links or HTML.
+ */
+const escapeMarkdown = (text: string): string => text.replace(/[\\`*_[\]<>|]/g, '\\$&');
+
+const createLink = (label: string, url: string | undefined, withLinks: boolean): string =>
+  withLinks && url ? `[${label}](${url})` : label;
+
+/**
+ * Renders one contribution as a bullet; the day or repository of the section is left out.
+ */
+const createBullet = (
+  contribution: Contribution,
+  options: FormatterOptions,
+  grouping: ReportGrouping,
+): string => {
+  const timestamp = dayjs.utc(contribution.timestamp);
+  const parts = [
+    grouping === 'day' ? timestamp.format('HH:mm') : timestamp.format('YYYY-MM-DD HH:mm'),
+    `**${contribution.type}**`,
+  ];
+  if (grouping === 'day' && contribution.repository) {
+    parts.push(`\`${contribution.repository}\``);
+  }
+  // As code, so the account label is not rendered as a mention
+  if (contribution.account) {
+    parts.push(`\`@${contribution.account}\``);
+  }
+  if (contribution.target) {
+    parts.push(`(${escapeMarkdown(contribution.target)})`);
+  }
+  if (contribution.type === 'pr' && contribution.state) {
+    parts.push(`_${contribution.state}_`);
+  }
+  if (contribution.tickets) {
+    parts.push(
+      contribution.tickets
+        .map((ticket) => createLink(escapeMarkdown(ticket.key), ticket.url, options.withLinks))
+        .join(', '),
+    );
+  }
+
+  // Only the first line, as a line break would end the bullet
+  const title = contribution.text?.split('\n')[0].trim();
+  if (title) {
+    parts.push(createLink(escapeMarkdown(title), contribution.url, options.withLinks));
+  } else if (options.withLinks && contribution.url) {
+    parts.push(createLink('link', contribution.url, true));
+  }
+
+  return `- ${parts.join(' ')}`;
+};
+
+/**
+ * Summary table with one row per section and a count column per contribution type.
+ */
+const createSummaryTable = (
+  title: string,
+  sections: Map<string, Contribution[]>,
+  contributions: Contribution[],
+): string[] => {
+  const types = TYPE_ORDER.filter((type) =>
+    contributions.some((contribution) => contribution.type === type),
+  );
+  const countCells = (list: Contribution[]): string[] => [
+    String(list.length),
+    ...types.map((type) => String(list.filter((item) => item.type === type).length)),
+  ];
+  const toRow = (cells: string[]): string => `| ${cells.join(' | ')} |`;
+
+  return [
+    toRow([title, 'Total', ...types]),
+    toRow(['---', ...['Total', ...types].map(() => '---:')]),
+    ...[...sections].map(([key, list]) => toRow([escapeMarkdown(key), ...countCells(list)])),
+    toRow(['**Total**', ...countCells(contributions)]),
+  ];
+};
+
+const createWarningsBlock = (warnings: ReportWarning[] = []): string[] => {
+  if (warnings.length === 0) {
+    return [];
+  }
+  return [
+    '',
+    `> **⚠ Incomplete data (${warnings.length} warning(s))**`,
+    '>',
+    ...warnings.map(
+      (warning) => `> - [${escapeMarkdown(warning.source)}] ${escapeMarkdown(warning.message)}`,
+    ),
+  ];
+};
+
+/**
+ * Markdown report for pasting into wikis, chats and PR descriptions: a summary table,
+ * then a section per day (UTC) or repository with a bullet per contribution.
+ * Titles and ticket keys are linked when withLinks is set.
+ */
+export class MarkdownFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    const grouping = options.groupBy ?? 'day';
+    const lines = ['# Contributions', ''];
+
+    if (contributions.length === 0) {
+      lines.push('No contributions found in this range', ...createWarningsBlock(options.warnings));
+      return { content: lines.join('\n') };
+    }
+
+    const sorted = [...contributions].sort(
+      (a, b) => dayjs(a.timestamp).valueOf() - dayjs(b.timestamp).valueOf(),
+    );
+    const toKey = (contribution: Contribution): string =>
+      grouping === 'day'
+        ? dayjs.utc(contribution.timestamp).format('YYYY-MM-DD')
+        : (contribution.repository ?? NO_REPOSITORY_LABEL);
+
+    const sections = groupBy(sorted, toKey);
+    const orderedSections =
+      grouping === 'day' ? sections : new Map([...sections].sort(([a], [b]) => a.localeCompare(b)));
+
+    const first = dayjs.utc(sorted[0].timestamp).format('YYYY-MM-DD');
+    const last = dayjs.utc(sorted[sorted.length - 1].timestamp).format('YYYY-MM-DD');
+    lines.push(`${sorted.length} contributions from ${first} to ${last} (UTC)`, '');
+    lines.push(
+      ...createSummaryTable(grouping === 'day' ? 'Day' : 'Repository', orderedSections, sorted),
+    );
+
+    for (const [key, list] of orderedSections) {
+      lines.push('', `## ${escapeMarkdown(key)}`, '');
+      lines.push(...list.map((contribution) => createBullet(contribution, options, grouping)));
+    }
+
+    lines.push(...createWarningsBlock(options.warnings));
+
+    return { content: lines.join('\n') };
+  }
+}
@@ -0,0 +1,31 @@
+import dayjs from 'dayjs';
+import type { Contribution, FormatterOptions, FormatterResult } from '../types.js';
+import type { Formatter } from './types.js';
+import { createJsonContribution } from './shared.js';
+
+/**
+ * Newline-delimited JSON: one contribution per line, oldest first, with the fields of the
+ * json format. Lines are generated while they are written, so the CLI streams them to stdout
+ * or a file instead of building the output as one string. Warnings are not part of the lines.
+ */
+export class NdjsonFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    const sorted = [...contributions].sort(
+      (a, b) => dayjs(a.timestamp).valueOf() - dayjs(b.timestamp).valueOf(),
+    );
+
+    function* generateLines(): Generator<string> {
+      for (const contribution of sorted) {
+        yield JSON.stringify(createJsonContribution(contribution, options.withLinks));
+      }
+    }
+
+    return {
+      lines: { [Symbol.iterator]: generateLines },
+      // Only joined when content is read, e.g. by API users
+      get content() {
+        return [...generateLines()].join('\n');
+      },
+    };
+  }
+}
@@ -0,0 +1,205 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import type { Contribution, ContributionType, FormatterSidecar, ReportWarning } from '../types.js';
+import type { DailyTimeEntry } from '../lib/services/timeEntries.js';
+
+dayjs.extend(utc);
+
+/**
+ * Order of per-type columns in tables.
+ */
+export const TYPE_ORDER: ContributionType[] = [
+  'commit',
+  'pr',
+  'merge',
+  'review',
+  'issue',
+  'comment',
+];
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break.
+ */
+export const escapeCsvField = (field: string): string => {
+  if (field.includes(',') || field.includes('"') || field.includes('\n')) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+};
+
+/**
+ * Lays out rows as a plain-text table; columns holding only numbers (e.g. counts, hours) or - are right-aligned.
+ */
+export const formatTable = (headers: string[], rows: string[][]): string[] => {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length)),
+  );
+  const numeric = headers.map((_, column) =>
+    rows.every((row) => /^(\d+(\.\d+)?|-)$/.test(row[column])),
+  );
+
+  const formatRow = (row: string[]): string =>
+    row
+      .map((cell, column) =>
+        numeric[column] ? cell.padStart(widths[column]) : cell.padEnd(widths[column]),
+      )
+      .join('  ')
+      .trimEnd();
+
+  return [formatRow(headers), ...rows.map(formatRow)];
+};
+
+/**
+ * Formats minutes as decimal hours with two decimals, e.g. 1.25.
+ */
+export const formatHours = (minutes: number): string => (minutes / 60).toFixed(2);
+
+/**
+ * Formats warnings as a footer for console output; empty when the report is complete.
+ */
+export const formatWarningsFooter = (warnings: ReportWarning[] = []): string[] => {
+  if (warnings.length === 0) {
+    return [];
+  }
+
+  const lines = [`\n⚠ Incomplete data (${warnings.length} warning(s)):`];
+  for (const warning of warnings) {
+    lines.push(`- [${warning.source}] ${warning.message}`);
+  }
+  return lines;
+};
+
+/**
+ * Formats warnings as a CSV sidecar file, so the main CSV rows stay machine-readable.
+ * Returns undefined when the report is complete.
+ */
+export const createWarningsSidecar = (
+  warnings: ReportWarning[] = [],
+): FormatterSidecar[] | undefined => {
+  if (warnings.length === 0) {
+    return undefined;
+  }
+
+  const lines = ['source,message'];
+  for (const warning of warnings) {
+    lines.push([escapeCsvField(warning.source), escapeCsvField(warning.message)].join(','));
+  }
+  return [{ suffix: 'warnings', content: lines.join('\n') }];
+};
+
+/**
+ * Formats minutes as a duration, e.g. 02:15:00.
+ */
+export const formatDuration = (minutes: number): string => {
+  const seconds = Math.round(minutes * 60);
+  return [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+};
+
+/**
+ * Describes a time entry by the work it covers: the contribution texts, or the repositories.
+ */
+export const describeTimeEntry = (entry: DailyTimeEntry): string =>
+  entry.descriptions.length > 0
+    ? entry.descriptions.join('; ')
+    : `Work on ${entry.repositories.join(', ') || entry.key}`;
+
+/**
+ * Formats work time that could not be booked (no issue key or project ID) as a CSV sidecar file.
+ * Returns undefined when all time was booked.
+ */
+export const createUnmappedSidecar = (
+  unmapped: Array<{ repository: string; minutes: number }>,
+): FormatterSidecar[] | undefined => {
+  if (unmapped.length === 0) {
+    return undefined;
+  }
+
+  const lines = ['repository,hours'];
+  for (const { repository, minutes } of unmapped) {
+    lines.push([escapeCsvField(repository), formatHours(minutes)].join(','));
+  }
+  return [{ suffix: 'unmapped', content: lines.join('\n') }];
+};
+
+/**
+ * Builds the meta block of JSON output; complete is false when there are warnings.
+ */
+export const createJsonMeta = (
+  warnings: ReportWarning[] = [],
+): { complete: boolean; warnings: ReportWarning[] } => {
+  return { complete: warnings.length === 0, warnings };
+};
+
+/**
+ * Builds the JSON object of a contribution; fields without a value are left out.
+ * URLs (of the contribution and its tickets) are only included with withLinks.
+ */
+export const createJsonContribution = (
+  contribution: Contribution,
+  withLinks: boolean,
+): Record<string, unknown> => {
+  const item: Record<string, unknown> = {
+    type: contribution.type,
+    timestamp: contribution.timestamp,
+    date: dayjs.utc(contribution.timestamp).format('YYYY-MM-DD'),
+  };
+
+  if (contribution.repository) {
+    item.repository = contribution.repository;
+  }
+
+  if (contribution.target) {
+    item.target = contribution.target;
+  }
+
+  if (contribution.projectId) {
+    item.projectId = contribution.projectId;
+  }
+
+  if (contribution.tickets) {
+    // Ticket links follow --with-links, like the contribution URL
+    item.tickets = contribution.tickets.map(({ key, tracker, url }) =>
+      withLinks && url ? { key, tracker, url } : { key, tracker },
+    );
+  }
+
+  if (contribution.account) {
+    item.account = contribution.account;
+  }
+
+  if (contribution.state) {
+    item.state = contribution.state;
+  }
+
+  if (contribution.mergedAt) {
+    item.mergedAt = contribution.mergedAt;
+  }
+
+  if (contribution.closedAt) {
+    item.closedAt = contribution.closedAt;
+  }
+
+  if (contribution.additions !== undefined) {
+    item.additions = contribution.additions;
+  }
+
+  if (contribution.deletions !== undefined) {
+    item.deletions = contribution.deletions;
+  }
+
+  if (contribution.changedFiles !== undefined) {
+    item.changedFiles = contribution.changedFiles;
+  }
+
+  if (contribution.text) {
+    item.text = contribution.text;
+  }
+
+  if (withLinks && contribution.url) {
+    item.url = contribution.url;
+  }
+
+  return item;
+};
@@ -0,0 +1,194 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import type {
+  ContributionSummary,
+  ContributionType,
+  FormatterOptions,
+  FormatterResult,
+  OutputFormat,
+  SummaryBucket,
+  SummaryDimension,
+} from '../types.js';
+import type { SummaryFormatter } from './types.js';
+import {
+  createJsonMeta,
+  createWarningsSidecar,
+  escapeCsvField,
+  formatTable,
+  formatWarningsFooter,
+  TYPE_ORDER,
+} from './shared.js';
+
+dayjs.extend(utc);
+
+const DIMENSION_ORDER: SummaryDimension[] = [
+  'day',
+  'week',
+  'repository',
+  'projectId',
+  'ticket',
+  'type',
+];
+
+/**
+ * Contribution types present in the summary, in column order.
+ */
+const getTypeColumns = (summary: ContributionSummary): ContributionType[] => {
+  return TYPE_ORDER.filter((type) => summary.total?.byType[type] !== undefined);
+};
+
+export class ConsoleSummaryFormatter implements SummaryFormatter {
+  format(summary: ContributionSummary, options: FormatterOptions): FormatterResult {
+    const footer = formatWarningsFooter(options.warnings);
+    if (!summary.total) {
+      return { content: ['No contributions found in this range', ...footer].join('\n') };
+    }
+
+    const types = getTypeColumns(summary);
+    const typeCells = (bucket: SummaryBucket): string[] =>
+      types.map((type) => String(bucket.byType[type] ?? 0));
+    const time = (timestamp: string): string => dayjs.utc(timestamp).format('HH:mm');
+    const date = (timestamp: string): string => dayjs.utc(timestamp).format('YYYY-MM-DD');
+
+    const { total, buckets } = summary;
+    const lines = [
+      `Summary: ${total.count} contributions on ${total.activeDays} active day(s), ` +
+        `${date(total.firstActivity)} ${time(total.firstActivity)} to ` +
+        `${date(total.lastActivity)} ${time(total.lastActivity)} UTC`,
+    ];
+
+    lines.push('\n## Days');
+    lines.push(
+      ...formatTable(
+        ['Date', 'Count', 'First', 'Last', ...types],
+        buckets.day.map((bucket) => [
+          bucket.key,
+          String(bucket.count),
+          time(bucket.firstActivity),
+          time(bucket.lastActivity),
+          ...typeCells(bucket),
+        ]),
+      ),
+    );
+
+    lines.push('\n## Weeks');
+    lines.push(
+      ...formatTable(
+        ['Week', 'Count', 'Active days', 'First', 'Last', ...types],
+        buckets.week.map((bucket) => [
+          bucket.key,
+          String(bucket.count),
+          String(bucket.activeDays),
+          date(bucket.firstActivity),
+          date(bucket.lastActivity),
+          ...typeCells(bucket),
+        ]),
+      ),
+    );
+
+    const sections: Array<[string, string, SummaryBucket[]]> = [
+      ['Repositories', 'Repository', buckets.repository],
+      ['Projects', 'Project ID', buckets.projectId],
+      ['Tickets', 'Ticket', buckets.ticket],
+    ];
+    for (const [title, header, list] of sections) {
+      lines.push(`\n## ${title}`);
+      lines.push(
+        ...formatTable(
+          [header, 'Count', 'Active days', ...types],
+          list.map((bucket) => [
+            bucket.key,
+            String(bucket.count),
+            String(bucket.activeDays),
+            ...typeCells(bucket),
+          ]),
+        ),
+      );
+    }
+
+    lines.push('\n## Types');
+    lines.push(
+      ...formatTable(
+        ['Type', 'Count', 'Active days'],
+        buckets.type.map((bucket) => [bucket.key, String(bucket.count), String(bucket.activeDays)]),
+      ),
+    );
+
+    lines.push(...footer);
+
+    return { content: lines.join('\n') };
+  }
+}
+
+export class JsonSummaryFormatter implements SummaryFormatter {
+  format(summary: ContributionSummary, options: FormatterOptions): FormatterResult {
+    return {
+      content: JSON.stringify({ meta: createJsonMeta(options.warnings), summary }, null, 2),
+    };
+  }
+}
+
+/**
+ * One row per bucket: the total first, then every dimension in DIMENSION_ORDER.
+ */
+export class CsvSummaryFormatter implements SummaryFormatter {
+  format(summary: ContributionSummary, options: FormatterOptions): FormatterResult {
+    const types = getTypeColumns(summary);
+    const headers = ['dimension', 'key', 'count', 'activeDays', 'firstActivity', 'lastActivity'];
+    const lines = [[...headers, ...types].join(',')];
+
+    const toRow = (dimension: string, bucket: SummaryBucket): string =>
+      [
+        dimension,
+        bucket.key,
+        String(bucket.count),
+        String(bucket.activeDays),
+        bucket.firstActivity,
+        bucket.lastActivity,
+        ...types.map((type) => String(bucket.byType[type] ?? 0)),
+      ]
+        .map(escapeCsvField)
+        .join(',');
+
+    if (summary.total) {
+      lines.push(toRow('total', summary.total));
+    }
+    for (const dimension of DIMENSION_ORDER) {
+      for (const bucket of summary.buckets[dimension]) {
+        lines.push(toRow(dimension, bucket));
+      }
+    }
+
+    return {
+      content: lines.join('\n'),
+      sidecars: createWarningsSidecar(options.warnings),
+    };
+  }
+}
+
+export const createSummaryFormatter = (format: OutputFormat): SummaryFormatter => {
+  switch (format) {
+    case 'console':
+      return new ConsoleSummaryFormatter();
+    case 'json':
+      return new JsonSummaryFormatter();
+    case 'csv':
+      return new CsvSummaryFormatter();
+    case 'xlsx':
+      throw new Error('The xlsx format is only available for the timesheet command');
+    case 'tempo':
+    case 'toggl':
+    case 'harvest':
+    case 'clockify':
+    case 'markdown':
+    case 'html':
+    case 'ics':
+    case 'ndjson':
+    case 'template':
+      throw new Error(
+        `The ${format} format is only available for the default report and all-commits`,
+      );
+    default:
+      throw new Error(`Unknown output format: ${format}`);
+  }
+};
@@ -0,0 +1,188 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import type {
+  Contribution,
+  ContributionType,
+  FormatterOptions,
+  FormatterResult,
+} from '../types.js';
+import type { Formatter } from './types.js';
+import type { RenderTemplate, TemplateHelper } from '../lib/template/template.js';
+import { compileTemplate, stringifyValue } from '../lib/template/template.js';
+import { ValidationError } from '../lib/errors/validationError.js';
+import { TYPE_ORDER } from './shared.js';
+import { groupBy } from '../lib/services/contributionStats.js';
+
+dayjs.extend(utc);
+
+/**
+ * Contribution as seen by templates: the contribution fields plus its first line as title
+ * and its UTC date and time. URLs are only included with withLinks.
+ */
+interface TemplateContribution extends Contribution {
+  title: string;
+  date: string;
+  time: string;
+}
+
+/**
+ * Contributions of a day or repository, with their count per type.
+ */
+interface TemplateGroup {
+  count: number;
+  counts: Record<ContributionType, number>;
+  contributions: TemplateContribution[];
+}
+
+interface TemplateDay extends TemplateGroup {
+  date: string;
+  /** Weekday name, e.g. Monday */
+  weekday: string;
+  repositories: TemplateRepository[];
+}
+
+interface TemplateRepository extends TemplateGroup {
+  /** Repository name, (no repository) for contributions without one */
+  name: string;
+  projectId?: string;
+  days: TemplateDay[];
+}
+
+/**
+ * Repository name of contributions without a repository.
+ */
+const NO_REPOSITORY_LABEL = '(no repository)';
+
+const toTemplateContribution = (
+  contribution: Contribution,
+  withLinks: boolean,
+): TemplateContribution => {
+  const timestamp = dayjs.utc(contribution.timestamp);
+  return {
+    ...contribution,
+    url: withLinks ? contribution.url : undefined,
+    tickets: contribution.tickets?.map(({ key, tracker, url }) =>
+      withLinks && url ? { key, tracker, url } : { key, tracker },
+    ),
+    title: contribution.text?.split('\n')[0].trim() || contribution.type,
+    date: timestamp.format('YYYY-MM-DD'),
+    time: timestamp.format('HH:mm'),
+  };
+};
+
+const createGroup = (contributions: TemplateContribution[]): TemplateGroup => ({
+  count: contributions.length,
+  counts: Object.fromEntries(
+    TYPE_ORDER.map((type) => [type, contributions.filter((item) => item.type === type).length]),
+  ) as Record<ContributionType, number>,
+  contributions,
+});
+
+const repositoryOf = (contribution: TemplateContribution): string =>
+  contribution.repository ?? NO_REPOSITORY_LABEL;
+
+/**
+ * Days in chronological order, each with its repositories.
+ */
+const createDays = (contributions: TemplateContribution[], nested = true): TemplateDay[] =>
+  [...groupBy(contributions, (contribution) => contribution.date)].map(([date, list]) => ({
+    date,
+    weekday: dayjs.utc(date).format('dddd'),
+    ...createGroup(list),
+    repositories: nested ? createRepositories(list, false) : [],
+  }));
+
+/**
+ * Repositories in alphabetical order, each with its days.
+ */
+const createRepositories = (
+  contributions: TemplateContribution[],
+  nested = true,
+): TemplateRepository[] =>
+  [...groupBy(contributions, repositoryOf)]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, list]) => ({
+      name,
+      projectId: list.find((contribution) => contribution.projectId)?.projectId,
+      ...createGroup(list),
+      days: nested ? createDays(list, false) : [],
+    }));
+
+/**
+ * Helpers available in templates.
+ */
+const HELPERS: Record<string, TemplateHelper> = {
+  /** {{date timestamp "DD.MM.YYYY"}}: formats a date in UTC, YYYY-MM-DD by default */
+  date: (value, format) =>
+    value === undefined || value === null || value === ''
+      ? ''
+      : dayjs.utc(value as string).format(typeof format === 'string' ? format : 'YYYY-MM-DD'),
+  /**
+   * {{link title url "markdown|html|text"}}: links a label (Markdown by default);
+   * only the label without a URL, e.g. without --with-links
+   */
+  link: (label, url, style) => {
+    const text = stringifyValue(label);
+    if (typeof url !== 'string' || !url) {
+      return text;
+    }
+    if (style === 'html') {
+      const escape = (value: string): string =>
+        value
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;');
+      return `<a href="${escape(url)}">${escape(text)}</a>`;
+    }
+    return style === 'text' ? `${text} (${url})` : `[${text}](${url})`;
+  },
+  /** {{join list ", "}}: joins a list with a separator, ", " by default */
+  join: (list, separator) =>
+    Array.isArray(list)
+      ? list.map(stringifyValue).join(typeof separator === 'string' ? separator : ', ')
+      : stringifyValue(list),
+};
+
+/**
+ * Compiles a template of the template format with its helpers (date, link and join),
+ * so syntax errors surface before any contributions are fetched.
+ *
+ * @param source - Template text
+ * @throws ValidationError when the template syntax is invalid
+ */
+export const compileReportTemplate = (source: string): RenderTemplate =>
+  compileTemplate(source, HELPERS);
+
+/**
+ * Renders contributions through a user-defined template (see compileTemplate for the syntax),
+ * for team-specific status report layouts. The template context has the range (from, to),
+ * count and counts per type, contributions, days (each with repositories), repositories
+ * (each with days) and warnings; days and times are in UTC.
+ */
+export class TemplateFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    if (options.template === undefined) {
+      throw new ValidationError('The template format needs a template', [
+        'Pass the template file with --template <file>',
+      ]);
+    }
+
+    const sorted = [...contributions]
+      .sort((a, b) => dayjs(a.timestamp).valueOf() - dayjs(b.timestamp).valueOf())
+      .map((contribution) => toTemplateContribution(contribution, options.withLinks));
+    const warnings = options.warnings ?? [];
+
+    const content = options.template({
+      from: options.range?.from ?? sorted[0]?.date,
+      to: options.range?.to ?? sorted[sorted.length - 1]?.date,
+      ...createGroup(sorted),
+      days: createDays(sorted),
+      repositories: createRepositories(sorted),
+      warnings,
+      complete: warnings.length === 0,
+    });
+
+    return { content, lines: content.replace(/\r?\n$/, '').split(/\r?\n/) };
+  }
+}
@@ -0,0 +1,78 @@
+import type { Contribution, FormatterOptions, FormatterResult } from '../types.js';
+import type { Formatter } from './types.js';
+import { estimateWorkSessions, resolveWorkTimeOptions } from '../lib/services/workTimeEstimator.js';
+import { createIssueKeyPattern, resolveIssueKey } from '../lib/services/issueKeys.js';
+import { groupDailyTimeEntries } from '../lib/services/timeEntries.js';
+import {
+  createUnmappedSidecar,
+  createWarningsSidecar,
+  describeTimeEntry,
+  escapeCsvField,
+  formatHours,
+} from './shared.js';
+
+/**
+ * Worklog in the shape of the Tempo REST API (POST /worklogs), without the author,
+ * which Tempo takes from the account the worklogs are imported with.
+ */
+export interface TempoWorklog {
+  issueKey: string;
+  /** Day of the work (YYYY-MM-DD) in the configured time zone */
+  startDate: string;
+  /** Start of the first work session on the issue that day (HH:mm:ss) in the configured time zone */
+  startTime: string;
+  timeSpentSeconds: number;
+  description: string;
+}
+
+/**
+ * Books the estimated work time of contributions as Jira Tempo worklogs, one per day and issue.
+ *
+ * Work time is estimated as for the hours command. Issue keys (e.g. ABC-123) are the tickets of
+ * the jira issue tracker, from commit messages and PR titles, then branch names, and otherwise
+ * the project ID of the repository; with configured project keys, only their issues are booked.
+ * The main file is a CSV for the Tempo importer; the same worklogs are written as a JSON sidecar
+ * for the REST API, and time without an issue key goes to an unmapped sidecar.
+ */
+export class TempoFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    const sessions = estimateWorkSessions(contributions, resolveWorkTimeOptions(options.workTime));
+    const pattern = createIssueKeyPattern(options.tempo?.projectKeys);
+    const { entries, unmapped } = groupDailyTimeEntries(
+      sessions,
+      (contribution) => resolveIssueKey(contribution, pattern),
+      options.workTime?.timeZone,
+    );
+
+    const worklogs: TempoWorklog[] = entries.map((entry) => ({
+      issueKey: entry.key,
+      startDate: entry.date,
+      startTime: entry.startTime,
+      timeSpentSeconds: Math.round(entry.minutes * 60),
+      description: describeTimeEntry(entry),
+    }));
+
+    const lines = ['Issue Key,Date Started,Time Spent (h),Work Description'];
+    for (const worklog of worklogs) {
+      lines.push(
+        [
+          worklog.issueKey,
+          `${worklog.startDate} ${worklog.startTime.slice(0, 5)}`,
+          formatHours(worklog.timeSpentSeconds / 60),
+          worklog.description,
+        ]
+          .map(escapeCsvField)
+          .join(','),
+      );
+    }
+
+    return {
+      content: lines.join('\n'),
+      sidecars: [
+        { suffix: 'tempo', format: 'json', content: JSON.stringify(worklogs, null, 2) },
+        ...(createUnmappedSidecar(unmapped) ?? []),
+        ...(createWarningsSidecar(options.warnings) ?? []),
+      ],
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import type { Contribution, FormatterOptions, FormatterResult } from '../types.js';
+import type { Formatter } from './types.js';
+import type { DailyTimeEntry } from '../lib/services/timeEntries.js';
+import { estimateWorkSessions, resolveWorkTimeOptions } from '../lib/services/workTimeEstimator.js';
+import { groupDailyTimeEntries } from '../lib/services/timeEntries.js';
+import {
+  createUnmappedSidecar,
+  createWarningsSidecar,
+  describeTimeEntry,
+  escapeCsvField,
+  formatDuration,
+  formatHours,
+} from './shared.js';
+
+/**
+ * Import CSV of a time tracker, one row per day and project ID.
+ */
+interface TimeTrackerSchema {
+  headers: string[];
+  toRow(entry: DailyTimeEntry): string[];
+}
+
+/**
+ * Estimates the work time of contributions (as for the hours command), sums it per day and
+ * project ID and writes it in the import schema of a time tracker. Days and start times are
+ * in the configured time zone (workTime.timeZone), the local one by default.
+ * Time in repositories without a project ID goes to an unmapped sidecar.
+ */
+const formatTimeEntries = (
+  schema: TimeTrackerSchema,
+  contributions: Contribution[],
+  options: FormatterOptions,
+): FormatterResult => {
+  const sessions = estimateWorkSessions(contributions, resolveWorkTimeOptions(options.workTime));
+  const { entries, unmapped } = groupDailyTimeEntries(
+    sessions,
+    (contribution) => contribution.projectId,
+    options.workTime?.timeZone,
+  );
+
+  const lines = [schema.headers.join(',')];
+  for (const entry of entries) {
+    lines.push(schema.toRow(entry).map(escapeCsvField).join(','));
+  }
+
+  const sidecars = [
+    ...(createUnmappedSidecar(unmapped) ?? []),
+    ...(createWarningsSidecar(options.warnings) ?? []),
+  ];
+  return { content: lines.join('\n'), sidecars: sidecars.length > 0 ? sidecars : undefined };
+};
+
+/**
+ * Toggl Track CSV import; entries are imported for the account that uploads the file.
+ */
+export class TogglFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    return formatTimeEntries(
+      {
+        headers: ['Project', 'Description', 'Start date', 'Start time', 'Duration'],
+        toRow: (entry) => [
+          entry.key,
+          describeTimeEntry(entry),
+          entry.date,
+          entry.startTime,
+          formatDuration(entry.minutes),
+        ],
+      },
+      contributions,
+      options,
+    );
+  }
+}
+
+/**
+ * Harvest time entry import. Harvest projects belong to a client, so the project ID is used
+ * for both; the task is always Development.
+ */
+export class HarvestFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    return formatTimeEntries(
+      {
+        headers: ['Date', 'Client', 'Project', 'Task', 'Notes', 'Hours'],
+        toRow: (entry) => [
+          entry.date,
+          entry.key,
+          entry.key,
+          'Development',
+          describeTimeEntry(entry),
+          formatHours(entry.minutes),
+        ],
+      },
+      contributions,
+      options,
+    );
+  }
+}
+
+/**
+ * Clockify time entry import; entries are imported for the account that uploads the file.
+ */
+export class ClockifyFormatter implements Formatter {
+  format(contributions: Contribution[], options: FormatterOptions): FormatterResult {
+    return formatTimeEntries(
+      {
+        headers: ['Project', 'Description', 'Start Date', 'Start Time', 'Duration (h)'],
+        toRow: (entry) => [
+          entry.key,
+          describeTimeEntry(entry),
+          entry.date,
+          entry.startTime,
+          formatDuration(entry.minutes),
+        ],
+      },
+      contributions,
+      options,
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import type { FormatterOptions, FormatterResult, OutputFormat, Timesheet } from '../types.js';
+import type { TimesheetFormatter } from './types.js';
+import type { CellValue, Worksheet } from '../lib/xlsx/workbook.js';
+import { createWorkbook } from '../lib/xlsx/workbook.js';
+import {
+  createJsonMeta,
+  createWarningsSidecar,
+  escapeCsvField,
+  formatHours,
+  formatTable,
+  formatWarningsFooter,
+} from './shared.js';
+
+/**
+ * Formats a cell value: decimal hours for hours timesheets, the count otherwise.
+ */
+const formatValue = (timesheet: Timesheet, value: number): string =>
+  timesheet.unit === 'hours' ? formatHours(value) : String(value);
+
+/**
+ * Numeric cell value for spreadsheets and JSON: hours rounded to two decimals, or the count.
+ */
+const toNumber = (timesheet: Timesheet, value: number): number =>
+  Number(formatValue(timesheet, value));
+
+const describeRounding = (timesheet: Timesheet): string =>
+  timesheet.rounding
+    ? `rounded ${timesheet.rounding.mode} to ${timesheet.rounding.incrementMinutes} min`
+    : 'not rounded';
+
+/**
+ * Builds the matrix rows: a header, one row per day and a total row.
+ */
+const createMatrix = <T>(
+  timesheet: Timesheet,
+  toCell: (value: number) => T,
+): Array<Array<string | T>> => {
+  const { totals } = timesheet;
+  return [
+    ['date', ...timesheet.projectIds, 'total'],
+    ...timesheet.dates.map((date) => [
+      date,
+      ...timesheet.projectIds.map((projectId) => toCell(timesheet.cells[date]?.[projectId] ?? 0)),
+      toCell(totals.byDate[date]),
+    ]),
+    [
+      'total',
+      ...timesheet.projectIds.map((projectId) => toCell(totals.byProjectId[projectId])),
+      toCell(totals.total),
+    ],
+  ];
+};
+
+const createUnmappedRows = <T>(
+  timesheet: Timesheet,
+  toCell: (value: number) => T,
+): Array<Array<string | T>> => [
+  ['repository', timesheet.unit === 'hours' ? 'hours' : 'contributions'],
+  ...timesheet.unmapped.map(({ repository, value }) => [repository, toCell(value)]),
+];
+
+export class ConsoleTimesheetFormatter implements TimesheetFormatter {
+  format(timesheet: Timesheet, options: FormatterOptions): FormatterResult {
+    const unitLabel =
+      timesheet.unit === 'hours' ? `hours, ${describeRounding(timesheet)}` : 'contributions';
+    const lines = [`Timesheet (${unitLabel})`, ''];
+
+    if (timesheet.projectIds.length === 0) {
+      lines.push('No activity in mapped projects in this range');
+    } else {
+      const [headers, ...rows] = createMatrix(timesheet, (value) =>
+        value === 0 ? '-' : formatValue(timesheet, value),
+      );
+      lines.push(...formatTable(headers, rows));
+    }
+
+    if (timesheet.unmapped.length > 0) {
+      lines.push('\n⚠ Unmapped repositories (not in the timesheet):');
+      for (const { repository, value } of timesheet.unmapped) {
+        lines.push(`- ${repository}: ${formatValue(timesheet, value)}`);
+      }
+      lines.push('Map them with: git-activity-tracer project-id add <repository> <projectId>');
+    }
+
+    lines.push(...formatWarningsFooter(options.warnings));
+
+    return { content: lines.join('\n') };
+  }
+}
+
+export class JsonTimesheetFormatter implements TimesheetFormatter {
+  format(timesheet: Timesheet, options: FormatterOptions): FormatterResult {
+    const { totals } = timesheet;
+    const toValues = (values: Record<string, number>) =>
+      Object.fromEntries(
+        Object.entries(values).map(([key, value]) => [key, toNumber(timesheet, value)]),
+      );
+
+    const output = {
+      meta: createJsonMeta(options.warnings),
+      unit: timesheet.unit,
+      rounding: timesheet.rounding ?? null,
+      projectIds: timesheet.projectIds,
+      rows: timesheet.dates.map((date) => ({
+        date,
+        values: toValues(timesheet.cells[date] ?? {}),
+        total: toNumber(timesheet, totals.byDate[date]),
+      })),
+      totals: {
+        byProjectId: toValues(totals.byProjectId),
+        total: toNumber(timesheet, totals.total),
+      },
+      unmapped: timesheet.unmapped.map(({ repository, value }) => ({
+        repository,
+        value: toNumber(timesheet, value),
+      })),
+    };
+
+    return { content: JSON.stringify(output, null, 2) };
+  }
+}
+
+/**
+ * Matrix CSV; unmapped repositories and warnings go to sidecar files.
+ */
+export class CsvTimesheetFormatter implements TimesheetFormatter {
+  format(timesheet: Timesheet, options: FormatterOptions): FormatterResult {
+    const toCsv = (rows: string[][]): string =>
+      rows.map((row) => row.map(escapeCsvField).join(',')).join('\n');
+
+    const sidecars = createWarningsSidecar(options.warnings) ?? [];
+    if (timesheet.unmapped.length > 0) {
+      sidecars.unshift({
+        suffix: 'unmapped',
+        content: toCsv(createUnmappedRows(timesheet, (value) => formatValue(timesheet, value))),
+      });
+    }
+
+    return {
+      content: toCsv(createMatrix(timesheet, (value) => formatValue(timesheet, value))),
+      sidecars: sidecars.length > 0 ? sidecars : undefined,
+    };
+  }
+}
+
+/**
+ * XLSX workbook with numeric cells: the matrix, unmapped repositories and warnings as sheets.
+ */
+export class XlsxTimesheetFormatter implements TimesheetFormatter {
+  format(timesheet: Timesheet, options: FormatterOptions): FormatterResult {
+    const toCell = (value: number): CellValue => toNumber(timesheet, value);
+    const worksheets: Worksheet[] = [{ name: 'Timesheet', rows: createMatrix(timesheet, toCell) }];
+
+    if (timesheet.unmapped.length > 0) {
+      worksheets.push({ name: 'Unmapped', rows: createUnmappedRows(timesheet, toCell) });
+    }
+
+    const warnings = options.warnings ?? [];
+    if (warnings.length > 0) {
+      worksheets.push({
+        name: 'Warnings',
+        rows: [['source', 'message'], ...warnings.map(({ source, message }) => [source, message])],
+      });
+    }
+
+    return { content: '', data: createWorkbook(worksheets) };
+  }
+}
+
+export const createTimesheetFormatter = (format: OutputFormat): TimesheetFormatter => {
+  switch (format) {
+    case 'console':
+      return new ConsoleTimesheetFormatter();
+    case 'json':
+      return new JsonTimesheetFormatter();
+    case 'csv':
+      return new CsvTimesheetFormatter();
+    case 'xlsx':
+      return new XlsxTimesheetFormatter();
+    case 'tempo':
+    case 'toggl':
+    case 'harvest':
+    case 'clockify':
+    case 'markdown':
+    case 'html':
+    case 'ics':
+    case 'ndjson':
+    case 'template':
+      throw new Error(
+        `The ${format} format is only available for the default report and all-commits`,
+      );
+    default:
+      throw new Error(`Unknown output format: ${format}`);
+  }
+};
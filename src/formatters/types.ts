@@ -1,5 +1,24 @@
-import type { Contribution, FormatterOptions, FormatterResult } from '../types.js';
+import type {
+  Contribution,
+  ContributionSummary,
+  FormatterOptions,
+  FormatterResult,
+  Timesheet,
+  WorkTimeEntry,
+} from '../types.js';
 
 export interface Formatter {
   format(contributions: Contribution[], options: FormatterOptions): FormatterResult;
 }
+
+export interface SummaryFormatter {
+  format(summary: ContributionSummary, options: FormatterOptions): FormatterResult;
+}
+
+export interface WorkTimeFormatter {
+  format(entries: WorkTimeEntry[], options: FormatterOptions): FormatterResult;
+}
+
+export interface TimesheetFormatter {
+  format(timesheet: Timesheet, options: FormatterOptions): FormatterResult;
+}
@@ -0,0 +1,158 @@
+import type { FormatterOptions, FormatterResult, OutputFormat, WorkTimeEntry } from '../types.js';
+import type { WorkTimeFormatter } from './types.js';
+import {
+  createJsonMeta,
+  createWarningsSidecar,
+  escapeCsvField,
+  formatHours,
+  formatTable,
+  formatWarningsFooter,
+} from './shared.js';
+
+/**
+ * Label for work time that is not mapped to a project ID.
+ */
+const UNMAPPED_LABEL = '(unmapped)';
+
+const sumMinutes = (entries: WorkTimeEntry[]): number =>
+  entries.reduce((sum, entry) => sum + entry.minutes, 0);
+
+export class ConsoleWorkTimeFormatter implements WorkTimeFormatter {
+  format(entries: WorkTimeEntry[], options: FormatterOptions): FormatterResult {
+    const footer = formatWarningsFooter(options.warnings);
+    if (entries.length === 0) {
+      return { content: ['No contributions found in this range', ...footer].join('\n') };
+    }
+
+    const lines = [`Estimated work time: ${formatHours(sumMinutes(entries))} h`];
+
+    const byDate = new Map<string, WorkTimeEntry[]>();
+    const byProject = new Map<string, WorkTimeEntry[]>();
+    for (const entry of entries) {
+      if (!byDate.has(entry.date)) byDate.set(entry.date, []);
+      byDate.get(entry.date)!.push(entry);
+      const project = entry.projectId ?? UNMAPPED_LABEL;
+      if (!byProject.has(project)) byProject.set(project, []);
+      byProject.get(project)!.push(entry);
+    }
+
+    for (const [date, list] of byDate) {
+      lines.push(`\n## ${date} (${formatHours(sumMinutes(list))} h)`);
+      lines.push(
+        ...formatTable(
+          ['Project ID', 'Repository', 'Hours', 'Sessions', 'Contributions'],
+          list.map((entry) => [
+            entry.projectId ?? UNMAPPED_LABEL,
+            entry.repository ?? '',
+            formatHours(entry.minutes),
+            String(entry.sessions),
+            String(entry.contributions),
+          ]),
+        ),
+      );
+    }
+
+    lines.push('\n## Projects');
+    lines.push(
+      ...formatTable(
+        ['Project ID', 'Hours', 'Days'],
+        [...byProject].map(([project, list]) => [
+          project,
+          formatHours(sumMinutes(list)),
+          String(new Set(list.map((entry) => entry.date)).size),
+        ]),
+      ),
+    );
+
+    lines.push(...footer);
+
+    return { content: lines.join('\n') };
+  }
+}
+
+export class JsonWorkTimeFormatter implements WorkTimeFormatter {
+  format(entries: WorkTimeEntry[], options: FormatterOptions): FormatterResult {
+    const output = entries.map((entry) => {
+      const item: Record<string, unknown> = { date: entry.date };
+
+      if (entry.projectId) {
+        item.projectId = entry.projectId;
+      }
+
+      if (entry.repository) {
+        item.repository = entry.repository;
+      }
+
+      item.hours = Number(formatHours(entry.minutes));
+      item.sessions = entry.sessions;
+      item.contributions = entry.contributions;
+
+      return item;
+    });
+
+    return {
+      content: JSON.stringify(
+        {
+          meta: createJsonMeta(options.warnings),
+          totalHours: Number(formatHours(sumMinutes(entries))),
+          entries: output,
+        },
+        null,
+        2,
+      ),
+    };
+  }
+}
+
+export class CsvWorkTimeFormatter implements WorkTimeFormatter {
+  format(entries: WorkTimeEntry[], options: FormatterOptions): FormatterResult {
+    const lines = ['date,projectId,repository,hours,sessions,contributions'];
+
+    for (const entry of entries) {
+      lines.push(
+        [
+          entry.date,
+          entry.projectId ?? '',
+          entry.repository ?? '',
+          formatHours(entry.minutes),
+          String(entry.sessions),
+          String(entry.contributions),
+        ]
+          .map(escapeCsvField)
+          .join(','),
+      );
+    }
+
+    return {
+      content: lines.join('\n'),
+      sidecars: createWarningsSidecar(options.warnings),
+    };
+  }
+}
+
+export const createWorkTimeFormatter = (format: OutputFormat): WorkTimeFormatter => {
+  switch (format) {
+    case 'console':
+      return new ConsoleWorkTimeFormatter();
+    case 'json':
+      return new JsonWorkTimeFormatter();
+    case 'csv':
+      return new CsvWorkTimeFormatter();
+    case 'xlsx':
+      throw new Error('The xlsx format is only available for the timesheet command');
+    case 'tempo':
+    case 'toggl':
+    case 'harvest':
+    case 'clockify':
+    case 'markdown':
+    case 'html':
+    case 'ics':
+    case 'ndjson':
+    case 'template':
+      throw new Error(
+        `The ${format} format is only available for the default report and all-commits`,
+      );
+    default:
+      throw new Error(`Unknown output format: ${format}`);
+  }
+};
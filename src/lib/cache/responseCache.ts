@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Contribution } from '../../types.js';
+
+/**
+ * Identifies a cached connector response.
+ */
+export interface CacheKey {
+  /** Platform name of the connector (includes the account label for configured accounts) */
+  connector: string;
+  /** Login of the authenticated user */
+  account: string;
+  /** Hash of the connector settings the response depends on (base branches, host, scope) */
+  settings: string;
+  /** Connector method that produced the response */
+  method: 'fetchContributions' | 'fetchAllCommits' | 'fetchMergedPullRequests';
+  /** Start of the date window (ISO 8601) */
+  from: string;
+  /** End of the date window (ISO 8601) */
+  to: string;
+}
+
+/**
+ * A cached connector response as stored on disk.
+ */
+export interface CacheEntry {
+  key: CacheKey;
+  createdAt: string;
+  /** Expiry timestamp, or null for immutable (fully past) ranges */
+  expiresAt: string | null;
+  contributions: Contribution[];
+}
+
+/**
+ * Summary of a cache entry for inspection, without the contributions.
+ */
+export interface CacheEntrySummary {
+  key: CacheKey;
+  createdAt: string;
+  expiresAt: string | null;
+  contributionCount: number;
+  sizeBytes: number;
+  expired: boolean;
+}
+
+const CACHE_FILE_EXTENSION = '.json';
+
+const isExpired = (entry: Pick<CacheEntry, 'expiresAt'>, now: Date): boolean => {
+  return entry.expiresAt !== null && new Date(entry.expiresAt).getTime() <= now.getTime();
+};
+
+const isMissingFileError = (error: unknown): boolean => {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT';
+};
+
+/**
+ * File-based cache of connector responses.
+ * Each entry is stored as one JSON file named after the hash of its key.
+ */
+export class ResponseCache {
+  private directoryPath: string;
+
+  constructor(directoryPath: string) {
+    this.directoryPath = directoryPath;
+  }
+
+  getDirectoryPath(): string {
+    return this.directoryPath;
+  }
+
+  /**
+   * Returns the cached contributions for the key, or undefined when missing or expired.
+   * Unreadable entries are treated as missing.
+   */
+  async get(key: CacheKey, now: Date = new Date()): Promise<Contribution[] | undefined> {
+    try {
+      const entry = await this.readEntry(this.getEntryPath(key));
+      return isExpired(entry, now) ? undefined : entry.contributions;
+    } catch (error) {
+      if (!isMissingFileError(error)) {
+        console.warn(
+          `Warning: Ignoring unreadable cache entry: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores contributions for the key.
+   * @param ttlMilliseconds - Lifetime of the entry, or null to never expire
+   */
+  async set(
+    key: CacheKey,
+    contributions: Contribution[],
+    ttlMilliseconds: number | null,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const entry: CacheEntry = {
+      key,
+      createdAt: now.toISOString(),
+      expiresAt:
+        ttlMilliseconds === null ? null : new Date(now.getTime() + ttlMilliseconds).toISOString(),
+      contributions,
+    };
+    await fs.mkdir(this.directoryPath, { recursive: true });
+    await fs.writeFile(this.getEntryPath(key), JSON.stringify(entry), 'utf-8');
+  }
+
+  /**
+   * Lists all entries, oldest window first.
+   */
+  async list(now: Date = new Date()): Promise<CacheEntrySummary[]> {
+    const summaries: CacheEntrySummary[] = [];
+
+    for (const fileName of await this.listEntryFiles()) {
+      const filePath = path.join(this.directoryPath, fileName);
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        const entry = JSON.parse(content) as CacheEntry;
+        summaries.push({
+          key: entry.key,
+          createdAt: entry.createdAt,
+          expiresAt: entry.expiresAt,
+          contributionCount: entry.contributions.length,
+          sizeBytes: Buffer.byteLength(content),
+          expired: isExpired(entry, now),
+        });
+      } catch (error) {
+        console.warn(
+          `Warning: Skipping unreadable cache entry ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    return summaries.sort(
+      (a, b) =>
+        a.key.from.localeCompare(b.key.from) || a.key.connector.localeCompare(b.key.connector),
+    );
+  }
+
+  /**
+   * Removes entries from the cache.
+   * @param options.expiredOnly - Only remove entries that have expired
+   * @returns Number of removed entries
+   */
+  async clear(options: { expiredOnly?: boolean } = {}, now: Date = new Date()): Promise<number> {
+    let removed = 0;
+
+    for (const fileName of await this.listEntryFiles()) {
+      const filePath = path.join(this.directoryPath, fileName);
+      if (options.expiredOnly) {
+        // Unreadable entries are removed as well
+        const entry = await this.readEntry(filePath).catch(() => undefined);
+        if (entry && !isExpired(entry, now)) {
+          continue;
+        }
+      }
+      await fs.rm(filePath, { force: true });
+      removed++;
+    }
+
+    return removed;
+  }
+
+  private async readEntry(filePath: string): Promise<CacheEntry> {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheEntry;
+  }
+
+  private async listEntryFiles(): Promise<string[]> {
+    try {
+      const fileNames = await fs.readdir(this.directoryPath);
+      return fileNames.filter((fileName) => fileName.endsWith(CACHE_FILE_EXTENSION));
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private getEntryPath(key: CacheKey): string {
+    const hash = createHash('sha256')
+      .update(
+        JSON.stringify([key.connector, key.account, key.settings, key.method, key.from, key.to]),
+      )
+      .digest('hex');
+    return path.join(this.directoryPath, `${hash}${CACHE_FILE_EXTENSION}`);
+  }
+}
@@ -1,10 +1,112 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
+import type { ConnectorType } from '../../connectors/types.js';
+
+export interface AzureDevOpsConfiguration {
+  /** Organization name (https://dev.azure.com/{organization}) */
+  organization: string;
+  /** Projects to scan; all projects of the organization when omitted */
+  projects?: string[];
+  /** Server URL for Azure DevOps Server (defaults to https://dev.azure.com) */
+  host?: string;
+}
+
+/**
+ * A named account on a hosted platform. Each account produces its own connector,
+ * so several identities of the same platform can be combined in one report.
+ */
+export interface AccountConfiguration {
+  /** Label shown with every contribution fetched with this account */
+  label: string;
+  platform: Exclude<ConnectorType, 'local'>;
+  /** Environment variable holding the access token */
+  tokenEnv: string;
+  /** Instance URL for self-hosted platforms */
+  host?: string;
+  /** Username (Bitbucket) */
+  username?: string;
+  /** Organization (Azure DevOps) */
+  organization?: string;
+  /** Projects to scan (Azure DevOps) */
+  projects?: string[];
+}
+
+export interface CacheConfiguration {
+  /** Cache connector responses on disk (default: true) */
+  enabled?: boolean;
+  /** Lifetime of cached responses for ranges reaching into today, in minutes (default: 15) */
+  ttlMinutes?: number;
+}
+
+/**
+ * Issue tracker whose ticket keys are extracted from commit messages, titles and branch names.
+ */
+export interface IssueTrackerConfiguration {
+  /** Name shown with the extracted tickets, e.g. "jira" */
+  name: string;
+  /** Regular expression matching a ticket key, e.g. "#(\\d+)" */
+  pattern: string;
+  /**
+   * Ticket URL template: {key} is the matched key, {id} the first capture group (or the key)
+   * and {repository} the repository of the contribution
+   */
+  url?: string;
+}
+
+export interface TempoConfiguration {
+  /**
+   * Jira project keys whose issues are booked, e.g. ["ABC", "PAY2"]; without them any
+   * uppercase key is booked, except identifiers such as UTF-8, SHA-256 or ISO-8601
+   */
+  projectKeys?: string[];
+}
+
+export interface TimesheetConfiguration {
+  /** Rounding of every hours cell: "<minutes>[:up|down|nearest]", e.g. "15:up" (default: none) */
+  rounding?: string;
+}
+
+export interface WorkTimeConfiguration {
+  /** Longest pause between two contributions of the same work session, in minutes (default: 120) */
+  sessionGapMinutes?: number;
+  /** Time counted before the first contribution of a session, in minutes (default: 30) */
+  sessionPaddingMinutes?: number;
+  /**
+   * IANA time zone of the days of hours and timesheets and of the days and start times booked
+   * in time trackers (tempo, toggl, harvest, clockify), e.g. "Europe/Berlin" (default: the local
+   * time zone)
+   */
+  timeZone?: string;
+}
 
 export interface Configuration {
   baseBranches: string[];
   repositoryProjectIds?: Record<string, string>;
+  /** GitHub Enterprise Server host for GH_TOKEN (GH_HOST takes precedence) */
+  githubHost?: string;
+  /** Directories scanned for local git repositories (enables the local git connector) */
+  localRepositoryDirectories?: string[];
+  /** Author emails used to attribute commits in local repositories */
+  authorEmails?: string[];
+  /** Azure DevOps organization/project scope (used with AZURE_DEVOPS_TOKEN) */
+  azureDevOps?: AzureDevOpsConfiguration;
+  /** Count at most one comment per thread (PR/issue/MR) and day */
+  deduplicateCommentsPerDay?: boolean;
+  /** Add a separate 'merge' contribution for pull/merge requests merged within the range */
+  emitMergeEvents?: boolean;
+  /** On-disk response cache; fully past ranges are cached without expiry */
+  cache?: CacheConfiguration;
+  /** Work session settings of the estimated work time (hours and timesheet commands) */
+  workTime?: WorkTimeConfiguration;
+  /** Ticket key patterns per issue tracker (default: Jira-style keys such as ABC-123) */
+  issueTrackers?: IssueTrackerConfiguration[];
+  /** Defaults of the timesheet command */
+  timesheet?: TimesheetConfiguration;
+  /** Settings of the tempo format */
+  tempo?: TempoConfiguration;
+  /** Named accounts, in addition to the accounts given by environment tokens */
+  accounts?: AccountConfiguration[];
 }
 
 const DEFAULT_CONFIGURATION: Configuration = {
@@ -14,6 +116,8 @@ const DEFAULT_CONFIGURATION: Configuration = {
 
 const CONFIG_DIRECTORY_NAME = '.git-activity-tracer';
 const CONFIG_FILE_NAME = 'config.json';
+const CACHE_DIRECTORY_NAME = 'cache';
+const STORE_DIRECTORY_NAME = 'store';
 
 /**
  * Gets the configuration directory path.
@@ -23,6 +127,20 @@ const getConfigurationDirectoryPath = (): string => {
   return path.join(os.homedir(), CONFIG_DIRECTORY_NAME);
 };
 
+/**
+ * Gets the directory holding cached connector responses.
+ */
+export const getCacheDirectoryPath = (): string => {
+  return path.join(getConfigurationDirectoryPath(), CACHE_DIRECTORY_NAME);
+};
+
+/**
+ * Gets the directory holding the local contribution store.
+ */
+export const getStoreDirectoryPath = (): string => {
+  return path.join(getConfigurationDirectoryPath(), STORE_DIRECTORY_NAME);
+};
+
 /**
  * Gets the configuration file path.
  */
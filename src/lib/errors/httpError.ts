@@ -0,0 +1,17 @@
+/**
+ * Error thrown when an HTTP request returns a non-success status.
+ * Carries the status so callers can treat e.g. 404 differently from 401, and the
+ * response headers so rate limited requests can be retried after Retry-After.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public url: string,
+    public headers?: Headers,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+    Error.captureStackTrace(this, HttpError);
+  }
+}
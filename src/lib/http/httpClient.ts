@@ -0,0 +1,67 @@
+import { HttpError } from '../errors/httpError.js';
+
+export type QueryParameters = Record<string, string | number | boolean | string[] | undefined>;
+
+/**
+ * Minimal JSON HTTP client used by REST-based connectors (Bitbucket, ...).
+ * Connectors depend on this interface so tests can inject a mock.
+ */
+export interface HttpClient {
+  /**
+   * Sends a GET request and parses the JSON response.
+   * @param pathOrUrl - Path relative to the base URL, or an absolute URL (e.g. a "next" page link)
+   * @param query - Query parameters; array values are sent as repeated parameters
+   * @throws {HttpError} If the response status is not 2xx
+   */
+  get<T>(pathOrUrl: string, query?: QueryParameters): Promise<T>;
+}
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Builds the request URL from base URL, path and query parameters.
+ */
+const buildUrl = (baseUrl: string, pathOrUrl: string, query: QueryParameters = {}): URL => {
+  const url = /^https?:\/\//i.test(pathOrUrl)
+    ? new URL(pathOrUrl)
+    : new URL(`${baseUrl.replace(/\/+$/, '')}/${pathOrUrl.replace(/^\/+/, '')}`);
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      value.forEach((item) => url.searchParams.append(key, item));
+    } else {
+      url.searchParams.set(key, String(value));
+    }
+  }
+
+  return url;
+};
+
+/**
+ * Creates an HTTP client backed by the global fetch API.
+ */
+export const createHttpClient = (options: HttpClientOptions): HttpClient => {
+  return {
+    async get<T>(pathOrUrl: string, query?: QueryParameters): Promise<T> {
+      const url = buildUrl(options.baseUrl, pathOrUrl, query);
+      const response = await fetch(url, {
+        headers: { Accept: 'application/json', ...options.headers },
+      });
+
+      if (!response.ok) {
+        throw new HttpError(
+          `GET ${url.pathname} failed with status ${response.status}`,
+          response.status,
+          url.toString(),
+          response.headers,
+        );
+      }
+
+      return (await response.json()) as T;
+    },
+  };
+};
@@ -0,0 +1,258 @@
+/**
+ * Response headers as plain object (Octokit) or Headers instance (fetch, Gitbeaker).
+ */
+export type HeaderSource =
+  | Headers
+  | Record<string, string | number | string[] | undefined>
+  | null
+  | undefined;
+
+export interface RequestSchedulerOptions {
+  /** Maximum number of requests in flight (default: 4) */
+  maxConcurrency?: number;
+  /** Retries of a request after rate limiting or transient server errors (default: 3) */
+  maxRetries?: number;
+  /** Backoff before the first retry when the response names no delay, in ms (default: 1000) */
+  baseDelayMs?: number;
+  /** Longest wait for a rate limit reset; longer limits fail right away, in ms (default: 60000) */
+  maxWaitMs?: number;
+  /** Sleep function, replaceable in tests */
+  sleep?: (milliseconds: number) => Promise<void>;
+}
+
+/**
+ * A request that failed after rate limiting or transient errors, despite retries.
+ */
+export interface RequestFailure {
+  /** Request description, e.g. "GET /repos/{owner}/{repo}/commits" */
+  label: string;
+  status?: number;
+  attempts: number;
+  message: string;
+}
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_WAIT_MS = 60 * 1000;
+const MILLISECONDS_PER_SECOND = 1000;
+
+const defaultSleep = (milliseconds: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+/**
+ * Reads a header case-insensitively from either header representation.
+ */
+const readHeader = (headers: HeaderSource, name: string): string | undefined => {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lowerName && value !== undefined) {
+      return Array.isArray(value) ? value[0] : String(value);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Reads the remaining request budget (GitHub: x-ratelimit-*, GitLab: RateLimit-*).
+ * @returns Remaining requests and the reset time in epoch milliseconds, when sent
+ */
+const readRateLimit = (headers: HeaderSource): { remaining?: number; resetAt?: number } => {
+  const remaining =
+    readHeader(headers, 'x-ratelimit-remaining') ?? readHeader(headers, 'ratelimit-remaining');
+  const reset = readHeader(headers, 'x-ratelimit-reset') ?? readHeader(headers, 'ratelimit-reset');
+  return {
+    remaining: remaining !== undefined ? Number(remaining) : undefined,
+    resetAt: reset !== undefined ? Number(reset) * MILLISECONDS_PER_SECOND : undefined,
+  };
+};
+
+/**
+ * Extracts status and response headers from Octokit, Gitbeaker and fetch-style errors,
+ * and from the HttpError of the JSON HTTP client.
+ */
+const readErrorResponse = (error: unknown): { status?: number; headers: HeaderSource } => {
+  if (!error || typeof error !== 'object') {
+    return { headers: undefined };
+  }
+  const candidate = error as {
+    status?: unknown;
+    headers?: HeaderSource;
+    response?: { status?: unknown; headers?: HeaderSource };
+    cause?: { response?: { status?: unknown; headers?: HeaderSource } };
+  };
+  const response = candidate.response ?? candidate.cause?.response;
+  const status = typeof candidate.status === 'number' ? candidate.status : response?.status;
+  return {
+    status: typeof status === 'number' ? status : undefined,
+    headers: response?.headers ?? candidate.headers,
+  };
+};
+
+/**
+ * Rate limiting: 429, or 403 with an exhausted budget, a retry-after header
+ * or GitHub's secondary rate limit message.
+ */
+const isRateLimited = (
+  status: number | undefined,
+  headers: HeaderSource,
+  message: string,
+): boolean => {
+  if (status === 429) return true;
+  if (status !== 403) return false;
+  return (
+    readHeader(headers, 'retry-after') !== undefined ||
+    readRateLimit(headers).remaining === 0 ||
+    /rate limit/i.test(message)
+  );
+};
+
+const isTransientServerError = (status: number | undefined): boolean => {
+  return status !== undefined && status >= 500;
+};
+
+/**
+ * Schedules API requests of one connector: caps concurrency, pauses while the
+ * rate limit budget is exhausted, and retries rate limited or transient 5xx
+ * responses with backoff (honouring retry-after and rate limit reset headers).
+ *
+ * Requests that still fail are recorded, so connectors that continue with
+ * partial results can report what is missing.
+ */
+export class RequestScheduler {
+  private maxConcurrency: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxWaitMs: number;
+  private sleep: (milliseconds: number) => Promise<void>;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil = 0;
+  private failures: RequestFailure[] = [];
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    this.sleep = options.sleep ?? defaultSleep;
+  }
+
+  /**
+   * Runs the request once a slot is free, retrying rate limited and transient failures.
+   * @param label - Request description used in failure reports
+   * @param request - Function sending the request
+   * @throws The last error when the request cannot be completed
+   */
+  async schedule<T>(label: string, request: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await this.runWithRetries(label, request);
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Updates the rate limit budget from response headers.
+   * When no requests remain, new requests wait until the reset time.
+   */
+  observeHeaders(headers: HeaderSource): void {
+    const { remaining, resetAt } = readRateLimit(headers);
+    if (remaining === 0 && resetAt !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, resetAt);
+    }
+  }
+
+  /**
+   * Returns and clears the failures recorded since the last call.
+   */
+  takeFailures(): RequestFailure[] {
+    const failures = this.failures;
+    this.failures = [];
+    return failures;
+  }
+
+  private async runWithRetries<T>(label: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForRateLimitReset(label, attempt);
+      try {
+        return await request();
+      } catch (error) {
+        const { status, headers } = readErrorResponse(error);
+        const message = error instanceof Error ? error.message : String(error);
+        const rateLimited = isRateLimited(status, headers, message);
+        if (!rateLimited && !isTransientServerError(status)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(headers, attempt, rateLimited);
+        if (attempt > this.maxRetries || delay > this.maxWaitMs) {
+          this.failures.push({ label, status, attempts: attempt, message });
+          throw error;
+        }
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt: retry-after, then the rate limit reset, then exponential backoff.
+   */
+  private getRetryDelay(headers: HeaderSource, attempt: number, rateLimited: boolean): number {
+    const retryAfter = Number(readHeader(headers, 'retry-after'));
+    if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+      return retryAfter * MILLISECONDS_PER_SECOND;
+    }
+    const { resetAt } = readRateLimit(headers);
+    if (rateLimited && resetAt !== undefined) {
+      return Math.max(0, resetAt - Date.now());
+    }
+    return this.baseDelayMs * 2 ** (attempt - 1);
+  }
+
+  private async waitForRateLimitReset(label: string, attempt: number): Promise<void> {
+    const wait = this.pausedUntil - Date.now();
+    if (wait <= 0) return;
+    if (wait > this.maxWaitMs) {
+      const message = `Rate limit exhausted until ${new Date(this.pausedUntil).toISOString()}`;
+      this.failures.push({ label, attempts: attempt - 1, message });
+      throw new Error(`${label}: ${message}`);
+    }
+    await this.sleep(wait);
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot over without decrementing
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Summarises failed requests for a partial-results warning.
+ */
+export const describeRequestFailures = (failures: RequestFailure[]): string => {
+  const examples = failures
+    .slice(0, 3)
+    .map((failure) => `${failure.label}${failure.status ? ` (${failure.status})` : ''}`);
+  const more =
+    failures.length > examples.length ? `, +${failures.length - examples.length} more` : '';
+  return `${failures.length} request(s) failed after retries: ${examples.join(', ')}${more}`;
+};
@@ -1,22 +1,37 @@
 import { createGitHubConnector } from '../connectors/github.js';
 import { createGitLabConnector } from '../connectors/gitlab.js';
-import { loadConfiguration } from './config/index.js';
+import { createLocalGitConnector } from '../connectors/localGit.js';
+import { createBitbucketConnector } from '../connectors/bitbucket.js';
+import { createGiteaConnector } from '../connectors/gitea.js';
+import { createAzureDevOpsConnector } from '../connectors/azureDevOps.js';
+import { LabeledConnector } from '../connectors/labeledConnector.js';
+import { CachingConnector } from '../connectors/cachingConnector.js';
+import { StoredConnector } from '../connectors/storedConnector.js';
+import { ResponseCache } from './cache/responseCache.js';
+import { ContributionStore } from './store/contributionStore.js';
+import { getCacheDirectoryPath, getStoreDirectoryPath, loadConfiguration } from './config/index.js';
 import type { Connector } from '../connectors/types.js';
-import type { Configuration } from './config/index.js';
+import type { AccountConfiguration, Configuration } from './config/index.js';
+
+/**
+ * Wraps a connector, given the settings its responses depend on besides the base branches.
+ */
+type ConnectorWrapper = (connector: Connector, settings: Record<string, unknown>) => Connector;
 
 /**
  * Attempts to create a GitHub connector if GH_TOKEN is available.
- * Note: GitHub connector does not use configuration.
+ * Uses GitHub Enterprise Server when GH_HOST (or githubHost in the configuration) is set.
+ * Note: GitHub connector does not use baseBranches.
  * @returns GitHub connector or null if token not available
  */
-const createGitHubConnectorIfAvailable = (): Connector | null => {
+const createGitHubConnectorIfAvailable = (configuration: Configuration): Connector | null => {
   const token = process.env.GH_TOKEN;
   if (!token || token.trim() === '') {
     return null;
   }
 
   try {
-    return createGitHubConnector(token);
+    return createGitHubConnector(token, { host: process.env.GH_HOST || configuration.githubHost });
   } catch (error) {
     console.warn(
       `Warning: Failed to initialize GitHub connector: ${error instanceof Error ? error.message : String(error)}`,
@@ -45,34 +60,264 @@ const createGitLabConnectorIfAvailable = (configuration: Configuration): Connect
   }
 };
 
+/**
+ * Attempts to create a Bitbucket connector if BITBUCKET_TOKEN is available.
+ * Uses Bitbucket Data Center when BITBUCKET_HOST is set, otherwise Bitbucket Cloud.
+ * @returns Bitbucket connector or null if token not available
+ */
+const createBitbucketConnectorIfAvailable = (configuration: Configuration): Connector | null => {
+  const token = process.env.BITBUCKET_TOKEN;
+  if (!token || token.trim() === '') {
+    return null;
+  }
+
+  try {
+    return createBitbucketConnector(token, configuration, {
+      host: process.env.BITBUCKET_HOST,
+      username: process.env.BITBUCKET_USERNAME,
+    });
+  } catch (error) {
+    console.warn(
+      `Warning: Failed to initialize Bitbucket connector: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+};
+
+/**
+ * Attempts to create a Gitea connector if GITEA_TOKEN is available.
+ * Uses GITEA_HOST for self-hosted Gitea / Forgejo instances, otherwise gitea.com.
+ * @returns Gitea connector or null if token not available
+ */
+const createGiteaConnectorIfAvailable = (configuration: Configuration): Connector | null => {
+  const token = process.env.GITEA_TOKEN;
+  if (!token || token.trim() === '') {
+    return null;
+  }
+
+  try {
+    return createGiteaConnector(token, configuration, { host: process.env.GITEA_HOST });
+  } catch (error) {
+    console.warn(
+      `Warning: Failed to initialize Gitea connector: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+};
+
+/**
+ * Attempts to create an Azure DevOps connector if AZURE_DEVOPS_TOKEN is available.
+ * Requires the azureDevOps organization in the configuration.
+ * @returns Azure DevOps connector or null if token not available
+ */
+const createAzureDevOpsConnectorIfAvailable = (configuration: Configuration): Connector | null => {
+  const token = process.env.AZURE_DEVOPS_TOKEN;
+  if (!token || token.trim() === '') {
+    return null;
+  }
+
+  try {
+    return createAzureDevOpsConnector(token, configuration);
+  } catch (error) {
+    console.warn(
+      `Warning: Failed to initialize Azure DevOps connector: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+};
+
+/**
+ * Attempts to create a local git connector if localRepositoryDirectories are configured.
+ * @returns Local git connector or null if no directories are configured
+ */
+const createLocalGitConnectorIfAvailable = (configuration: Configuration): Connector | null => {
+  if (!configuration.localRepositoryDirectories?.length) {
+    return null;
+  }
+
+  try {
+    return createLocalGitConnector(configuration);
+  } catch (error) {
+    console.warn(
+      `Warning: Failed to initialize local git connector: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+};
+
+/**
+ * Creates the platform connector for a configured account.
+ * @throws Error if the account settings are invalid for its platform
+ */
+const createAccountConnector = (
+  account: AccountConfiguration,
+  token: string,
+  configuration: Configuration,
+): Connector => {
+  switch (account.platform) {
+    case 'github':
+      return createGitHubConnector(token, { host: account.host });
+    case 'gitlab':
+      return createGitLabConnector(token, configuration, { host: account.host });
+    case 'bitbucket':
+      return createBitbucketConnector(token, configuration, {
+        host: account.host,
+        username: account.username,
+      });
+    case 'gitea':
+      return createGiteaConnector(token, configuration, { host: account.host });
+    case 'azure-devops':
+      return createAzureDevOpsConnector(token, {
+        ...configuration,
+        azureDevOps: {
+          organization: account.organization ?? '',
+          projects: account.projects,
+          host: account.host,
+        },
+      });
+    default:
+      throw new Error(`Unknown platform: ${String(account.platform)}`);
+  }
+};
+
+/**
+ * Creates one labeled connector per configured account, wrapped with the account settings.
+ * Accounts whose token environment variable is not set are skipped.
+ * @returns Connectors for all usable accounts
+ */
+const createAccountConnectors = (
+  configuration: Configuration,
+  wrap: ConnectorWrapper,
+): Connector[] => {
+  const connectors: Connector[] = [];
+
+  for (const account of configuration.accounts ?? []) {
+    const token = account.tokenEnv ? process.env[account.tokenEnv] : undefined;
+    if (!token || token.trim() === '') {
+      console.warn(
+        `Warning: Skipping account "${account.label}": environment variable ${account.tokenEnv} is not set`,
+      );
+      continue;
+    }
+
+    try {
+      connectors.push(
+        wrap(
+          new LabeledConnector(
+            createAccountConnector(account, token, configuration),
+            account.label,
+          ),
+          { account },
+        ),
+      );
+    } catch (error) {
+      console.warn(
+        `Warning: Failed to initialize account "${account.label}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return connectors;
+};
+
+/**
+ * Returns a function wrapping connectors in the on-disk response cache,
+ * or passing them through when the cache is disabled.
+ * Cached responses are keyed by the connector settings and the base branches.
+ */
+const createResponseCacheWrapper = (
+  configuration: Configuration,
+  useCache: boolean,
+): ConnectorWrapper => {
+  if (!useCache || configuration.cache?.enabled === false) {
+    return (connector) => connector;
+  }
+  const cache = new ResponseCache(getCacheDirectoryPath());
+  return (connector, settings) =>
+    new CachingConnector(connector, cache, {
+      ttlMinutes: configuration.cache?.ttlMinutes,
+      settings: { baseBranches: configuration.baseBranches, ...settings },
+    });
+};
+
 /**
  * Loads application configuration and initializes all available connectors.
  * Automatically detects which platforms to use based on available tokens:
- * - GH_TOKEN → GitHub (no configuration needed)
+ * - GH_TOKEN → GitHub, or GitHub Enterprise Server with GH_HOST / githubHost
  * - GITLAB_TOKEN → GitLab (uses baseBranches configuration)
+ * - BITBUCKET_TOKEN → Bitbucket Cloud, or Data Center with BITBUCKET_HOST (uses baseBranches configuration)
+ * - GITEA_TOKEN → Gitea / Forgejo at GITEA_HOST (uses baseBranches configuration)
+ * - AZURE_DEVOPS_TOKEN → Azure DevOps (uses azureDevOps and baseBranches configuration)
+ * - localRepositoryDirectories → Local git (uses baseBranches and authorEmails configuration)
+ * - accounts → one labeled connector per configured account (token read from its tokenEnv)
+ *
+ * Remote connectors are wrapped in the on-disk response cache unless it is disabled
+ * in the configuration or by options.useCache.
  *
+ * @param options.useCache - Set to false to bypass the response cache (default: true)
  * @returns Array of initialized connectors (may be empty if no tokens available)
  */
-export const initializeConnectors = async (): Promise<Connector[]> => {
+export const initializeConnectors = async (
+  options: { useCache?: boolean } = {},
+): Promise<Connector[]> => {
   try {
     const configuration = await loadConfiguration();
+    const withResponseCache = createResponseCacheWrapper(configuration, options.useCache ?? true);
     const connectors: Connector[] = [];
 
-    // Try to initialize GitHub connector (doesn't use configuration)
-    const githubConnector = createGitHubConnectorIfAvailable();
+    // Try to initialize GitHub connector (uses configuration for githubHost only)
+    const githubConnector = createGitHubConnectorIfAvailable(configuration);
     if (githubConnector) {
-      connectors.push(githubConnector);
+      connectors.push(
+        withResponseCache(githubConnector, {
+          host: process.env.GH_HOST || configuration.githubHost,
+        }),
+      );
     }
 
     // Try to initialize GitLab connector (uses configuration for baseBranches)
     const gitlabConnector = createGitLabConnectorIfAvailable(configuration);
     if (gitlabConnector) {
-      connectors.push(gitlabConnector);
+      connectors.push(withResponseCache(gitlabConnector, { host: process.env.GITLAB_HOST }));
+    }
+
+    // Try to initialize Bitbucket connector (uses configuration for baseBranches)
+    const bitbucketConnector = createBitbucketConnectorIfAvailable(configuration);
+    if (bitbucketConnector) {
+      connectors.push(
+        withResponseCache(bitbucketConnector, {
+          host: process.env.BITBUCKET_HOST,
+          username: process.env.BITBUCKET_USERNAME,
+        }),
+      );
+    }
+
+    // Try to initialize Gitea connector (uses configuration for baseBranches)
+    const giteaConnector = createGiteaConnectorIfAvailable(configuration);
+    if (giteaConnector) {
+      connectors.push(withResponseCache(giteaConnector, { host: process.env.GITEA_HOST }));
+    }
+
+    // Try to initialize Azure DevOps connector (uses configuration for scope and baseBranches)
+    const azureDevOpsConnector = createAzureDevOpsConnectorIfAvailable(configuration);
+    if (azureDevOpsConnector) {
+      connectors.push(
+        withResponseCache(azureDevOpsConnector, { azureDevOps: configuration.azureDevOps }),
+      );
     }
 
+    // Try to initialize local git connector (uses configuration for directories and emails)
+    const localGitConnector = createLocalGitConnectorIfAvailable(configuration);
+    if (localGitConnector) {
+      connectors.push(localGitConnector);
+    }
+
+    // Initialize connectors for configured named accounts
+    connectors.push(...createAccountConnectors(configuration, withResponseCache));
+
     if (connectors.length === 0) {
       throw new Error(
-        'No connectors available. Please provide at least one token: GH_TOKEN or GITLAB_TOKEN',
+        'No connectors available. Please provide at least one token (GH_TOKEN, GITLAB_TOKEN, BITBUCKET_TOKEN, GITEA_TOKEN or AZURE_DEVOPS_TOKEN) or configure localRepositoryDirectories or accounts',
       );
     }
 
@@ -83,3 +328,24 @@ export const initializeConnectors = async (): Promise<Connector[]> => {
     );
   }
 };
+
+/**
+ * Creates one offline connector per connector synced into the local contribution store.
+ * Used to answer reports without network access.
+ *
+ * @returns Array of stored connectors
+ */
+export const initializeStoredConnectors = async (): Promise<Connector[]> => {
+  const store = new ContributionStore(getStoreDirectoryPath());
+  const state = await store.readState();
+
+  const connectors = Object.entries(state.connectors).map(
+    ([name, syncState]) => new StoredConnector(store, name, syncState),
+  );
+
+  if (connectors.length === 0) {
+    throw new Error('No synced contributions found. Run "git-activity-tracer sync" first');
+  }
+
+  return connectors;
+};
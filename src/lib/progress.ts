@@ -0,0 +1,19 @@
+import { format } from 'util';
+
+let progressStream: NodeJS.WritableStream = process.stdout;
+
+/**
+ * Writes progress messages to stderr from now on, so that output streamed to stdout
+ * (ndjson, template) is not mixed with the progress messages of commands and connectors.
+ */
+export const sendProgressToStderr = (): void => {
+  progressStream = process.stderr;
+};
+
+/**
+ * Writes a progress message, formatted like console.log, to stdout or, after
+ * sendProgressToStderr, to stderr. Command output itself is written with console.log.
+ */
+export const logProgress = (...parts: unknown[]): void => {
+  progressStream.write(`${format(...parts)}\n`);
+};
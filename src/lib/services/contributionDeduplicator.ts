@@ -20,8 +20,11 @@ const makeKey = (contribution: Contribution): string => {
     return `commit|${contribution.url}`;
   }
 
-  // For PRs and reviews, URL is also unique
-  if (contribution.url && (contribution.type === 'pr' || contribution.type === 'review')) {
+  // For PRs, reviews and merges, URL is also unique
+  if (
+    contribution.url &&
+    (contribution.type === 'pr' || contribution.type === 'review' || contribution.type === 'merge')
+  ) {
     return `${contribution.type}|${contribution.url}`;
   }
 
@@ -99,3 +102,35 @@ export const deduplicateContributions = (contributions: Contribution[]): Contrib
 
   return Array.from(seen.values());
 };
+
+/**
+ * Collapses comments to one per thread and UTC day, keeping the earliest comment.
+ * The thread is identified by the parent URL (PR/issue/MR), falling back to
+ * repository and parent title. Other contribution types are returned unchanged.
+ *
+ * @param contributions - Array of contributions
+ * @returns Array with at most one comment per thread per day, in original order
+ */
+export const deduplicateCommentsPerThreadPerDay = (
+  contributions: Contribution[],
+): Contribution[] => {
+  const earliestByThreadDay = new Map<string, Contribution>();
+
+  for (const contribution of contributions) {
+    if (contribution.type !== 'comment') continue;
+
+    const thread =
+      contribution.url ?? `${contribution.repository ?? ''}|${contribution.text ?? ''}`;
+    const key = `${thread}|${new Date(contribution.timestamp).toISOString().slice(0, 10)}`;
+    const existing = earliestByThreadDay.get(key);
+
+    if (!existing || Date.parse(contribution.timestamp) < Date.parse(existing.timestamp)) {
+      earliestByThreadDay.set(key, contribution);
+    }
+  }
+
+  const keptComments = new Set(earliestByThreadDay.values());
+  return contributions.filter(
+    (contribution) => contribution.type !== 'comment' || keptComments.has(contribution),
+  );
+};
@@ -0,0 +1,123 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import isoWeek from 'dayjs/plugin/isoWeek.js';
+import type {
+  Contribution,
+  ContributionSummary,
+  SummaryBucket,
+  SummaryDimension,
+} from '../../types.js';
+
+dayjs.extend(utc);
+dayjs.extend(isoWeek);
+
+/**
+ * Key for contributions without a repository, project ID or ticket.
+ */
+export const UNASSIGNED_KEY = '(none)';
+
+/**
+ * Formats the ISO week of a timestamp, e.g. 2025-W02.
+ * Uses the ISO week-numbering year, so the first days of January can belong to the previous year.
+ */
+export const toIsoWeekKey = (timestamp: string): string => {
+  const date = dayjs.utc(timestamp);
+  return `${date.isoWeekYear()}-W${String(date.isoWeek()).padStart(2, '0')}`;
+};
+
+const toDayKey = (timestamp: string): string => dayjs.utc(timestamp).format('YYYY-MM-DD');
+
+/**
+ * Keys of the buckets a contribution counts in; one per dimension, except for tickets,
+ * where a contribution referencing several tickets counts for each of them.
+ */
+const DIMENSION_KEYS: Record<SummaryDimension, (contribution: Contribution) => string[]> = {
+  day: (contribution) => [toDayKey(contribution.timestamp)],
+  week: (contribution) => [toIsoWeekKey(contribution.timestamp)],
+  repository: (contribution) => [contribution.repository ?? UNASSIGNED_KEY],
+  projectId: (contribution) => [contribution.projectId ?? UNASSIGNED_KEY],
+  ticket: (contribution) => contribution.tickets?.map((ticket) => ticket.key) ?? [UNASSIGNED_KEY],
+  type: (contribution) => [contribution.type],
+};
+
+/**
+ * Aggregates contributions, which must be sorted by timestamp (oldest first), into one bucket.
+ */
+const createBucket = (key: string, contributions: Contribution[]): SummaryBucket => {
+  const byType: SummaryBucket['byType'] = {};
+  const days = new Set<string>();
+  for (const contribution of contributions) {
+    byType[contribution.type] = (byType[contribution.type] ?? 0) + 1;
+    days.add(toDayKey(contribution.timestamp));
+  }
+
+  return {
+    key,
+    count: contributions.length,
+    activeDays: days.size,
+    firstActivity: contributions[0].timestamp,
+    lastActivity: contributions[contributions.length - 1].timestamp,
+    byType,
+  };
+};
+
+/**
+ * Groups items by key, in the order the keys first occur; items keep their order in a group.
+ * An item with several keys (e.g. tickets) is in each of their groups, one without keys in none.
+ *
+ * @param items - Items to group
+ * @param toKeys - Key or keys of an item
+ */
+export const groupBy = <T>(
+  items: T[],
+  toKeys: (item: T) => string | string[],
+): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const keys = toKeys(item);
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      const group = groups.get(key);
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(key, [item]);
+      }
+    }
+  }
+  return groups;
+};
+
+/**
+ * Aggregates contributions by day, ISO week, repository, project ID, ticket and type.
+ * Days and weeks are in UTC, like the daily grouping of the report formatters.
+ *
+ * @param contributions - Contributions to summarize, in any order
+ * @returns Total and per-dimension buckets with counts, active days and first/last activity
+ */
+export const summarizeContributions = (contributions: Contribution[]): ContributionSummary => {
+  const sorted = [...contributions].sort(
+    (a, b) => dayjs(a.timestamp).valueOf() - dayjs(b.timestamp).valueOf(),
+  );
+
+  const summarize = (dimension: SummaryDimension): SummaryBucket[] => {
+    const buckets = [...groupBy(sorted, DIMENSION_KEYS[dimension])].map(([key, group]) =>
+      createBucket(key, group),
+    );
+    if (dimension === 'day' || dimension === 'week') {
+      return buckets.sort((a, b) => a.key.localeCompare(b.key));
+    }
+    return buckets.sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+  };
+
+  return {
+    total: sorted.length > 0 ? createBucket('total', sorted) : undefined,
+    buckets: {
+      day: summarize('day'),
+      week: summarize('week'),
+      repository: summarize('repository'),
+      projectId: summarize('projectId'),
+      ticket: summarize('ticket'),
+      type: summarize('type'),
+    },
+  };
+};
@@ -0,0 +1,124 @@
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import type { Connector } from '../../connectors/types.js';
+import type { ContributionStore, SyncWindowUpdate } from '../store/contributionStore.js';
+import { logProgress } from '../progress.js';
+
+/**
+ * Days fetched on the first sync of a connector when no start date is given.
+ */
+const INITIAL_SYNC_DAYS = 90;
+
+/**
+ * Days re-fetched before the last sync, for activity the platforms report late
+ * (e.g. pushes of older commits, pull requests merged after the last sync).
+ */
+const RESYNC_OVERLAP_DAYS = 1;
+
+/**
+ * Outcome of syncing one connector.
+ */
+export interface ConnectorSyncResult {
+  connector: string;
+  from: string;
+  to: string;
+  contributionCount: number;
+  error?: string;
+  /** Warnings of a sync that fetched incomplete data, which is then not stored */
+  warnings?: string[];
+}
+
+/**
+ * Determines where a connector's sync window starts:
+ * the given start date, shortly before the last sync, or INITIAL_SYNC_DAYS back.
+ */
+const resolveSyncStart = (lastSyncedTo: string | undefined, now: Dayjs, from?: Dayjs): Dayjs => {
+  if (from) {
+    return from;
+  }
+  if (lastSyncedTo) {
+    return dayjs(lastSyncedTo).subtract(RESYNC_OVERLAP_DAYS, 'day');
+  }
+  return now.subtract(INITIAL_SYNC_DAYS, 'day').startOf('day');
+};
+
+/**
+ * Fetches what is new since the last sync from every connector and stores it.
+ * Connectors are fetched in parallel; the store is updated one connector at a time.
+ * A failing connector keeps its previous sync state and does not affect the others;
+ * so does a connector fetching with warnings, as its window would be replaced by partial data.
+ *
+ * @param connectors - Connectors to sync
+ * @param store - Local contribution store
+ * @param options.from - Re-sync from this date instead of the last sync
+ * @param options.now - End of the sync window (default: now)
+ * @returns One result per connector
+ */
+export const syncContributions = async (
+  connectors: Connector[],
+  store: ContributionStore,
+  options: { from?: Dayjs; now?: Dayjs } = {},
+): Promise<ConnectorSyncResult[]> => {
+  const now = options.now ?? dayjs();
+  const state = await store.readState();
+
+  const results = await Promise.allSettled(
+    connectors.map(async (connector): Promise<SyncWindowUpdate> => {
+      const name = connector.getPlatformName();
+      const from = resolveSyncStart(state.connectors[name]?.syncedTo, now, options.from);
+
+      logProgress(`Syncing ${name} from ${from.format('YYYY-MM-DD HH:mm')}...`);
+      const [login, contributions, allCommits] = await Promise.all([
+        connector.getUserLogin(),
+        connector.fetchContributions(from, now),
+        connector.fetchAllCommits(from, now),
+      ]);
+
+      return {
+        connector: name,
+        login,
+        from: from.toISOString(),
+        to: now.toISOString(),
+        contributions,
+        allCommits,
+      };
+    }),
+  );
+
+  const syncResults: ConnectorSyncResult[] = [];
+  for (const [index, result] of results.entries()) {
+    const name = connectors[index].getPlatformName();
+    const warnings = connectors[index].takeWarnings?.() ?? [];
+    if (result.status === 'rejected') {
+      syncResults.push({
+        connector: name,
+        from: '',
+        to: '',
+        contributionCount: 0,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+      continue;
+    }
+    if (warnings.length > 0) {
+      syncResults.push({
+        connector: name,
+        from: result.value.from,
+        to: result.value.to,
+        contributionCount: 0,
+        error: 'Fetched data is incomplete and was not stored',
+        warnings,
+      });
+      continue;
+    }
+
+    await store.replaceWindow(result.value);
+    syncResults.push({
+      connector: name,
+      from: result.value.from,
+      to: result.value.to,
+      contributionCount: result.value.contributions.length + result.value.allCommits.length,
+    });
+  }
+
+  return syncResults;
+};
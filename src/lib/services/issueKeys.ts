@@ -0,0 +1,177 @@
+import type { Contribution, TicketReference } from '../../types.js';
+import type { IssueTrackerConfiguration } from '../config/index.js';
+import { ValidationError } from '../errors/validationError.js';
+
+/**
+ * Prefixes of identifiers shaped like issue keys that are not, e.g. UTF-8, SHA-256, ISO-8601.
+ */
+const NON_ISSUE_KEY_PREFIXES = [
+  'AES',
+  'CVE',
+  'ECMA',
+  'ES',
+  'GMT',
+  'HTTP',
+  'ISO',
+  'MD',
+  'PEP',
+  'RFC',
+  'RSA',
+  'SHA',
+  'SSL',
+  'TLS',
+  'UTC',
+  'UTF',
+];
+
+/**
+ * Jira project key: an uppercase letter, then uppercase letters or digits.
+ */
+const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]+$/;
+
+/**
+ * Creates the pattern of Jira issue keys: a project key, a dash and the issue number,
+ * e.g. ABC-123. Without project keys, any project key except NON_ISSUE_KEY_PREFIXES matches.
+ *
+ * @param projectKeys - Jira project keys to match only, e.g. ['ABC', 'PAY2']
+ * @throws ValidationError when a project key is not a valid Jira project key
+ */
+export const createIssueKeyPattern = (projectKeys: string[] = []): RegExp => {
+  const invalid = projectKeys.filter((projectKey) => !PROJECT_KEY_PATTERN.test(projectKey));
+  if (invalid.length > 0) {
+    throw new ValidationError(`Invalid Jira project key(s): ${invalid.join(', ')}`, [
+      'Project keys are uppercase letters and digits starting with a letter, e.g. "ABC"',
+      'Edit tempo.projectKeys in the configuration (git-activity-tracer config shows its location)',
+    ]);
+  }
+  return projectKeys.length > 0
+    ? new RegExp(`\\b(?:${projectKeys.join('|')})-\\d+\\b`)
+    : new RegExp(`\\b(?!(?:${NON_ISSUE_KEY_PREFIXES.join('|')})-)[A-Z][A-Z0-9]+-\\d+\\b`);
+};
+
+const ISSUE_KEY_PATTERN = createIssueKeyPattern();
+
+/**
+ * Name of the issue tracker whose tickets are Jira issues.
+ */
+const JIRA_TRACKER_NAME = 'jira';
+
+/**
+ * Trackers used when the configuration has no issueTrackers: Jira-style keys, without links.
+ */
+export const DEFAULT_ISSUE_TRACKERS: IssueTrackerConfiguration[] = [
+  { name: JIRA_TRACKER_NAME, pattern: ISSUE_KEY_PATTERN.source },
+];
+
+/**
+ * Finds the first issue key in a text such as a commit message, PR title or branch name.
+ *
+ * @param pattern - Issue key pattern (see createIssueKeyPattern), any project key by default
+ */
+export const findIssueKey = (
+  text: string | undefined,
+  pattern: RegExp = ISSUE_KEY_PATTERN,
+): string | undefined => text?.match(pattern)?.[0];
+
+/**
+ * Derives the Jira issue a contribution belongs to: its first ticket of the jira tracker
+ * (attached by attachTickets from its text, then its branch), then the project ID mapped
+ * to its repository.
+ *
+ * @param pattern - Issue key pattern (see createIssueKeyPattern) the ticket has to match
+ * @returns The issue key, or undefined without a jira ticket when the repository is not mapped
+ */
+export const resolveIssueKey = (
+  contribution: Contribution,
+  pattern: RegExp = ISSUE_KEY_PATTERN,
+): string | undefined =>
+  contribution.tickets?.find(
+    (ticket) =>
+      ticket.tracker === JIRA_TRACKER_NAME && findIssueKey(ticket.key, pattern) === ticket.key,
+  )?.key ?? contribution.projectId;
+
+/**
+ * Fills the URL template of a tracker; undefined without a template, or when the template
+ * needs the repository and the contribution has none.
+ */
+const createTicketUrl = (
+  template: string | undefined,
+  match: RegExpMatchArray,
+  contribution: Contribution,
+): string | undefined => {
+  if (!template || (template.includes('{repository}') && !contribution.repository)) {
+    return undefined;
+  }
+  const values: Record<string, string> = {
+    key: encodeURIComponent(match[0]),
+    id: encodeURIComponent(match[1] ?? match[0]),
+    repository: contribution.repository ?? '',
+  };
+  return template.replace(/\{(key|id|repository)\}/g, (_, name: string) => values[name]);
+};
+
+/**
+ * Creates a function that finds the tickets a contribution references, in its text
+ * (commit message, PR or issue title) and its branch (target).
+ *
+ * @param trackers - Ticket key patterns and URL templates per tracker
+ * @throws ValidationError when a pattern is not a valid regular expression
+ */
+export const createTicketExtractor = (
+  trackers: IssueTrackerConfiguration[] = DEFAULT_ISSUE_TRACKERS,
+): ((contribution: Contribution) => TicketReference[]) => {
+  const compiled = trackers.map((tracker) => {
+    try {
+      return { ...tracker, pattern: new RegExp(tracker.pattern, 'g') };
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid pattern of issue tracker ${tracker.name}: ${error instanceof Error ? error.message : String(error)}`,
+        [
+          'Use a JavaScript regular expression, with backslashes escaped in JSON, e.g. "#(\\\\d+)"',
+          'Edit issueTrackers in the configuration (git-activity-tracer config shows its location)',
+        ],
+      );
+    }
+  });
+
+  return (contribution) => {
+    const tickets = new Map<string, TicketReference>();
+    for (const text of [contribution.text, contribution.target]) {
+      if (!text) {
+        continue;
+      }
+      for (const tracker of compiled) {
+        for (const match of text.matchAll(tracker.pattern)) {
+          const id = JSON.stringify([tracker.name, match[0]]);
+          if (!match[0] || tickets.has(id)) {
+            continue;
+          }
+          const ticket: TicketReference = { key: match[0], tracker: tracker.name };
+          const url = createTicketUrl(tracker.url, match, contribution);
+          if (url) {
+            ticket.url = url;
+          }
+          tickets.set(id, ticket);
+        }
+      }
+    }
+    return [...tickets.values()];
+  };
+};
+
+/**
+ * Attaches the referenced tickets to contributions; contributions without tickets are unchanged.
+ *
+ * @param contributions - Contributions to scan
+ * @param trackers - Issue trackers from the configuration, Jira-style keys when omitted
+ */
+export const attachTickets = (
+  contributions: Contribution[],
+  trackers?: IssueTrackerConfiguration[],
+): Contribution[] => {
+  const extractTickets = createTicketExtractor(trackers);
+  return contributions.map((contribution) => {
+    const tickets = extractTickets(contribution);
+    return tickets.length > 0 ? { ...contribution, tickets } : contribution;
+  });
+};
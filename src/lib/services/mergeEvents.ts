@@ -0,0 +1,36 @@
+import type { Dayjs } from 'dayjs';
+import type { Contribution } from '../../types.js';
+
+/**
+ * Derives a 'merge' contribution for every pull/merge request merged within the range.
+ * The merge event carries the merge timestamp, so delivered work shows up on the day it landed.
+ *
+ * Pass the pull requests fetched by merge date (Connector.fetchMergedPullRequests) along with
+ * the reported ones: platforms report pull requests by creation date, so a pull request opened
+ * before the range and merged within it is only found by merge date.
+ */
+export const deriveMergeEvents = (
+  contributions: Contribution[],
+  from: Dayjs,
+  to: Dayjs,
+): Contribution[] => {
+  const fromTimestamp = from.valueOf();
+  const toTimestamp = to.valueOf();
+
+  return contributions
+    .filter((contribution) => contribution.type === 'pr' && contribution.mergedAt)
+    .filter((contribution) => {
+      const mergedTimestamp = new Date(contribution.mergedAt!).getTime();
+      return mergedTimestamp >= fromTimestamp && mergedTimestamp <= toTimestamp;
+    })
+    .map((contribution): Contribution => {
+      // Diff statistics stay on the pull request so they are not counted twice
+      const {
+        additions: _additions,
+        deletions: _deletions,
+        changedFiles: _changedFiles,
+        ...rest
+      } = contribution;
+      return { ...rest, type: 'merge', timestamp: contribution.mergedAt! };
+    });
+};
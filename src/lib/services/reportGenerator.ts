@@ -1,46 +1,135 @@
 import type { Dayjs } from 'dayjs';
-import type { Contribution } from '../../types.js';
+import type {
+  Contribution,
+  ContributionReport,
+  ReportWarning,
+  WorkTimeEntry,
+} from '../../types.js';
 import type { Connector } from '../../connectors/types.js';
 import type { Configuration } from '../config/index.js';
-import { deduplicateContributions } from './contributionDeduplicator.js';
+import {
+  deduplicateCommentsPerThreadPerDay,
+  deduplicateContributions,
+} from './contributionDeduplicator.js';
+import { deriveMergeEvents } from './mergeEvents.js';
+import { attachTickets } from './issueKeys.js';
+import type { WorkSession, WorkTimeOptions } from './workTimeEstimator.js';
+import {
+  estimateWorkSessions,
+  resolveWorkTimeOptions,
+  resolveTimeZone,
+  summarizeWorkTime,
+} from './workTimeEstimator.js';
+import { logProgress } from '../progress.js';
+
+/**
+ * Contribution report with the work time estimated from it.
+ */
+export interface WorkTimeReport extends ContributionReport {
+  sessions: WorkSession[];
+  /** Estimated work time per day, project ID and repository */
+  entries: WorkTimeEntry[];
+}
+
+/**
+ * Collects the warnings a connector recorded while fetching.
+ */
+const takeConnectorWarnings = (connector: Connector, name: string): ReportWarning[] => {
+  return (connector.takeWarnings?.() ?? []).map((message) => ({ source: name, message }));
+};
+
+/**
+ * Turns a rejected connector into a report warning, as all its contributions are missing.
+ */
+const toConnectorFailureWarning = (name: string, reason: unknown): ReportWarning => {
+  const message = reason instanceof Error ? reason.message : String(reason);
+  console.warn(`Warning: Failed to fetch from ${name}: ${message}`);
+  return { source: name, message: `Failed to fetch contributions: ${message}` };
+};
 
 /**
  * Fetches contributions from multiple connectors and merges them.
  * Contributions are deduplicated and sorted by timestamp.
+ * Failed connectors and connector warnings are collected as report warnings.
  */
 const fetchAndMergeContributions = async (
   connectors: Array<{ connector: Connector; name: string }>,
   from: Dayjs,
   to: Dayjs,
-): Promise<Contribution[]> => {
+): Promise<ContributionReport> => {
   const allContributions: Contribution[] = [];
+  const warnings: ReportWarning[] = [];
 
   // Fetch from all connectors in parallel
   const results = await Promise.allSettled(
     connectors.map(async ({ connector, name }) => {
-      console.log(`Fetching contributions from ${name}...`);
+      logProgress(`Fetching contributions from ${name}...`);
       const contributions = await connector.fetchContributions(from, to);
-      console.log(`✓ Found ${contributions.length} contributions from ${name}`);
+      logProgress(`✓ Found ${contributions.length} contributions from ${name}`);
       return contributions;
     }),
   );
 
   // Collect successful results
-  for (const result of results) {
+  for (const [index, result] of results.entries()) {
+    const { connector, name } = connectors[index];
     if (result.status === 'fulfilled') {
       allContributions.push(...result.value);
     } else {
-      console.warn(`Warning: Failed to fetch from a connector: ${result.reason}`);
+      warnings.push(toConnectorFailureWarning(name, result.reason));
     }
+    warnings.push(...takeConnectorWarnings(connector, name));
   }
 
   // Deduplicate contributions
   const uniqueContributions = deduplicateContributions(allContributions);
 
   // Sort by timestamp (newest first)
-  return uniqueContributions.sort((a, b) => {
+  const contributions = uniqueContributions.sort((a, b) => {
     return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
   });
+
+  return { contributions, warnings };
+};
+
+/**
+ * Fetches the pull/merge requests merged within the range from the connectors supporting it,
+ * when merge events are enabled. Failures are collected as report warnings; merge events
+ * then only cover the pull requests returned with the contributions.
+ */
+const fetchMergedPullRequests = async (
+  connectors: Array<{ connector: Connector; name: string }>,
+  configuration: Configuration,
+  from: Dayjs,
+  to: Dayjs,
+): Promise<ContributionReport> => {
+  const contributions: Contribution[] = [];
+  const warnings: ReportWarning[] = [];
+  if (!configuration.emitMergeEvents) {
+    return { contributions, warnings };
+  }
+
+  const results = await Promise.allSettled(
+    connectors.map(async ({ connector, name }) => {
+      if (!connector.fetchMergedPullRequests) {
+        return [];
+      }
+      logProgress(`Fetching merged pull requests from ${name}...`);
+      return connector.fetchMergedPullRequests(from, to);
+    }),
+  );
+
+  for (const [index, result] of results.entries()) {
+    const { connector, name } = connectors[index];
+    if (result.status === 'fulfilled') {
+      contributions.push(...result.value);
+    } else {
+      warnings.push(toConnectorFailureWarning(name, result.reason));
+    }
+    warnings.push(...takeConnectorWarnings(connector, name));
+  }
+
+  return { contributions, warnings };
 };
 
 /**
@@ -62,41 +151,98 @@ const enrichContributionsWithProjectIds = (
   });
 };
 
+/**
+ * Applies the optional comment collapsing (one comment per thread per day).
+ */
+const applyCommentDeduplication = (
+  contributions: Contribution[],
+  configuration: Configuration,
+): Contribution[] => {
+  return configuration.deduplicateCommentsPerDay
+    ? deduplicateCommentsPerThreadPerDay(contributions)
+    : contributions;
+};
+
+/**
+ * Adds the optional merge events for pull/merge requests merged within the range,
+ * from the reported pull requests and the ones fetched by merge date.
+ */
+const applyMergeEvents = (
+  contributions: Contribution[],
+  mergedPullRequests: Contribution[],
+  configuration: Configuration,
+  from: Dayjs,
+  to: Dayjs,
+): Contribution[] => {
+  if (!configuration.emitMergeEvents) {
+    return contributions;
+  }
+  const mergeEvents = deriveMergeEvents([...contributions, ...mergedPullRequests], from, to);
+  if (mergeEvents.length === 0) {
+    return contributions;
+  }
+  return deduplicateContributions([...contributions, ...mergeEvents]).sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+  );
+};
+
 /**
  * Generates a contribution report for the given date range.
  * Fetches contributions from all connectors in parallel, deduplicates them,
- * enriches with project IDs, and sorts by timestamp.
+ * enriches with project IDs and tickets, and sorts by timestamp.
  *
  * @param connectors - Array of connector instances
  * @param configuration - Application configuration
  * @param from - Start date for the report
  * @param to - End date for the report
- * @returns Array of enriched and deduplicated contributions
+ * @returns Enriched and deduplicated contributions, with warnings when data is incomplete
  */
 export const generateReport = async (
   connectors: Connector[],
   configuration: Configuration,
   from: Dayjs,
   to: Dayjs,
-): Promise<Contribution[]> => {
+): Promise<ContributionReport> => {
   const connectorsWithNames = connectors.map((connector) => ({
     connector,
     name: connector.getPlatformName(),
   }));
 
-  console.log(
+  logProgress(
     `Initialized ${connectors.length} connector(s): ${connectorsWithNames.map((c) => c.name).join(', ')}`,
   );
 
-  const contributions = await fetchAndMergeContributions(connectorsWithNames, from, to);
-  const enrichedContributions = enrichContributionsWithProjectIds(
-    contributions,
-    configuration.repositoryProjectIds ?? {},
+  const { contributions, warnings } = await fetchAndMergeContributions(
+    connectorsWithNames,
+    from,
+    to,
+  );
+  const mergedPullRequests = await fetchMergedPullRequests(
+    connectorsWithNames,
+    configuration,
+    from,
+    to,
+  );
+  const enrichedContributions = attachTickets(
+    enrichContributionsWithProjectIds(
+      applyMergeEvents(
+        applyCommentDeduplication(contributions, configuration),
+        mergedPullRequests.contributions,
+        configuration,
+        from,
+        to,
+      ),
+      configuration.repositoryProjectIds ?? {},
+    ),
+    configuration.issueTrackers,
   );
 
-  console.log(`\nTotal: ${enrichedContributions.length} unique contributions\n`);
+  logProgress(`\nTotal: ${enrichedContributions.length} unique contributions\n`);
 
-  return enrichedContributions;
+  return {
+    contributions: enrichedContributions,
+    warnings: [...warnings, ...mergedPullRequests.warnings],
+  };
 };
 
 /**
@@ -113,40 +259,41 @@ export const generateReport = async (
  * @param configuration - Application configuration
  * @param from - Start date for the report
  * @param to - End date for the report
- * @returns Array of all contributions (commits from all branches + PRs + reviews)
+ * @returns All contributions (commits from all branches + PRs + reviews), with warnings when data is incomplete
  */
 export const generateCommitsReport = async (
   connectors: Connector[],
   configuration: Configuration,
   from: Dayjs,
   to: Dayjs,
-): Promise<Contribution[]> => {
+): Promise<ContributionReport> => {
   const connectorsWithNames = connectors.map((connector) => ({
     connector,
     name: connector.getPlatformName(),
   }));
 
-  console.log(
+  logProgress(
     `Initialized ${connectors.length} connector(s): ${connectorsWithNames.map((c) => c.name).join(', ')}`,
   );
-  console.log('Fetching all commits from all branches...\n');
+  logProgress('Fetching all commits from all branches...\n');
 
   const allContributions: Contribution[] = [];
+  const warnings: ReportWarning[] = [];
 
   // Fetch from all connectors in parallel
   // Each connector fetches both all commits AND regular contributions (PRs, reviews)
   const results = await Promise.allSettled(
     connectorsWithNames.map(async ({ connector, name }) => {
-      console.log(`Fetching commits from ${name}...`);
+      logProgress(`Fetching commits from ${name}...`);
 
       // Fetch commits from all branches
       const commits = await connector.fetchAllCommits(from, to);
 
-      console.log(`Fetching regular contributions from ${name}`);
+      logProgress(`Fetching regular contributions from ${name}`);
       // Also fetch regular contributions (PRs, reviews, and base branch commits)
       const regularContributions = await connector.fetchContributions(from, to);
 
-      console.log(
+      logProgress(
         `✓ Found ${commits.length + regularContributions.length} contributions from ${name}`,
       );
 
@@ -156,12 +303,14 @@ export const generateCommitsReport = async (
   );
 
   // Collect successful results
-  for (const result of results) {
+  for (const [index, result] of results.entries()) {
+    const { connector, name } = connectorsWithNames[index];
     if (result.status === 'fulfilled') {
       allContributions.push(...result.value);
     } else {
-      console.warn(`Warning: Failed to fetch from a connector: ${result.reason}`);
+      warnings.push(toConnectorFailureWarning(name, result.reason));
     }
+    warnings.push(...takeConnectorWarnings(connector, name));
   }
 
   // Deduplicate contributions (important since we might get same commits from both methods)
@@ -172,13 +321,82 @@ export const generateCommitsReport = async (
     return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
   });
 
-  // Enrich with project IDs
-  const enrichedContributions = enrichContributionsWithProjectIds(
-    sortedContributions,
-    configuration.repositoryProjectIds ?? {},
+  const mergedPullRequests = await fetchMergedPullRequests(
+    connectorsWithNames,
+    configuration,
+    from,
+    to,
+  );
+  warnings.push(...mergedPullRequests.warnings);
+
+  // Enrich with project IDs and referenced tickets
+  const enrichedContributions = attachTickets(
+    enrichContributionsWithProjectIds(
+      applyMergeEvents(
+        applyCommentDeduplication(sortedContributions, configuration),
+        mergedPullRequests.contributions,
+        configuration,
+        from,
+        to,
+      ),
+      configuration.repositoryProjectIds ?? {},
+    ),
+    configuration.issueTrackers,
   );
 
-  console.log(`\nTotal: ${enrichedContributions.length} unique contributions\n`);
+  logProgress(`\nTotal: ${enrichedContributions.length} unique contributions\n`);
+
+  return { contributions: enrichedContributions, warnings };
+};
 
-  return enrichedContributions;
+/**
+ * Estimates the work time for the given date range.
+ * Builds on the all-commits report, as commits on feature branches are work as well,
+ * and attributes the time of each work session to the project IDs and repositories
+ * of the contributions within it.
+ *
+ * @param connectors - Array of connector instances
+ * @param configuration - Application configuration (workTime session settings and time zone)
+ * @param from - Start date for the report
+ * @param to - End date for the report
+ * @param overrides - Session settings from the command line, taking precedence over the configuration
+ * @returns Contributions, work sessions and work time entries, with warnings when data is incomplete
+ */
+export const generateWorkTimeReport = async (
+  connectors: Connector[],
+  configuration: Configuration,
+  from: Dayjs,
+  to: Dayjs,
+  overrides: Partial<WorkTimeOptions> = {},
+): Promise<WorkTimeReport> => {
+  const options = resolveWorkTimeOptions(configuration.workTime, overrides);
+  const timeZone = resolveTimeZone(configuration.workTime?.timeZone);
+  const report = await generateCommitsReport(connectors, configuration, from, to);
+
+  const sessions = estimateWorkSessions(report.contributions, options);
+  logProgress(
+    `Estimated ${sessions.length} work session(s) (gap ${options.sessionGapMinutes} min, padding ${options.sessionPaddingMinutes} min)\n`,
+  );
+
+  return { ...report, sessions, entries: summarizeWorkTime(sessions, timeZone) };
+};
+
+/**
+ * Fails when a report is incomplete, for strict mode.
+ * Lists every warning so the failing connector can be fixed before re-running.
+ *
+ * @param report - Report to check
+ * @throws Error when the report has warnings
+ */
+export const assertCompleteReport = (report: ContributionReport): void => {
+  if (report.warnings.length === 0) {
+    return;
+  }
+
+  const details = report.warnings
+    .map((warning) => `  - [${warning.source}] ${warning.message}`)
+    .join('\n');
+  throw new Error(
+    `Report is incomplete (${report.warnings.length} warning(s)), refusing to write it in strict mode:\n${details}`,
+  );
 };
@@ -0,0 +1,122 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type { Contribution } from '../../types.js';
+import type { WorkSession } from './workTimeEstimator.js';
+import { resolveTimeZone } from './workTimeEstimator.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Estimated work time of one day on one issue or project, as booked in a time tracker.
+ */
+export interface DailyTimeEntry {
+  /** Issue key or project ID the time is booked on */
+  key: string;
+  /** Day (YYYY-MM-DD) in the time zone of the entries */
+  date: string;
+  /** Start of the first work on the key that day (ISO timestamp, UTC) */
+  start: string;
+  /** Start of the first work as time of day (HH:mm:ss) in the time zone of the entries */
+  startTime: string;
+  minutes: number;
+  /** First lines of the contribution texts, without duplicates */
+  descriptions: string[];
+  repositories: string[];
+}
+
+/**
+ * Daily time entries together with the time that could not be booked, per repository.
+ */
+export interface DailyTimeEntries {
+  entries: DailyTimeEntry[];
+  unmapped: Array<{ repository: string; minutes: number }>;
+}
+
+interface DailyTimeEntryDraft extends Omit<
+  DailyTimeEntry,
+  'start' | 'startTime' | 'descriptions' | 'repositories'
+> {
+  start: number;
+  descriptions: Set<string>;
+  repositories: Set<string>;
+}
+
+/**
+ * Groups the work time of sessions per day and booking key, with days and start times
+ * in the time zone of the time tracker.
+ * Time of contributions without a key is summed per repository instead.
+ *
+ * @param sessions - Work sessions (see estimateWorkSessions)
+ * @param keyOf - Booking key of a contribution, e.g. its issue key or project ID
+ * @param timeZone - IANA time zone of the days and start times, the local time zone by default
+ * @returns Entries ordered by start, then key; unmapped repositories by time spent
+ * @throws ValidationError when the time zone is unknown
+ */
+export const groupDailyTimeEntries = (
+  sessions: WorkSession[],
+  keyOf: (contribution: Contribution) => string | undefined,
+  timeZone?: string,
+): DailyTimeEntries => {
+  const zone = resolveTimeZone(timeZone);
+  const drafts = new Map<string, DailyTimeEntryDraft>();
+  const unmapped = new Map<string, number>();
+
+  for (const session of sessions) {
+    for (const { contribution, minutes } of session.contributions) {
+      const key = keyOf(contribution);
+      if (!key) {
+        const repository = contribution.repository ?? '(unknown)';
+        unmapped.set(repository, (unmapped.get(repository) ?? 0) + minutes);
+        continue;
+      }
+
+      const timestamp = dayjs(contribution.timestamp).tz(zone);
+      const date = timestamp.format('YYYY-MM-DD');
+      // The work leading up to a contribution starts at most at midnight of its day
+      const start = Math.max(
+        timestamp.subtract(minutes, 'minute').valueOf(),
+        timestamp.startOf('day').valueOf(),
+      );
+
+      const draftKey = JSON.stringify([date, key]);
+      let draft = drafts.get(draftKey);
+      if (!draft) {
+        draft = {
+          key,
+          date,
+          start,
+          minutes: 0,
+          descriptions: new Set(),
+          repositories: new Set(),
+        };
+        drafts.set(draftKey, draft);
+      }
+      draft.start = Math.min(draft.start, start);
+      draft.minutes += minutes;
+      const summary = contribution.text?.split('\n')[0].trim();
+      if (summary) {
+        draft.descriptions.add(summary);
+      }
+      if (contribution.repository) {
+        draft.repositories.add(contribution.repository);
+      }
+    }
+  }
+
+  return {
+    entries: [...drafts.values()]
+      .sort((a, b) => a.start - b.start || a.key.localeCompare(b.key))
+      .map((draft) => ({
+        ...draft,
+        start: dayjs.utc(draft.start).toISOString(),
+        startTime: dayjs(draft.start).tz(zone).format('HH:mm:ss'),
+        descriptions: [...draft.descriptions],
+        repositories: [...draft.repositories],
+      })),
+    unmapped: [...unmapped]
+      .map(([repository, minutes]) => ({ repository, minutes }))
+      .sort((a, b) => b.minutes - a.minutes || a.repository.localeCompare(b.repository)),
+  };
+};
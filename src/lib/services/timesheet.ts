@@ -0,0 +1,194 @@
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type {
+  Contribution,
+  Timesheet,
+  TimesheetRounding,
+  TimesheetUnit,
+  WorkTimeEntry,
+} from '../../types.js';
+import { ValidationError } from '../errors/validationError.js';
+import { resolveTimeZone } from './workTimeEstimator.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const ROUNDING_MODES: TimesheetRounding['mode'][] = ['up', 'down', 'nearest'];
+
+/**
+ * Parses a rounding rule: "<minutes>[:up|down|nearest]", e.g. "15:up" or "30".
+ * The mode defaults to nearest; "none" or "0" disable rounding.
+ *
+ * @throws ValidationError for malformed rules
+ */
+export const parseRoundingRule = (rule: string | undefined): TimesheetRounding | undefined => {
+  if (rule === undefined || rule === 'none' || rule === '0') {
+    return undefined;
+  }
+
+  const [minutesPart, modePart = 'nearest'] = rule.split(':');
+  const incrementMinutes = Number(minutesPart);
+  const mode = modePart as TimesheetRounding['mode'];
+  if (
+    !Number.isFinite(incrementMinutes) ||
+    incrementMinutes <= 0 ||
+    !ROUNDING_MODES.includes(mode)
+  ) {
+    throw new ValidationError(`Invalid rounding rule: ${rule}`, [
+      'Use <minutes>[:up|down|nearest], e.g. 15:up to round every cell up to quarter hours',
+      'Use none to disable rounding',
+    ]);
+  }
+  return { incrementMinutes, mode };
+};
+
+/**
+ * Rounds minutes to the increment of the rounding rule.
+ */
+export const roundMinutes = (minutes: number, rounding: TimesheetRounding | undefined): number => {
+  if (!rounding) {
+    return minutes;
+  }
+  const round = { up: Math.ceil, down: Math.floor, nearest: Math.round }[rounding.mode];
+  // Guards against floating point noise such as 15.000000001 minutes rounding up to 30
+  const increments = Math.round((minutes / rounding.incrementMinutes) * 1e6) / 1e6;
+  return round(increments) * rounding.incrementMinutes;
+};
+
+/**
+ * Value of a contribution or work time entry on the timesheet, before it is placed in a cell.
+ */
+interface TimesheetRecord {
+  date: string;
+  projectId?: string;
+  repository?: string;
+  /** Minutes (hours timesheet) or contributions (count timesheet) */
+  value: number;
+}
+
+/**
+ * Lists every day of the range, so days without activity show up as empty rows.
+ */
+const listDates = (from: Dayjs, to: Dayjs): string[] => {
+  const dates: string[] = [];
+  const last = to.format('YYYY-MM-DD');
+  for (let day = from.startOf('day'); day.format('YYYY-MM-DD') <= last; day = day.add(1, 'day')) {
+    dates.push(day.format('YYYY-MM-DD'));
+  }
+  return dates;
+};
+
+/**
+ * Builds a day × project ID matrix from timesheet records.
+ * Records without a project ID are left out of the matrix and listed per repository,
+ * so the project ID mapping can be completed before the timesheet is submitted.
+ */
+const buildTimesheet = (
+  records: TimesheetRecord[],
+  unit: TimesheetUnit,
+  from: Dayjs,
+  to: Dayjs,
+  rounding: TimesheetRounding | undefined,
+): Timesheet => {
+  const cells: Record<string, Record<string, number>> = {};
+  const unmapped = new Map<string, number>();
+
+  for (const record of records) {
+    if (!record.projectId) {
+      const repository = record.repository ?? '(unknown)';
+      unmapped.set(repository, (unmapped.get(repository) ?? 0) + record.value);
+      continue;
+    }
+    cells[record.date] ??= {};
+    cells[record.date][record.projectId] =
+      (cells[record.date][record.projectId] ?? 0) + record.value;
+  }
+
+  // Rounding applies per cell, as time is booked per day and project
+  if (unit === 'hours') {
+    for (const row of Object.values(cells)) {
+      for (const projectId of Object.keys(row)) {
+        row[projectId] = roundMinutes(row[projectId], rounding);
+      }
+    }
+  }
+
+  const dates = listDates(from, to);
+  for (const date of Object.keys(cells)) {
+    if (!dates.includes(date)) {
+      dates.push(date);
+    }
+  }
+  dates.sort();
+
+  const projectIds = [...new Set(Object.values(cells).flatMap((row) => Object.keys(row)))].sort();
+
+  const totals: Timesheet['totals'] = { byDate: {}, byProjectId: {}, total: 0 };
+  for (const date of dates) {
+    totals.byDate[date] = 0;
+    for (const projectId of projectIds) {
+      const value = cells[date]?.[projectId] ?? 0;
+      totals.byDate[date] += value;
+      totals.byProjectId[projectId] = (totals.byProjectId[projectId] ?? 0) + value;
+      totals.total += value;
+    }
+  }
+
+  return {
+    unit,
+    rounding: unit === 'hours' ? rounding : undefined,
+    dates,
+    projectIds,
+    cells,
+    totals,
+    unmapped: [...unmapped]
+      .map(([repository, value]) => ({ repository, value }))
+      .sort((a, b) => b.value - a.value || a.repository.localeCompare(b.repository)),
+  };
+};
+
+/**
+ * Builds an hours timesheet from estimated work time.
+ * Cell values are minutes; the rounding rule is applied to every cell.
+ *
+ * @param entries - Work time per day, project ID and repository (see workTimeEstimator)
+ * @param from - First day of the timesheet
+ * @param to - Last day of the timesheet
+ * @param rounding - Rounding rule for the cells, optional
+ */
+export const buildHoursTimesheet = (
+  entries: WorkTimeEntry[],
+  from: Dayjs,
+  to: Dayjs,
+  rounding?: TimesheetRounding,
+): Timesheet => {
+  const records = entries.map((entry) => ({ ...entry, value: entry.minutes }));
+  return buildTimesheet(records, 'hours', from, to, rounding);
+};
+
+/**
+ * Builds a timesheet of contribution counts per day and project ID.
+ *
+ * @param contributions - Contributions enriched with project IDs
+ * @param from - First day of the timesheet
+ * @param to - Last day of the timesheet
+ * @param timeZone - IANA time zone of the days, the local time zone by default
+ * @throws ValidationError when the time zone is unknown
+ */
+export const buildCountTimesheet = (
+  contributions: Contribution[],
+  from: Dayjs,
+  to: Dayjs,
+  timeZone?: string,
+): Timesheet => {
+  const zone = resolveTimeZone(timeZone);
+  const records = contributions.map((contribution) => ({
+    date: dayjs(contribution.timestamp).tz(zone).format('YYYY-MM-DD'),
+    projectId: contribution.projectId,
+    repository: contribution.repository,
+    value: 1,
+  }));
+  return buildTimesheet(records, 'count', from, to, undefined);
+};
@@ -0,0 +1,193 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type { Contribution, WorkTimeEntry } from '../../types.js';
+import type { WorkTimeConfiguration } from '../config/index.js';
+import { ValidationError } from '../errors/validationError.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Longest pause between two contributions that still counts as one work session.
+ */
+export const DEFAULT_SESSION_GAP_MINUTES = 120;
+
+/**
+ * Time counted before the first contribution of a session, for the work leading up to it.
+ */
+export const DEFAULT_SESSION_PADDING_MINUTES = 30;
+
+const MILLISECONDS_PER_MINUTE = 60 * 1000;
+
+export interface WorkTimeOptions {
+  sessionGapMinutes: number;
+  sessionPaddingMinutes: number;
+}
+
+/**
+ * A contribution together with the work time attributed to it.
+ */
+export interface AttributedContribution {
+  contribution: Contribution;
+  minutes: number;
+}
+
+/**
+ * Contributions without a pause longer than the session gap.
+ */
+export interface WorkSession {
+  /** First contribution minus the session padding */
+  start: string;
+  /** Last contribution */
+  end: string;
+  minutes: number;
+  contributions: AttributedContribution[];
+}
+
+/**
+ * Resolves the session settings from the configuration and command line overrides.
+ *
+ * @throws ValidationError when a setting is not a non-negative number
+ */
+export const resolveWorkTimeOptions = (
+  configuration: WorkTimeConfiguration = {},
+  overrides: Partial<WorkTimeOptions> = {},
+): WorkTimeOptions => {
+  const options: WorkTimeOptions = {
+    sessionGapMinutes:
+      overrides.sessionGapMinutes ?? configuration.sessionGapMinutes ?? DEFAULT_SESSION_GAP_MINUTES,
+    sessionPaddingMinutes:
+      overrides.sessionPaddingMinutes ??
+      configuration.sessionPaddingMinutes ??
+      DEFAULT_SESSION_PADDING_MINUTES,
+  };
+
+  for (const [name, value] of Object.entries(options)) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ValidationError(`Invalid work time setting ${name}: ${value}`, [
+        'Use a non-negative number of minutes, e.g. --session-gap 90',
+        'Or set it in the configuration, e.g. "workTime": { "sessionGapMinutes": 90 }',
+      ]);
+    }
+  }
+  return options;
+};
+
+/**
+ * Clusters contributions into work sessions.
+ * A new session starts when the pause since the previous contribution exceeds the session gap.
+ *
+ * The time between two contributions is attributed to the later one, as it is the work that
+ * led up to it; the session padding is attributed to the first contribution of a session.
+ * Merge events are skipped, as they mark when work landed rather than work done.
+ *
+ * @param contributions - Contributions in any order
+ * @param options - Session gap and padding
+ * @returns Sessions in chronological order
+ */
+export const estimateWorkSessions = (
+  contributions: Contribution[],
+  options: WorkTimeOptions,
+): WorkSession[] => {
+  const sorted = contributions
+    .filter((contribution) => contribution.type !== 'merge')
+    .sort((a, b) => dayjs(a.timestamp).valueOf() - dayjs(b.timestamp).valueOf());
+  const gapMilliseconds = options.sessionGapMinutes * MILLISECONDS_PER_MINUTE;
+
+  const sessions: WorkSession[] = [];
+  let current: WorkSession | undefined;
+  let previousTimestamp = 0;
+
+  for (const contribution of sorted) {
+    const timestamp = dayjs(contribution.timestamp).valueOf();
+
+    if (!current || timestamp - previousTimestamp > gapMilliseconds) {
+      current = {
+        start: dayjs
+          .utc(timestamp - options.sessionPaddingMinutes * MILLISECONDS_PER_MINUTE)
+          .toISOString(),
+        end: contribution.timestamp,
+        minutes: options.sessionPaddingMinutes,
+        contributions: [{ contribution, minutes: options.sessionPaddingMinutes }],
+      };
+      sessions.push(current);
+    } else {
+      const minutes = (timestamp - previousTimestamp) / MILLISECONDS_PER_MINUTE;
+      current.end = contribution.timestamp;
+      current.minutes += minutes;
+      current.contributions.push({ contribution, minutes });
+    }
+
+    previousTimestamp = timestamp;
+  }
+
+  return sessions;
+};
+
+/**
+ * Returns the time zone work time is put on days in: the given IANA time zone (workTime.timeZone)
+ * or the local one. Used by the hours and timesheet commands and the time tracker formats alike.
+ * @throws ValidationError when the time zone is unknown
+ */
+export const resolveTimeZone = (timeZone?: string): string => {
+  if (!timeZone) {
+    return dayjs.tz.guess();
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new ValidationError(`Unknown time zone: ${timeZone}`, [
+      'Use an IANA time zone name, e.g. "Europe/Berlin" or "UTC"',
+      'Edit workTime.timeZone in the configuration (git-activity-tracer config shows its location)',
+    ]);
+  }
+  return timeZone;
+};
+
+/**
+ * Sums the work time of sessions per day, project ID and repository.
+ * Days are those of the contributions the time is attributed to, in the given time zone.
+ *
+ * @param sessions - Work sessions (see estimateWorkSessions)
+ * @param timeZone - IANA time zone of the days, the local time zone by default
+ * @returns Entries ordered by day, project ID and repository
+ * @throws ValidationError when the time zone is unknown
+ */
+export const summarizeWorkTime = (sessions: WorkSession[], timeZone?: string): WorkTimeEntry[] => {
+  const zone = resolveTimeZone(timeZone);
+  const entries = new Map<string, WorkTimeEntry & { sessionIndexes: Set<number> }>();
+
+  for (const [sessionIndex, session] of sessions.entries()) {
+    for (const { contribution, minutes } of session.contributions) {
+      const date = dayjs(contribution.timestamp).tz(zone).format('YYYY-MM-DD');
+      const key = JSON.stringify([date, contribution.projectId, contribution.repository]);
+
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = {
+          date,
+          projectId: contribution.projectId,
+          repository: contribution.repository,
+          minutes: 0,
+          sessions: 0,
+          contributions: 0,
+          sessionIndexes: new Set(),
+        };
+        entries.set(key, entry);
+      }
+      entry.minutes += minutes;
+      entry.contributions += 1;
+      entry.sessionIndexes.add(sessionIndex);
+    }
+  }
+
+  return [...entries.values()]
+    .map(({ sessionIndexes, ...entry }) => ({ ...entry, sessions: sessionIndexes.size }))
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        (a.projectId ?? '').localeCompare(b.projectId ?? '') ||
+        (a.repository ?? '').localeCompare(b.repository ?? ''),
+    );
+};
@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Contribution } from '../../types.js';
+
+/**
+ * Connector method a stored contribution was fetched with.
+ * Report mode reads 'contributions'; the all-commits mode reads both.
+ */
+export type ContributionSource = 'contributions' | 'allCommits';
+
+/**
+ * A contribution record in the store, tagged with the connector it came from.
+ */
+export interface StoredContribution {
+  connector: string;
+  source: ContributionSource;
+  contribution: Contribution;
+}
+
+/**
+ * Sync bookkeeping for one connector.
+ */
+export interface ConnectorSyncState {
+  /** Login of the authenticated user */
+  login: string;
+  /** Start of the contiguous range covered by syncs (ISO 8601) */
+  syncedFrom: string;
+  /** End of the last sync (ISO 8601) */
+  syncedTo: string;
+}
+
+export interface StoreState {
+  connectors: Record<string, ConnectorSyncState>;
+}
+
+/**
+ * Result of syncing one connector for a window.
+ */
+export interface SyncWindowUpdate {
+  connector: string;
+  login: string;
+  from: string;
+  to: string;
+  contributions: Contribution[];
+  allCommits: Contribution[];
+}
+
+const RECORDS_FILE_NAME = 'contributions.jsonl';
+const STATE_FILE_NAME = 'state.json';
+
+const isMissingFileError = (error: unknown): boolean => {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT';
+};
+
+const isWithinWindow = (timestamp: string, from: string, to: string): boolean => {
+  const time = new Date(timestamp).getTime();
+  return time >= new Date(from).getTime() && time <= new Date(to).getTime();
+};
+
+/**
+ * Local store of synced contributions.
+ * Records are kept as JSON lines; the sync state per connector as a JSON file.
+ */
+export class ContributionStore {
+  private directoryPath: string;
+
+  constructor(directoryPath: string) {
+    this.directoryPath = directoryPath;
+  }
+
+  getDirectoryPath(): string {
+    return this.directoryPath;
+  }
+
+  async readState(): Promise<StoreState> {
+    try {
+      const content = await fs.readFile(this.getStatePath(), 'utf-8');
+      return JSON.parse(content) as StoreState;
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return { connectors: {} };
+      }
+      throw error;
+    }
+  }
+
+  async readRecords(): Promise<StoredContribution[]> {
+    try {
+      const content = await fs.readFile(this.getRecordsPath(), 'utf-8');
+      return content
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => JSON.parse(line) as StoredContribution);
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the stored contributions of a connector and source within the range.
+   */
+  async query(
+    connector: string,
+    source: ContributionSource,
+    from: string,
+    to: string,
+  ): Promise<Contribution[]> {
+    const records = await this.readRecords();
+    return records
+      .filter(
+        (record) =>
+          record.connector === connector &&
+          record.source === source &&
+          isWithinWindow(record.contribution.timestamp, from, to),
+      )
+      .map((record) => record.contribution);
+  }
+
+  /**
+   * Replaces the records of a connector within the synced window and updates its sync state.
+   * Records outside the window are kept, so re-syncing a window is idempotent.
+   */
+  async replaceWindow(update: SyncWindowUpdate): Promise<void> {
+    const [records, state] = await Promise.all([this.readRecords(), this.readState()]);
+
+    const keptRecords = records.filter(
+      (record) =>
+        record.connector !== update.connector ||
+        !isWithinWindow(record.contribution.timestamp, update.from, update.to),
+    );
+    const newRecords: StoredContribution[] = [
+      ...update.contributions.map(
+        (contribution): StoredContribution => ({
+          connector: update.connector,
+          source: 'contributions',
+          contribution,
+        }),
+      ),
+      ...update.allCommits.map(
+        (contribution): StoredContribution => ({
+          connector: update.connector,
+          source: 'allCommits',
+          contribution,
+        }),
+      ),
+    ];
+
+    // Coverage stays contiguous only when the new window touches the previous one
+    const previous = state.connectors[update.connector];
+    const extendsCoverage =
+      previous && new Date(update.from).getTime() <= new Date(previous.syncedTo).getTime();
+    state.connectors[update.connector] = {
+      login: update.login,
+      syncedFrom:
+        extendsCoverage && new Date(previous.syncedFrom).getTime() < new Date(update.from).getTime()
+          ? previous.syncedFrom
+          : update.from,
+      syncedTo: update.to,
+    };
+
+    await fs.mkdir(this.directoryPath, { recursive: true });
+    const lines = [...keptRecords, ...newRecords].map((record) => JSON.stringify(record));
+    await fs.writeFile(
+      this.getRecordsPath(),
+      lines.length > 0 ? `${lines.join('\n')}\n` : '',
+      'utf-8',
+    );
+    await fs.writeFile(this.getStatePath(), JSON.stringify(state, null, 2), 'utf-8');
+  }
+
+  private getRecordsPath(): string {
+    return path.join(this.directoryPath, RECORDS_FILE_NAME);
+  }
+
+  private getStatePath(): string {
+    return path.join(this.directoryPath, STATE_FILE_NAME);
+  }
+}
@@ -0,0 +1,299 @@
+import { ValidationError } from '../errors/validationError.js';
+
+/**
+ * Helper callable from a template, e.g. {{date timestamp "YYYY-MM-DD"}}.
+ * Receives the evaluated arguments (at least one) and returns the text to insert.
+ */
+export type TemplateHelper = (...args: unknown[]) => string;
+
+/**
+ * Compiled template: renders a context object to text.
+ */
+export type RenderTemplate = (context: unknown) => string;
+
+type BlockName = 'each' | 'if' | 'unless';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'expression'; helper?: string; args: string[]; line: number }
+  | {
+      type: 'block';
+      name: BlockName;
+      args: string[];
+      body: TemplateNode[];
+      inverse: TemplateNode[];
+      line: number;
+    };
+
+type Token = { type: 'text'; value: string } | { type: 'tag'; value: string; line: number };
+
+interface Scope {
+  value: unknown;
+  index?: number;
+  length?: number;
+}
+
+const BLOCK_NAMES: BlockName[] = ['each', 'if', 'unless'];
+
+const createSyntaxError = (message: string, line: number): ValidationError =>
+  new ValidationError(`Invalid template at line ${line}: ${message}`, [
+    'Blocks are {{#each list}}...{{/each}}, {{#if value}}...{{else}}...{{/if}} and {{#unless value}}...{{/unless}}',
+    'Values are {{path.to.value}}, helpers are called as {{helper argument "text"}}',
+  ]);
+
+/**
+ * Splits a template into text and tags. Block, else and comment tags alone on their line
+ * are standalone: the line they are on is left out, so blocks do not leave blank lines.
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\{\{([\s\S]*?)\}\}/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const value = match[1].trim();
+    const line = source.slice(0, match.index).split('\n').length;
+    const before = source.slice(source.lastIndexOf('\n', match.index - 1) + 1, match.index);
+    const after = /^[ \t]*(\r?\n|$)/.exec(source.slice(pattern.lastIndex));
+    const standalone = /^[#/!]|^else$/.test(value) && /^[ \t]*$/.test(before) && after !== null;
+
+    let text = source.slice(position, match.index);
+    position = pattern.lastIndex;
+    if (standalone) {
+      text = text.slice(0, text.length - before.length);
+      position += after[0].length;
+    }
+    if (text) {
+      tokens.push({ type: 'text', value: text });
+    }
+    tokens.push({ type: 'tag', value, line });
+  }
+
+  if (position < source.length) {
+    tokens.push({ type: 'text', value: source.slice(position) });
+  }
+  return tokens;
+};
+
+/**
+ * Splits tag content into words; quoted strings stay one word, with their quotes.
+ */
+const splitWords = (content: string): string[] => content.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+
+const parse = (source: string, helpers: Record<string, TemplateHelper>): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: Array<Extract<TemplateNode, { type: 'block' }> & { inElse: boolean }> = [];
+  const current = (): TemplateNode[] => {
+    const block = stack[stack.length - 1];
+    if (!block) {
+      return root;
+    }
+    return block.inElse ? block.inverse : block.body;
+  };
+
+  for (const token of tokenize(source)) {
+    if (token.type === 'text') {
+      current().push(token);
+      continue;
+    }
+
+    const { value, line } = token;
+    if (value.startsWith('!')) {
+      continue;
+    }
+
+    if (value.startsWith('#')) {
+      const [name, ...args] = splitWords(value.slice(1));
+      if (!BLOCK_NAMES.includes(name as BlockName)) {
+        throw createSyntaxError(`unknown block {{#${name}}}`, line);
+      }
+      if (args.length !== 1) {
+        throw createSyntaxError(`{{#${name}}} needs one value`, line);
+      }
+      const block = {
+        type: 'block' as const,
+        name: name as BlockName,
+        args,
+        body: [],
+        inverse: [],
+        line,
+        inElse: false,
+      };
+      current().push(block);
+      stack.push(block);
+      continue;
+    }
+
+    if (value === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        throw createSyntaxError('{{else}} outside of a block', line);
+      }
+      block.inElse = true;
+      continue;
+    }
+
+    if (value.startsWith('/')) {
+      const name = value.slice(1).trim();
+      const block = stack.pop();
+      if (!block) {
+        throw createSyntaxError(`{{/${name}}} without an open block`, line);
+      }
+      if (block.name !== name) {
+        throw createSyntaxError(
+          `{{/${name}}} closes {{#${block.name}}} from line ${block.line}`,
+          line,
+        );
+      }
+      continue;
+    }
+
+    const words = splitWords(value);
+    if (words.length === 0) {
+      throw createSyntaxError('empty tag', line);
+    }
+    // A single word is a value, so {{date}} is the date of the item even with a date helper
+    if (words.length === 1) {
+      current().push({ type: 'expression', args: words, line });
+    } else if (Object.hasOwn(helpers, words[0])) {
+      current().push({ type: 'expression', helper: words[0], args: words.slice(1), line });
+    } else {
+      throw createSyntaxError(`unknown helper ${words[0]}`, line);
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw createSyntaxError(`{{#${unclosed.name}}} is not closed`, unclosed.line);
+  }
+  return root;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Looks up a property path in the scopes, innermost first: {{title}} inside {{#each}}
+ * finds the title of the item, {{from}} the value of the outer context.
+ * ../ starts the lookup one loop further out, this is the current item.
+ */
+const resolvePath = (path: string, scopes: Scope[]): unknown => {
+  let depth = scopes.length - 1;
+  let rest = path;
+  while (rest.startsWith('../')) {
+    depth = Math.max(0, depth - 1);
+    rest = rest.slice(3);
+  }
+  const scope = scopes[depth];
+
+  if (rest === '@index') return scope.index;
+  if (rest === '@number') return scope.index === undefined ? undefined : scope.index + 1;
+  if (rest === '@first') return scope.index === 0;
+  if (rest === '@last') return scope.index !== undefined && scope.index === scope.length! - 1;
+
+  const [first, ...properties] = rest === '.' ? ['this'] : rest.split('.');
+  let value: unknown;
+  if (first === 'this') {
+    value = scope.value;
+  } else {
+    const owner = scopes
+      .slice(0, depth + 1)
+      .reverse()
+      .find((candidate) => isRecord(candidate.value) && Object.hasOwn(candidate.value, first));
+    value = owner ? (owner.value as Record<string, unknown>)[first] : undefined;
+  }
+
+  for (const property of properties) {
+    value = isRecord(value) ? value[property] : undefined;
+  }
+  return value;
+};
+
+const evaluateArgument = (word: string, scopes: Scope[]): unknown => {
+  if (/^(".*"|'.*')$/.test(word)) {
+    return word.slice(1, -1);
+  }
+  if (/^-?\d+(\.\d+)?$/.test(word)) {
+    return Number(word);
+  }
+  if (word === 'true' || word === 'false') {
+    return word === 'true';
+  }
+  return resolvePath(word, scopes);
+};
+
+/**
+ * Converts a value to output text: nothing for undefined and null, lists joined by commas.
+ */
+export const stringifyValue = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringifyValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const isTruthy = (value: unknown): boolean =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+const render = (
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  helpers: Record<string, TemplateHelper>,
+): string => {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'expression') {
+      const args = node.args.map((word) => evaluateArgument(word, scopes));
+      output += node.helper ? helpers[node.helper](...args) : stringifyValue(args[0]);
+    } else if (node.name === 'each') {
+      const list = evaluateArgument(node.args[0], scopes);
+      if (Array.isArray(list) && list.length > 0) {
+        list.forEach((item, index) => {
+          output += render(
+            node.body,
+            [...scopes, { value: item, index, length: list.length }],
+            helpers,
+          );
+        });
+      } else {
+        output += render(node.inverse, scopes, helpers);
+      }
+    } else {
+      const condition = isTruthy(evaluateArgument(node.args[0], scopes));
+      output += render(
+        condition === (node.name === 'if') ? node.body : node.inverse,
+        scopes,
+        helpers,
+      );
+    }
+  }
+  return output;
+};
+
+/**
+ * Compiles a template with a small Handlebars-like syntax:
+ * {{path.to.value}}, {{helper argument "text"}}, {{#each list}}...{{else}}...{{/each}},
+ * {{#if value}}...{{else}}...{{/if}}, {{#unless value}}...{{/unless}} and {{! comments }}.
+ * Inside each, {{@index}}, {{@number}}, {{@first}} and {{@last}} describe the position.
+ * Output is not escaped, as templates produce plain text, Markdown or HTML alike.
+ *
+ * @param source - Template text
+ * @param helpers - Helpers callable from the template by name
+ * @throws ValidationError when the template syntax is invalid
+ */
+export const compileTemplate = (
+  source: string,
+  helpers: Record<string, TemplateHelper> = {},
+): RenderTemplate => {
+  const nodes = parse(source, helpers);
+  return (context) => render(nodes, [{ value: context }], helpers);
+};
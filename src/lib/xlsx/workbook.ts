@@ -0,0 +1,111 @@
+import { createZipArchive } from './zip.js';
+
+export type CellValue = string | number;
+
+/**
+ * Worksheet of a workbook; numbers are written as numeric cells, everything else as text.
+ */
+export interface Worksheet {
+  /** Sheet name (at most 31 characters, without []:*?/\) */
+  name: string;
+  rows: CellValue[][];
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NAMESPACE =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NAMESPACE =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Converts a zero-based column index to its letters: 0 → A, 25 → Z, 26 → AA.
+ */
+const toColumnName = (index: number): string => {
+  let name = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    name = String.fromCharCode(65 + ((remaining - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const createCell = (value: CellValue, reference: string): string => {
+  if (typeof value === 'number') {
+    return `<c r="${reference}"><v>${value}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const createWorksheetXml = (worksheet: Worksheet): string => {
+  const rows = worksheet.rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) =>
+      createCell(value, `${toColumnName(columnIndex)}${rowIndex + 1}`),
+    );
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+  return `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NAMESPACE}"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+};
+
+/**
+ * Creates an XLSX workbook (Office Open XML) with plain, unstyled worksheets.
+ * Cells use inline strings, so no shared string table or styles are needed.
+ *
+ * @param worksheets - Worksheets in tab order
+ * @returns The workbook file content
+ */
+export const createWorkbook = (worksheets: Worksheet[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const sheetNumbers = worksheets.map((_, index) => index + 1);
+
+  const contentTypes =
+    `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    sheetNumbers
+      .map(
+        (number) =>
+          `<Override PartName="/xl/worksheets/sheet${number}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+      )
+      .join('') +
+    '</Types>';
+
+  const packageRelationships =
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook =
+    `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}"><sheets>` +
+    worksheets
+      .map(
+        (worksheet, index) =>
+          `<sheet name="${escapeXml(worksheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`,
+      )
+      .join('') +
+    '</sheets></workbook>';
+
+  const workbookRelationships =
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+    sheetNumbers
+      .map(
+        (number) =>
+          `<Relationship Id="rId${number}" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet${number}.xml"/>`,
+      )
+      .join('') +
+    '</Relationships>';
+
+  return createZipArchive([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(packageRelationships) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRelationships) },
+    ...worksheets.map((worksheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      data: encoder.encode(createWorksheetXml(worksheet)),
+    })),
+  ]);
+};
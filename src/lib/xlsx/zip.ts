@@ -0,0 +1,107 @@
+/**
+ * File stored in a ZIP archive.
+ */
+export interface ZipEntry {
+  /** Path within the archive, with forward slashes */
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+/** ZIP 2.0, the minimum version for the features used here */
+const ZIP_VERSION = 20;
+/** General purpose flag bit 11: file names are UTF-8 */
+const UTF8_FLAG = 0x0800;
+/** 1980-01-01 00:00, the earliest DOS date, so archives are reproducible */
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum ZIP archives use to verify entries.
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Creates a ZIP archive with uncompressed (stored) entries.
+ * Enough for small generated documents such as XLSX workbooks, without a compression library.
+ */
+export const createZipArchive = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const checksum = crc32(entry.data);
+
+    const localHeader = new DataView(new ArrayBuffer(30));
+    localHeader.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    localHeader.setUint16(4, ZIP_VERSION, true);
+    localHeader.setUint16(6, UTF8_FLAG, true);
+    localHeader.setUint16(8, 0, true); // stored
+    localHeader.setUint16(10, DOS_TIME, true);
+    localHeader.setUint16(12, DOS_DATE, true);
+    localHeader.setUint32(14, checksum, true);
+    localHeader.setUint32(18, entry.data.length, true);
+    localHeader.setUint32(22, entry.data.length, true);
+    localHeader.setUint16(26, name.length, true);
+    localHeader.setUint16(28, 0, true);
+
+    const centralHeader = new DataView(new ArrayBuffer(46));
+    centralHeader.setUint32(0, CENTRAL_DIRECTORY_HEADER_SIGNATURE, true);
+    centralHeader.setUint16(4, ZIP_VERSION, true);
+    centralHeader.setUint16(6, ZIP_VERSION, true);
+    centralHeader.setUint16(8, UTF8_FLAG, true);
+    centralHeader.setUint16(10, 0, true); // stored
+    centralHeader.setUint16(12, DOS_TIME, true);
+    centralHeader.setUint16(14, DOS_DATE, true);
+    centralHeader.setUint32(16, checksum, true);
+    centralHeader.setUint32(20, entry.data.length, true);
+    centralHeader.setUint32(24, entry.data.length, true);
+    centralHeader.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    centralHeader.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(localHeader.buffer), name, entry.data);
+    centralParts.push(new Uint8Array(centralHeader.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const archive = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+};
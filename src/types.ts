@@ -3,7 +3,12 @@
  * These types are shared across all connector implementations (GitHub, GitLab, etc.)
  */
 
-export type ContributionType = 'commit' | 'pr' | 'review';
+import type { TempoConfiguration, WorkTimeConfiguration } from './lib/config/index.js';
+import type { RenderTemplate } from './lib/template/template.js';
+
+export type ContributionType = 'commit' | 'pr' | 'review' | 'issue' | 'comment' | 'merge';
+
+export type PullRequestState = 'open' | 'draft' | 'merged' | 'closed';
 
 export type Contribution = {
   type: ContributionType;
@@ -13,15 +18,195 @@ export type Contribution = {
   repository?: string;
   target?: string;
   projectId?: string;
+  /** Current state of the pull/merge request (pr and merge contributions) */
+  state?: PullRequestState;
+  /** When the pull/merge request was merged */
+  mergedAt?: string;
+  /** When the pull/merge request was closed (also set when merged on some platforms) */
+  closedAt?: string;
+  /** Lines added (when the platform reports diff statistics) */
+  additions?: number;
+  /** Lines deleted (when the platform reports diff statistics) */
+  deletions?: number;
+  /** Number of files changed (when the platform reports diff statistics) */
+  changedFiles?: number;
+  /** Label of the configured account the contribution was fetched with */
+  account?: string;
+  /** Tickets referenced in the text or branch, see the issueTrackers configuration */
+  tickets?: TicketReference[];
+};
+
+/**
+ * Ticket referenced by a contribution, e.g. ABC-123 in a commit message.
+ */
+export type TicketReference = {
+  /** Key as written in the text, e.g. ABC-123, #456 or !78 */
+  key: string;
+  /** Name of the issue tracker whose pattern matched */
+  tracker: string;
+  /** Link to the ticket, when the tracker has a URL template */
+  url?: string;
+};
+
+export type DiffStats = Pick<Contribution, 'additions' | 'deletions' | 'changedFiles'>;
+
+/**
+ * A gap in the report data, e.g. a connector or request that failed.
+ * A report with warnings may be missing contributions.
+ */
+export type ReportWarning = {
+  /** Connector the warning comes from */
+  source: string;
+  message: string;
+};
+
+/**
+ * Contributions of a report together with the warnings collected while fetching them.
+ */
+export type ContributionReport = {
+  contributions: Contribution[];
+  warnings: ReportWarning[];
+};
+
+/**
+ * Dimensions contributions are aggregated by in summary statistics.
+ */
+export type SummaryDimension = 'day' | 'week' | 'repository' | 'projectId' | 'ticket' | 'type';
+
+/**
+ * Aggregated activity of one day, ISO week, repository, project ID, ticket or type.
+ */
+export type SummaryBucket = {
+  /** Day (YYYY-MM-DD), ISO week (YYYY-Www), repository, project ID, ticket key or type, in UTC */
+  key: string;
+  count: number;
+  /** Number of distinct days with activity */
+  activeDays: number;
+  /** Timestamp of the first contribution */
+  firstActivity: string;
+  /** Timestamp of the last contribution */
+  lastActivity: string;
+  /** Number of contributions per type */
+  byType: Partial<Record<ContributionType, number>>;
 };
 
-export type OutputFormat = 'console' | 'json' | 'csv';
+/**
+ * Estimated work time of one day, project ID and repository.
+ */
+export type WorkTimeEntry = {
+  /** Day (YYYY-MM-DD) in the local time zone or workTime.timeZone */
+  date: string;
+  projectId?: string;
+  repository?: string;
+  /** Estimated work time, in minutes */
+  minutes: number;
+  /** Number of work sessions the time comes from */
+  sessions: number;
+  /** Number of contributions the time is attributed to */
+  contributions: number;
+};
+
+/**
+ * Summary statistics of a set of contributions.
+ */
+export type ContributionSummary = {
+  /** All contributions, with key 'total'; undefined when there are none */
+  total?: SummaryBucket;
+  /** Buckets per dimension, in chronological order for days and weeks, by count otherwise */
+  buckets: Record<SummaryDimension, SummaryBucket[]>;
+};
+
+/**
+ * Values of a timesheet: estimated hours or contribution counts.
+ */
+export type TimesheetUnit = 'hours' | 'count';
+
+/**
+ * Rounding applied to every cell of an hours timesheet.
+ */
+export type TimesheetRounding = {
+  incrementMinutes: number;
+  mode: 'up' | 'down' | 'nearest';
+};
+
+/**
+ * Day × project ID matrix for billing and time tracking.
+ */
+export type Timesheet = {
+  unit: TimesheetUnit;
+  rounding?: TimesheetRounding;
+  /** Every day of the range (YYYY-MM-DD), in order */
+  dates: string[];
+  /** Project IDs with activity in the range, in order */
+  projectIds: string[];
+  /** Minutes (hours timesheet) or contributions (count timesheet) per date and project ID */
+  cells: Record<string, Record<string, number>>;
+  /** Sums of the (rounded) cells per date, per project ID and in total */
+  totals: { byDate: Record<string, number>; byProjectId: Record<string, number>; total: number };
+  /** Activity in repositories without a project ID mapping, which is not in the matrix */
+  unmapped: Array<{ repository: string; value: number }>;
+};
+
+export type OutputFormat =
+  | 'console'
+  | 'json'
+  | 'csv'
+  | 'xlsx'
+  | 'tempo'
+  | 'toggl'
+  | 'harvest'
+  | 'clockify'
+  | 'markdown'
+  | 'html'
+  | 'ics'
+  | 'ndjson'
+  | 'template';
+
+/**
+ * Sections of grouped report output (markdown): one per day or per repository.
+ */
+export type ReportGrouping = 'day' | 'repository';
+
+/**
+ * What becomes a calendar event in ics output.
+ */
+export type CalendarEvents = 'session' | 'contribution';
 
 export interface FormatterOptions {
   withLinks: boolean;
+  /** Warnings rendered with the contributions; the data is incomplete when non-empty */
+  warnings?: ReportWarning[];
+  /** Reported date range (YYYY-MM-DD), for formats that show every day of it (html) */
+  range?: { from: string; to: string };
+  /** Sections of formats that group contributions (markdown), by day when omitted */
+  groupBy?: ReportGrouping;
+  /** Calendar events of the ics format: a work session (default) or a contribution each */
+  calendarEvents?: CalendarEvents;
+  /** Compiled template of the template format (see compileReportTemplate) */
+  template?: RenderTemplate;
+  /** Work session settings for formats that book estimated work time (tempo, toggl, ...) */
+  workTime?: WorkTimeConfiguration;
+  /** Jira project keys of the tempo format */
+  tempo?: TempoConfiguration;
+}
+
+/**
+ * Additional file written next to the main output file, e.g. CSV warnings.
+ */
+export interface FormatterSidecar {
+  /** Inserted before the file extension: git-contributions-....<suffix>.<ext> */
+  suffix: string;
+  content: string;
+  /** Format of the file when it differs from the main output, e.g. json next to a CSV */
+  format?: Exclude<OutputFormat, 'console'>;
 }
 
 export interface FormatterResult {
   content: string;
+  /** Binary file content (e.g. xlsx), written instead of content */
+  data?: Uint8Array;
+  /** Output lines (ndjson, template), streamed to stdout or a file instead of a dated file */
+  lines?: Iterable<string>;
   filename?: string;
+  sidecars?: FormatterSidecar[];
 }
@@ -97,7 +97,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
 
         // Verify file content
         const fileContent = await readFile(expectedFilePath, 'utf-8');
-        const parsed = JSON.parse(fileContent);
+        const parsed = JSON.parse(fileContent).contributions;
 
         expect(Array.isArray(parsed)).toBe(true);
         console.log(`📊 Contributions in JSON: ${parsed.length}`);
@@ -192,7 +192,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
         // Verify file exists with empty array
         expect(existsSync(expectedFilePath)).toBe(true);
         const fileContent = await readFile(expectedFilePath, 'utf-8');
-        const parsed = JSON.parse(fileContent);
+        const parsed = JSON.parse(fileContent).contributions;
 
         expect(Array.isArray(parsed)).toBe(true);
         expect(parsed.length).toBe(0);
@@ -230,7 +230,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
         console.log(`✅ Lastmonth file created: ${expectedFilePath}`);
 
         const fileContent = await readFile(expectedFilePath, 'utf-8');
-        const parsed = JSON.parse(fileContent);
+        const parsed = JSON.parse(fileContent).contributions;
 
         expect(Array.isArray(parsed)).toBe(true);
         console.log(`📊 Last month contributions: ${parsed.length}`);
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import {
+  AzureDevOpsConnector,
+  createAzureDevOpsConnector,
+} from '../../src/connectors/azureDevOps.js';
+import { HttpError } from '../../src/lib/errors/httpError.js';
+import type { HttpClient } from '../../src/lib/http/httpClient.js';
+
+dayjs.extend(utc);
+
+const mockConfiguration = {
+  baseBranches: ['main', 'master'],
+  azureDevOps: { organization: 'contoso', projects: ['Billing'] },
+};
+
+const from = dayjs('2025-01-01T00:00:00Z').utc(true);
+const to = dayjs('2025-01-31T23:59:59.999Z').utc(true);
+
+const USER_ID = 'user-guid';
+const REPOSITORY_PATH = '/Billing/_apis/git/repositories/repo-1';
+const REPOSITORY_WEB_URL = 'https://dev.azure.com/contoso/Billing/_git/api';
+
+const notFound = (path: string) => new HttpError('Not found', 404, path);
+
+describe('AzureDevOpsConnector', () => {
+  const mockHttp = { get: vi.fn() };
+  let connector: AzureDevOpsConnector;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connector = new AzureDevOpsConnector(mockHttp as unknown as HttpClient, mockConfiguration);
+
+    mockHttp.get.mockImplementation(async (path: string, query?: Record<string, unknown>) => {
+      switch (path) {
+        case '/_apis/connectionData':
+          return {
+            authenticatedUser: {
+              id: USER_ID,
+              providerDisplayName: 'Test User',
+              properties: { Account: { $value: 'test@contoso.com' } },
+            },
+          };
+        case '/Billing/_apis/git/repositories':
+          return {
+            value: [
+              { id: 'repo-1', name: 'api', webUrl: REPOSITORY_WEB_URL },
+              { id: 'repo-2', name: 'web' },
+              { id: 'repo-3', name: 'archived', isDisabled: true },
+            ],
+          };
+        case `${REPOSITORY_PATH}/pushes`:
+          return {
+            value: [
+              { pushId: 1, refUpdates: [{ name: 'refs/heads/feature/x' }] },
+              { pushId: 2, refUpdates: [{ name: 'refs/heads/main' }, { name: 'refs/tags/v1' }] },
+            ],
+          };
+        case '/Billing/_apis/git/repositories/repo-2/pushes':
+          return { value: [] };
+        case `${REPOSITORY_PATH}/commits`:
+          if (query?.['searchCriteria.itemVersion.version'] === 'main') {
+            return {
+              value: [
+                {
+                  commitId: 'abc123',
+                  comment: 'Add invoice export\n\nDetails',
+                  author: { email: 'Test@Contoso.com', date: '2025-01-15T09:00:00Z' },
+                  committer: { date: '2025-01-15T10:00:00Z' },
+                },
+                {
+                  commitId: 'def456',
+                  comment: 'Someone else',
+                  author: { email: 'other@contoso.com' },
+                  committer: { date: '2025-01-14T10:00:00Z' },
+                },
+              ],
+            };
+          }
+          if (query?.['searchCriteria.itemVersion.version'] === 'feature/x') {
+            return {
+              value: [
+                {
+                  commitId: 'abc123',
+                  comment: 'Add invoice export',
+                  author: { email: 'test@contoso.com' },
+                  committer: { date: '2025-01-15T10:00:00Z' },
+                },
+                {
+                  commitId: 'fea111',
+                  comment: 'Feature work',
+                  author: { email: 'test@contoso.com' },
+                  committer: { date: '2025-01-17T10:00:00Z' },
+                },
+              ],
+            };
+          }
+          throw notFound(path);
+        case '/Billing/_apis/git/pullrequests':
+          if (query?.['searchCriteria.creatorId'] === USER_ID) {
+            return {
+              value: [
+                {
+                  pullRequestId: 7,
+                  title: 'Invoice export',
+                  creationDate: '2025-01-16T14:30:00Z',
+                  targetRefName: 'refs/heads/main',
+                  repository: { id: 'repo-1', name: 'api' },
+                },
+                {
+                  pullRequestId: 3,
+                  title: 'Old PR',
+                  creationDate: '2024-11-01T10:00:00Z',
+                  repository: { id: 'repo-1', name: 'api' },
+                },
+              ],
+            };
+          }
+          return {
+            value: [
+              {
+                pullRequestId: 12,
+                title: 'Reviewed PR',
+                targetRefName: 'refs/heads/develop',
+                repository: { id: 'repo-1', name: 'api' },
+                reviewers: [{ id: USER_ID, vote: 10 }],
+              },
+              {
+                pullRequestId: 13,
+                title: 'Not voted',
+                repository: { id: 'repo-1', name: 'api' },
+                reviewers: [{ id: USER_ID, vote: 0 }],
+              },
+            ],
+          };
+        case `${REPOSITORY_PATH}/pullRequests/12/threads`:
+          return {
+            value: [
+              {
+                publishedDate: '2025-01-20T09:00:00Z',
+                properties: {
+                  CodeReviewThreadType: { $value: 'VoteUpdate' },
+                  CodeReviewVoteResult: { $value: '10' },
+                },
+                comments: [{ author: { id: USER_ID } }],
+              },
+              {
+                publishedDate: '2025-01-20T09:00:00Z',
+                properties: {
+                  CodeReviewThreadType: { $value: 'VoteUpdate' },
+                  CodeReviewVoteResult: { $value: '5' },
+                },
+                comments: [{ author: { id: 'someone-else' } }],
+              },
+              {
+                publishedDate: '2025-01-21T09:00:00Z',
+                properties: {},
+                comments: [{ author: { id: USER_ID } }],
+              },
+            ],
+          };
+        default:
+          throw notFound(path);
+      }
+    });
+  });
+
+  it('should return platform name and user login', async () => {
+    expect(connector.getPlatformName()).toBe('Azure DevOps');
+    expect(await connector.getUserLogin()).toBe('test@contoso.com');
+  });
+
+  it('should fetch commits on base branches, pull requests and votes', async () => {
+    const contributions = await connector.fetchContributions(from, to);
+
+    expect(contributions.filter((contribution) => contribution.type === 'commit')).toEqual([
+      {
+        type: 'commit',
+        timestamp: '2025-01-15T10:00:00Z',
+        text: 'Add invoice export',
+        url: `${REPOSITORY_WEB_URL}/commit/abc123`,
+        repository: 'Billing/api',
+        target: 'main',
+      },
+    ]);
+
+    expect(contributions.filter((contribution) => contribution.type === 'pr')).toEqual([
+      {
+        type: 'pr',
+        timestamp: '2025-01-16T14:30:00Z',
+        text: 'Invoice export',
+        url: `${REPOSITORY_WEB_URL}/pullrequest/7`,
+        repository: 'Billing/api',
+        target: 'main',
+      },
+    ]);
+
+    expect(contributions.filter((contribution) => contribution.type === 'review')).toEqual([
+      {
+        type: 'review',
+        timestamp: '2025-01-20T09:00:00Z',
+        text: 'review',
+        url: `${REPOSITORY_WEB_URL}/pullrequest/12`,
+        repository: 'Billing/api',
+        target: 'develop',
+      },
+    ]);
+  });
+
+  it('should only scan repositories with pushes by the user', async () => {
+    await connector.fetchContributions(from, to);
+
+    const requestedPaths = mockHttp.get.mock.calls.map(([path]) => path);
+    expect(requestedPaths).not.toContain('/Billing/_apis/git/repositories/repo-2/commits');
+    expect(requestedPaths).not.toContain('/Billing/_apis/git/repositories/repo-3/pushes');
+  });
+
+  it('should fetch commits from pushed branches with base branches first', async () => {
+    const commits = await connector.fetchAllCommits(from, to);
+
+    expect(commits.map((commit) => [commit.url?.split('/').pop(), commit.target])).toEqual([
+      ['abc123', 'main'],
+      ['fea111', 'feature/x'],
+    ]);
+  });
+
+  it('should list all projects when none are configured', async () => {
+    const unscopedConnector = new AzureDevOpsConnector(mockHttp as unknown as HttpClient, {
+      baseBranches: ['main'],
+      azureDevOps: { organization: 'contoso' },
+    });
+    const defaultImplementation = mockHttp.get.getMockImplementation()!;
+    mockHttp.get.mockImplementation(async (path: string, query?: Record<string, unknown>) =>
+      path === '/_apis/projects'
+        ? { value: [{ name: 'Billing' }] }
+        : defaultImplementation(path, query),
+    );
+
+    const contributions = await unscopedConnector.fetchContributions(from, to);
+
+    expect(contributions).toHaveLength(3);
+  });
+});
+
+describe('createAzureDevOpsConnector', () => {
+  it('should throw when token is missing', () => {
+    expect(() => createAzureDevOpsConnector(undefined, mockConfiguration)).toThrow(
+      'AZURE_DEVOPS_TOKEN environment variable is missing',
+    );
+    expect(() => createAzureDevOpsConnector(' ', mockConfiguration)).toThrow(
+      'A non-empty Azure DevOps token string is required.',
+    );
+  });
+
+  it('should throw when no organization is configured', () => {
+    expect(() => createAzureDevOpsConnector('token', { baseBranches: ['main'] })).toThrow(
+      'No Azure DevOps organization configured',
+    );
+  });
+
+  it('should create a connector for the configured organization', () => {
+    const connector = createAzureDevOpsConnector('token', mockConfiguration);
+
+    expect(connector).toBeInstanceOf(AzureDevOpsConnector);
+    expect(connector.getPlatformName()).toBe('Azure DevOps');
+  });
+});
@@ -0,0 +1,439 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import { BitbucketConnector, createBitbucketConnector } from '../../src/connectors/bitbucket.js';
+import { BitbucketCloudApi, BitbucketDataCenterApi } from '../../src/connectors/bitbucket.api.js';
+import { HttpError } from '../../src/lib/errors/httpError.js';
+import type { HttpClient } from '../../src/lib/http/httpClient.js';
+
+dayjs.extend(utc);
+
+const mockConfiguration = {
+  baseBranches: ['main', 'master'],
+};
+
+const from = dayjs('2025-01-01T00:00:00Z').utc(true);
+const to = dayjs('2025-01-31T23:59:59.999Z').utc(true);
+
+const notFound = (path: string) => new HttpError('Not found', 404, path);
+
+describe('BitbucketConnector (Cloud)', () => {
+  const mockHttp = { get: vi.fn() };
+  let connector: BitbucketConnector;
+
+  const USER_UUID = '{user-uuid}';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connector = new BitbucketConnector(
+      new BitbucketCloudApi(mockHttp as unknown as HttpClient),
+      mockConfiguration,
+    );
+
+    mockHttp.get.mockImplementation(async (path: string) => {
+      switch (path) {
+        case '/user':
+          return { uuid: USER_UUID, username: 'testuser' };
+        case '/repositories':
+          return { values: [{ full_name: 'team/app' }] };
+        case `/pullrequests/${encodeURIComponent(USER_UUID)}`:
+          return {
+            values: [
+              {
+                id: 7,
+                title: 'Add login',
+                created_on: '2025-01-16T14:30:00.123456+00:00',
+                links: { html: { href: 'https://bitbucket.org/team/app/pull-requests/7' } },
+                destination: { branch: { name: 'main' }, repository: { full_name: 'team/app' } },
+              },
+              {
+                id: 3,
+                title: 'Old PR',
+                created_on: '2024-11-01T10:00:00+00:00',
+                destination: { repository: { full_name: 'team/legacy' } },
+              },
+            ],
+          };
+        case '/repositories/team/app/commits/main':
+          return {
+            values: [
+              {
+                hash: 'abc123',
+                date: '2025-01-15T10:00:00+00:00',
+                message: 'Add feature\n\nDetails',
+                author: { user: { uuid: USER_UUID } },
+                links: { html: { href: 'https://bitbucket.org/team/app/commits/abc123' } },
+              },
+              {
+                hash: 'def456',
+                date: '2025-01-14T10:00:00+00:00',
+                message: 'Someone else',
+                author: { user: { uuid: '{other}' } },
+              },
+              {
+                hash: 'old789',
+                date: '2024-12-01T10:00:00+00:00',
+                message: 'Too old',
+                author: { user: { uuid: USER_UUID } },
+              },
+            ],
+            next: 'https://api.bitbucket.org/2.0/repositories/team/app/commits/main?page=2',
+          };
+        case '/repositories/team/app/commits/master':
+          throw notFound(path);
+        case '/repositories/team/app/pullrequests/activity':
+          return {
+            values: [
+              {
+                approval: { date: '2025-01-17T09:00:00+00:00', user: { uuid: USER_UUID } },
+                pull_request: {
+                  id: 9,
+                  links: { html: { href: 'https://bitbucket.org/team/app/pull-requests/9' } },
+                },
+              },
+              {
+                approval: { date: '2025-01-17T08:00:00+00:00', user: { uuid: '{other}' } },
+                pull_request: { id: 9 },
+              },
+            ],
+          };
+        case '/repositories/team/app/refs/branches':
+          return {
+            values: [
+              { name: 'feature/login', target: { date: '2025-01-20T10:00:00+00:00' } },
+              { name: 'main', target: { date: '2025-01-15T10:00:00+00:00' } },
+              { name: 'stale', target: { date: '2024-06-01T10:00:00+00:00' } },
+            ],
+          };
+        case '/repositories/team/app/commits/feature%2Flogin':
+          return {
+            values: [
+              {
+                hash: 'fff000',
+                date: '2025-01-20T10:00:00+00:00',
+                message: 'WIP login',
+                author: { user: { uuid: USER_UUID } },
+              },
+              {
+                hash: 'abc123',
+                date: '2025-01-15T10:00:00+00:00',
+                message: 'Add feature',
+                author: { user: { uuid: USER_UUID } },
+              },
+            ],
+          };
+        default:
+          return { values: [] };
+      }
+    });
+  });
+
+  it('constructor should throw when constructed without API', () => {
+    // @ts-expect-error runtime test
+    expect(() => new BitbucketConnector(undefined, mockConfiguration)).toThrow(
+      'Bitbucket API instance is required.',
+    );
+  });
+
+  it('should return Bitbucket as platform name', () => {
+    expect(connector.getPlatformName()).toBe('Bitbucket');
+  });
+
+  it('should return authenticated username', async () => {
+    await expect(connector.getUserLogin()).resolves.toBe('testuser');
+  });
+
+  describe('fetchContributions', () => {
+    it('should map commits, pull requests and approvals', async () => {
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(contributions).toHaveLength(3);
+      expect(contributions).toEqual(
+        expect.arrayContaining([
+          {
+            type: 'commit',
+            timestamp: '2025-01-15T10:00:00.000Z',
+            text: 'Add feature',
+            url: 'https://bitbucket.org/team/app/commits/abc123',
+            repository: 'team/app',
+            target: 'main',
+          },
+          {
+            type: 'pr',
+            timestamp: '2025-01-16T14:30:00.123Z',
+            text: 'Add login',
+            url: 'https://bitbucket.org/team/app/pull-requests/7',
+            repository: 'team/app',
+            target: 'main',
+          },
+          {
+            type: 'review',
+            timestamp: '2025-01-17T09:00:00.000Z',
+            text: 'review',
+            url: 'https://bitbucket.org/team/app/pull-requests/9',
+            repository: 'team/app',
+            target: undefined,
+          },
+        ]),
+      );
+    });
+
+    it('should stop paginating once commits are older than the range', async () => {
+      await connector.fetchContributions(from, to);
+
+      expect(mockHttp.get).not.toHaveBeenCalledWith(
+        'https://api.bitbucket.org/2.0/repositories/team/app/commits/main?page=2',
+      );
+    });
+
+    it('should filter repositories by update date and request all pull request states', async () => {
+      await connector.fetchContributions(from, to);
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        '/repositories',
+        expect.objectContaining({ role: 'member', q: `updated_on>=${from.toISOString()}` }),
+      );
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        `/pullrequests/${encodeURIComponent(USER_UUID)}`,
+        expect.objectContaining({ state: ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'] }),
+      );
+    });
+
+    it('should keep other contributions when a listing fails', async () => {
+      const defaultImplementation = mockHttp.get.getMockImplementation()!;
+      mockHttp.get.mockImplementation(async (path: string, query?: unknown) => {
+        if (path === '/repositories/team/app/pullrequests/activity') {
+          throw new HttpError('Forbidden', 403, path);
+        }
+        return defaultImplementation(path, query);
+      });
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(contributions.map((contribution) => contribution.type).sort()).toEqual([
+        'commit',
+        'pr',
+      ]);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Forbidden'));
+      expect(connector.takeWarnings()).toEqual([expect.stringContaining('Forbidden')]);
+      expect(connector.takeWarnings()).toEqual([]);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('fetchAllCommits', () => {
+    it('should fetch commits from active branches and prefer base branches', async () => {
+      const contributions = await connector.fetchAllCommits(from, to);
+
+      expect(contributions).toHaveLength(2);
+      expect(contributions).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ text: 'Add feature', target: 'main' }),
+          expect.objectContaining({ text: 'WIP login', target: 'feature/login' }),
+        ]),
+      );
+      expect(mockHttp.get).not.toHaveBeenCalledWith(
+        '/repositories/team/app/commits/stale',
+        expect.anything(),
+      );
+    });
+  });
+});
+
+describe('BitbucketConnector (Data Center)', () => {
+  const mockHttp = { get: vi.fn() };
+  let connector: BitbucketConnector;
+
+  const API = '/rest/api/1.0';
+  const REPOSITORY_PATH = `${API}/projects/PROJ/repos/app`;
+  const toRef = { displayId: 'main', repository: { slug: 'app', project: { key: 'PROJ' } } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connector = new BitbucketConnector(
+      new BitbucketDataCenterApi(
+        mockHttp as unknown as HttpClient,
+        'https://bitbucket.example.com/',
+        'jdoe',
+      ),
+      mockConfiguration,
+    );
+
+    mockHttp.get.mockImplementation(async (path: string, query?: Record<string, unknown>) => {
+      switch (path) {
+        case `${API}/users/jdoe`:
+          return { name: 'jdoe', slug: 'jdoe', emailAddress: 'jdoe@example.com' };
+        case `${API}/profile/recent/repos`:
+          return { values: [{ slug: 'app', project: { key: 'PROJ' } }], isLastPage: true };
+        case `${API}/dashboard/pull-requests`:
+          if (query?.role === 'AUTHOR') {
+            return {
+              values: [
+                {
+                  id: 5,
+                  title: 'Refactor billing',
+                  createdDate: Date.parse('2025-01-10T08:00:00Z'),
+                  toRef,
+                  links: {
+                    self: [
+                      {
+                        href: 'https://bitbucket.example.com/projects/PROJ/repos/app/pull-requests/5',
+                      },
+                    ],
+                  },
+                },
+              ],
+              isLastPage: true,
+            };
+          }
+          return {
+            values: [
+              {
+                id: 6,
+                title: 'Fix bug',
+                updatedDate: Date.parse('2025-01-12T08:00:00Z'),
+                toRef,
+                links: {
+                  self: [
+                    {
+                      href: 'https://bitbucket.example.com/projects/PROJ/repos/app/pull-requests/6',
+                    },
+                  ],
+                },
+              },
+              {
+                id: 2,
+                updatedDate: Date.parse('2024-10-01T08:00:00Z'),
+                toRef,
+              },
+            ],
+            isLastPage: true,
+          };
+        case `${REPOSITORY_PATH}/pull-requests/6/activities`:
+          return {
+            values: [
+              { action: 'COMMENTED', createdDate: Date.parse('2025-01-12T08:00:00Z') },
+              {
+                action: 'APPROVED',
+                createdDate: Date.parse('2025-01-11T16:00:00Z'),
+                user: { name: 'jdoe' },
+              },
+            ],
+            isLastPage: true,
+          };
+        case `${REPOSITORY_PATH}/commits`:
+          if (query?.until !== 'refs/heads/main') throw notFound(path);
+          if (query?.start === 100) return { values: [], isLastPage: true };
+          return {
+            values: [
+              {
+                id: 'aaa111',
+                message: 'Add invoice export',
+                author: { name: 'J. Doe', emailAddress: 'JDOE@example.com' },
+                committerTimestamp: Date.parse('2025-01-09T12:00:00Z'),
+              },
+            ],
+            isLastPage: false,
+            nextPageStart: 100,
+          };
+        default:
+          return { values: [], isLastPage: true };
+      }
+    });
+  });
+
+  it('should return Bitbucket Data Center as platform name', () => {
+    expect(connector.getPlatformName()).toBe('Bitbucket Data Center');
+  });
+
+  it('constructor should throw without username', () => {
+    expect(
+      () => new BitbucketDataCenterApi(mockHttp as unknown as HttpClient, 'https://host', ''),
+    ).toThrow('A Bitbucket Data Center username is required.');
+  });
+
+  it('should map commits, pull requests and approvals', async () => {
+    const contributions = await connector.fetchContributions(from, to);
+
+    expect(contributions).toHaveLength(3);
+    expect(contributions).toEqual(
+      expect.arrayContaining([
+        {
+          type: 'commit',
+          timestamp: '2025-01-09T12:00:00.000Z',
+          text: 'Add invoice export',
+          url: 'https://bitbucket.example.com/projects/PROJ/repos/app/commits/aaa111',
+          repository: 'PROJ/app',
+          target: 'main',
+        },
+        expect.objectContaining({
+          type: 'pr',
+          timestamp: '2025-01-10T08:00:00.000Z',
+          text: 'Refactor billing',
+          repository: 'PROJ/app',
+          target: 'main',
+        }),
+        expect.objectContaining({
+          type: 'review',
+          timestamp: '2025-01-11T16:00:00.000Z',
+          url: 'https://bitbucket.example.com/projects/PROJ/repos/app/pull-requests/6',
+          repository: 'PROJ/app',
+          target: 'main',
+        }),
+      ]),
+    );
+  });
+
+  it('should follow start/limit pagination', async () => {
+    await connector.fetchContributions(from, to);
+
+    expect(mockHttp.get).toHaveBeenCalledWith(
+      `${REPOSITORY_PATH}/commits`,
+      expect.objectContaining({ until: 'refs/heads/main', start: 100 }),
+    );
+  });
+
+  it('should only inspect activities of recently updated pull requests', async () => {
+    await connector.fetchContributions(from, to);
+
+    expect(mockHttp.get).not.toHaveBeenCalledWith(
+      `${REPOSITORY_PATH}/pull-requests/2/activities`,
+      expect.anything(),
+    );
+  });
+});
+
+describe('createBitbucketConnector', () => {
+  it('should throw when token is undefined', () => {
+    expect(() => createBitbucketConnector(undefined)).toThrow(
+      'BITBUCKET_TOKEN environment variable is missing',
+    );
+  });
+
+  it('should throw when token is empty', () => {
+    expect(() => createBitbucketConnector('')).toThrow(
+      'A non-empty Bitbucket token string is required.',
+    );
+  });
+
+  it('should create a Bitbucket Cloud connector without host', () => {
+    const connector = createBitbucketConnector('valid-token');
+    expect(connector).toBeInstanceOf(BitbucketConnector);
+    expect(connector.getPlatformName()).toBe('Bitbucket');
+  });
+
+  it('should create a Bitbucket Data Center connector with host and username', () => {
+    const connector = createBitbucketConnector('valid-token', undefined, {
+      host: 'bitbucket.example.com',
+      username: 'jdoe',
+    });
+    expect(connector.getPlatformName()).toBe('Bitbucket Data Center');
+  });
+
+  it('should require a username for Bitbucket Data Center', () => {
+    expect(() =>
+      createBitbucketConnector('valid-token', undefined, { host: 'https://bitbucket.example.com' }),
+    ).toThrow('BITBUCKET_USERNAME environment variable is required');
+  });
+});
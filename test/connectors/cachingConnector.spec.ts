@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import dayjs from 'dayjs';
+import { CachingConnector } from '../../src/connectors/cachingConnector.js';
+import { ResponseCache } from '../../src/lib/cache/responseCache.js';
+import type { Connector } from '../../src/connectors/types.js';
+
+const createMockConnector = () => ({
+  fetchContributions: vi
+    .fn()
+    .mockResolvedValue([{ type: 'pr', timestamp: '2025-01-10T10:00:00Z', text: 'Add feature' }]),
+  fetchAllCommits: vi.fn().mockResolvedValue([]),
+  getUserLogin: vi.fn().mockResolvedValue('octocat'),
+  getPlatformName: () => 'GitHub',
+});
+
+describe('CachingConnector', () => {
+  let directoryPath: string;
+  let cache: ResponseCache;
+  let mockConnector: ReturnType<typeof createMockConnector>;
+
+  beforeEach(async () => {
+    directoryPath = await mkdtemp(path.join(tmpdir(), 'caching-connector-'));
+    cache = new ResponseCache(directoryPath);
+    mockConnector = createMockConnector();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directoryPath, { recursive: true, force: true });
+  });
+
+  it('should serve fully past ranges from the cache without expiry', async () => {
+    const from = dayjs('2025-01-06T00:00:00Z');
+    const to = dayjs('2025-01-12T23:59:59Z');
+    const connector = new CachingConnector(mockConnector as Connector, cache);
+
+    const first = await connector.fetchContributions(from, to);
+    const second = await new CachingConnector(mockConnector as Connector, cache).fetchContributions(
+      from,
+      to,
+    );
+
+    expect(second).toEqual(first);
+    expect(mockConnector.fetchContributions).toHaveBeenCalledTimes(1);
+    expect((await cache.list())[0]).toMatchObject({
+      key: { connector: 'GitHub', account: 'octocat', method: 'fetchContributions' },
+      expiresAt: null,
+    });
+  });
+
+  it('should expire ranges reaching into today after the TTL', async () => {
+    const connector = new CachingConnector(mockConnector as Connector, cache, { ttlMinutes: 5 });
+
+    await connector.fetchAllCommits(dayjs().startOf('week'), dayjs().endOf('day'));
+
+    const [entry] = await cache.list();
+    expect(entry.key.method).toBe('fetchAllCommits');
+    expect(entry.expiresAt).not.toBeNull();
+    expect(new Date(entry.expiresAt!).getTime() - new Date(entry.createdAt).getTime()).toBe(
+      5 * 60 * 1000,
+    );
+  });
+
+  it('should keep separate entries per method and window', async () => {
+    const connector = new CachingConnector(mockConnector as Connector, cache);
+    const from = dayjs('2025-01-06T00:00:00Z');
+
+    await connector.fetchContributions(from, dayjs('2025-01-12T23:59:59Z'));
+    await connector.fetchContributions(from, dayjs('2025-01-19T23:59:59Z'));
+    await connector.fetchAllCommits(from, dayjs('2025-01-12T23:59:59Z'));
+
+    expect(mockConnector.fetchContributions).toHaveBeenCalledTimes(2);
+    expect(mockConnector.getUserLogin).toHaveBeenCalledTimes(1);
+    expect(await cache.list()).toHaveLength(3);
+  });
+
+  it('should keep separate entries per connector settings', async () => {
+    const from = dayjs('2025-01-06T00:00:00Z');
+    const to = dayjs('2025-01-12T23:59:59Z');
+    const createConnector = (baseBranches: string[]) =>
+      new CachingConnector(mockConnector as Connector, cache, { settings: { baseBranches } });
+
+    await createConnector(['main']).fetchContributions(from, to);
+    await createConnector(['main']).fetchContributions(from, to);
+    await createConnector(['main', 'develop']).fetchContributions(from, to);
+
+    expect(mockConnector.fetchContributions).toHaveBeenCalledTimes(2);
+    expect(await cache.list()).toHaveLength(2);
+  });
+
+  it('should not cache responses fetched with warnings', async () => {
+    const from = dayjs('2025-01-06T00:00:00Z');
+    const to = dayjs('2025-01-12T23:59:59Z');
+    const takeWarnings = vi.fn().mockReturnValueOnce(['Failed to fetch commits']);
+    const connector = new CachingConnector({ ...mockConnector, takeWarnings } as Connector, cache);
+
+    await connector.fetchContributions(from, to);
+
+    expect(connector.takeWarnings()).toEqual(['Failed to fetch commits']);
+    expect(await cache.list()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,315 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import { GiteaConnector, createGiteaConnector } from '../../src/connectors/gitea.js';
+import { HttpError } from '../../src/lib/errors/httpError.js';
+import type { HttpClient } from '../../src/lib/http/httpClient.js';
+import { RequestScheduler } from '../../src/lib/http/requestScheduler.js';
+
+dayjs.extend(utc);
+
+const mockConfiguration = {
+  baseBranches: ['main', 'master'],
+};
+
+const from = dayjs('2025-01-01T00:00:00Z').utc(true);
+const to = dayjs('2025-01-31T23:59:59.999Z').utc(true);
+
+const notFound = (path: string) => new HttpError('Not found', 404, path);
+
+describe('GiteaConnector', () => {
+  const mockHttp = { get: vi.fn() };
+  let connector: GiteaConnector;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connector = new GiteaConnector(mockHttp as unknown as HttpClient, mockConfiguration);
+
+    mockHttp.get.mockImplementation(async (path: string, query?: Record<string, unknown>) => {
+      switch (path) {
+        case '/user':
+          return { login: 'testuser', email: 'test@example.com' };
+        case '/users/testuser/activities/feeds':
+          return [
+            {
+              created: '2025-01-15T10:00:00Z',
+              op_type: 'commit_repo',
+              repo: { full_name: 'team/app' },
+            },
+            {
+              created: '2024-12-01T10:00:00Z',
+              op_type: 'commit_repo',
+              repo: { full_name: 'team/old' },
+            },
+          ];
+        case '/repos/issues/search':
+          if (query?.created) {
+            return [
+              {
+                number: 7,
+                title: 'Add login',
+                html_url: 'https://gitea.example.com/team/app/pulls/7',
+                created_at: '2025-01-16T14:30:00Z',
+                repository: { full_name: 'team/app' },
+              },
+              {
+                number: 3,
+                title: 'Old PR',
+                created_at: '2024-11-01T10:00:00Z',
+                repository: { full_name: 'team/app' },
+              },
+            ];
+          }
+          return [
+            {
+              number: 12,
+              title: 'Fix bug',
+              html_url: 'https://gitea.example.com/team/lib/pulls/12',
+              created_at: '2025-01-10T10:00:00Z',
+              repository: { full_name: 'team/lib' },
+            },
+          ];
+        case '/repos/team/app/pulls/7':
+          return { number: 7, base: { ref: 'main' } };
+        case '/repos/team/lib/pulls/12':
+          return { number: 12, base: { ref: 'develop' } };
+        case '/repos/team/lib/pulls/12/reviews':
+          return [
+            {
+              user: { login: 'testuser' },
+              state: 'APPROVED',
+              submitted_at: '2025-01-20T09:00:00Z',
+              html_url: 'https://gitea.example.com/team/lib/pulls/12#issuecomment-1',
+            },
+            {
+              user: { login: 'testuser' },
+              state: 'PENDING',
+              submitted_at: '2025-01-21T09:00:00Z',
+            },
+            {
+              user: { login: 'someone' },
+              state: 'APPROVED',
+              submitted_at: '2025-01-20T09:00:00Z',
+            },
+          ];
+        case '/repos/team/app/commits':
+          if (query?.sha === 'main') {
+            return [
+              {
+                sha: 'abc123',
+                html_url: 'https://gitea.example.com/team/app/commit/abc123',
+                commit: {
+                  message: 'Add feature\n\nDetails',
+                  author: { email: 'other@example.com' },
+                  committer: { date: '2025-01-15T10:00:00Z' },
+                },
+                author: { login: 'testuser' },
+              },
+              {
+                sha: 'def456',
+                html_url: 'https://gitea.example.com/team/app/commit/def456',
+                commit: {
+                  message: 'Email match',
+                  author: { email: 'TEST@example.com' },
+                  committer: { date: '2025-01-14T10:00:00Z' },
+                },
+                author: null,
+              },
+              {
+                sha: 'ghi789',
+                commit: {
+                  message: 'Someone else',
+                  author: { email: 'someone@example.com' },
+                  committer: { date: '2025-01-13T10:00:00Z' },
+                },
+                author: { login: 'someone' },
+              },
+            ];
+          }
+          if (query?.sha === 'feature/x') {
+            return [
+              {
+                sha: 'abc123',
+                html_url: 'https://gitea.example.com/team/app/commit/abc123',
+                commit: {
+                  message: 'Add feature',
+                  committer: { date: '2025-01-15T10:00:00Z' },
+                },
+                author: { login: 'testuser' },
+              },
+              {
+                sha: 'fea111',
+                html_url: 'https://gitea.example.com/team/app/commit/fea111',
+                commit: {
+                  message: 'Feature work',
+                  committer: { date: '2025-01-17T10:00:00Z' },
+                },
+                author: { login: 'testuser' },
+              },
+            ];
+          }
+          throw notFound(path);
+        case '/repos/team/app/branches':
+          return [
+            { name: 'feature/x', commit: { timestamp: '2025-01-17T10:00:00Z' } },
+            { name: 'main', commit: { timestamp: '2025-01-15T10:00:00Z' } },
+            { name: 'stale', commit: { timestamp: '2024-06-01T10:00:00Z' } },
+          ];
+        default:
+          throw notFound(path);
+      }
+    });
+  });
+
+  it('should return platform name and user login', async () => {
+    expect(connector.getPlatformName()).toBe('Gitea');
+    expect(await connector.getUserLogin()).toBe('testuser');
+  });
+
+  it('should fetch commits on base branches, pull requests and reviews', async () => {
+    const contributions = await connector.fetchContributions(from, to);
+
+    const commits = contributions.filter((contribution) => contribution.type === 'commit');
+    expect(commits).toEqual([
+      {
+        type: 'commit',
+        timestamp: '2025-01-15T10:00:00Z',
+        text: 'Add feature',
+        url: 'https://gitea.example.com/team/app/commit/abc123',
+        repository: 'team/app',
+        target: 'main',
+      },
+      expect.objectContaining({ url: 'https://gitea.example.com/team/app/commit/def456' }),
+    ]);
+
+    expect(contributions.filter((contribution) => contribution.type === 'pr')).toEqual([
+      {
+        type: 'pr',
+        timestamp: '2025-01-16T14:30:00Z',
+        text: 'Add login',
+        url: 'https://gitea.example.com/team/app/pulls/7',
+        repository: 'team/app',
+        target: 'main',
+      },
+    ]);
+
+    expect(contributions.filter((contribution) => contribution.type === 'review')).toEqual([
+      {
+        type: 'review',
+        timestamp: '2025-01-20T09:00:00Z',
+        text: 'review',
+        url: 'https://gitea.example.com/team/lib/pulls/12#issuecomment-1',
+        repository: 'team/lib',
+        target: 'develop',
+      },
+    ]);
+  });
+
+  it('should ignore repositories outside the date range and missing branches', async () => {
+    await connector.fetchContributions(from, to);
+
+    const requestedPaths = mockHttp.get.mock.calls.map(([path]) => path);
+    expect(requestedPaths).not.toContain('/repos/team/old/commits');
+  });
+
+  it('should fetch commits from all active branches with base branches first', async () => {
+    const commits = await connector.fetchAllCommits(from, to);
+
+    expect(commits.map((commit) => [commit.url?.split('/').pop(), commit.target])).toEqual([
+      ['abc123', 'main'],
+      ['def456', 'main'],
+      ['fea111', 'feature/x'],
+    ]);
+
+    const requestedBranches = mockHttp.get.mock.calls
+      .filter(([path]) => path === '/repos/team/app/commits')
+      .map(([, query]) => query.sha);
+    expect(requestedBranches).not.toContain('stale');
+  });
+
+  it('should stop paging once results are older than the date range', async () => {
+    mockHttp.get.mockImplementation(async (path: string, query?: Record<string, unknown>) => {
+      if (path === '/user') return { login: 'testuser' };
+      if (path === '/users/testuser/activities/feeds') {
+        return Array.from({ length: 50 }, (_, index) => ({
+          created: index < 49 ? '2025-01-15T10:00:00Z' : '2024-12-01T10:00:00Z',
+          repo: { full_name: `team/repo-${query?.page}-${index}` },
+        }));
+      }
+      return [];
+    });
+
+    await connector.fetchContributions(from, to);
+
+    const feedPages = mockHttp.get.mock.calls.filter(
+      ([path]) => path === '/users/testuser/activities/feeds',
+    );
+    expect(feedPages).toHaveLength(1);
+  });
+
+  it('should warn when results are cut off after the last page', async () => {
+    mockHttp.get.mockImplementation(async (path: string) => {
+      if (path === '/user') return { login: 'testuser' };
+      if (path === '/users/testuser/activities/feeds') {
+        return Array.from({ length: 50 }, () => ({ created: '2025-01-15T10:00:00Z' }));
+      }
+      return [];
+    });
+
+    await connector.fetchContributions(from, to);
+
+    expect(connector.takeWarnings()).toEqual([
+      'Gitea results of /users/testuser/activities/feeds are incomplete, only the first 500 were read',
+    ]);
+  });
+
+  it('should warn when the base branch of a pull request cannot be fetched', async () => {
+    const fetchPath = mockHttp.get.getMockImplementation()!;
+    mockHttp.get.mockImplementation(async (path: string, query?: Record<string, unknown>) => {
+      if (path === '/repos/team/app/pulls/7') throw new HttpError('Forbidden', 403, path);
+      return fetchPath(path, query);
+    });
+
+    const contributions = await connector.fetchContributions(from, to);
+
+    expect(contributions.find((contribution) => contribution.type === 'pr')).toMatchObject({
+      target: undefined,
+    });
+    expect(connector.takeWarnings()).toEqual([
+      'Failed to fetch the base branch of team/app#7: Forbidden',
+    ]);
+  });
+
+  it('should retry rate limited requests through the scheduler', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const scheduledConnector = new GiteaConnector(
+      mockHttp as unknown as HttpClient,
+      mockConfiguration,
+      { scheduler: new RequestScheduler({ sleep }) },
+    );
+    mockHttp.get.mockRejectedValueOnce(
+      new HttpError('Too Many Requests', 429, '/user', new Headers({ 'Retry-After': '2' })),
+    );
+
+    expect(await scheduledConnector.getUserLogin()).toBe('testuser');
+    expect(sleep).toHaveBeenCalledWith(2000);
+  });
+});
+
+describe('createGiteaConnector', () => {
+  it('should throw when token is missing', () => {
+    expect(() => createGiteaConnector(undefined)).toThrow(
+      'GITEA_TOKEN environment variable is missing',
+    );
+    expect(() => createGiteaConnector('  ')).toThrow('A non-empty Gitea token string is required.');
+  });
+
+  it('should create a connector for a self-hosted instance', () => {
+    const connector = createGiteaConnector('token', mockConfiguration, {
+      host: 'codeberg.org',
+    });
+
+    expect(connector).toBeInstanceOf(GiteaConnector);
+    expect(connector.getPlatformName()).toBe('Gitea');
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { GitHubConnector, createGitHubConnector } from '../../src/connectors/github.js';
 import dayjs from 'dayjs';
+import { Octokit as RealOctokit } from '@octokit/rest';
 import type { Octokit } from '@octokit/rest';
+import { RequestScheduler } from '../../src/lib/http/requestScheduler.js';
 
 describe('GitHubConnector', () => {
   let connector: GitHubConnector;
@@ -10,8 +12,12 @@ describe('GitHubConnector', () => {
       users: {
         getAuthenticated: vi.fn(),
       },
+      search: {
+        issuesAndPullRequests: vi.fn(),
+      },
     },
     request: vi.fn(),
+    paginate: vi.fn(),
   };
 
   beforeEach(() => {
@@ -38,6 +44,48 @@ describe('GitHubConnector', () => {
     });
   });
 
+  describe('request scheduling', () => {
+    it('should retry transient errors and report requests that keep failing', async () => {
+      let userRequests = 0;
+      const fetch = vi.fn(async (url: string) => {
+        if (url.endsWith('/user') && userRequests++ > 0) {
+          return new Response(JSON.stringify({ login: 'testuser' }), {
+            status: 200,
+            headers: { 'content-type': 'application/json' },
+          });
+        }
+        return new Response('Unavailable', { status: url.endsWith('/user') ? 502 : 503 });
+      });
+      const scheduler = new RequestScheduler({
+        maxRetries: 1,
+        sleep: vi.fn().mockResolvedValue(undefined),
+      });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const realConnector = new GitHubConnector(new RealOctokit({ request: { fetch } }), {
+        scheduler,
+      });
+
+      expect(await realConnector.getUserLogin()).toBe('testuser');
+      expect(userRequests).toBe(2);
+
+      // The GraphQL request fails on the initial attempt and the single retry
+      expect(await realConnector.fetchAllCommits(dayjs('2025-01-01'), dayjs('2025-01-31'))).toEqual(
+        [],
+      );
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'GitHub results are incomplete, 1 request(s) failed after retries: POST /graphql (503)',
+        ),
+      );
+      expect(realConnector.takeWarnings()).toContainEqual(
+        expect.stringContaining('1 request(s) failed after retries'),
+      );
+      warn.mockRestore();
+      log.mockRestore();
+    });
+  });
+
   describe('fetchContributions', () => {
     const from = dayjs('2025-01-01');
     const to = dayjs('2025-01-31');
@@ -313,6 +361,387 @@ describe('GitHubConnector', () => {
     });
   });
 
+  describe('issue contributions', () => {
+    it('should map issueContributions to issue contributions', async () => {
+      mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'testuser' } });
+      mockOctokit.request.mockResolvedValueOnce({
+        data: {
+          data: {
+            user: {
+              contributionsCollection: {
+                commitContributionsByRepository: [],
+                pullRequestContributions: { nodes: [] },
+                pullRequestReviewContributions: { nodes: [] },
+                issueContributions: {
+                  nodes: [
+                    {
+                      occurredAt: '2025-01-18T08:00:00Z',
+                      issue: {
+                        title: 'Crash on startup',
+                        url: 'https://github.com/test/repo/issues/5',
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      });
+
+      const contributions = await connector.fetchContributions(
+        dayjs('2025-01-01'),
+        dayjs('2025-01-31'),
+      );
+
+      expect(contributions).toEqual([
+        {
+          type: 'issue',
+          timestamp: '2025-01-18T08:00:00Z',
+          text: 'Crash on startup',
+          url: 'https://github.com/test/repo/issues/5',
+          repository: 'test/repo',
+        },
+      ]);
+    });
+  });
+
+  describe('truncated results', () => {
+    const emptyCollection = {
+      commitContributionsByRepository: [],
+      pullRequestContributions: { nodes: [] },
+      pullRequestReviewContributions: { nodes: [] },
+    };
+
+    it('should warn when more issues were opened than are read', async () => {
+      mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'testuser' } });
+      mockOctokit.request.mockResolvedValueOnce({
+        data: {
+          data: {
+            user: {
+              contributionsCollection: {
+                ...emptyCollection,
+                issueContributions: { nodes: [], pageInfo: { hasNextPage: true } },
+              },
+            },
+          },
+        },
+      });
+
+      await connector.fetchContributions(dayjs('2025-01-01'), dayjs('2025-01-31'));
+
+      expect(connector.takeWarnings()).toEqual([
+        'GitHub issues are incomplete, only the first 100 opened in the range were read',
+      ]);
+    });
+
+    it('should warn when comments in the range are left unread after the last page', async () => {
+      mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'testuser' } });
+      mockOctokit.request.mockImplementation(
+        async (_route: string, { query }: { query: string }) =>
+          query.includes('contributionsCollection')
+            ? { data: { data: { user: { contributionsCollection: emptyCollection } } } }
+            : {
+                data: {
+                  data: {
+                    user: {
+                      issueComments: {
+                        nodes: [
+                          { createdAt: '2025-01-20T10:00:00Z', updatedAt: '2025-01-20T10:00:00Z' },
+                        ],
+                        pageInfo: { hasNextPage: true, endCursor: 'next' },
+                      },
+                    },
+                  },
+                },
+              },
+      );
+
+      try {
+        await connector.fetchContributions(dayjs('2025-01-01'), dayjs('2025-01-31'));
+
+        // One contributions query and ten comment pages
+        expect(mockOctokit.request).toHaveBeenCalledTimes(11);
+        expect(connector.takeWarnings()).toEqual([
+          'GitHub comments are incomplete, only the latest 1000 comments were read',
+        ]);
+      } finally {
+        mockOctokit.request.mockReset();
+      }
+    });
+  });
+
+  describe('diff statistics', () => {
+    it('should add additions, deletions and changed files to commits and PRs', async () => {
+      mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'testuser' } });
+      mockOctokit.request.mockResolvedValueOnce({
+        data: {
+          data: {
+            user: {
+              contributionsCollection: {
+                commitContributionsByRepository: [
+                  {
+                    repository: {
+                      nameWithOwner: 'test/repo',
+                      defaultBranchRef: {
+                        name: 'main',
+                        target: {
+                          history: {
+                            nodes: [
+                              {
+                                committedDate: '2025-01-15T10:00:00Z',
+                                messageHeadline: 'Add feature',
+                                url: 'https://github.com/test/repo/commit/abc123',
+                                additions: 42,
+                                deletions: 7,
+                                changedFilesIfAvailable: 3,
+                                author: { user: { login: 'testuser' } },
+                              },
+                            ],
+                            pageInfo: { hasNextPage: false },
+                          },
+                        },
+                      },
+                    },
+                  },
+                ],
+                pullRequestContributions: {
+                  nodes: [
+                    {
+                      occurredAt: '2025-01-16T14:30:00Z',
+                      pullRequest: {
+                        title: 'Add new feature',
+                        url: 'https://github.com/test/repo/pull/1',
+                        additions: 100,
+                        deletions: 20,
+                        changedFiles: 5,
+                      },
+                    },
+                  ],
+                },
+                pullRequestReviewContributions: { nodes: [] },
+              },
+            },
+          },
+        },
+      });
+
+      const contributions = await connector.fetchContributions(
+        dayjs('2025-01-01'),
+        dayjs('2025-01-31'),
+      );
+
+      expect(contributions.find((contribution) => contribution.type === 'commit')).toMatchObject({
+        additions: 42,
+        deletions: 7,
+        changedFiles: 3,
+      });
+      expect(contributions.find((contribution) => contribution.type === 'pr')).toMatchObject({
+        additions: 100,
+        deletions: 20,
+        changedFiles: 5,
+      });
+    });
+  });
+
+  describe('pull request state', () => {
+    it('should map state, draft flag and lifecycle timestamps', async () => {
+      mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'testuser' } });
+      mockOctokit.request.mockResolvedValueOnce({
+        data: {
+          data: {
+            user: {
+              contributionsCollection: {
+                commitContributionsByRepository: [],
+                pullRequestContributions: {
+                  nodes: [
+                    {
+                      occurredAt: '2025-01-10T09:00:00Z',
+                      pullRequest: {
+                        title: 'Add feature',
+                        url: 'https://github.com/test/repo/pull/1',
+                        state: 'MERGED',
+                        isDraft: false,
+                        mergedAt: '2025-01-12T16:00:00Z',
+                        closedAt: '2025-01-12T16:00:00Z',
+                      },
+                    },
+                    {
+                      occurredAt: '2025-01-11T09:00:00Z',
+                      pullRequest: {
+                        title: 'WIP: Refactor',
+                        url: 'https://github.com/test/repo/pull/2',
+                        state: 'OPEN',
+                        isDraft: true,
+                        mergedAt: null,
+                        closedAt: null,
+                      },
+                    },
+                  ],
+                },
+                pullRequestReviewContributions: { nodes: [] },
+              },
+            },
+          },
+        },
+      });
+
+      const contributions = await connector.fetchContributions(
+        dayjs('2025-01-01'),
+        dayjs('2025-01-31'),
+      );
+      const pullRequests = contributions.filter((contribution) => contribution.type === 'pr');
+
+      expect(pullRequests).toContainEqual(
+        expect.objectContaining({
+          url: 'https://github.com/test/repo/pull/1',
+          state: 'merged',
+          mergedAt: '2025-01-12T16:00:00Z',
+          closedAt: '2025-01-12T16:00:00Z',
+        }),
+      );
+      const draft = pullRequests.find(
+        (contribution) => contribution.url === 'https://github.com/test/repo/pull/2',
+      );
+      expect(draft?.state).toBe('draft');
+      expect(draft?.mergedAt).toBeUndefined();
+    });
+  });
+
+  describe('comment contributions', () => {
+    it('should map issue and pull request comments to their parent', async () => {
+      mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'testuser' } });
+      mockOctokit.request
+        .mockResolvedValueOnce({
+          data: {
+            data: {
+              user: {
+                contributionsCollection: {
+                  commitContributionsByRepository: [],
+                  pullRequestContributions: { nodes: [] },
+                  pullRequestReviewContributions: { nodes: [] },
+                },
+              },
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            data: {
+              user: {
+                issueComments: {
+                  nodes: [
+                    {
+                      createdAt: '2025-01-20T10:00:00Z',
+                      updatedAt: '2025-01-20T10:00:00Z',
+                      url: 'https://github.com/test/repo/pull/3#issuecomment-1',
+                      issue: { title: 'Add cache', url: 'https://github.com/test/repo/pull/3' },
+                      pullRequest: {
+                        title: 'Add cache',
+                        url: 'https://github.com/test/repo/pull/3',
+                        baseRefName: 'main',
+                      },
+                    },
+                    {
+                      createdAt: '2025-01-19T10:00:00Z',
+                      updatedAt: '2025-01-19T10:00:00Z',
+                      url: 'https://github.com/test/repo/issues/5#issuecomment-2',
+                      issue: {
+                        title: 'Crash on startup',
+                        url: 'https://github.com/test/repo/issues/5',
+                      },
+                      pullRequest: null,
+                    },
+                    {
+                      createdAt: '2024-12-01T10:00:00Z',
+                      updatedAt: '2024-12-01T10:00:00Z',
+                      url: 'https://github.com/test/repo/issues/1#issuecomment-3',
+                      issue: { title: 'Old', url: 'https://github.com/test/repo/issues/1' },
+                    },
+                  ],
+                  pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+                },
+              },
+            },
+          },
+        });
+
+      const contributions = await connector.fetchContributions(
+        dayjs('2025-01-01'),
+        dayjs('2025-01-31'),
+      );
+
+      expect(contributions).toEqual([
+        {
+          type: 'comment',
+          timestamp: '2025-01-20T10:00:00Z',
+          text: 'Add cache',
+          url: 'https://github.com/test/repo/pull/3',
+          repository: 'test/repo',
+          target: 'main',
+        },
+        {
+          type: 'comment',
+          timestamp: '2025-01-19T10:00:00Z',
+          text: 'Crash on startup',
+          url: 'https://github.com/test/repo/issues/5',
+          repository: 'test/repo',
+          target: undefined,
+        },
+      ]);
+      // The last comment was updated before the range, so no further page is requested
+      expect(mockOctokit.request).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('fetchMergedPullRequests', () => {
+    const from = dayjs('2025-01-01T00:00:00Z');
+    const to = dayjs('2025-01-31T23:59:59Z');
+
+    it('should search pull requests merged in range, whenever they were opened', async () => {
+      mockOctokit.paginate.mockResolvedValue([
+        {
+          title: 'Add login',
+          html_url: 'https://github.com/team/app/pull/1',
+          created_at: '2024-12-20T10:00:00Z',
+          closed_at: '2025-01-10T12:00:00Z',
+          pull_request: { merged_at: '2025-01-10T12:00:00Z' },
+        },
+      ]);
+
+      const contributions = await connector.fetchMergedPullRequests(from, to);
+
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(
+        mockOctokit.rest.search.issuesAndPullRequests,
+        expect.objectContaining({
+          q: 'is:pr author:@me merged:2025-01-01T00:00:00Z..2025-01-31T23:59:59Z',
+        }),
+      );
+      expect(contributions).toEqual([
+        {
+          type: 'pr',
+          timestamp: '2024-12-20T10:00:00Z',
+          text: 'Add login',
+          url: 'https://github.com/team/app/pull/1',
+          repository: 'team/app',
+          state: 'merged',
+          mergedAt: '2025-01-10T12:00:00Z',
+          closedAt: '2025-01-10T12:00:00Z',
+        },
+      ]);
+    });
+
+    it('should warn when the search fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockOctokit.paginate.mockRejectedValue(new Error('Validation Failed'));
+
+      expect(await connector.fetchMergedPullRequests(from, to)).toEqual([]);
+      expect(connector.takeWarnings()).toEqual([
+        'Failed to search merged GitHub pull requests: Validation Failed',
+      ]);
+    });
+  });
+
   describe('createGitHubConnector', () => {
     it('should throw when token is missing', () => {
       expect(() => createGitHubConnector(undefined)).toThrow(
@@ -330,5 +759,62 @@ describe('GitHubConnector', () => {
       const connector = createGitHubConnector('valid-token');
       expect(connector).toBeInstanceOf(GitHubConnector);
     });
+
+    it('should create a GitHub Enterprise connector when a host is provided', () => {
+      const connector = createGitHubConnector('valid-token', { host: 'github.example.com' });
+      expect(connector.getPlatformName()).toBe('GitHub Enterprise');
+    });
+  });
+
+  describe('GitHub Enterprise Server', () => {
+    const from = dayjs('2025-01-01');
+    const to = dayjs('2025-01-31');
+
+    it('should send GraphQL requests to the GHES endpoint and parse GHES URLs', async () => {
+      const enterpriseConnector = new GitHubConnector(mockOctokit as unknown as Octokit, {
+        host: 'https://github.example.com/',
+      });
+      mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'testuser' } });
+      mockOctokit.request.mockResolvedValueOnce({
+        data: {
+          data: {
+            user: {
+              contributionsCollection: {
+                commitContributionsByRepository: [],
+                pullRequestContributions: {
+                  nodes: [
+                    {
+                      occurredAt: '2025-01-16T14:30:00Z',
+                      pullRequest: {
+                        title: 'Add new feature',
+                        url: 'https://github.example.com/team/service/pull/1',
+                      },
+                    },
+                  ],
+                },
+                pullRequestReviewContributions: { nodes: [] },
+              },
+            },
+          },
+        },
+      });
+
+      const contributions = await enterpriseConnector.fetchContributions(from, to);
+
+      expect(mockOctokit.request).toHaveBeenCalledWith(
+        'POST /graphql',
+        expect.objectContaining({ baseUrl: 'https://github.example.com/api' }),
+      );
+      expect(contributions).toEqual([
+        expect.objectContaining({ type: 'pr', repository: 'team/service' }),
+      ]);
+    });
+
+    it('should treat github.com as the public API', () => {
+      const publicConnector = new GitHubConnector(mockOctokit as unknown as Octokit, {
+        host: 'github.com',
+      });
+      expect(publicConnector.getPlatformName()).toBe('GitHub');
+    });
   });
 });
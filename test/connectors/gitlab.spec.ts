@@ -2,7 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { GitLabConnector, createGitLabConnector } from '../../src/connectors/gitlab.js';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc.js';
-import type { Gitlab } from '@gitbeaker/rest';
+import { Gitlab } from '@gitbeaker/rest';
+import { RequestScheduler } from '../../src/lib/http/requestScheduler.js';
 
 dayjs.extend(utc);
 
@@ -15,6 +16,11 @@ describe('GitLabConnector', () => {
     },
     MergeRequests: {
       all: vi.fn(),
+      show: vi.fn(),
+    },
+    Commits: {
+      all: vi.fn(),
+      show: vi.fn(),
     },
     Projects: {
       show: vi.fn(),
@@ -70,6 +76,55 @@ describe('GitLabConnector', () => {
         'Unable to determine authenticated user username from GitLab.',
       );
     });
+
+    it('should retry when GitLab responds with a rate limit', async () => {
+      const sleep = vi.fn().mockResolvedValue(undefined);
+      const scheduledConnector = new GitLabConnector(
+        mockGitlab as unknown as Gitlab,
+        mockConfiguration,
+        { scheduler: new RequestScheduler({ sleep }) },
+      );
+      mockGitlab.Users.showCurrentUser
+        .mockRejectedValueOnce(
+          new Error('Too Many Requests', {
+            cause: { response: { status: 429, headers: new Headers({ 'Retry-After': '2' }) } },
+          }),
+        )
+        .mockResolvedValueOnce({ id: 123, username: 'testuser' });
+
+      expect(await scheduledConnector.getUserLogin()).toBe('testuser');
+      expect(sleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('should pause requests when RateLimit headers report an exhausted budget', async () => {
+      const sleep = vi.fn().mockResolvedValue(undefined);
+      const resetAt = Math.ceil(Date.now() / 1000) + 5;
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () =>
+          Response.json(
+            { id: 123, username: 'testuser' },
+            { headers: { 'RateLimit-Remaining': '0', 'RateLimit-Reset': `${resetAt}` } },
+          ),
+        );
+      vi.stubGlobal('fetch', fetchMock);
+      try {
+        const scheduledConnector = new GitLabConnector('token', mockConfiguration, {
+          scheduler: new RequestScheduler({ sleep }),
+          host: 'https://gitlab.example.com',
+        });
+
+        await scheduledConnector.getUserLogin();
+        expect(sleep).not.toHaveBeenCalled();
+
+        await scheduledConnector.getUserLogin();
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(sleep).toHaveBeenCalledTimes(1);
+        expect(sleep.mock.calls[0][0]).toBeGreaterThan(3000);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
   });
 
   describe('fetchContributions', () => {
@@ -159,6 +214,322 @@ describe('GitLabConnector', () => {
       expect(contributions[0].text).toBe('review');
     });
 
+    it('should handle issue events as issues', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({
+        id: 123,
+        username: 'testuser',
+      });
+
+      mockGitlab.Users.allEvents.mockResolvedValue([
+        {
+          id: 1,
+          action_name: 'opened',
+          created_at: '2025-01-17T09:00:00Z',
+          target_type: 'Issue',
+          target_title: 'Login fails on Safari',
+          target_iid: 42,
+          project_id: 1,
+        },
+        {
+          id: 2,
+          action_name: 'closed',
+          created_at: '2025-01-18T09:00:00Z',
+          target_type: 'Issue',
+          target_title: 'Outdated docs',
+          target_iid: 7,
+          project_id: 1,
+        },
+        {
+          id: 3,
+          action_name: 'commented on',
+          created_at: '2025-01-18T10:00:00Z',
+          target_type: 'Note',
+          target_title: 'Outdated docs',
+          project_id: 1,
+        },
+      ]);
+      mockGitlab.Projects.show.mockResolvedValue({
+        id: 1,
+        path_with_namespace: 'group/project',
+        web_url: 'https://gitlab.com/group/project',
+      });
+      mockGitlab.MergeRequests.all.mockResolvedValue([]);
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(contributions.filter((contribution) => contribution.type === 'issue')).toEqual([
+        {
+          type: 'issue',
+          timestamp: '2025-01-17T09:00:00Z',
+          text: 'Login fails on Safari',
+          url: 'https://gitlab.com/group/project/-/issues/42',
+          repository: 'group/project',
+        },
+        {
+          type: 'issue',
+          timestamp: '2025-01-18T09:00:00Z',
+          text: 'Closed: Outdated docs',
+          url: 'https://gitlab.com/group/project/-/issues/7',
+          repository: 'group/project',
+        },
+      ]);
+    });
+
+    it('should handle note events as comments on the parent', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({
+        id: 123,
+        username: 'testuser',
+      });
+
+      mockGitlab.Users.allEvents.mockResolvedValue([
+        {
+          id: 1,
+          action_name: 'commented on',
+          created_at: '2025-01-17T09:00:00Z',
+          target_type: 'DiffNote',
+          target_title: 'Add login',
+          project_id: 1,
+          note: { id: 99, body: 'Nit', noteable_type: 'MergeRequest', noteable_iid: 12 },
+        },
+        {
+          id: 2,
+          action_name: 'commented on',
+          created_at: '2025-01-18T09:00:00Z',
+          target_type: 'Note',
+          target_title: 'Outdated docs',
+          project_id: 1,
+          note: { id: 100, body: 'Agreed', noteable_type: 'Issue', noteable_iid: 7 },
+        },
+      ]);
+      mockGitlab.Projects.show.mockResolvedValue({
+        id: 1,
+        path_with_namespace: 'group/project',
+        web_url: 'https://gitlab.com/group/project',
+      });
+      mockGitlab.MergeRequests.all.mockResolvedValue([]);
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(contributions).toEqual([
+        {
+          type: 'comment',
+          timestamp: '2025-01-17T09:00:00Z',
+          text: 'Add login',
+          url: 'https://gitlab.com/group/project/-/merge_requests/12',
+          repository: 'group/project',
+        },
+        {
+          type: 'comment',
+          timestamp: '2025-01-18T09:00:00Z',
+          text: 'Outdated docs',
+          url: 'https://gitlab.com/group/project/-/issues/7',
+          repository: 'group/project',
+        },
+      ]);
+    });
+
+    it('should add diff statistics to pushes and merge requests', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({
+        id: 123,
+        username: 'testuser',
+        email: 'Test@example.com',
+      });
+
+      mockGitlab.Users.allEvents.mockResolvedValue([
+        {
+          id: 1,
+          action_name: 'pushed to',
+          created_at: '2025-01-15T10:00:00Z',
+          project_id: 1,
+          push_data: {
+            ref: 'refs/heads/main',
+            commit_title: 'Add feature',
+            commit_from: 'aaa',
+            commit_to: 'ccc',
+          },
+        },
+      ]);
+      mockGitlab.Projects.show.mockResolvedValue({ id: 1, path_with_namespace: 'group/project' });
+      mockGitlab.Commits.all.mockResolvedValueOnce([
+        {
+          id: 'ccc',
+          author_email: 'test@example.com',
+          stats: { additions: 10, deletions: 2, total: 12 },
+        },
+        {
+          id: 'bbb',
+          author_email: 'test@example.com',
+          stats: { additions: 5, deletions: 1, total: 6 },
+        },
+        {
+          id: 'abc',
+          author_email: 'other@example.com',
+          stats: { additions: 100, deletions: 50, total: 150 },
+        },
+      ]);
+      mockGitlab.MergeRequests.all.mockResolvedValue([
+        {
+          iid: 4,
+          project_id: 1,
+          title: 'Add feature',
+          created_at: '2025-01-16T10:00:00Z',
+          web_url: 'https://gitlab.com/group/project/-/merge_requests/4',
+        },
+      ]);
+      mockGitlab.MergeRequests.show.mockResolvedValueOnce({ iid: 4, changes_count: '7' });
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(mockGitlab.Commits.all).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ refName: 'aaa..ccc', withStats: true }),
+      );
+      expect(contributions.find((contribution) => contribution.type === 'commit')).toMatchObject({
+        additions: 15,
+        deletions: 3,
+      });
+      expect(contributions.find((contribution) => contribution.type === 'pr')).toMatchObject({
+        changedFiles: 7,
+      });
+    });
+
+    it('should fetch the changed files of merge requests in parallel', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({ id: 123, username: 'testuser' });
+      mockGitlab.Users.allEvents.mockResolvedValue([]);
+      mockGitlab.Projects.show.mockResolvedValue({ id: 1, path_with_namespace: 'group/project' });
+      mockGitlab.MergeRequests.all.mockResolvedValue(
+        [4, 5].map((iid) => ({
+          iid,
+          project_id: 1,
+          title: `Change ${iid}`,
+          created_at: '2025-01-16T10:00:00Z',
+        })),
+      );
+      // Both requests must be running before either one is answered
+      const pending: Array<() => void> = [];
+      const show = (_projectId: number, iid: number) =>
+        new Promise((resolve) => {
+          pending.push(() => resolve({ iid, changes_count: String(iid) }));
+          if (pending.length === 2) pending.forEach((answer) => answer());
+        });
+      mockGitlab.MergeRequests.show.mockImplementationOnce(show).mockImplementationOnce(show);
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(contributions.map((contribution) => contribution.changedFiles)).toEqual([4, 5]);
+    });
+
+    it('should warn when diff statistics cannot be fetched', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({ id: 123, username: 'testuser' });
+      mockGitlab.Users.allEvents.mockResolvedValue([
+        {
+          id: 1,
+          action_name: 'pushed to',
+          created_at: '2025-01-15T10:00:00Z',
+          project_id: 1,
+          push_data: { ref: 'refs/heads/main', commit_from: 'aaa', commit_to: 'ccc' },
+        },
+      ]);
+      mockGitlab.Projects.show.mockResolvedValue({ id: 1, path_with_namespace: 'group/project' });
+      mockGitlab.Commits.all.mockRejectedValueOnce(new Error('Not Found'));
+      mockGitlab.MergeRequests.all.mockResolvedValue([
+        {
+          iid: 4,
+          project_id: 1,
+          title: 'Add feature',
+          created_at: '2025-01-16T10:00:00Z',
+          web_url: 'https://gitlab.com/group/project/-/merge_requests/4',
+        },
+      ]);
+      mockGitlab.MergeRequests.show.mockRejectedValueOnce(new Error('Forbidden'));
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(
+        contributions.find((contribution) => contribution.type === 'commit'),
+      ).not.toHaveProperty('additions');
+      expect(connector.takeWarnings()).toEqual([
+        'Failed to fetch diff statistics of a push to project 1: Not Found',
+        'Failed to fetch changed files of merge request !4 in project 1: Forbidden',
+      ]);
+    });
+
+    it('should warn when a push has more commits than are read for its statistics', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({
+        id: 123,
+        username: 'testuser',
+        commit_email: 'test@example.com',
+      });
+      mockGitlab.Users.allEvents.mockResolvedValue([
+        {
+          id: 1,
+          action_name: 'pushed to',
+          created_at: '2025-01-15T10:00:00Z',
+          project_id: 1,
+          push_data: { ref: 'refs/heads/main', commit_from: 'aaa', commit_to: 'ccc' },
+        },
+      ]);
+      mockGitlab.Projects.show.mockResolvedValue({ id: 1, path_with_namespace: 'group/project' });
+      mockGitlab.Commits.all.mockResolvedValueOnce(
+        Array.from({ length: 1000 }, () => ({
+          author_email: 'test@example.com',
+          stats: { additions: 1, deletions: 0 },
+        })),
+      );
+      mockGitlab.MergeRequests.all.mockResolvedValue([]);
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(mockGitlab.Commits.all).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ perPage: 100, maxPages: 10 }),
+      );
+      expect(contributions[0]).toMatchObject({ additions: 1000 });
+      expect(connector.takeWarnings()).toEqual([
+        'Diff statistics of a push to project 1 only cover its first 1000 commits',
+      ]);
+    });
+
+    it('should map merge request state and lifecycle timestamps', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({
+        id: 123,
+        username: 'testuser',
+      });
+
+      mockGitlab.Users.allEvents.mockResolvedValue([]);
+      mockGitlab.Projects.show.mockResolvedValue({ id: 1, path_with_namespace: 'group/project' });
+      mockGitlab.MergeRequests.all.mockResolvedValue([
+        {
+          iid: 4,
+          project_id: 1,
+          title: 'Add feature',
+          state: 'merged',
+          created_at: '2025-01-16T10:00:00Z',
+          merged_at: '2025-01-17T12:00:00Z',
+          web_url: 'https://gitlab.com/group/project/-/merge_requests/4',
+        },
+        {
+          iid: 5,
+          project_id: 1,
+          title: 'Draft: Refactor',
+          state: 'opened',
+          draft: true,
+          created_at: '2025-01-18T10:00:00Z',
+          web_url: 'https://gitlab.com/group/project/-/merge_requests/5',
+        },
+      ]);
+
+      const contributions = await connector.fetchContributions(from, to);
+      const mergeRequests = contributions.filter((contribution) => contribution.type === 'pr');
+
+      expect(mergeRequests).toContainEqual(
+        expect.objectContaining({ state: 'merged', mergedAt: '2025-01-17T12:00:00Z' }),
+      );
+      expect(mergeRequests).toContainEqual(
+        expect.objectContaining({ text: 'Draft: Refactor', state: 'draft' }),
+      );
+    });
+
     it('should filter contributions by date range', async () => {
       mockGitlab.Users.showCurrentUser.mockResolvedValue({
         id: 123,
@@ -313,6 +684,70 @@ describe('GitLabConnector', () => {
     });
   });
 
+  describe('fetchMergedPullRequests', () => {
+    const from = dayjs.utc('2025-01-01T00:00:00Z');
+    const to = dayjs.utc('2025-01-31T23:59:59Z');
+
+    it('should return merge requests merged in range, whenever they were created', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({ id: 123, username: 'testuser' });
+      mockGitlab.Projects.show.mockResolvedValue({ id: 1, path_with_namespace: 'group/project' });
+      mockGitlab.MergeRequests.all.mockResolvedValue([
+        {
+          iid: 3,
+          project_id: 1,
+          title: 'Add login',
+          state: 'merged',
+          created_at: '2024-12-20T10:00:00Z',
+          merged_at: '2025-01-10T12:00:00Z',
+          web_url: 'https://gitlab.com/group/project/-/merge_requests/3',
+        },
+        {
+          iid: 4,
+          project_id: 1,
+          title: 'Merged later',
+          state: 'merged',
+          created_at: '2025-01-20T10:00:00Z',
+          merged_at: '2025-02-02T12:00:00Z',
+          web_url: 'https://gitlab.com/group/project/-/merge_requests/4',
+        },
+      ]);
+
+      const contributions = await connector.fetchMergedPullRequests(from, to);
+
+      expect(mockGitlab.MergeRequests.all).toHaveBeenCalledWith(
+        expect.objectContaining({
+          authorId: 123,
+          state: 'merged',
+          updatedAfter: '2025-01-01T00:00:00.000Z',
+        }),
+      );
+      expect(mockGitlab.MergeRequests.show).not.toHaveBeenCalled();
+      expect(contributions).toEqual([
+        {
+          type: 'pr',
+          timestamp: '2024-12-20T10:00:00Z',
+          text: 'Add login',
+          url: 'https://gitlab.com/group/project/-/merge_requests/3',
+          repository: 'group/project',
+          state: 'merged',
+          mergedAt: '2025-01-10T12:00:00Z',
+          closedAt: undefined,
+          target: undefined,
+        },
+      ]);
+    });
+
+    it('should warn when merged merge requests cannot be fetched', async () => {
+      mockGitlab.Users.showCurrentUser.mockResolvedValue({ id: 123, username: 'testuser' });
+      mockGitlab.MergeRequests.all.mockRejectedValue(new Error('API error'));
+
+      expect(await connector.fetchMergedPullRequests(from, to)).toEqual([]);
+      expect(connector.takeWarnings()).toEqual([
+        'Failed to fetch merged merge requests: API error',
+      ]);
+    });
+  });
+
   describe('createGitLabConnector', () => {
     it('should throw when token is undefined', () => {
       expect(() => createGitLabConnector(undefined)).toThrow(
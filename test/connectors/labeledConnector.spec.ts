@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import dayjs from 'dayjs';
+import { LabeledConnector } from '../../src/connectors/labeledConnector.js';
+import type { Connector } from '../../src/connectors/types.js';
+
+const from = dayjs('2025-01-01T00:00:00Z');
+const to = dayjs('2025-01-31T23:59:59Z');
+
+const createMockConnector = (): Connector => ({
+  fetchContributions: vi
+    .fn()
+    .mockResolvedValue([{ type: 'pr', timestamp: '2025-01-10T10:00:00Z', text: 'Add feature' }]),
+  fetchAllCommits: vi
+    .fn()
+    .mockResolvedValue([
+      { type: 'commit', timestamp: '2025-01-11T10:00:00Z', text: 'Fix bug', target: 'feature' },
+    ]),
+  getUserLogin: vi.fn().mockResolvedValue('octocat'),
+  getPlatformName: () => 'GitHub',
+});
+
+describe('LabeledConnector', () => {
+  it('should stamp the account label on contributions and commits', async () => {
+    const connector = new LabeledConnector(createMockConnector(), 'client');
+
+    expect(await connector.fetchContributions(from, to)).toEqual([
+      { type: 'pr', timestamp: '2025-01-10T10:00:00Z', text: 'Add feature', account: 'client' },
+    ]);
+    expect((await connector.fetchAllCommits(from, to))[0].account).toBe('client');
+  });
+
+  it('should stamp the label on merged pull requests when the connector fetches them', async () => {
+    const mergedPullRequest = {
+      type: 'pr' as const,
+      timestamp: '2024-12-20T10:00:00Z',
+      mergedAt: '2025-01-10T12:00:00Z',
+    };
+    const connector = new LabeledConnector(
+      {
+        ...createMockConnector(),
+        fetchMergedPullRequests: vi.fn().mockResolvedValue([mergedPullRequest]),
+      },
+      'client',
+    );
+
+    expect(await connector.fetchMergedPullRequests(from, to)).toEqual([
+      { ...mergedPullRequest, account: 'client' },
+    ]);
+    expect(
+      await new LabeledConnector(createMockConnector(), 'client').fetchMergedPullRequests(from, to),
+    ).toEqual([]);
+  });
+
+  it('should include the label in the platform name and delegate the login', async () => {
+    const connector = new LabeledConnector(createMockConnector(), ' personal ');
+
+    expect(connector.getPlatformName()).toBe('GitHub (personal)');
+    expect(await connector.getUserLogin()).toBe('octocat');
+  });
+
+  it('should require a label', () => {
+    expect(() => new LabeledConnector(createMockConnector(), '  ')).toThrow(
+      'A non-empty account label is required.',
+    );
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import { LocalGitConnector, createLocalGitConnector } from '../../src/connectors/localGit.js';
+import type { Configuration } from '../../src/lib/config/index.js';
+
+dayjs.extend(utc);
+
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+const logLine = (sha: string, date: string, email: string, subject: string) =>
+  `${sha}${FIELD}${date}${FIELD}${email}${FIELD}${subject}${RECORD}\n`;
+
+describe('LocalGitConnector', () => {
+  let workspace: string;
+  const runGit = vi.fn<(workingDirectory: string, gitArguments: string[]) => Promise<string>>();
+
+  const from = dayjs('2025-01-01T00:00:00Z').utc(true);
+  const to = dayjs('2025-01-31T23:59:59.999Z').utc(true);
+
+  beforeAll(async () => {
+    workspace = await mkdtemp(path.join(tmpdir(), 'local-git-connector-'));
+    // Working tree with a github.com origin
+    await mkdir(path.join(workspace, 'alpha', '.git'), { recursive: true });
+    // Nested working tree without remote
+    await mkdir(path.join(workspace, 'group', 'beta', '.git'), { recursive: true });
+    // Bare mirror clone
+    await mkdir(path.join(workspace, 'mirror.git', 'objects'), { recursive: true });
+    await mkdir(path.join(workspace, 'mirror.git', 'refs'), { recursive: true });
+    await writeFile(path.join(workspace, 'mirror.git', 'HEAD'), 'ref: refs/heads/main\n');
+    // Ignored during discovery
+    await mkdir(path.join(workspace, 'node_modules', 'dependency', '.git'), { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  const createConnector = (overrides: Partial<Configuration> = {}) =>
+    new LocalGitConnector(
+      {
+        baseBranches: ['main', 'master'],
+        localRepositoryDirectories: [workspace],
+        authorEmails: ['me@example.com'],
+        ...overrides,
+      },
+      runGit,
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runGit.mockImplementation(async (workingDirectory, gitArguments) => {
+      const repository = path.basename(workingDirectory);
+
+      if (gitArguments[0] === 'config' && gitArguments[2] === 'remote.origin.url') {
+        if (repository === 'alpha') return 'git@github.com:acme/alpha.git\n';
+        if (repository === 'mirror.git') return 'https://git.internal/team/mirror.git\n';
+        throw new Error('exit code 1');
+      }
+
+      if (gitArguments[0] === 'config' && gitArguments[2] === 'user.email') {
+        return 'fallback@example.com\n';
+      }
+
+      if (gitArguments[0] === 'for-each-ref') {
+        return 'refs/heads/feature\nrefs/heads/main\nrefs/remotes/origin/HEAD\nrefs/remotes/origin/main\n';
+      }
+
+      if (gitArguments[0] === 'log') {
+        if (repository !== 'alpha') return '';
+        const reference = gitArguments[1];
+        if (reference === 'refs/heads/main' || reference === 'refs/remotes/origin/main') {
+          return logLine('aaa111', '2025-01-15T10:00:00+01:00', 'me@example.com', 'Add feature');
+        }
+        if (reference === 'refs/heads/feature') {
+          return (
+            logLine('bbb222', '2025-01-16T12:00:00+00:00', 'ME@example.com', 'Work in progress') +
+            logLine('aaa111', '2025-01-15T10:00:00+01:00', 'me@example.com', 'Add feature') +
+            logLine('ccc333', '2025-01-16T13:00:00+00:00', 'me@example.company', 'Not mine')
+          );
+        }
+      }
+
+      return '';
+    });
+  });
+
+  it('constructor should throw when constructed without configuration', () => {
+    // @ts-expect-error runtime test
+    expect(() => new LocalGitConnector(undefined)).toThrow('Configuration is required.');
+  });
+
+  describe('getPlatformName', () => {
+    it('should return Local Git', () => {
+      expect(createConnector().getPlatformName()).toBe('Local Git');
+    });
+  });
+
+  describe('getUserLogin', () => {
+    it('should return configured author emails', async () => {
+      const connector = createConnector({ authorEmails: ['me@example.com', 'me@corp.internal'] });
+      await expect(connector.getUserLogin()).resolves.toBe('me@example.com, me@corp.internal');
+    });
+
+    it('should fall back to git user.email', async () => {
+      const connector = createConnector({ authorEmails: [] });
+      await expect(connector.getUserLogin()).resolves.toBe('fallback@example.com');
+    });
+  });
+
+  describe('fetchContributions', () => {
+    it('should return commits on base branches from discovered repositories', async () => {
+      const connector = createConnector();
+
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(contributions).toEqual([
+        {
+          type: 'commit',
+          timestamp: '2025-01-15T09:00:00.000Z',
+          text: 'Add feature',
+          url: 'https://github.com/acme/alpha/commit/aaa111',
+          repository: 'acme/alpha',
+          target: 'main',
+        },
+      ]);
+
+      const scannedRepositories = new Set(
+        runGit.mock.calls
+          .filter(([, gitArguments]) => gitArguments[0] === 'for-each-ref')
+          .map(([workingDirectory]) => path.relative(workspace, workingDirectory)),
+      );
+      expect(scannedRepositories).toEqual(
+        new Set(['alpha', path.join('group', 'beta'), 'mirror.git']),
+      );
+    });
+
+    it('should pass the date range and author emails to git log', async () => {
+      const connector = createConnector();
+
+      await connector.fetchContributions(from, to);
+
+      const logCall = runGit.mock.calls.find(([, gitArguments]) => gitArguments[0] === 'log');
+      expect(logCall?.[1]).toEqual(
+        expect.arrayContaining([
+          `--since=${from.toISOString()}`,
+          `--until=${to.toISOString()}`,
+          '--author=me@example.com',
+        ]),
+      );
+    });
+
+    it('should use git user.email when no author emails are configured', async () => {
+      const connector = createConnector({ authorEmails: undefined });
+
+      await connector.fetchContributions(from, to);
+
+      const logCall = runGit.mock.calls.find(([, gitArguments]) => gitArguments[0] === 'log');
+      expect(logCall?.[1]).toContain('--author=fallback@example.com');
+    });
+
+    it('should skip repositories that fail and continue with the rest', async () => {
+      const defaultImplementation = runGit.getMockImplementation()!;
+      runGit.mockImplementation(async (workingDirectory, gitArguments) => {
+        if (path.basename(workingDirectory) === 'mirror.git' && gitArguments[0] === 'log') {
+          throw new Error('fatal: bad object');
+        }
+        return defaultImplementation(workingDirectory, gitArguments);
+      });
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const connector = createConnector();
+      const contributions = await connector.fetchContributions(from, to);
+
+      expect(contributions).toHaveLength(1);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('fatal: bad object'));
+      expect(connector.takeWarnings()).toEqual([expect.stringContaining('fatal: bad object')]);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('fetchAllCommits', () => {
+    it('should return commits from all branches attributed by author email', async () => {
+      const connector = createConnector();
+
+      const contributions = await connector.fetchAllCommits(from, to);
+
+      expect(contributions).toHaveLength(2);
+      expect(contributions).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ text: 'Add feature', target: 'main' }),
+          expect.objectContaining({ text: 'Work in progress', target: 'feature' }),
+        ]),
+      );
+    });
+
+    it('should use the directory name when there is no origin remote', async () => {
+      runGit.mockImplementation(async (workingDirectory, gitArguments) => {
+        if (gitArguments[0] === 'config') throw new Error('exit code 1');
+        if (gitArguments[0] === 'for-each-ref') return 'refs/heads/main\n';
+        if (gitArguments[0] === 'log' && path.basename(workingDirectory) === 'beta') {
+          return logLine('ddd444', '2025-01-20T08:00:00Z', 'me@example.com', 'Internal fix');
+        }
+        return '';
+      });
+
+      const contributions = await createConnector().fetchAllCommits(from, to);
+
+      expect(contributions).toEqual([
+        expect.objectContaining({ repository: 'beta', url: undefined, text: 'Internal fix' }),
+      ]);
+    });
+  });
+
+  describe('createLocalGitConnector', () => {
+    it('should throw when no directories are configured', () => {
+      expect(() => createLocalGitConnector({ baseBranches: ['main'] })).toThrow(
+        'No local repository directories configured.',
+      );
+    });
+
+    it('should create connector with configured directories', () => {
+      const connector = createLocalGitConnector({
+        baseBranches: ['main'],
+        localRepositoryDirectories: ['~/code'],
+      });
+      expect(connector).toBeInstanceOf(LocalGitConnector);
+    });
+  });
+});
@@ -142,4 +142,110 @@ describe('ConsoleFormatter', () => {
     expect(result.content).not.toContain('{');
     expect(result.content).toContain('[user/repository]');
   });
+
+  it('includes account label when available', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Fix bug',
+        repository: 'user/repository',
+        account: 'client-ghe',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    expect(result.content).toContain('commit: 10:30:00: @client-ghe: [user/repository]');
+  });
+
+  it('renders the state of pull requests', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'pr',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Add feature',
+        target: 'main',
+        state: 'draft',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    expect(result.content).toContain('pr: 10:30:00: (main): <draft>: Add feature');
+  });
+
+  it('marks the account and the state of a pull request differently', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'pr',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Add feature',
+        account: 'work',
+        state: 'open',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    expect(result.content).toContain('pr: 10:30:00: @work: <open>: Add feature');
+  });
+
+  it('renders issue contributions', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'issue',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Crash on startup',
+        repository: 'user/repository',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    expect(result.content).toContain('issue: 10:30:00: [user/repository]: Crash on startup');
+  });
+
+  it('appends a footer listing warnings', () => {
+    const contributions: Contribution[] = [
+      { type: 'commit', timestamp: '2024-01-01T10:30:00Z', text: 'Fix bug' },
+    ];
+
+    const result = formatter.format(contributions, {
+      withLinks: false,
+      warnings: [{ source: 'GitHub', message: 'Failed to fetch commits for user/repository' }],
+    });
+
+    expect(result.content).toContain('⚠ Incomplete data (1 warning(s)):');
+    expect(result.content.endsWith('- [GitHub] Failed to fetch commits for user/repository')).toBe(
+      true,
+    );
+  });
+
+  it('shows warnings when no contributions were found', () => {
+    const result = formatter.format([], {
+      withLinks: false,
+      warnings: [{ source: 'GitLab', message: 'Failed to fetch contributions: 401' }],
+    });
+
+    expect(result.content).toContain('No contributions found in this range');
+    expect(result.content).toContain('- [GitLab] Failed to fetch contributions: 401');
+  });
+
+  it('renders referenced tickets, with their links when requested', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'ABC-1 fix login, closes #4',
+        tickets: [
+          { key: 'ABC-1', tracker: 'jira', url: 'https://jira.example.com/browse/ABC-1' },
+          { key: '#4', tracker: 'github' },
+        ],
+      },
+    ];
+
+    expect(formatter.format(contributions, { withLinks: false }).content).toContain(
+      'commit: 10:30:00: ABC-1, #4: ABC-1 fix login, closes #4',
+    );
+    expect(formatter.format(contributions, { withLinks: true }).content).toContain(
+      'commit: 10:30:00: ABC-1 (https://jira.example.com/browse/ABC-1), #4: ABC-1 fix login',
+    );
+  });
 });
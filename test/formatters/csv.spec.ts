@@ -220,4 +220,159 @@ describe('CsvFormatter', () => {
     expect(lines[0]).toContain('projectId');
     expect(lines[1]).toContain('user/repository,,,Fix bug');
   });
+
+  it('includes account column only when contributions have an account', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Fix bug',
+        repository: 'user/repository',
+        account: 'personal',
+      },
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T11:30:00Z',
+        text: 'Other fix',
+        repository: 'user/repository',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    const lines = result.content.split('\n');
+
+    expect(lines[0]).toBe('type,timestamp,date,repository,target,projectId,account,text');
+    expect(lines[1]).toContain('user/repository,,,personal,Fix bug');
+    expect(lines[2]).toContain('user/repository,,,,Other fix');
+  });
+
+  it('renders issue contributions', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'issue',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Crash on startup',
+        repository: 'user/repository',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    const lines = result.content.split('\n');
+
+    expect(lines[1]).toBe(
+      'issue,2024-01-01T10:30:00Z,2024-01-01,user/repository,,,Crash on startup',
+    );
+  });
+
+  it('includes diff statistic columns when present', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'pr',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Add feature',
+        repository: 'user/repository',
+        additions: 120,
+        deletions: 4,
+        changedFiles: 6,
+      },
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T11:30:00Z',
+        text: 'Fix bug',
+        repository: 'user/repository',
+        additions: 0,
+        deletions: 3,
+      },
+      {
+        type: 'review',
+        timestamp: '2024-01-01T12:30:00Z',
+        text: 'review',
+        repository: 'user/repository',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    const lines = result.content.split('\n');
+
+    expect(lines[0]).toBe(
+      'type,timestamp,date,repository,target,projectId,additions,deletions,changedFiles,text',
+    );
+    expect(lines[1]).toContain('user/repository,,,120,4,6,Add feature');
+    expect(lines[2]).toContain('user/repository,,,0,3,,Fix bug');
+    expect(lines[3]).toContain('user/repository,,,,,,review');
+  });
+
+  it('includes pull request state columns when present', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'pr',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Add feature',
+        state: 'merged',
+        mergedAt: '2024-01-02T09:00:00Z',
+        closedAt: '2024-01-02T09:00:00Z',
+      },
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T11:30:00Z',
+        text: 'Fix bug',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    const lines = result.content.split('\n');
+
+    expect(lines[0]).toBe(
+      'type,timestamp,date,repository,target,projectId,state,mergedAt,closedAt,text',
+    );
+    expect(lines[1]).toContain(',merged,2024-01-02T09:00:00Z,2024-01-02T09:00:00Z,Add feature');
+    expect(lines[2]).toContain(',,,,Fix bug');
+  });
+
+  it('writes warnings to a sidecar file', () => {
+    const contributions: Contribution[] = [
+      { type: 'commit', timestamp: '2024-01-01T10:30:00Z', text: 'Fix bug' },
+    ];
+
+    const result = formatter.format(contributions, {
+      withLinks: false,
+      warnings: [{ source: 'GitHub', message: 'Failed to fetch commits for a, b' }],
+    });
+
+    expect(result.content.split('\n')).toHaveLength(2);
+    expect(result.sidecars).toEqual([
+      { suffix: 'warnings', content: 'source,message\nGitHub,"Failed to fetch commits for a, b"' },
+    ]);
+  });
+
+  it('writes no sidecar for complete reports', () => {
+    const result = formatter.format([], { withLinks: false });
+
+    expect(result.sidecars).toBeUndefined();
+  });
+
+  it('includes ticket columns when contributions reference tickets', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'ABC-1 fix login, closes #4',
+        tickets: [
+          { key: 'ABC-1', tracker: 'jira', url: 'https://jira.example.com/browse/ABC-1' },
+          { key: '#4', tracker: 'github' },
+        ],
+      },
+      { type: 'commit', timestamp: '2024-01-01T11:30:00Z', text: 'Refactor' },
+    ];
+
+    const lines = formatter.format(contributions, { withLinks: true }).content.split('\n');
+
+    expect(lines[0]).toBe(
+      'type,timestamp,date,repository,target,projectId,tickets,ticketUrls,text,url',
+    );
+    expect(lines[1]).toContain(
+      ',ABC-1 #4,https://jira.example.com/browse/ABC-1,"ABC-1 fix login, closes #4",',
+    );
+    expect(lines[2]).toContain(',,,Refactor,');
+  });
 });
@@ -125,7 +125,7 @@ describe('Formatter Integration', () => {
       expect(typeof result.content).toBe('string');
 
       // Should be valid JSON
-      const parsed = JSON.parse(result.content);
+      const parsed = JSON.parse(result.content).contributions;
       expect(Array.isArray(parsed)).toBe(true);
       expect(parsed.length).toBe(3);
 
@@ -140,7 +140,7 @@ describe('Formatter Integration', () => {
       const formatter = createFormatter('json');
       const result = formatter.format(sampleContributions, { withLinks: true });
 
-      const parsed = JSON.parse(result.content);
+      const parsed = JSON.parse(result.content).contributions;
       // After sorting by timestamp: review (Jan 13), pr (Jan 14), commit (Jan 15)
       const commitContribution = parsed[2]; // Last item after sort
 
@@ -156,7 +156,7 @@ describe('Formatter Integration', () => {
       const formatter = createFormatter('json');
       const result = formatter.format([], { withLinks: true });
 
-      const parsed = JSON.parse(result.content);
+      const parsed = JSON.parse(result.content).contributions;
       expect(Array.isArray(parsed)).toBe(true);
       expect(parsed.length).toBe(0);
       console.log('✓ JSON format handles empty array (weeks with no commits)');
@@ -166,7 +166,7 @@ describe('Formatter Integration', () => {
       const formatter = createFormatter('json');
       const result = formatter.format(sampleContributionsWithProjectId, { withLinks: true });
 
-      const parsed = JSON.parse(result.content);
+      const parsed = JSON.parse(result.content).contributions;
       expect(parsed[0].projectId).toBe('PROJECT-123');
       console.log('✓ JSON includes project ID when present');
     });
@@ -261,7 +261,7 @@ describe('Formatter Integration', () => {
       expect(csvResult.content.length).toBeGreaterThan(0);
 
       // JSON should have 3 items
-      const parsedJson = JSON.parse(jsonResult.content);
+      const parsedJson = JSON.parse(jsonResult.content).contributions;
       expect(parsedJson.length).toBe(3);
 
       // CSV should have 4 lines (header + 3 data)
@@ -286,7 +286,7 @@ describe('Formatter Integration', () => {
       expect(csvResult.content).toBeDefined();
 
       // JSON should be empty array
-      const parsedJson = JSON.parse(jsonResult.content);
+      const parsedJson = JSON.parse(jsonResult.content).contributions;
       expect(parsedJson.length).toBe(0);
 
       // CSV should have header only
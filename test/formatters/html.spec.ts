@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { HtmlFormatter } from '../../src/formatters/html.js';
+import { createFormatter } from '../../src/formatters/index.js';
+import type { Contribution } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  {
+    type: 'commit',
+    timestamp: '2025-01-07T09:15:00Z',
+    text: 'Fix <script>alert(1)</script>',
+    url: 'https://github.com/team/app/commit/abc',
+    repository: 'team/app',
+    projectId: 'APP',
+  },
+  {
+    type: 'pr',
+    timestamp: '2025-01-07T15:00:00Z',
+    text: 'Add login',
+    url: 'javascript:alert(1)',
+    repository: 'team/app',
+  },
+  { type: 'review', timestamp: '2025-01-08T10:00:00Z', text: 'Review', repository: 'team/lib' },
+];
+
+describe('HtmlFormatter', () => {
+  const formatter = new HtmlFormatter();
+  const range = { from: '2025-01-06', to: '2025-01-12' };
+
+  it('renders a self-contained document without external assets', () => {
+    const { content } = formatter.format(contributions, { withLinks: false, range });
+
+    expect(content.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(content).toContain('<title>Contributions 2025-01-06 to 2025-01-12</title>');
+    expect(content).not.toMatch(/<(link|script) [^>]*(href|src)=/);
+  });
+
+  it('shades every day of the range in the heatmap', () => {
+    const { content } = formatter.format(contributions, { withLinks: false, range });
+
+    expect(content.match(/data-date="/g)).toHaveLength(7);
+    expect(content).toContain(
+      '<div class="day level-4" data-date="2025-01-07" title="2025-01-07: 2 contribution(s)">',
+    );
+    expect(content).toContain(
+      '<div class="day level-2" data-date="2025-01-08" title="2025-01-08: 1 contribution(s)">',
+    );
+    expect(content).toContain('<div class="day level-0" data-date="2025-01-06"');
+  });
+
+  it('lists every contribution in the table with breakdowns per repository and type', () => {
+    const { content } = formatter.format(contributions, { withLinks: false, range });
+
+    expect(content.match(/<tr data-type=/g)).toHaveLength(3);
+    expect(content).toContain('<td>team/app</td><td class="count">2</td>');
+    expect(content).toContain('<option value="review">review</option>');
+  });
+
+  it('escapes contribution data and only links http(s) URLs', () => {
+    const { content } = formatter.format(contributions, { withLinks: true, range });
+
+    expect(content).toContain(
+      '<a href="https://github.com/team/app/commit/abc">Fix &lt;script&gt;alert(1)&lt;/script&gt;</a>',
+    );
+    expect(content).not.toContain('javascript:');
+    expect(content).toContain('<td>Add login</td>');
+  });
+
+  it('shows the account next to the repository', () => {
+    const { content } = formatter.format([{ ...contributions[2], account: 'work' }], {
+      withLinks: false,
+      range,
+    });
+
+    expect(content).toContain('<td>team/lib @work</td>');
+  });
+
+  it('shows warnings above the report', () => {
+    const { content } = formatter.format([], {
+      withLinks: false,
+      range,
+      warnings: [{ source: 'GitHub', message: 'Failed to fetch contributions: 401' }],
+    });
+
+    expect(content).toContain('<strong>⚠ Incomplete data (1 warning(s))</strong>');
+    expect(content).toContain('<li>[GitHub] Failed to fetch contributions: 401</li>');
+  });
+
+  it('is created for the html output format', () => {
+    expect(createFormatter('html')).toBeInstanceOf(HtmlFormatter);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { IcsFormatter } from '../../src/formatters/ics.js';
+import { createFormatter } from '../../src/formatters/index.js';
+import type { Contribution } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T09:15:00Z',
+    text: 'Fix login, logout; session\nDetails',
+    url: 'https://github.com/team/app/commit/abc',
+    repository: 'team/app',
+    projectId: 'APP',
+  },
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T11:00:00Z',
+    text: 'Add tests',
+    repository: 'team/app',
+    projectId: 'APP',
+  },
+  { type: 'review', timestamp: '2025-01-07T14:30:00Z', text: 'Review', repository: 'team/lib' },
+];
+
+const getEvents = (content: string): string[] =>
+  content
+    .replace(/\r\n /g, '')
+    .split('BEGIN:VEVENT\r\n')
+    .slice(1)
+    .map((event) => event.split('END:VEVENT')[0]);
+
+describe('IcsFormatter', () => {
+  const formatter = new IcsFormatter();
+
+  it('writes a calendar with CRLF line endings', () => {
+    const { content } = formatter.format(contributions, { withLinks: false });
+
+    expect(content.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(content.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(content.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('creates an event per work session listing its contributions', () => {
+    const { content } = formatter.format(contributions, { withLinks: false });
+    const events = getEvents(content);
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toContain('DTSTART:20250106T084500Z\r\n');
+    expect(events[0]).toContain('DTEND:20250106T110000Z\r\n');
+    expect(events[0]).toContain('SUMMARY:team/app {APP}: 2 contribution(s)\r\n');
+    expect(events[0]).toContain(
+      'DESCRIPTION:09:15 commit [team/app {APP}] Fix login\\, logout\\; session\\n11:00 commit [team/app {APP}] Add tests\r\n',
+    );
+    expect(events[1]).toContain('SUMMARY:team/lib: 1 contribution(s)\r\n');
+  });
+
+  it('creates an event per contribution spanning its attributed work time', () => {
+    const { content } = formatter.format(contributions, {
+      withLinks: true,
+      calendarEvents: 'contribution',
+    });
+    const events = getEvents(content);
+
+    expect(events).toHaveLength(3);
+    expect(events[0]).toContain('DTSTART:20250106T084500Z\r\n');
+    expect(events[0]).toContain('DTEND:20250106T091500Z\r\n');
+    expect(events[0]).toContain('DESCRIPTION:Fix login\\, logout\\; session\\nDetails\r\n');
+    expect(events[0]).toContain('URL:https://github.com/team/app/commit/abc\r\n');
+    expect(events[1]).toContain('DTSTART:20250106T091500Z\r\n');
+    expect(events[1]).not.toContain('URL:');
+  });
+
+  it('leaves out URLs without withLinks', () => {
+    const { content } = formatter.format(contributions, {
+      withLinks: false,
+      calendarEvents: 'contribution',
+    });
+
+    expect(content).not.toContain('URL:');
+  });
+
+  it('keeps UIDs stable across exports', () => {
+    const first = formatter.format(contributions, { withLinks: false }).content;
+    const second = formatter.format([...contributions].reverse(), { withLinks: false }).content;
+
+    expect(second).toBe(first);
+    expect(first).toMatch(/^UID:[0-9a-f]{32}@git-activity-tracer\r$/m);
+  });
+
+  it('keeps the session UID when later contributions extend the session', () => {
+    const getUids = (content: string): string[] => content.match(/^UID:.*$/gm) ?? [];
+    const before = getUids(
+      formatter.format(contributions.slice(0, 1), { withLinks: false }).content,
+    );
+    const after = getUids(
+      formatter.format(contributions.slice(0, 2), { withLinks: false }).content,
+    );
+
+    expect(after).toEqual(before);
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const long: Contribution = {
+      type: 'commit',
+      timestamp: '2025-01-06T09:15:00Z',
+      text: 'ü'.repeat(100),
+      repository: 'team/app',
+    };
+    const { content } = formatter.format([long], {
+      withLinks: false,
+      calendarEvents: 'contribution',
+    });
+
+    const lines = content.split('\r\n');
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(content.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${'ü'.repeat(100)}\r\n`);
+  });
+
+  it('writes warnings to a CSV sidecar', () => {
+    const result = formatter.format(contributions, {
+      withLinks: false,
+      warnings: [{ source: 'GitHub', message: 'Rate limited' }],
+    });
+
+    expect(result.sidecars).toEqual([
+      { suffix: 'warnings', format: 'csv', content: 'source,message\nGitHub,Rate limited' },
+    ]);
+  });
+
+  it('is created by createFormatter', () => {
+    expect(createFormatter('ics')).toBeInstanceOf(IcsFormatter);
+  });
+});
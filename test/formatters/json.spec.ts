@@ -16,7 +16,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: true });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(Array.isArray(parsed)).toBe(true);
     expect(parsed).toHaveLength(1);
@@ -35,7 +35,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].url).toBeUndefined();
   });
@@ -55,7 +55,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].text).toBe('First commit');
     expect(parsed[1].text).toBe('Second commit');
@@ -63,7 +63,7 @@ describe('JsonFormatter', () => {
 
   it('handles empty contributions array', () => {
     const result = formatter.format([], { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(Array.isArray(parsed)).toBe(true);
     expect(parsed).toHaveLength(0);
@@ -81,7 +81,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].repository).toBe('user/repository');
   });
@@ -96,7 +96,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].repository).toBeUndefined();
   });
@@ -113,7 +113,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].target).toBe('main');
   });
@@ -128,7 +128,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].target).toBeUndefined();
   });
@@ -143,7 +143,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].date).toBe('2024-01-15');
   });
@@ -158,7 +158,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0]).toHaveProperty('date');
     expect(parsed[0].date).toBe('2024-12-31');
@@ -176,7 +176,7 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].projectId).toBe('PROJECT-123');
   });
@@ -192,8 +192,127 @@ describe('JsonFormatter', () => {
     ];
 
     const result = formatter.format(contributions, { withLinks: false });
-    const parsed = JSON.parse(result.content);
+    const parsed = JSON.parse(result.content).contributions;
 
     expect(parsed[0].projectId).toBeUndefined();
   });
+
+  it('includes account label when available', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Fix bug',
+        account: 'self-hosted-gitlab',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    const parsed = JSON.parse(result.content).contributions;
+
+    expect(parsed[0].account).toBe('self-hosted-gitlab');
+  });
+
+  it('renders issue contributions', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'issue',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Crash on startup',
+        url: 'https://github.com/user/repository/issues/5',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: true });
+    const parsed = JSON.parse(result.content).contributions;
+
+    expect(parsed[0]).toMatchObject({
+      type: 'issue',
+      text: 'Crash on startup',
+      url: 'https://github.com/user/repository/issues/5',
+    });
+  });
+
+  it('includes diff statistics when present', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Fix bug',
+        additions: 10,
+        deletions: 0,
+      },
+      {
+        type: 'review',
+        timestamp: '2024-01-01T11:30:00Z',
+        text: 'review',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    const parsed = JSON.parse(result.content).contributions;
+
+    expect(parsed[0]).toMatchObject({ additions: 10, deletions: 0 });
+    expect(parsed[0].changedFiles).toBeUndefined();
+    expect(parsed[1].additions).toBeUndefined();
+  });
+
+  it('includes pull request state and lifecycle timestamps when present', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'pr',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'Add feature',
+        state: 'closed',
+        closedAt: '2024-01-03T08:00:00Z',
+      },
+    ];
+
+    const result = formatter.format(contributions, { withLinks: false });
+    const parsed = JSON.parse(result.content).contributions;
+
+    expect(parsed[0]).toMatchObject({ state: 'closed', closedAt: '2024-01-03T08:00:00Z' });
+    expect(parsed[0].mergedAt).toBeUndefined();
+  });
+
+  it('marks complete reports in the meta block', () => {
+    const result = formatter.format([], { withLinks: false });
+
+    expect(JSON.parse(result.content).meta).toEqual({ complete: true, warnings: [] });
+  });
+
+  it('lists warnings in the meta block of incomplete reports', () => {
+    const warnings = [{ source: 'GitHub', message: 'Failed to fetch issue comments' }];
+
+    const result = formatter.format([], { withLinks: false, warnings });
+
+    expect(JSON.parse(result.content).meta).toEqual({ complete: false, warnings });
+  });
+
+  it('includes referenced tickets, with their links when requested', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2024-01-01T10:30:00Z',
+        text: 'ABC-1 fix login, closes #4',
+        tickets: [
+          { key: 'ABC-1', tracker: 'jira', url: 'https://jira.example.com/browse/ABC-1' },
+          { key: '#4', tracker: 'github' },
+        ],
+      },
+    ];
+
+    const withoutLinks = JSON.parse(formatter.format(contributions, { withLinks: false }).content);
+    const withLinks = JSON.parse(formatter.format(contributions, { withLinks: true }).content);
+
+    expect(withoutLinks.contributions[0].tickets).toEqual([
+      { key: 'ABC-1', tracker: 'jira' },
+      { key: '#4', tracker: 'github' },
+    ]);
+    expect(withLinks.contributions[0].tickets[0]).toEqual({
+      key: 'ABC-1',
+      tracker: 'jira',
+      url: 'https://jira.example.com/browse/ABC-1',
+    });
+  });
 });
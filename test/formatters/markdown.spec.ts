@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { MarkdownFormatter } from '../../src/formatters/markdown.js';
+import { createFormatter } from '../../src/formatters/index.js';
+import type { Contribution } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  {
+    type: 'pr',
+    timestamp: '2025-01-07T15:00:00Z',
+    text: 'Add *login* form\n\nDetails',
+    url: 'https://github.com/team/app/pull/1',
+    repository: 'team/app',
+    target: 'main',
+    state: 'merged',
+    tickets: [{ key: 'ABC-1', tracker: 'jira', url: 'https://jira.example.com/browse/ABC-1' }],
+  },
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T09:15:00Z',
+    text: 'Fix build',
+    url: 'https://github.com/team/lib/commit/abc',
+    repository: 'team/lib',
+  },
+  { type: 'commit', timestamp: '2025-01-07T09:00:00Z', text: 'Refactor', repository: 'team/app' },
+];
+
+describe('MarkdownFormatter', () => {
+  const formatter = new MarkdownFormatter();
+
+  it('renders a summary table and a section per day', () => {
+    const lines = formatter.format(contributions, { withLinks: false }).content.split('\n');
+
+    expect(lines.slice(0, 9)).toEqual([
+      '# Contributions',
+      '',
+      '3 contributions from 2025-01-06 to 2025-01-07 (UTC)',
+      '',
+      '| Day | Total | commit | pr |',
+      '| --- | ---: | ---: | ---: |',
+      '| 2025-01-06 | 1 | 1 | 0 |',
+      '| 2025-01-07 | 2 | 1 | 1 |',
+      '| **Total** | 3 | 2 | 1 |',
+    ]);
+    expect(lines).toContain('## 2025-01-07');
+    expect(lines).toContain('- 15:00 **pr** `team/app` (main) _merged_ ABC-1 Add \\*login\\* form');
+  });
+
+  it('links titles and tickets when withLinks is set', () => {
+    const { content } = formatter.format(contributions, { withLinks: true });
+
+    expect(content).toContain(
+      '- 15:00 **pr** `team/app` (main) _merged_ [ABC-1](https://jira.example.com/browse/ABC-1) ' +
+        '[Add \\*login\\* form](https://github.com/team/app/pull/1)',
+    );
+    expect(content).toContain(
+      '- 09:15 **commit** `team/lib` [Fix build](https://github.com/team/lib/commit/abc)',
+    );
+  });
+
+  it('groups by repository', () => {
+    const lines = formatter
+      .format(contributions, { withLinks: false, groupBy: 'repository' })
+      .content.split('\n');
+
+    expect(lines).toContain('| team/app | 2 | 1 | 1 |');
+    expect(lines.filter((line) => line.startsWith('## '))).toEqual(['## team/app', '## team/lib']);
+    expect(lines).toContain('- 2025-01-07 09:00 **commit** Refactor');
+  });
+
+  it('shows the account a contribution came from', () => {
+    const { content } = formatter.format([{ ...contributions[2], account: 'work' }], {
+      withLinks: false,
+    });
+
+    expect(content).toContain('- 09:00 **commit** `team/app` `@work` Refactor');
+  });
+
+  it('lists warnings in a quote block', () => {
+    const { content } = formatter.format([], {
+      withLinks: false,
+      warnings: [{ source: 'GitHub', message: 'Failed to fetch contributions: 401' }],
+    });
+
+    expect(content).toContain('No contributions found in this range');
+    expect(content).toContain('> - [GitHub] Failed to fetch contributions: 401');
+  });
+
+  it('is created for the markdown output format', () => {
+    expect(createFormatter('markdown')).toBeInstanceOf(MarkdownFormatter);
+  });
+});
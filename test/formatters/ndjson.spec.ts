@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { NdjsonFormatter } from '../../src/formatters/ndjson.js';
+import { JsonFormatter } from '../../src/formatters/json.js';
+import { createFormatter } from '../../src/formatters/index.js';
+import type { Contribution } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  {
+    type: 'pr',
+    timestamp: '2025-01-07T15:00:00Z',
+    text: 'Add login\n\nWith tests',
+    url: 'https://github.com/team/app/pull/1',
+    repository: 'team/app',
+    state: 'merged',
+  },
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T09:15:00Z',
+    text: 'ABC-12 Fix login',
+    url: 'https://github.com/team/app/commit/abc',
+    repository: 'team/app',
+    projectId: 'APP',
+    tickets: [{ key: 'ABC-12', tracker: 'jira', url: 'https://acme.atlassian.net/browse/ABC-12' }],
+  },
+];
+
+describe('NdjsonFormatter', () => {
+  const formatter = new NdjsonFormatter();
+
+  it('generates one JSON object per line, oldest first', () => {
+    const { lines } = formatter.format(contributions, { withLinks: false });
+    const parsed = [...lines!].map((line) => JSON.parse(line));
+
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({ type: 'commit', date: '2025-01-06', projectId: 'APP' });
+    expect(parsed[1]).toMatchObject({
+      type: 'pr',
+      state: 'merged',
+      text: 'Add login\n\nWith tests',
+    });
+  });
+
+  it('uses the contribution objects of the json format', () => {
+    const json = JSON.parse(new JsonFormatter().format(contributions, { withLinks: true }).content);
+    const { lines } = formatter.format(contributions, { withLinks: true });
+
+    expect([...lines!].map((line) => JSON.parse(line))).toEqual(json.contributions);
+  });
+
+  it('leaves out URLs without withLinks', () => {
+    const { content } = formatter.format(contributions, { withLinks: false });
+
+    expect(content).not.toContain('https://');
+  });
+
+  it('can iterate the lines more than once and join them as content', () => {
+    const result = formatter.format(contributions, { withLinks: false });
+
+    expect([...result.lines!]).toEqual([...result.lines!]);
+    expect(result.content).toBe([...result.lines!].join('\n'));
+    expect(result.content.split('\n')).toHaveLength(2);
+  });
+
+  it('generates no lines without contributions', () => {
+    const result = formatter.format([], { withLinks: false });
+
+    expect([...result.lines!]).toEqual([]);
+    expect(result.content).toBe('');
+  });
+
+  it('is created by createFormatter', () => {
+    expect(createFormatter('ndjson')).toBeInstanceOf(NdjsonFormatter);
+  });
+});
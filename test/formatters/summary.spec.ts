@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConsoleSummaryFormatter,
+  CsvSummaryFormatter,
+  JsonSummaryFormatter,
+} from '../../src/formatters/summary.js';
+import { summarizeContributions } from '../../src/lib/services/contributionStats.js';
+import type { Contribution } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  { type: 'commit', timestamp: '2025-01-06T09:15:00Z', repository: 'team/app', projectId: 'APP' },
+  { type: 'commit', timestamp: '2025-01-06T17:40:00Z', repository: 'team/app', projectId: 'APP' },
+  { type: 'pr', timestamp: '2025-01-07T15:00:00Z', repository: 'team/app', projectId: 'APP' },
+];
+const summary = summarizeContributions(contributions);
+
+describe('ConsoleSummaryFormatter', () => {
+  const formatter = new ConsoleSummaryFormatter();
+
+  it('renders the total and aligned tables per dimension', () => {
+    const result = formatter.format(summary, { withLinks: false });
+    const lines = result.content.split('\n');
+
+    expect(lines[0]).toBe(
+      'Summary: 3 contributions on 2 active day(s), 2025-01-06 09:15 to 2025-01-07 15:00 UTC',
+    );
+    expect(lines).toContain('Date        Count  First  Last   commit  pr');
+    expect(lines).toContain('2025-01-06      2  09:15  17:40       2   0');
+    expect(lines).toContain('2025-W02      3            2  2025-01-06  2025-01-07       2   1');
+    expect(lines).toContain('team/app        3            2       2   1');
+    expect(result.content).toContain('## Projects');
+  });
+
+  it('shows warnings when no contributions were found', () => {
+    const result = formatter.format(summarizeContributions([]), {
+      withLinks: false,
+      warnings: [{ source: 'GitHub', message: 'Failed to fetch contributions: 401' }],
+    });
+
+    expect(result.content).toContain('No contributions found in this range');
+    expect(result.content).toContain('- [GitHub] Failed to fetch contributions: 401');
+  });
+});
+
+describe('JsonSummaryFormatter', () => {
+  it('outputs the summary with a meta block', () => {
+    const result = new JsonSummaryFormatter().format(summary, { withLinks: false });
+    const parsed = JSON.parse(result.content);
+
+    expect(parsed.meta).toEqual({ complete: true, warnings: [] });
+    expect(parsed.summary.total.count).toBe(3);
+    expect(parsed.summary.buckets.week[0].key).toBe('2025-W02');
+  });
+});
+
+describe('CsvSummaryFormatter', () => {
+  it('outputs one row per bucket with per-type counts', () => {
+    const result = new CsvSummaryFormatter().format(summary, { withLinks: false });
+    const lines = result.content.split('\n');
+
+    expect(lines[0]).toBe('dimension,key,count,activeDays,firstActivity,lastActivity,commit,pr');
+    expect(lines[1]).toBe('total,total,3,2,2025-01-06T09:15:00Z,2025-01-07T15:00:00Z,2,1');
+    expect(lines).toContain('day,2025-01-07,1,1,2025-01-07T15:00:00Z,2025-01-07T15:00:00Z,0,1');
+    expect(lines).toContain('projectId,APP,3,2,2025-01-06T09:15:00Z,2025-01-07T15:00:00Z,2,1');
+    expect(result.sidecars).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateFormatter, compileReportTemplate } from '../../src/formatters/template.js';
+import { createFormatter } from '../../src/formatters/index.js';
+import { ValidationError } from '../../src/lib/errors/validationError.js';
+import type { Contribution } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  {
+    type: 'review',
+    timestamp: '2025-01-07T10:00:00Z',
+    text: 'Review',
+    url: 'https://github.com/team/lib/pull/2',
+    repository: 'team/lib',
+  },
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T09:15:00Z',
+    text: 'ABC-12 Fix login\n\nDetails',
+    url: 'https://github.com/team/app/commit/abc',
+    repository: 'team/app',
+    projectId: 'APP',
+    tickets: [{ key: 'ABC-12', tracker: 'jira', url: 'https://acme.atlassian.net/browse/ABC-12' }],
+  },
+  { type: 'pr', timestamp: '2025-01-07T15:00:00Z', text: 'Add login', repository: 'team/app' },
+];
+
+describe('TemplateFormatter', () => {
+  const formatter = new TemplateFormatter();
+  const range = { from: '2025-01-06', to: '2025-01-12' };
+
+  it('loops over days with their repositories and contributions', () => {
+    const template = [
+      'Report {{from}} to {{to}}: {{count}} ({{counts.commit}} commit)',
+      '{{#each days}}',
+      '{{weekday}} {{date date "DD.MM."}}',
+      '{{#each repositories}}',
+      '  {{name}}{{#if projectId}} [{{projectId}}]{{/if}}',
+      '{{#each contributions}}',
+      '    {{time}} {{type}} {{title}}',
+      '{{/each}}',
+      '{{/each}}',
+      '{{/each}}',
+    ].join('\n');
+    const { content } = formatter.format(contributions, {
+      withLinks: false,
+      range,
+      template: compileReportTemplate(template),
+    });
+
+    expect(content).toBe(
+      [
+        'Report 2025-01-06 to 2025-01-12: 3 (1 commit)',
+        'Monday 06.01.',
+        '  team/app [APP]',
+        '    09:15 commit ABC-12 Fix login',
+        'Tuesday 07.01.',
+        '  team/app',
+        '    15:00 pr Add login',
+        '  team/lib',
+        '    10:00 review Review',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('loops over repositories in alphabetical order with their days', () => {
+    const template =
+      '{{#each repositories}}{{name}}: {{#each days}}{{date}} ({{count}}) {{/each}}\n{{/each}}';
+    const { content } = formatter.format(contributions, {
+      withLinks: false,
+      template: compileReportTemplate(template),
+    });
+
+    expect(content).toBe('team/app: 2025-01-06 (1) 2025-01-07 (1) \nteam/lib: 2025-01-07 (1) \n');
+  });
+
+  it('links titles and tickets only with withLinks', () => {
+    const template =
+      '{{#each contributions}}{{#each tickets}}{{link key url "html"}} {{/each}}{{link title url}}|{{/each}}';
+
+    const linked = formatter.format(contributions.slice(1, 2), {
+      withLinks: true,
+      template: compileReportTemplate(template),
+    });
+    expect(linked.content).toBe(
+      '<a href="https://acme.atlassian.net/browse/ABC-12">ABC-12</a> ' +
+        '[ABC-12 Fix login](https://github.com/team/app/commit/abc)|',
+    );
+
+    const plain = formatter.format(contributions.slice(1, 2), {
+      withLinks: false,
+      template: compileReportTemplate(template),
+    });
+    expect(plain.content).toBe('ABC-12 ABC-12 Fix login|');
+  });
+
+  it('exposes warnings and whether the report is complete', () => {
+    const template =
+      '{{#unless complete}}Incomplete:{{#each warnings}} {{source}} {{message}}{{/each}}{{/unless}}';
+    const { content } = formatter.format(contributions, {
+      withLinks: false,
+      template: compileReportTemplate(template),
+      warnings: [{ source: 'GitHub', message: 'Rate limited' }],
+    });
+
+    expect(content).toBe('Incomplete: GitHub Rate limited');
+  });
+
+  it('returns the output lines for streaming', () => {
+    const { lines } = formatter.format(contributions, {
+      withLinks: false,
+      template: compileReportTemplate('{{#each contributions}}\n{{date}}\n{{/each}}'),
+    });
+
+    expect(lines).toEqual(['2025-01-06', '2025-01-07', '2025-01-07']);
+  });
+
+  it('rejects templates with unknown helpers when compiling', () => {
+    expect(() => compileReportTemplate('{{upper title}}')).toThrow(ValidationError);
+  });
+
+  it('requires a template', () => {
+    expect(() => formatter.format(contributions, { withLinks: false })).toThrow(ValidationError);
+  });
+
+  it('is created by createFormatter', () => {
+    expect(createFormatter('template')).toBeInstanceOf(TemplateFormatter);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { TempoFormatter } from '../../src/formatters/tempo.js';
+import { createFormatter } from '../../src/formatters/index.js';
+import { attachTickets } from '../../src/lib/services/issueKeys.js';
+import type { Contribution, FormatterOptions } from '../../src/types.js';
+
+// Tickets are attached by the report generator
+const contributions: Contribution[] = attachTickets([
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T09:15:00Z',
+    text: 'ABC-12 add login form\n\nWith validation',
+    repository: 'team/app',
+  },
+  {
+    type: 'pr',
+    timestamp: '2025-01-06T11:00:00Z',
+    text: 'Login form',
+    target: 'feature/ABC-12-login',
+    repository: 'team/app',
+  },
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T11:30:00Z',
+    text: 'chore',
+    repository: 'team/ops',
+    projectId: 'OPS-1',
+  },
+  { type: 'review', timestamp: '2025-01-07T14:00:00Z', text: 'Review', repository: 'team/lib' },
+]);
+
+const options: FormatterOptions = { withLinks: false, workTime: { timeZone: 'UTC' } };
+
+describe('TempoFormatter', () => {
+  const formatter = new TempoFormatter();
+
+  it('books estimated work time per day and issue key in the Tempo import CSV', () => {
+    const result = formatter.format(contributions, options);
+
+    expect(result.content.split('\n')).toEqual([
+      'Issue Key,Date Started,Time Spent (h),Work Description',
+      'ABC-12,2025-01-06 08:45,2.25,ABC-12 add login form; Login form',
+      'OPS-1,2025-01-06 11:00,0.50,chore',
+    ]);
+  });
+
+  it('writes the worklogs as JSON and time without an issue key as sidecars', () => {
+    const result = formatter.format(contributions, {
+      ...options,
+      warnings: [{ source: 'GitHub', message: 'Failed to fetch contributions: 401' }],
+    });
+
+    expect(result.sidecars?.map(({ suffix, format }) => [suffix, format])).toEqual([
+      ['tempo', 'json'],
+      ['unmapped', undefined],
+      ['warnings', undefined],
+    ]);
+    expect(JSON.parse(result.sidecars![0].content)[0]).toEqual({
+      issueKey: 'ABC-12',
+      startDate: '2025-01-06',
+      startTime: '08:45:00',
+      timeSpentSeconds: 8100,
+      description: 'ABC-12 add login form; Login form',
+    });
+    expect(result.sidecars![1].content).toBe('repository,hours\nteam/lib,0.50');
+  });
+
+  it('uses the configured work session settings', () => {
+    const result = formatter.format(contributions.slice(0, 1), {
+      withLinks: false,
+      workTime: { sessionPaddingMinutes: 60, timeZone: 'UTC' },
+    });
+
+    expect(result.content).toContain('ABC-12,2025-01-06 08:15,1.00,ABC-12 add login form');
+  });
+
+  it('books only issues of the configured Jira projects', () => {
+    const result = formatter.format(
+      attachTickets([
+        {
+          type: 'commit',
+          timestamp: '2025-01-06T09:15:00Z',
+          text: 'Read files as UTF-8 (DEV-7)',
+          repository: 'team/app',
+        },
+        {
+          type: 'commit',
+          timestamp: '2025-01-06T11:00:00Z',
+          text: 'Hash with SHA-256, see ABC-12',
+          repository: 'team/app',
+        },
+      ]),
+      { ...options, tempo: { projectKeys: ['ABC'] } },
+    );
+
+    expect(result.content.split('\n').map((line) => line.split(',')[0])).toEqual([
+      'Issue Key',
+      'ABC-12',
+    ]);
+    expect(result.sidecars?.[1].content).toBe('repository,hours\nteam/app,0.50');
+  });
+
+  it('is created for the tempo output format', () => {
+    expect(createFormatter('tempo')).toBeInstanceOf(TempoFormatter);
+  });
+});
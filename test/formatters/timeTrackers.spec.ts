@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ClockifyFormatter,
+  HarvestFormatter,
+  TogglFormatter,
+} from '../../src/formatters/timeTrackers.js';
+import { createFormatter } from '../../src/formatters/index.js';
+import type { Contribution, FormatterOptions } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T09:15:00Z',
+    text: 'Add login form',
+    repository: 'team/app',
+    projectId: 'APP',
+  },
+  {
+    type: 'pr',
+    timestamp: '2025-01-06T11:00:00Z',
+    text: 'Login, "remember me"',
+    repository: 'team/app',
+    projectId: 'APP',
+  },
+  { type: 'review', timestamp: '2025-01-07T14:00:00Z', text: 'Review', repository: 'team/lib' },
+];
+
+const options: FormatterOptions = { withLinks: false, workTime: { timeZone: 'UTC' } };
+
+describe('TogglFormatter', () => {
+  it('outputs the Toggl Track import schema with durations per day and project ID', () => {
+    const result = new TogglFormatter().format(contributions, options);
+
+    expect(result.content.split('\n')).toEqual([
+      'Project,Description,Start date,Start time,Duration',
+      'APP,"Add login form; Login, ""remember me""",2025-01-06,08:45:00,02:15:00',
+    ]);
+  });
+
+  it('moves time in unmapped repositories to a sidecar', () => {
+    const result = new TogglFormatter().format(contributions, options);
+
+    expect(result.sidecars).toEqual([
+      { suffix: 'unmapped', content: 'repository,hours\nteam/lib,0.50' },
+    ]);
+  });
+  it('books days and start times in the configured time zone', () => {
+    const lateCommit: Contribution = {
+      type: 'commit',
+      timestamp: '2025-01-06T23:30:00Z',
+      text: 'Fix release',
+      projectId: 'APP',
+    };
+
+    const result = new TogglFormatter().format([lateCommit], {
+      withLinks: false,
+      workTime: { timeZone: 'Europe/Berlin' },
+    });
+
+    expect(result.content.split('\n')[1]).toBe('APP,Fix release,2025-01-07,00:00:00,00:30:00');
+  });
+
+  it('rejects unknown time zones', () => {
+    expect(() =>
+      new TogglFormatter().format(contributions, {
+        withLinks: false,
+        workTime: { timeZone: 'Mars/Olympus' },
+      }),
+    ).toThrow('Unknown time zone: Mars/Olympus');
+  });
+});
+
+describe('HarvestFormatter', () => {
+  it('outputs the Harvest import schema with decimal hours', () => {
+    const result = new HarvestFormatter().format(contributions, options);
+
+    expect(result.content.split('\n')).toEqual([
+      'Date,Client,Project,Task,Notes,Hours',
+      '2025-01-06,APP,APP,Development,"Add login form; Login, ""remember me""",2.25',
+    ]);
+  });
+});
+
+describe('ClockifyFormatter', () => {
+  it('outputs the Clockify import schema', () => {
+    const result = new ClockifyFormatter().format(contributions.slice(0, 1), {
+      withLinks: false,
+      workTime: { sessionPaddingMinutes: 45, timeZone: 'UTC' },
+    });
+
+    expect(result.content.split('\n')).toEqual([
+      'Project,Description,Start Date,Start Time,Duration (h)',
+      'APP,Add login form,2025-01-06,08:30:00,00:45:00',
+    ]);
+    expect(result.sidecars).toBeUndefined();
+  });
+});
+
+describe('createFormatter', () => {
+  it('creates the time tracker formatters', () => {
+    expect(createFormatter('toggl')).toBeInstanceOf(TogglFormatter);
+    expect(createFormatter('harvest')).toBeInstanceOf(HarvestFormatter);
+    expect(createFormatter('clockify')).toBeInstanceOf(ClockifyFormatter);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConsoleTimesheetFormatter,
+  CsvTimesheetFormatter,
+  JsonTimesheetFormatter,
+  XlsxTimesheetFormatter,
+  createTimesheetFormatter,
+} from '../../src/formatters/timesheet.js';
+import type { Timesheet } from '../../src/types.js';
+
+const timesheet: Timesheet = {
+  unit: 'hours',
+  rounding: { incrementMinutes: 15, mode: 'up' },
+  dates: ['2025-01-06', '2025-01-07'],
+  projectIds: ['APP', 'OPS'],
+  cells: { '2025-01-06': { APP: 135, OPS: 30 } },
+  totals: {
+    byDate: { '2025-01-06': 165, '2025-01-07': 0 },
+    byProjectId: { APP: 135, OPS: 30 },
+    total: 165,
+  },
+  unmapped: [{ repository: 'team/lib', value: 30 }],
+};
+
+const warnings = [{ source: 'GitHub', message: 'Failed to fetch contributions: 401' }];
+
+describe('ConsoleTimesheetFormatter', () => {
+  it('renders the matrix with totals and unmapped repositories', () => {
+    const lines = new ConsoleTimesheetFormatter()
+      .format(timesheet, { withLinks: false })
+      .content.split('\n');
+
+    expect(lines[0]).toBe('Timesheet (hours, rounded up to 15 min)');
+    expect(lines).toContain('2025-01-06  2.25  0.50   2.75');
+    expect(lines).toContain('2025-01-07     -     -      -');
+    expect(lines).toContain('total       2.25  0.50   2.75');
+    expect(lines).toContain('- team/lib: 0.50');
+  });
+});
+
+describe('JsonTimesheetFormatter', () => {
+  it('outputs one row per day with hours per project ID', () => {
+    const parsed = JSON.parse(
+      new JsonTimesheetFormatter().format(timesheet, { withLinks: false, warnings }).content,
+    );
+
+    expect(parsed.meta).toEqual({ complete: false, warnings });
+    expect(parsed.rows[0]).toEqual({
+      date: '2025-01-06',
+      values: { APP: 2.25, OPS: 0.5 },
+      total: 2.75,
+    });
+    expect(parsed.rows[1]).toEqual({ date: '2025-01-07', values: {}, total: 0 });
+    expect(parsed.totals).toEqual({ byProjectId: { APP: 2.25, OPS: 0.5 }, total: 2.75 });
+    expect(parsed.unmapped).toEqual([{ repository: 'team/lib', value: 0.5 }]);
+  });
+});
+
+describe('CsvTimesheetFormatter', () => {
+  it('outputs the matrix and moves unmapped repositories and warnings to sidecars', () => {
+    const result = new CsvTimesheetFormatter().format(timesheet, { withLinks: false, warnings });
+
+    expect(result.content.split('\n')).toEqual([
+      'date,APP,OPS,total',
+      '2025-01-06,2.25,0.50,2.75',
+      '2025-01-07,0.00,0.00,0.00',
+      'total,2.25,0.50,2.75',
+    ]);
+    expect(result.sidecars?.map((sidecar) => sidecar.suffix)).toEqual(['unmapped', 'warnings']);
+    expect(result.sidecars?.[0].content).toBe('repository,hours\nteam/lib,0.50');
+  });
+});
+
+describe('XlsxTimesheetFormatter', () => {
+  it('creates a zip based workbook with one sheet per table', () => {
+    const result = new XlsxTimesheetFormatter().format(timesheet, { withLinks: false, warnings });
+    const text = new TextDecoder().decode(result.data);
+
+    // Stored entries keep the XML readable in the archive
+    expect([...result.data!.subarray(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain('<sheet name="Timesheet" sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<sheet name="Unmapped" sheetId="2" r:id="rId2"/>');
+    expect(text).toContain('<sheet name="Warnings" sheetId="3" r:id="rId3"/>');
+    expect(text).toContain('<c r="B2"><v>2.25</v></c>');
+  });
+});
+
+describe('createTimesheetFormatter', () => {
+  it('supports xlsx next to the text formats', () => {
+    expect(createTimesheetFormatter('xlsx')).toBeInstanceOf(XlsxTimesheetFormatter);
+    expect(() => createTimesheetFormatter('yaml' as never)).toThrow('Unknown output format: yaml');
+  });
+});
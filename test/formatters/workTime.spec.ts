@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConsoleWorkTimeFormatter,
+  CsvWorkTimeFormatter,
+  JsonWorkTimeFormatter,
+} from '../../src/formatters/workTime.js';
+import type { WorkTimeEntry } from '../../src/types.js';
+
+const entries: WorkTimeEntry[] = [
+  {
+    date: '2025-01-06',
+    projectId: 'APP',
+    repository: 'team/app',
+    minutes: 135,
+    sessions: 2,
+    contributions: 3,
+  },
+  { date: '2025-01-07', repository: 'team/lib', minutes: 30, sessions: 1, contributions: 1 },
+];
+
+describe('ConsoleWorkTimeFormatter', () => {
+  const formatter = new ConsoleWorkTimeFormatter();
+
+  it('renders the work time per day and project', () => {
+    const lines = formatter.format(entries, { withLinks: false }).content.split('\n');
+
+    expect(lines[0]).toBe('Estimated work time: 2.75 h');
+    expect(lines).toContain('## 2025-01-06 (2.25 h)');
+    expect(lines).toContain('APP         team/app     2.25         2              3');
+    expect(lines).toContain('(unmapped)  team/lib     0.50         1              1');
+    expect(lines).toContain('APP          2.25     1');
+  });
+
+  it('shows warnings when no contributions were found', () => {
+    const result = formatter.format([], {
+      withLinks: false,
+      warnings: [{ source: 'GitHub', message: 'Failed to fetch contributions: 401' }],
+    });
+
+    expect(result.content).toContain('No contributions found in this range');
+    expect(result.content).toContain('- [GitHub] Failed to fetch contributions: 401');
+  });
+});
+
+describe('JsonWorkTimeFormatter', () => {
+  it('outputs hours per entry and in total', () => {
+    const parsed = JSON.parse(
+      new JsonWorkTimeFormatter().format(entries, { withLinks: false }).content,
+    );
+
+    expect(parsed.meta.complete).toBe(true);
+    expect(parsed.totalHours).toBe(2.75);
+    expect(parsed.entries[1]).toEqual({
+      date: '2025-01-07',
+      repository: 'team/lib',
+      hours: 0.5,
+      sessions: 1,
+      contributions: 1,
+    });
+  });
+});
+
+describe('CsvWorkTimeFormatter', () => {
+  it('outputs one row per entry', () => {
+    const result = new CsvWorkTimeFormatter().format(entries, { withLinks: false });
+
+    expect(result.content.split('\n')).toEqual([
+      'date,projectId,repository,hours,sessions,contributions',
+      '2025-01-06,APP,team/app,2.25,2,3',
+      '2025-01-07,,team/lib,0.50,1,1',
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deduplicateCommentsPerThreadPerDay,
+  deduplicateContributions,
+} from '../../src/lib/services/contributionDeduplicator.js';
+import type { Contribution } from '../../src/types.js';
+
+describe('deduplicateContributions', () => {
+  it('keeps separate comments on the same thread', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'comment',
+        timestamp: '2025-01-10T09:00:00Z',
+        text: 'Add login',
+        url: 'https://github.com/team/app/pull/1',
+      },
+      {
+        type: 'comment',
+        timestamp: '2025-01-10T11:00:00Z',
+        text: 'Add login',
+        url: 'https://github.com/team/app/pull/1',
+      },
+    ];
+
+    expect(deduplicateContributions(contributions)).toHaveLength(2);
+  });
+});
+
+describe('deduplicateCommentsPerThreadPerDay', () => {
+  it('keeps the earliest comment per thread and day', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'comment',
+        timestamp: '2025-01-10T11:00:00Z',
+        text: 'Add login',
+        url: 'https://github.com/team/app/pull/1',
+      },
+      {
+        type: 'comment',
+        timestamp: '2025-01-10T09:00:00Z',
+        text: 'Add login',
+        url: 'https://github.com/team/app/pull/1',
+      },
+      {
+        type: 'comment',
+        timestamp: '2025-01-11T09:00:00Z',
+        text: 'Add login',
+        url: 'https://github.com/team/app/pull/1',
+      },
+      {
+        type: 'comment',
+        timestamp: '2025-01-10T10:00:00Z',
+        text: 'Crash on startup',
+        url: 'https://github.com/team/app/issues/2',
+      },
+      { type: 'commit', timestamp: '2025-01-10T12:00:00Z', text: 'Fix bug' },
+    ];
+
+    expect(
+      deduplicateCommentsPerThreadPerDay(contributions).map((contribution) => [
+        contribution.type,
+        contribution.timestamp,
+      ]),
+    ).toEqual([
+      ['comment', '2025-01-10T09:00:00Z'],
+      ['comment', '2025-01-11T09:00:00Z'],
+      ['comment', '2025-01-10T10:00:00Z'],
+      ['commit', '2025-01-10T12:00:00Z'],
+    ]);
+  });
+
+  it('groups comments without URL by repository and parent title', () => {
+    const contributions: Contribution[] = [
+      { type: 'comment', timestamp: '2025-01-10T09:00:00Z', text: 'MR', repository: 'a/b' },
+      { type: 'comment', timestamp: '2025-01-10T10:00:00Z', text: 'MR', repository: 'a/b' },
+      { type: 'comment', timestamp: '2025-01-10T10:00:00Z', text: 'MR', repository: 'a/c' },
+    ];
+
+    expect(deduplicateCommentsPerThreadPerDay(contributions)).toHaveLength(2);
+  });
+});
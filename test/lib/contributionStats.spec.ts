@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  groupBy,
+  summarizeContributions,
+  toIsoWeekKey,
+  UNASSIGNED_KEY,
+} from '../../src/lib/services/contributionStats.js';
+import type { Contribution } from '../../src/types.js';
+
+const contributions: Contribution[] = [
+  {
+    type: 'pr',
+    timestamp: '2025-01-07T15:00:00Z',
+    repository: 'team/app',
+    projectId: 'APP',
+  },
+  {
+    type: 'commit',
+    timestamp: '2025-01-06T09:15:00Z',
+    repository: 'team/app',
+    projectId: 'APP',
+  },
+  { type: 'commit', timestamp: '2025-01-06T17:40:00Z', repository: 'team/app', projectId: 'APP' },
+  { type: 'review', timestamp: '2025-01-13T11:00:00Z', repository: 'team/lib' },
+];
+
+describe('toIsoWeekKey', () => {
+  it('should use the ISO week-numbering year', () => {
+    expect(toIsoWeekKey('2025-01-06T00:00:00Z')).toBe('2025-W02');
+    expect(toIsoWeekKey('2024-12-30T12:00:00Z')).toBe('2025-W01');
+    expect(toIsoWeekKey('2021-01-03T12:00:00Z')).toBe('2020-W53');
+  });
+});
+
+describe('summarizeContributions', () => {
+  it('should summarize the total activity', () => {
+    const { total } = summarizeContributions(contributions);
+
+    expect(total).toEqual({
+      key: 'total',
+      count: 4,
+      activeDays: 3,
+      firstActivity: '2025-01-06T09:15:00Z',
+      lastActivity: '2025-01-13T11:00:00Z',
+      byType: { commit: 2, pr: 1, review: 1 },
+    });
+  });
+
+  it('should aggregate days in chronological order with first and last activity', () => {
+    const { buckets } = summarizeContributions(contributions);
+
+    expect(buckets.day.map((bucket) => bucket.key)).toEqual([
+      '2025-01-06',
+      '2025-01-07',
+      '2025-01-13',
+    ]);
+    expect(buckets.day[0]).toMatchObject({
+      count: 2,
+      activeDays: 1,
+      firstActivity: '2025-01-06T09:15:00Z',
+      lastActivity: '2025-01-06T17:40:00Z',
+      byType: { commit: 2 },
+    });
+  });
+
+  it('should aggregate ISO weeks with active days', () => {
+    const { buckets } = summarizeContributions(contributions);
+
+    expect(buckets.week.map(({ key, count, activeDays }) => ({ key, count, activeDays }))).toEqual([
+      { key: '2025-W02', count: 3, activeDays: 2 },
+      { key: '2025-W03', count: 1, activeDays: 1 },
+    ]);
+  });
+
+  it('should order repositories, projects and types by count', () => {
+    const { buckets } = summarizeContributions(contributions);
+
+    expect(buckets.repository.map(({ key, count }) => [key, count])).toEqual([
+      ['team/app', 3],
+      ['team/lib', 1],
+    ]);
+    expect(buckets.projectId.map(({ key, count }) => [key, count])).toEqual([
+      ['APP', 3],
+      [UNASSIGNED_KEY, 1],
+    ]);
+    expect(buckets.type.map(({ key, count }) => [key, count])).toEqual([
+      ['commit', 2],
+      ['pr', 1],
+      ['review', 1],
+    ]);
+  });
+
+  it('should return empty buckets without a total for no contributions', () => {
+    const summary = summarizeContributions([]);
+
+    expect(summary.total).toBeUndefined();
+    expect(summary.buckets.day).toEqual([]);
+  });
+
+  it('should count a contribution for every ticket it references', () => {
+    const { buckets } = summarizeContributions([
+      {
+        type: 'commit',
+        timestamp: '2025-01-06T09:00:00Z',
+        tickets: [
+          { key: 'ABC-1', tracker: 'jira' },
+          { key: 'ABC-2', tracker: 'jira' },
+        ],
+      },
+      {
+        type: 'pr',
+        timestamp: '2025-01-06T10:00:00Z',
+        tickets: [{ key: 'ABC-1', tracker: 'jira' }],
+      },
+      { type: 'review', timestamp: '2025-01-06T11:00:00Z' },
+    ]);
+
+    expect(buckets.ticket.map(({ key, count }) => [key, count])).toEqual([
+      ['ABC-1', 2],
+      [UNASSIGNED_KEY, 1],
+      ['ABC-2', 1],
+    ]);
+  });
+});
+
+describe('groupBy', () => {
+  it('groups items in the order their keys first occur', () => {
+    const groups = groupBy(['b1', 'a1', 'b2'], (item) => item[0]);
+
+    expect([...groups]).toEqual([
+      ['b', ['b1', 'b2']],
+      ['a', ['a1']],
+    ]);
+  });
+
+  it('puts an item with several keys in each group and one without keys in none', () => {
+    const groups = groupBy(
+      [
+        { name: 'x', tags: ['a', 'b'] },
+        { name: 'y', tags: [] },
+      ],
+      (item) => item.tags,
+    );
+
+    expect([...groups.keys()]).toEqual(['a', 'b']);
+    expect(groups.get('b')?.map((item) => item.name)).toEqual(['x']);
+  });
+});
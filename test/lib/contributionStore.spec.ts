@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ContributionStore } from '../../src/lib/store/contributionStore.js';
+
+describe('ContributionStore', () => {
+  let directoryPath: string;
+  let store: ContributionStore;
+
+  beforeEach(async () => {
+    directoryPath = await mkdtemp(path.join(tmpdir(), 'contribution-store-'));
+    store = new ContributionStore(path.join(directoryPath, 'store'));
+  });
+
+  afterEach(async () => {
+    await rm(directoryPath, { recursive: true, force: true });
+  });
+
+  it('starts empty', async () => {
+    expect(await store.readState()).toEqual({ connectors: {} });
+    expect(await store.readRecords()).toEqual([]);
+  });
+
+  it('replaces the records of a connector within the synced window only', async () => {
+    await store.replaceWindow({
+      connector: 'GitHub',
+      login: 'octocat',
+      from: '2025-01-01T00:00:00.000Z',
+      to: '2025-01-10T00:00:00.000Z',
+      contributions: [
+        { type: 'pr', timestamp: '2025-01-03T10:00:00Z', text: 'Add login', state: 'open' },
+        { type: 'commit', timestamp: '2025-01-09T10:00:00Z', text: 'Fix bug' },
+      ],
+      allCommits: [{ type: 'commit', timestamp: '2025-01-09T10:00:00Z', text: 'Fix bug' }],
+    });
+    await store.replaceWindow({
+      connector: 'GitLab',
+      login: 'octocat',
+      from: '2025-01-01T00:00:00.000Z',
+      to: '2025-01-10T00:00:00.000Z',
+      contributions: [{ type: 'commit', timestamp: '2025-01-09T12:00:00Z', text: 'Bump' }],
+      allCommits: [],
+    });
+    await store.replaceWindow({
+      connector: 'GitHub',
+      login: 'octocat',
+      from: '2025-01-09T00:00:00.000Z',
+      to: '2025-01-15T00:00:00.000Z',
+      contributions: [{ type: 'commit', timestamp: '2025-01-09T10:00:00Z', text: 'Fix bug' }],
+      allCommits: [],
+    });
+
+    expect(
+      await store.query(
+        'GitHub',
+        'contributions',
+        '2025-01-01T00:00:00.000Z',
+        '2025-01-31T00:00:00.000Z',
+      ),
+    ).toEqual([
+      { type: 'pr', timestamp: '2025-01-03T10:00:00Z', text: 'Add login', state: 'open' },
+      { type: 'commit', timestamp: '2025-01-09T10:00:00Z', text: 'Fix bug' },
+    ]);
+    expect(
+      await store.query(
+        'GitHub',
+        'allCommits',
+        '2025-01-01T00:00:00.000Z',
+        '2025-01-31T00:00:00.000Z',
+      ),
+    ).toEqual([]);
+    expect(
+      await store.query(
+        'GitLab',
+        'contributions',
+        '2025-01-01T00:00:00.000Z',
+        '2025-01-31T00:00:00.000Z',
+      ),
+    ).toHaveLength(1);
+    expect((await store.readState()).connectors.GitHub).toEqual({
+      login: 'octocat',
+      syncedFrom: '2025-01-01T00:00:00.000Z',
+      syncedTo: '2025-01-15T00:00:00.000Z',
+    });
+  });
+
+  it('restarts the coverage when a window does not touch the previous one', async () => {
+    const update = { connector: 'GitHub', login: 'octocat', contributions: [], allCommits: [] };
+    await store.replaceWindow({
+      ...update,
+      from: '2025-01-01T00:00:00.000Z',
+      to: '2025-01-10T00:00:00.000Z',
+    });
+    await store.replaceWindow({
+      ...update,
+      from: '2025-02-01T00:00:00.000Z',
+      to: '2025-02-10T00:00:00.000Z',
+    });
+
+    expect((await store.readState()).connectors.GitHub.syncedFrom).toBe('2025-02-01T00:00:00.000Z');
+  });
+});
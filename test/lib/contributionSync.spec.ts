@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import dayjs from 'dayjs';
+import { syncContributions } from '../../src/lib/services/contributionSync.js';
+import { ContributionStore } from '../../src/lib/store/contributionStore.js';
+import { StoredConnector } from '../../src/connectors/storedConnector.js';
+import type { Connector } from '../../src/connectors/types.js';
+
+const createMockConnector = (name: string) => ({
+  fetchContributions: vi
+    .fn()
+    .mockResolvedValue([{ type: 'pr', timestamp: '2025-03-10T10:00:00Z', text: 'Add feature' }]),
+  fetchAllCommits: vi
+    .fn()
+    .mockResolvedValue([
+      { type: 'commit', timestamp: '2025-03-11T10:00:00Z', text: 'WIP', target: 'feature' },
+    ]),
+  getUserLogin: vi.fn().mockResolvedValue('octocat'),
+  getPlatformName: () => name,
+});
+
+describe('syncContributions', () => {
+  let directoryPath: string;
+  let store: ContributionStore;
+  const now = dayjs('2025-03-31T12:00:00Z');
+
+  beforeEach(async () => {
+    directoryPath = await mkdtemp(path.join(tmpdir(), 'contribution-sync-'));
+    store = new ContributionStore(directoryPath);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directoryPath, { recursive: true, force: true });
+  });
+
+  it('fetches 90 days on the first sync and only since the last sync afterwards', async () => {
+    const connector = createMockConnector('GitHub');
+
+    await syncContributions([connector as Connector], store, { now });
+    await syncContributions([connector as Connector], store, { now: now.add(7, 'day') });
+
+    const [firstFrom, firstTo] = connector.fetchContributions.mock.calls[0];
+    expect(now.diff(firstFrom, 'day')).toBe(90);
+    expect(firstTo.toISOString()).toBe(now.toISOString());
+    const [secondFrom] = connector.fetchContributions.mock.calls[1];
+    expect(secondFrom.toISOString()).toBe(now.subtract(1, 'day').toISOString());
+  });
+
+  it('keeps the sync state of failing connectors', async () => {
+    const failing = createMockConnector('GitLab');
+    failing.fetchAllCommits.mockRejectedValue(new Error('Unauthorized'));
+
+    const results = await syncContributions(
+      [createMockConnector('GitHub') as Connector, failing as Connector],
+      store,
+      { now },
+    );
+
+    expect(results.find((result) => result.connector === 'GitLab')?.error).toBe('Unauthorized');
+    expect(results.find((result) => result.connector === 'GitHub')?.contributionCount).toBe(2);
+    expect(Object.keys((await store.readState()).connectors)).toEqual(['GitHub']);
+  });
+
+  it('keeps the stored window when a connector fetches with warnings', async () => {
+    const connector = createMockConnector('GitHub');
+    await syncContributions([connector as Connector], store, { now });
+    const before = await store.readState();
+
+    connector.fetchContributions.mockResolvedValue([]);
+    const [result] = await syncContributions(
+      [{ ...connector, takeWarnings: () => ['Failed to fetch GitHub comments'] } as Connector],
+      store,
+      { now: now.add(7, 'day') },
+    );
+
+    expect(result).toMatchObject({
+      connector: 'GitHub',
+      contributionCount: 0,
+      error: 'Fetched data is incomplete and was not stored',
+      warnings: ['Failed to fetch GitHub comments'],
+    });
+    expect(await store.readState()).toEqual(before);
+    expect(
+      await store.query(
+        'GitHub',
+        'contributions',
+        now.subtract(30, 'day').toISOString(),
+        now.toISOString(),
+      ),
+    ).toHaveLength(1);
+  });
+
+  it('answers reports from the store through stored connectors', async () => {
+    await syncContributions([createMockConnector('GitHub') as Connector], store, { now });
+    const state = await store.readState();
+    const connector = new StoredConnector(store, 'GitHub', state.connectors.GitHub);
+
+    const from = dayjs('2025-03-01T00:00:00Z');
+    const to = dayjs('2025-03-31T00:00:00Z');
+
+    expect(connector.getPlatformName()).toBe('GitHub [offline]');
+    expect(await connector.getUserLogin()).toBe('octocat');
+    expect(await connector.fetchContributions(from, to)).toEqual([
+      { type: 'pr', timestamp: '2025-03-10T10:00:00Z', text: 'Add feature' },
+    ]);
+    expect(await connector.fetchAllCommits(from, to)).toHaveLength(1);
+    expect(console.warn).not.toHaveBeenCalled();
+
+    await connector.fetchContributions(dayjs('2024-01-01T00:00:00Z'), to);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('may be incomplete'));
+  });
+});
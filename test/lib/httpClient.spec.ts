@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server, IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHttpClient } from '../../src/lib/http/httpClient.js';
+import { HttpError } from '../../src/lib/errors/httpError.js';
+
+describe('createHttpClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: Array<{ url?: string; headers: IncomingHttpHeaders }> = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requests.push({ url: request.url, headers: request.headers });
+
+      if (request.url?.startsWith('/api/missing')) {
+        response.writeHead(404, { 'Content-Type': 'application/json', 'Retry-After': '3' });
+        response.end(JSON.stringify({ error: 'not found' }));
+        return;
+      }
+
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ url: request.url }));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should join base URL and path and encode query parameters', async () => {
+    const client = createHttpClient({ baseUrl });
+
+    const result = await client.get<{ url: string }>('/repositories', {
+      q: 'updated_on>=2025-01-01',
+      state: ['OPEN', 'MERGED'],
+      pagelen: 50,
+      skipped: undefined,
+    });
+
+    expect(result.url).toBe(
+      '/api/repositories?q=updated_on%3E%3D2025-01-01&state=OPEN&state=MERGED&pagelen=50',
+    );
+  });
+
+  it('should send configured headers', async () => {
+    const client = createHttpClient({ baseUrl, headers: { Authorization: 'Bearer secret' } });
+
+    await client.get('/user');
+
+    const lastRequest = requests[requests.length - 1];
+    expect(lastRequest.headers.authorization).toBe('Bearer secret');
+    expect(lastRequest.headers.accept).toBe('application/json');
+  });
+
+  it('should request absolute URLs as-is', async () => {
+    const client = createHttpClient({ baseUrl: 'https://unused.example.com' });
+
+    const result = await client.get<{ url: string }>(`${baseUrl}next?page=2`);
+
+    expect(result.url).toBe('/api/next?page=2');
+  });
+
+  it('should throw HttpError with status on non-success responses', async () => {
+    const client = createHttpClient({ baseUrl });
+
+    const request = client.get('/missing');
+
+    await expect(request).rejects.toBeInstanceOf(HttpError);
+    await expect(request).rejects.toMatchObject({ status: 404 });
+    const error = (await request.catch((reason: unknown) => reason)) as HttpError;
+    expect(error.headers?.get('retry-after')).toBe('3');
+  });
+});
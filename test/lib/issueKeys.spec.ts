@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachTickets,
+  createTicketExtractor,
+  createIssueKeyPattern,
+  findIssueKey,
+  resolveIssueKey,
+} from '../../src/lib/services/issueKeys.js';
+import { ValidationError } from '../../src/lib/errors/validationError.js';
+import type { Contribution } from '../../src/types.js';
+
+describe('findIssueKey', () => {
+  it('should find the first issue key in a text', () => {
+    expect(findIssueKey('ABC-123: fix login, see also DEF-4')).toBe('ABC-123');
+    expect(findIssueKey('feature/PAY2-42-refunds')).toBe('PAY2-42');
+  });
+
+  it('should ignore lowercase keys and texts without keys', () => {
+    expect(findIssueKey('feature/abc-123')).toBeUndefined();
+    expect(findIssueKey('A-1 needs a project key of two characters')).toBeUndefined();
+    expect(findIssueKey(undefined)).toBeUndefined();
+  });
+
+  it('should skip identifiers shaped like issue keys', () => {
+    expect(
+      findIssueKey('Store UTF-8 text, SHA-256 hashes and ISO-8601 dates as of ES-2022'),
+    ).toBeUndefined();
+    expect(findIssueKey('Parse ISO-8601 dates (ESX-12)')).toBe('ESX-12');
+  });
+
+  it('should only find keys of the given Jira projects', () => {
+    const pattern = createIssueKeyPattern(['ABC', 'PAY2']);
+
+    expect(findIssueKey('DEV-1 and PAY2-42', pattern)).toBe('PAY2-42');
+    expect(findIssueKey('XABC-1', pattern)).toBeUndefined();
+  });
+
+  it('should reject invalid Jira project keys', () => {
+    expect(() => createIssueKeyPattern(['abc'])).toThrow(ValidationError);
+  });
+});
+
+describe('resolveIssueKey', () => {
+  const contribution: Contribution = {
+    type: 'commit',
+    timestamp: '2025-01-06T09:00:00Z',
+    text: 'ABC-1 refactor, fixes #7',
+    target: 'feature/ABC-2',
+    projectId: 'ABC-3',
+  };
+
+  it('should prefer the attached jira tickets over the project ID', () => {
+    const [withTickets] = attachTickets([contribution]);
+
+    expect(resolveIssueKey(withTickets)).toBe('ABC-1');
+    expect(resolveIssueKey(attachTickets([{ ...contribution, text: 'refactor' }])[0])).toBe(
+      'ABC-2',
+    );
+    expect(resolveIssueKey(contribution)).toBe('ABC-3');
+    expect(resolveIssueKey({ ...contribution, projectId: undefined })).toBeUndefined();
+  });
+
+  it('should only use tickets of the jira tracker matching the pattern', () => {
+    const withTickets: Contribution = {
+      ...contribution,
+      tickets: [
+        { key: '#7', tracker: 'github' },
+        { key: 'DEV-1', tracker: 'jira' },
+        { key: 'ABC-2', tracker: 'jira' },
+      ],
+    };
+
+    expect(resolveIssueKey(withTickets)).toBe('DEV-1');
+    expect(resolveIssueKey(withTickets, createIssueKeyPattern(['ABC']))).toBe('ABC-2');
+    expect(resolveIssueKey(withTickets, createIssueKeyPattern(['PAY']))).toBe('ABC-3');
+  });
+});
+
+describe('createTicketExtractor', () => {
+  const trackers = [
+    {
+      name: 'jira',
+      pattern: '\\b[A-Z][A-Z0-9]+-\\d+\\b',
+      url: 'https://acme.atlassian.net/browse/{key}',
+    },
+    { name: 'github', pattern: '#(\\d+)', url: 'https://github.com/{repository}/issues/{id}' },
+    { name: 'gitlab-mr', pattern: '!(\\d+)' },
+  ];
+
+  it('should find the tickets of every tracker in the text and branch', () => {
+    const extractTickets = createTicketExtractor(trackers);
+
+    expect(
+      extractTickets({
+        type: 'commit',
+        timestamp: '2025-01-06T09:00:00Z',
+        text: 'Fix #12 and ABC-1, see !78',
+        target: 'feature/ABC-2-login',
+        repository: 'team/app',
+      }),
+    ).toEqual([
+      { key: 'ABC-1', tracker: 'jira', url: 'https://acme.atlassian.net/browse/ABC-1' },
+      { key: '#12', tracker: 'github', url: 'https://github.com/team/app/issues/12' },
+      { key: '!78', tracker: 'gitlab-mr' },
+      { key: 'ABC-2', tracker: 'jira', url: 'https://acme.atlassian.net/browse/ABC-2' },
+    ]);
+  });
+
+  it('should list a ticket once and leave out links that need a missing repository', () => {
+    const extractTickets = createTicketExtractor(trackers);
+
+    expect(
+      extractTickets({ type: 'commit', timestamp: '2025-01-06T09:00:00Z', text: '#12 #12' }),
+    ).toEqual([{ key: '#12', tracker: 'github' }]);
+  });
+
+  it('should use Jira-style keys without links by default', () => {
+    expect(
+      createTicketExtractor()({ type: 'pr', timestamp: '2025-01-06T09:00:00Z', text: 'ABC-1 #12' }),
+    ).toEqual([{ key: 'ABC-1', tracker: 'jira' }]);
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => createTicketExtractor([{ name: 'broken', pattern: '(' }])).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe('attachTickets', () => {
+  it('should attach tickets only to contributions that reference them', () => {
+    const contributions: Contribution[] = [
+      { type: 'commit', timestamp: '2025-01-06T09:00:00Z', text: 'ABC-1 fix' },
+      { type: 'commit', timestamp: '2025-01-06T10:00:00Z', text: 'refactor' },
+    ];
+
+    const [withTicket, withoutTicket] = attachTickets(contributions);
+
+    expect(withTicket.tickets).toEqual([{ key: 'ABC-1', tracker: 'jira' }]);
+    expect(withoutTicket).toBe(contributions[1]);
+  });
+});
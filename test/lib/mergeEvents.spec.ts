@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import dayjs from 'dayjs';
+import { deriveMergeEvents } from '../../src/lib/services/mergeEvents.js';
+import type { Contribution } from '../../src/types.js';
+
+const from = dayjs('2025-01-01T00:00:00Z');
+const to = dayjs('2025-01-31T23:59:59Z');
+
+describe('deriveMergeEvents', () => {
+  it('creates a merge event at the merge timestamp for pull requests merged in range', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'pr',
+        timestamp: '2025-01-10T09:00:00Z',
+        text: 'Add login',
+        url: 'https://github.com/team/app/pull/1',
+        repository: 'team/app',
+        state: 'merged',
+        mergedAt: '2025-01-12T16:00:00Z',
+        additions: 10,
+      },
+      {
+        type: 'pr',
+        timestamp: '2025-01-11T09:00:00Z',
+        text: 'Refactor',
+        state: 'open',
+      },
+      { type: 'commit', timestamp: '2025-01-12T10:00:00Z', text: 'Fix bug' },
+    ];
+
+    expect(deriveMergeEvents(contributions, from, to)).toEqual([
+      {
+        type: 'merge',
+        timestamp: '2025-01-12T16:00:00Z',
+        text: 'Add login',
+        url: 'https://github.com/team/app/pull/1',
+        repository: 'team/app',
+        state: 'merged',
+        mergedAt: '2025-01-12T16:00:00Z',
+      },
+    ]);
+  });
+
+  it('skips pull requests merged after the range', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'pr',
+        timestamp: '2025-01-30T09:00:00Z',
+        text: 'Add login',
+        state: 'merged',
+        mergedAt: '2025-02-02T10:00:00Z',
+      },
+    ];
+
+    expect(deriveMergeEvents(contributions, from, to)).toEqual([]);
+  });
+});
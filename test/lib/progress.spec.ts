@@ -0,0 +1,22 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { logProgress, sendProgressToStderr } from '../../src/lib/progress.js';
+
+describe('logProgress', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes formatted messages to stdout, then to stderr after sendProgressToStderr', () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const log = vi.spyOn(console, 'log');
+
+    logProgress('Fetching %s...', 'GitHub');
+    sendProgressToStderr();
+    logProgress('Found', 3);
+
+    expect(stdout).toHaveBeenCalledWith('Fetching GitHub...\n');
+    expect(stderr).toHaveBeenCalledWith('Found 3\n');
+    expect(console.log).toBe(log);
+  });
+});
@@ -57,7 +57,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
         const fromDate = dayjs('2025-01-01');
         const toDate = dayjs('2025-01-07');
 
-        const contributions = await generateReport(connectors, configuration, fromDate, toDate);
+        const { contributions } = await generateReport(connectors, configuration, fromDate, toDate);
 
         expect(Array.isArray(contributions)).toBe(true);
         console.log(`📈 Total contributions: ${contributions.length}`);
@@ -108,7 +108,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
         const fromDate = dayjs('2025-01-01');
         const toDate = dayjs('2025-02-02');
 
-        const contributions = await generateReport(connectors, configuration, fromDate, toDate);
+        const { contributions } = await generateReport(connectors, configuration, fromDate, toDate);
 
         expect(Array.isArray(contributions)).toBe(true);
         console.log(`📈 Total merged contributions: ${contributions.length}`);
@@ -183,7 +183,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
         const fromDate = dayjs('2025-01-01');
         const toDate = dayjs('2025-01-07');
 
-        const contributions = await generateReport(connectors, configuration, fromDate, toDate);
+        const { contributions } = await generateReport(connectors, configuration, fromDate, toDate);
 
         console.log(`📈 Total contributions: ${contributions.length}`);
 
@@ -230,7 +230,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
         const fromDate = dayjs('2099-01-01');
         const toDate = dayjs('2099-01-07');
 
-        const contributions = await generateReport(connectors, configuration, fromDate, toDate);
+        const { contributions } = await generateReport(connectors, configuration, fromDate, toDate);
 
         expect(Array.isArray(contributions)).toBe(true);
         expect(contributions.length).toBe(0);
@@ -262,7 +262,7 @@ describe.skipIf(!process.env.GH_TOKEN && !process.env.GITLAB_TOKEN)(
         const toDate = dayjs('2025-01-07');
 
         // Should not throw - should handle the failure gracefully
-        const contributions = await generateReport(connectors, configuration, fromDate, toDate);
+        const { contributions } = await generateReport(connectors, configuration, fromDate, toDate);
 
         expect(Array.isArray(contributions)).toBe(true);
         console.log(
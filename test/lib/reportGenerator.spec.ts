@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import dayjs from 'dayjs';
+import {
+  assertCompleteReport,
+  generateCommitsReport,
+  generateReport,
+} from '../../src/lib/services/reportGenerator.js';
+import type { Connector } from '../../src/connectors/types.js';
+import type { Configuration } from '../../src/lib/config/index.js';
+
+const from = dayjs('2025-01-01T00:00:00Z');
+const to = dayjs('2025-01-31T23:59:59Z');
+const configuration: Configuration = { baseBranches: ['main'] };
+
+const createMockConnector = (name: string, warnings: string[] = []): Connector => ({
+  fetchContributions: vi
+    .fn()
+    .mockResolvedValue([{ type: 'pr', timestamp: '2025-01-10T10:00:00Z', text: `PR on ${name}` }]),
+  fetchAllCommits: vi
+    .fn()
+    .mockResolvedValue([{ type: 'commit', timestamp: '2025-01-11T10:00:00Z', text: 'Fix bug' }]),
+  getUserLogin: vi.fn().mockResolvedValue('octocat'),
+  getPlatformName: () => name,
+  takeWarnings: vi.fn().mockReturnValue(warnings),
+});
+
+describe('reportGenerator warnings', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report a complete result without warnings', async () => {
+    const report = await generateReport([createMockConnector('GitHub')], configuration, from, to);
+
+    expect(report.contributions).toHaveLength(1);
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('should collect connector warnings with the connector name as source', async () => {
+    const report = await generateCommitsReport(
+      [createMockConnector('GitHub', ['Failed to fetch commits for user/repository'])],
+      configuration,
+      from,
+      to,
+    );
+
+    expect(report.contributions).toHaveLength(2);
+    expect(report.warnings).toEqual([
+      { source: 'GitHub', message: 'Failed to fetch commits for user/repository' },
+    ]);
+  });
+
+  it('should turn a failing connector into a warning and keep the other results', async () => {
+    const failing = createMockConnector('GitLab');
+    vi.mocked(failing.fetchContributions).mockRejectedValue(new Error('401 Unauthorized'));
+
+    const report = await generateReport(
+      [createMockConnector('GitHub'), failing],
+      configuration,
+      from,
+      to,
+    );
+
+    expect(report.contributions.map((contribution) => contribution.text)).toEqual(['PR on GitHub']);
+    expect(report.warnings).toEqual([
+      { source: 'GitLab', message: 'Failed to fetch contributions: 401 Unauthorized' },
+    ]);
+  });
+});
+
+describe('assertCompleteReport', () => {
+  it('should accept reports without warnings', () => {
+    expect(() => assertCompleteReport({ contributions: [], warnings: [] })).not.toThrow();
+  });
+
+  it('should list the warnings of incomplete reports', () => {
+    expect(() =>
+      assertCompleteReport({
+        contributions: [],
+        warnings: [{ source: 'GitHub', message: 'Failed to fetch issue comments' }],
+      }),
+    ).toThrow(/incomplete \(1 warning\(s\)\)[\s\S]*\[GitHub\] Failed to fetch issue comments/);
+  });
+});
+
+describe('reportGenerator tickets', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should attach tickets found with the configured issue trackers', async () => {
+    const connector = createMockConnector('GitHub');
+    vi.mocked(connector.fetchContributions).mockResolvedValue([
+      { type: 'pr', timestamp: '2025-01-10T10:00:00Z', text: 'Fix #7', repository: 'team/app' },
+    ]);
+
+    const report = await generateReport(
+      [connector],
+      {
+        ...configuration,
+        issueTrackers: [
+          {
+            name: 'github',
+            pattern: '#(\\d+)',
+            url: 'https://github.com/{repository}/issues/{id}',
+          },
+        ],
+      },
+      from,
+      to,
+    );
+
+    expect(report.contributions[0].tickets).toEqual([
+      { key: '#7', tracker: 'github', url: 'https://github.com/team/app/issues/7' },
+    ]);
+  });
+});
+
+describe('reportGenerator merge events', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should emit merge events for pull requests opened before the range', async () => {
+    const connector: Connector = {
+      ...createMockConnector('GitHub'),
+      fetchMergedPullRequests: vi.fn().mockResolvedValue([
+        {
+          type: 'pr',
+          timestamp: '2024-12-20T10:00:00Z',
+          text: 'Add login',
+          url: 'https://github.com/team/app/pull/1',
+          state: 'merged',
+          mergedAt: '2025-01-15T16:00:00Z',
+        },
+      ]),
+    };
+
+    const report = await generateReport(
+      [connector],
+      { ...configuration, emitMergeEvents: true },
+      from,
+      to,
+    );
+
+    expect(connector.fetchMergedPullRequests).toHaveBeenCalledWith(from, to);
+    expect(report.contributions.map(({ type, timestamp }) => ({ type, timestamp }))).toEqual([
+      { type: 'merge', timestamp: '2025-01-15T16:00:00Z' },
+      { type: 'pr', timestamp: '2025-01-10T10:00:00Z' },
+    ]);
+  });
+
+  it('should not fetch merged pull requests without merge events', async () => {
+    const connector: Connector = {
+      ...createMockConnector('GitHub'),
+      fetchMergedPullRequests: vi.fn().mockResolvedValue([]),
+    };
+
+    await generateReport([connector], configuration, from, to);
+
+    expect(connector.fetchMergedPullRequests).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestScheduler, describeRequestFailures } from '../../src/lib/http/requestScheduler.js';
+
+/**
+ * Builds an error shaped like Octokit's RequestError.
+ */
+const createOctokitError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status ${status}`), {
+    status,
+    response: { headers },
+  });
+
+/**
+ * Builds an error shaped like Gitbeaker's GitbeakerRequestError.
+ */
+const createGitbeakerError = (status: number, headers: Record<string, string> = {}) =>
+  new Error('Request failed', {
+    cause: { response: { status, headers: new Headers(headers) } },
+  });
+
+describe('RequestScheduler', () => {
+  it('caps the number of concurrent requests', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    let active = 0;
+    let maxActive = 0;
+
+    const request = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return active;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule('GET /test', request)));
+
+    expect(maxActive).toBe(2);
+  });
+
+  it('retries transient server errors with exponential backoff', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new RequestScheduler({ baseDelayMs: 100, sleep });
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(createOctokitError(502))
+      .mockRejectedValueOnce(createOctokitError(503))
+      .mockResolvedValueOnce('ok');
+
+    expect(await scheduler.schedule('GET /test', request)).toBe('ok');
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+    expect(scheduler.takeFailures()).toEqual([]);
+  });
+
+  it('honours retry-after on GitHub secondary rate limits', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new RequestScheduler({ sleep });
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(createOctokitError(403, { 'retry-after': '30' }))
+      .mockResolvedValueOnce('ok');
+
+    expect(await scheduler.schedule('GET /test', request)).toBe('ok');
+    expect(sleep).toHaveBeenCalledWith(30000);
+  });
+
+  it('waits for the GitLab RateLimit-Reset time on 429', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new RequestScheduler({ sleep });
+    const resetAt = Math.ceil(Date.now() / 1000) + 10;
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(
+        createGitbeakerError(429, { 'RateLimit-Remaining': '0', 'RateLimit-Reset': `${resetAt}` }),
+      )
+      .mockResolvedValueOnce('ok');
+
+    expect(await scheduler.schedule('GET /projects/1', request)).toBe('ok');
+    const [[delay]] = sleep.mock.calls;
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(11000);
+  });
+
+  it('rethrows other errors right away without recording them', async () => {
+    const sleep = vi.fn();
+    const scheduler = new RequestScheduler({ sleep });
+    const error = createOctokitError(404);
+
+    await expect(scheduler.schedule('GET /test', () => Promise.reject(error))).rejects.toBe(error);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(scheduler.takeFailures()).toEqual([]);
+  });
+
+  it('records requests that still fail after all retries', async () => {
+    const scheduler = new RequestScheduler({
+      maxRetries: 2,
+      sleep: vi.fn().mockResolvedValue(undefined),
+    });
+    const request = vi.fn().mockRejectedValue(createOctokitError(500));
+
+    await expect(scheduler.schedule('GET /repos/a/b/commits', request)).rejects.toThrow();
+    expect(request).toHaveBeenCalledTimes(3);
+
+    const failures = scheduler.takeFailures();
+    expect(failures).toEqual([
+      {
+        label: 'GET /repos/a/b/commits',
+        status: 500,
+        attempts: 3,
+        message: 'Request failed with status 500',
+      },
+    ]);
+    expect(describeRequestFailures(failures)).toBe(
+      '1 request(s) failed after retries: GET /repos/a/b/commits (500)',
+    );
+    expect(scheduler.takeFailures()).toEqual([]);
+  });
+
+  it('pauses new requests while the rate limit budget is exhausted', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new RequestScheduler({ sleep });
+    const resetAt = Math.ceil(Date.now() / 1000) + 5;
+
+    scheduler.observeHeaders({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': `${resetAt}` });
+    await scheduler.schedule('GET /test', () => Promise.resolve('ok'));
+
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(sleep.mock.calls[0][0]).toBeGreaterThan(3000);
+  });
+
+  it('reads the RateLimit headers of GitLab responses', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new RequestScheduler({ sleep });
+    const resetAt = Math.ceil(Date.now() / 1000) + 5;
+
+    // Gitbeaker passes headers as a plain object with lowercase names
+    scheduler.observeHeaders({ 'ratelimit-remaining': '0', 'ratelimit-reset': `${resetAt}` });
+    await scheduler.schedule('GET /user', () => Promise.resolve('ok'));
+    scheduler.observeHeaders(
+      new Headers({ 'RateLimit-Remaining': '0', 'RateLimit-Reset': `${resetAt}` }),
+    );
+    await scheduler.schedule('GET /user', () => Promise.resolve('ok'));
+
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(sleep.mock.calls[0][0]).toBeGreaterThan(3000);
+  });
+
+  it('keeps sending requests while GitLab reports a remaining budget', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new RequestScheduler({ sleep });
+    const resetAt = Math.ceil(Date.now() / 1000) + 5;
+
+    scheduler.observeHeaders({ 'ratelimit-remaining': '12', 'ratelimit-reset': `${resetAt}` });
+    await scheduler.schedule('GET /user', () => Promise.resolve('ok'));
+
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('fails fast when the rate limit resets later than the maximum wait', async () => {
+    const sleep = vi.fn();
+    const scheduler = new RequestScheduler({ sleep, maxWaitMs: 1000 });
+    const request = vi.fn();
+    const resetAt = Math.ceil(Date.now() / 1000) + 3600;
+
+    scheduler.observeHeaders({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': `${resetAt}` });
+
+    await expect(scheduler.schedule('GET /test', request)).rejects.toThrow(
+      'Rate limit exhausted until',
+    );
+    expect(request).not.toHaveBeenCalled();
+    expect(sleep).not.toHaveBeenCalled();
+    expect(scheduler.takeFailures()).toHaveLength(1);
+  });
+});
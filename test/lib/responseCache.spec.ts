@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ResponseCache } from '../../src/lib/cache/responseCache.js';
+import type { CacheKey } from '../../src/lib/cache/responseCache.js';
+import type { Contribution } from '../../src/types.js';
+
+const key: CacheKey = {
+  connector: 'GitHub',
+  account: 'octocat',
+  settings: '0123456789abcdef',
+  method: 'fetchContributions',
+  from: '2025-01-06T00:00:00.000Z',
+  to: '2025-01-12T23:59:59.999Z',
+};
+
+const contributions: Contribution[] = [
+  { type: 'commit', timestamp: '2025-01-07T10:00:00Z', text: 'Fix bug' },
+];
+
+const now = new Date('2025-01-20T12:00:00Z');
+const later = new Date('2025-01-20T13:00:00Z');
+
+describe('ResponseCache', () => {
+  let directoryPath: string;
+  let cache: ResponseCache;
+
+  beforeEach(async () => {
+    directoryPath = await mkdtemp(path.join(tmpdir(), 'response-cache-'));
+    cache = new ResponseCache(directoryPath);
+  });
+
+  afterEach(async () => {
+    await rm(directoryPath, { recursive: true, force: true });
+  });
+
+  it('returns stored contributions per key', async () => {
+    await cache.set(key, contributions, null, now);
+
+    expect(await cache.get(key, later)).toEqual(contributions);
+    expect(await cache.get({ ...key, account: 'someone-else' }, later)).toBeUndefined();
+    expect(await cache.get({ ...key, settings: 'fedcba9876543210' }, later)).toBeUndefined();
+  });
+
+  it('treats entries past their TTL as missing', async () => {
+    await cache.set(key, contributions, 15 * 60 * 1000, now);
+
+    expect(await cache.get(key, now)).toEqual(contributions);
+    expect(await cache.get(key, later)).toBeUndefined();
+  });
+
+  it('lists entries with their expiry state', async () => {
+    await cache.set(key, contributions, null, now);
+    await cache.set({ ...key, method: 'fetchAllCommits' }, [], 1000, now);
+
+    const entries = await cache.list(later);
+
+    expect(entries).toHaveLength(2);
+    expect(entries.find((entry) => entry.key.method === 'fetchContributions')).toMatchObject({
+      expiresAt: null,
+      expired: false,
+      contributionCount: 1,
+    });
+    expect(entries.find((entry) => entry.key.method === 'fetchAllCommits')?.expired).toBe(true);
+  });
+
+  it('clears expired and unreadable entries only when asked to', async () => {
+    await cache.set(key, contributions, null, now);
+    await cache.set({ ...key, method: 'fetchAllCommits' }, [], 1000, now);
+    await writeFile(path.join(directoryPath, 'broken.json'), '{', 'utf-8');
+
+    expect(await cache.clear({ expiredOnly: true }, later)).toBe(2);
+    expect(await cache.get(key, later)).toEqual(contributions);
+    expect(await cache.clear()).toBe(1);
+    expect(await cache.list(later)).toEqual([]);
+  });
+
+  it('handles a missing cache directory', async () => {
+    const missing = new ResponseCache(path.join(directoryPath, 'missing'));
+
+    expect(await missing.get(key)).toBeUndefined();
+    expect(await missing.list()).toEqual([]);
+    expect(await missing.clear()).toBe(0);
+  });
+});
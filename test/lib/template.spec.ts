@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { compileTemplate } from '../../src/lib/template/template.js';
+import { ValidationError } from '../../src/lib/errors/validationError.js';
+
+describe('compileTemplate', () => {
+  it('inserts values by path', () => {
+    const render = compileTemplate('{{name}} has {{stats.count}} items{{missing}}');
+
+    expect(render({ name: 'team/app', stats: { count: 3 } })).toBe('team/app has 3 items');
+  });
+
+  it('loops over lists with position variables and outer values', () => {
+    const render = compileTemplate(
+      '{{#each items}}{{@number}}/{{../total}} {{this}}{{#unless @last}}, {{/unless}}{{/each}}',
+    );
+
+    expect(render({ items: ['a', 'b'], total: 2 })).toBe('1/2 a, 2/2 b');
+  });
+
+  it('looks up names in the item first, then in outer contexts', () => {
+    const render = compileTemplate('{{#each days}}{{date}} {{title}};{{/each}}');
+
+    expect(render({ title: 'Report', days: [{ date: 'Mon' }, { date: 'Tue', title: 'X' }] })).toBe(
+      'Mon Report;Tue X;',
+    );
+  });
+
+  it('renders else branches of empty lists and false conditions', () => {
+    const render = compileTemplate(
+      '{{#each items}}{{this}}{{else}}none{{/each}} {{#if flag}}yes{{else}}no{{/if}}',
+    );
+
+    expect(render({ items: [], flag: false })).toBe('none no');
+    expect(render({ items: ['a'], flag: true })).toBe('a yes');
+  });
+
+  it('leaves out lines holding only block tags and comments', () => {
+    const render = compileTemplate(
+      'List:\n{{! one per line }}\n{{#each items}}\n- {{this}}\n{{/each}}\nEnd\n',
+    );
+
+    expect(render({ items: ['a', 'b'] })).toBe('List:\n- a\n- b\nEnd\n');
+  });
+
+  it('calls helpers with paths, strings and numbers', () => {
+    const render = compileTemplate('{{repeat label 3}} {{repeat "-" 2}}', {
+      repeat: (text, times) => String(text).repeat(Number(times)),
+    });
+
+    expect(render({ label: 'ab' })).toBe('ababab --');
+  });
+
+  it('reads a single word as a value even when a helper has its name', () => {
+    const render = compileTemplate('{{date}} {{date "x"}}', {
+      date: (value) => `<${String(value)}>`,
+    });
+
+    expect(render({ date: '2025-01-06' })).toBe('2025-01-06 <x>');
+  });
+
+  it('does not treat inherited properties as values or helpers', () => {
+    const render = compileTemplate('{{constructor}}{{toString}}');
+
+    expect(render({})).toBe('');
+  });
+
+  it.each([
+    ['{{#each items}}', '{{#each}} is not closed'],
+    ['{{#if a}}{{/each}}', '{{/each}} closes {{#if}} from line 1'],
+    ['{{/if}}', '{{/if}} without an open block'],
+    ['{{else}}', '{{else}} outside of a block'],
+    ['\n{{#loop items}}{{/loop}}', 'line 2: unknown block {{#loop}}'],
+    ['{{upper name}}', 'unknown helper upper'],
+  ])('rejects %j', (source, message) => {
+    expect(() => compileTemplate(source)).toThrow(ValidationError);
+    expect(() => compileTemplate(source)).toThrow(message);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { groupDailyTimeEntries } from '../../src/lib/services/timeEntries.js';
+import { estimateWorkSessions } from '../../src/lib/services/workTimeEstimator.js';
+import type { Contribution } from '../../src/types.js';
+
+const options = { sessionGapMinutes: 120, sessionPaddingMinutes: 30 };
+
+describe('groupDailyTimeEntries', () => {
+  it('should sum work time per day and key and keep the start of the first work', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2025-01-06T09:00:00Z',
+        text: 'Fix',
+        repository: 'team/app',
+        projectId: 'APP',
+      },
+      {
+        type: 'commit',
+        timestamp: '2025-01-06T10:00:00Z',
+        text: 'Fix',
+        repository: 'team/api',
+        projectId: 'APP',
+      },
+      { type: 'commit', timestamp: '2025-01-06T10:30:00Z', repository: 'team/lib' },
+    ];
+
+    const { entries, unmapped } = groupDailyTimeEntries(
+      estimateWorkSessions(contributions, options),
+      (contribution) => contribution.projectId,
+      'UTC',
+    );
+
+    expect(entries).toEqual([
+      {
+        key: 'APP',
+        date: '2025-01-06',
+        start: '2025-01-06T08:30:00.000Z',
+        startTime: '08:30:00',
+        minutes: 90,
+        descriptions: ['Fix'],
+        repositories: ['team/app', 'team/api'],
+      },
+    ]);
+    expect(unmapped).toEqual([{ repository: 'team/lib', minutes: 30 }]);
+  });
+
+  it('should not start work before midnight of the contribution day', () => {
+    const { entries } = groupDailyTimeEntries(
+      estimateWorkSessions(
+        [{ type: 'commit', timestamp: '2025-01-07T00:10:00Z', projectId: 'APP' }],
+        options,
+      ),
+      (contribution) => contribution.projectId,
+      'UTC',
+    );
+
+    expect(entries[0]).toMatchObject({ date: '2025-01-07', start: '2025-01-07T00:00:00.000Z' });
+  });
+
+  it('should group days in the given time zone', () => {
+    const { entries } = groupDailyTimeEntries(
+      estimateWorkSessions(
+        [{ type: 'commit', timestamp: '2025-01-06T23:30:00Z', projectId: 'APP' }],
+        options,
+      ),
+      (contribution) => contribution.projectId,
+      'America/New_York',
+    );
+
+    expect(entries[0]).toMatchObject({
+      date: '2025-01-06',
+      start: '2025-01-06T23:00:00.000Z',
+      startTime: '18:00:00',
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import dayjs from 'dayjs';
+import {
+  buildCountTimesheet,
+  buildHoursTimesheet,
+  parseRoundingRule,
+  roundMinutes,
+} from '../../src/lib/services/timesheet.js';
+import { ValidationError } from '../../src/lib/errors/validationError.js';
+import type { Contribution, WorkTimeEntry } from '../../src/types.js';
+
+const from = dayjs('2025-01-06');
+const to = dayjs('2025-01-08');
+
+const entries: WorkTimeEntry[] = [
+  {
+    date: '2025-01-06',
+    projectId: 'APP',
+    repository: 'team/app',
+    minutes: 50,
+    sessions: 1,
+    contributions: 2,
+  },
+  {
+    date: '2025-01-06',
+    projectId: 'APP',
+    repository: 'team/api',
+    minutes: 20,
+    sessions: 1,
+    contributions: 1,
+  },
+  {
+    date: '2025-01-08',
+    projectId: 'OPS',
+    repository: 'team/ops',
+    minutes: 30,
+    sessions: 1,
+    contributions: 1,
+  },
+  { date: '2025-01-08', repository: 'team/lib', minutes: 45, sessions: 1, contributions: 1 },
+];
+
+describe('parseRoundingRule', () => {
+  it('should parse the increment and mode', () => {
+    expect(parseRoundingRule('15:up')).toEqual({ incrementMinutes: 15, mode: 'up' });
+    expect(parseRoundingRule('30')).toEqual({ incrementMinutes: 30, mode: 'nearest' });
+  });
+
+  it('should disable rounding for none, 0 and missing rules', () => {
+    expect(parseRoundingRule('none')).toBeUndefined();
+    expect(parseRoundingRule('0')).toBeUndefined();
+    expect(parseRoundingRule(undefined)).toBeUndefined();
+  });
+
+  it('should reject malformed rules', () => {
+    expect(() => parseRoundingRule('15:sideways')).toThrow(ValidationError);
+    expect(() => parseRoundingRule('-15')).toThrow('Invalid rounding rule: -15');
+    expect(() => parseRoundingRule('quarter')).toThrow(ValidationError);
+  });
+});
+
+describe('roundMinutes', () => {
+  it('should round to the increment in the given mode', () => {
+    expect(roundMinutes(70, { incrementMinutes: 15, mode: 'up' })).toBe(75);
+    expect(roundMinutes(70, { incrementMinutes: 15, mode: 'down' })).toBe(60);
+    expect(roundMinutes(70, { incrementMinutes: 15, mode: 'nearest' })).toBe(75);
+    expect(roundMinutes(45, { incrementMinutes: 15, mode: 'up' })).toBe(45);
+    expect(roundMinutes(70, undefined)).toBe(70);
+  });
+});
+
+describe('buildHoursTimesheet', () => {
+  it('should sum minutes per day and project ID and list every day of the range', () => {
+    const timesheet = buildHoursTimesheet(entries, from, to);
+
+    expect(timesheet.unit).toBe('hours');
+    expect(timesheet.dates).toEqual(['2025-01-06', '2025-01-07', '2025-01-08']);
+    expect(timesheet.projectIds).toEqual(['APP', 'OPS']);
+    expect(timesheet.cells).toEqual({ '2025-01-06': { APP: 70 }, '2025-01-08': { OPS: 30 } });
+    expect(timesheet.totals).toEqual({
+      byDate: { '2025-01-06': 70, '2025-01-07': 0, '2025-01-08': 30 },
+      byProjectId: { APP: 70, OPS: 30 },
+      total: 100,
+    });
+  });
+
+  it('should round every cell before totals are computed', () => {
+    const timesheet = buildHoursTimesheet(entries, from, to, { incrementMinutes: 60, mode: 'up' });
+
+    expect(timesheet.rounding).toEqual({ incrementMinutes: 60, mode: 'up' });
+    expect(timesheet.cells).toEqual({ '2025-01-06': { APP: 120 }, '2025-01-08': { OPS: 60 } });
+    expect(timesheet.totals.total).toBe(180);
+  });
+
+  it('should list work time without a project ID per repository instead of in the matrix', () => {
+    const timesheet = buildHoursTimesheet(entries, from, to);
+
+    expect(timesheet.unmapped).toEqual([{ repository: 'team/lib', value: 45 }]);
+  });
+});
+
+describe('buildCountTimesheet', () => {
+  it('should count contributions per day and project ID', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2025-01-06T23:30:00Z',
+        repository: 'team/app',
+        projectId: 'APP',
+      },
+      { type: 'pr', timestamp: '2025-01-07T08:00:00Z', repository: 'team/app', projectId: 'APP' },
+      { type: 'review', timestamp: '2025-01-07T09:00:00Z', repository: 'team/lib' },
+    ];
+
+    const timesheet = buildCountTimesheet(contributions, from, to, 'UTC');
+
+    expect(timesheet.unit).toBe('count');
+    expect(timesheet.rounding).toBeUndefined();
+    expect(timesheet.cells).toEqual({ '2025-01-06': { APP: 1 }, '2025-01-07': { APP: 1 } });
+    expect(timesheet.totals.total).toBe(2);
+    expect(timesheet.unmapped).toEqual([{ repository: 'team/lib', value: 1 }]);
+  });
+
+  it('should count contributions on the days of the configured time zone', () => {
+    const contributions: Contribution[] = [
+      {
+        type: 'commit',
+        timestamp: '2025-01-06T23:30:00Z',
+        repository: 'team/app',
+        projectId: 'APP',
+      },
+    ];
+
+    const timesheet = buildCountTimesheet(contributions, from, to, 'Europe/Berlin');
+
+    expect(timesheet.cells).toEqual({ '2025-01-07': { APP: 1 } });
+  });
+});
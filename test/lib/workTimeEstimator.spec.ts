@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateWorkSessions,
+  resolveWorkTimeOptions,
+  summarizeWorkTime,
+} from '../../src/lib/services/workTimeEstimator.js';
+import { ValidationError } from '../../src/lib/errors/validationError.js';
+import type { Contribution } from '../../src/types.js';
+
+const options = { sessionGapMinutes: 120, sessionPaddingMinutes: 30 };
+
+const contributions: Contribution[] = [
+  { type: 'commit', timestamp: '2025-01-06T10:00:00Z', repository: 'team/app', projectId: 'APP' },
+  { type: 'commit', timestamp: '2025-01-06T09:00:00Z', repository: 'team/app', projectId: 'APP' },
+  { type: 'review', timestamp: '2025-01-06T10:45:00Z', repository: 'team/lib' },
+  { type: 'pr', timestamp: '2025-01-06T15:00:00Z', repository: 'team/app', projectId: 'APP' },
+];
+
+describe('resolveWorkTimeOptions', () => {
+  it('should prefer command line overrides over the configuration and defaults', () => {
+    expect(
+      resolveWorkTimeOptions({ sessionGapMinutes: 90 }, { sessionPaddingMinutes: 15 }),
+    ).toEqual({ sessionGapMinutes: 90, sessionPaddingMinutes: 15 });
+    expect(resolveWorkTimeOptions()).toEqual({ sessionGapMinutes: 120, sessionPaddingMinutes: 30 });
+  });
+
+  it('should reject negative and invalid settings', () => {
+    expect(() => resolveWorkTimeOptions({ sessionGapMinutes: -1 })).toThrow(ValidationError);
+    expect(() => resolveWorkTimeOptions({}, { sessionPaddingMinutes: Number('abc') })).toThrow(
+      'Invalid work time setting sessionPaddingMinutes: NaN',
+    );
+  });
+});
+
+describe('estimateWorkSessions', () => {
+  it('should start a new session after a pause longer than the gap', () => {
+    const sessions = estimateWorkSessions(contributions, options);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatchObject({
+      start: '2025-01-06T08:30:00.000Z',
+      end: '2025-01-06T10:45:00Z',
+      minutes: 135,
+    });
+    expect(sessions[1]).toMatchObject({ end: '2025-01-06T15:00:00Z', minutes: 30 });
+  });
+
+  it('should attribute the time since the previous contribution to the later one', () => {
+    const [session] = estimateWorkSessions(contributions, options);
+
+    expect(
+      session.contributions.map(({ contribution, minutes }) => [contribution.timestamp, minutes]),
+    ).toEqual([
+      ['2025-01-06T09:00:00Z', 30],
+      ['2025-01-06T10:00:00Z', 60],
+      ['2025-01-06T10:45:00Z', 45],
+    ]);
+  });
+
+  it('should skip merge events', () => {
+    const sessions = estimateWorkSessions(
+      [{ type: 'merge', timestamp: '2025-01-06T12:00:00Z', repository: 'team/app' }],
+      options,
+    );
+
+    expect(sessions).toEqual([]);
+  });
+});
+
+describe('summarizeWorkTime', () => {
+  it('should sum the work time per day, project ID and repository', () => {
+    const entries = summarizeWorkTime(estimateWorkSessions(contributions, options), 'UTC');
+
+    expect(entries).toEqual([
+      { date: '2025-01-06', repository: 'team/lib', minutes: 45, sessions: 1, contributions: 1 },
+      {
+        date: '2025-01-06',
+        projectId: 'APP',
+        repository: 'team/app',
+        minutes: 120,
+        sessions: 2,
+        contributions: 3,
+      },
+    ]);
+  });
+
+  it('should put the work time on the days of the configured time zone', () => {
+    const evening: Contribution[] = [
+      { type: 'commit', timestamp: '2025-01-06T22:30:00Z', repository: 'team/app' },
+      { type: 'commit', timestamp: '2025-01-06T23:30:00Z', repository: 'team/app' },
+    ];
+    const sessions = estimateWorkSessions(evening, options);
+
+    expect(summarizeWorkTime(sessions, 'UTC').map((entry) => entry.date)).toEqual(['2025-01-06']);
+    expect(summarizeWorkTime(sessions, 'Europe/Berlin')).toEqual([
+      { date: '2025-01-06', repository: 'team/app', minutes: 30, sessions: 1, contributions: 1 },
+      { date: '2025-01-07', repository: 'team/app', minutes: 60, sessions: 1, contributions: 1 },
+    ]);
+  });
+
+  it('should reject unknown time zones', () => {
+    expect(() => summarizeWorkTime([], 'Mars/Olympus')).toThrow('Unknown time zone: Mars/Olympus');
+  });
+});